@@ -0,0 +1,146 @@
+"use client";
+
+import { useState } from 'react';
+import { calculateEffectiveRelaxationTime, isValidLossPerFlip } from '@/lib/he3';
+import type { AfpCycleParams, Params } from './types';
+import { toAfpParams } from './calculation';
+import { useI18n } from './i18n';
+
+interface AfpInputProps {
+  tempParams: Params;                        // 入力フォームの一時値
+  onChange: (tempParams: Params) => void;    // 一時値の更新
+  duration: number;                          // 実効 T1 を平均する期間（h、He-3 グラフの X 最大）
+}
+
+// 反転時刻の一覧（カンマ・空白区切り）を読む。読めない値は無視
+function parseTimes(text: string): number[] {
+  return text
+    .split(/[,;\s]+/)
+    .filter(item => item !== '')
+    .map(Number)
+    .filter(Number.isFinite);
+}
+
+// AFP NMR によるスピン反転と反転ごとの偏極損失の入力欄
+export default function AfpInput({ tempParams, onChange, duration }: AfpInputProps) {
+  const { t, formatNumber } = useI18n();
+  const afpParams = tempParams.afpParams;
+  const [timesText, setTimesText] = useState(afpParams.times.join(', '));  // 入力途中の文字列を保つ
+  const displayedTimes = parseTimes(timesText).join(',') === afpParams.times.join(',')
+    ? timesText
+    : afpParams.times.join(', ');                                            // 外部から変わった場合（リンク・シナリオの読み込み）
+
+  // AFP パラメータの一部を更新
+  const update = (next: Partial<AfpCycleParams>) => {
+    onChange({ ...tempParams, afpParams: { ...afpParams, ...next } });
+  };
+
+  // 数値入力（空・不正は 0。損失は 0 以上 100 % 未満の値だけ反映）
+  const numberInput = (key: 'interval' | 'lossPerFlip', label: string) => (
+    <div className="flex items-center space-x-2 pl-4">
+      <label className="text-sm font-medium text-gray-700 w-44">
+        {label}
+      </label>
+      <input
+        type="number"
+        step="any"
+        value={afpParams[key]}
+        onChange={(e) => {
+          const parsed = e.target.value === '' ? 0 : parseFloat(e.target.value);
+          const value = isNaN(parsed) ? 0 : parsed;
+          if (key === 'lossPerFlip' && !isValidLossPerFlip(value)) return;
+          update({ [key]: value });
+        }}
+        className="w-24 rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+      />
+    </div>
+  );
+
+  const effectiveRelaxationTime = calculateEffectiveRelaxationTime(
+    tempParams.relaxationTimeConstant,
+    toAfpParams(afpParams),
+    duration
+  );
+
+  return (
+    <>
+      <div className="flex items-center space-x-2">
+        <label className="text-sm font-medium text-gray-700 w-48">
+          {t('afp.title')}
+        </label>
+        <label className="inline-flex items-center">
+          <input
+            type="checkbox"
+            className="form-checkbox h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-gray-300"
+            checked={afpParams.enabled}
+            onChange={(e) => update({ enabled: e.target.checked })}
+          />
+          <span className="ml-2 text-sm text-gray-700">
+            {t('afp.include')}
+          </span>
+        </label>
+      </div>
+
+      {afpParams.enabled && (
+        <>
+          <div className="flex items-center space-x-2 pl-4">
+            <label className="text-sm font-medium text-gray-700 w-44">
+              {t('afp.schedule')}
+            </label>
+            <select
+              value={afpParams.scheduleType}
+              onChange={(e) => update({ scheduleType: e.target.value as AfpCycleParams['scheduleType'] })}
+              className="rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+            >
+              <option value="interval">{t('afp.everyInterval')}</option>
+              <option value="list">{t('afp.listOfTimes')}</option>
+            </select>
+          </div>
+          {afpParams.scheduleType === 'interval' ? (
+            numberInput('interval', t('afp.interval'))
+          ) : (
+            <div className="flex items-center space-x-2 pl-4">
+              <label className="text-sm font-medium text-gray-700 w-44">
+                {t('afp.times')}
+              </label>
+              <input
+                type="text"
+                value={displayedTimes}
+                placeholder={t('afp.timesPlaceholder')}
+                onChange={(e) => {
+                  setTimesText(e.target.value);
+                  update({ times: parseTimes(e.target.value) });
+                }}
+                className="w-44 rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+              />
+            </div>
+          )}
+          {numberInput('lossPerFlip', t('afp.lossPerFlip'))}
+          <div className="flex items-center space-x-2 pl-4">
+            <label className="text-sm font-medium text-gray-700 w-44">
+              {t('afp.sign')}
+            </label>
+            <label className="inline-flex items-center">
+              <input
+                type="checkbox"
+                className="form-checkbox h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-gray-300"
+                checked={afpParams.showSign}
+                onChange={(e) => update({ showSign: e.target.checked })}
+              />
+              <span className="ml-2 text-sm text-gray-700">
+                {t('afp.showSign')}
+              </span>
+            </label>
+          </div>
+          <p className="text-sm text-gray-500 pl-4">
+            {t('afp.effectiveT1', {
+              value: Number.isFinite(effectiveRelaxationTime) ? t('common.hours', { value: formatNumber(effectiveRelaxationTime) }) : '∞'
+            })}
+            {afpParams.scheduleType === 'list' && t('afp.averagedOver', { duration })}
+            {t('afp.countedFromDecay')}
+          </p>
+        </>
+      )}
+    </>
+  );
+}
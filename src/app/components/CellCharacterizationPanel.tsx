@@ -0,0 +1,160 @@
+"use client";
+
+import { useState } from 'react';
+import { parseTransmissionSpectrum } from '@/lib/he3';
+import type { TransmissionFitResult } from '@/lib/he3';
+import type { MeasuredSpectra } from './types';
+import { useI18n } from './i18n';
+
+type SpectrumKey = keyof MeasuredSpectra;
+
+interface CellCharacterizationPanelProps {
+  spectra: MeasuredSpectra;                                // 読み込んだ透過率スペクトル
+  onChange: (spectra: MeasuredSpectra) => void;            // スペクトルの変更
+  thicknessFit: TransmissionFitResult | null;              // 非偏極データからのガス厚さ
+  polarizationFit: TransmissionFitResult | null;           // 偏極データからの He-3 偏極度
+  onApplyThickness: (gasThickness: number) => void;        // 厚さを Neutron パラメータへ反映
+  onApplyPolarization: (he3Polarization: number) => void;  // 偏極度を Neutron パラメータへ反映
+}
+
+// フィット結果の1行（値 ± 誤差と χ²/dof）
+function FitSummary({ label, unit, fit, digits }: {
+  label: string;
+  unit: string;
+  fit: TransmissionFitResult;
+  digits: number;
+}) {
+  const { t, formatNumber } = useI18n();
+  return (
+    <div>
+      <span className="block font-medium">{label}</span>
+      {formatNumber(fit.value, digits)} ± {formatNumber(fit.error, digits)} {unit}
+      <span className="block text-gray-500">
+        χ²/dof = {formatNumber(fit.reducedChiSquared, 2)}{!fit.weighted && t('characterization.unweighted')}
+      </span>
+    </div>
+  );
+}
+
+// 波長分解した透過率（非偏極・偏極）からガス厚さと He-3 偏極度を求めるパネル
+export default function CellCharacterizationPanel({
+  spectra,
+  onChange,
+  thicknessFit,
+  polarizationFit,
+  onApplyThickness,
+  onApplyPolarization
+}: CellCharacterizationPanelProps) {
+  const { t } = useI18n();
+  const [isFraction, setIsFraction] = useState(false);  // 透過率を 0–1 の割合で与えるか
+  const [fileError, setFileError] = useState(false);    // 読める行がなかったか
+
+  // スペクトルファイルの読み込み（割合なら % に直す）
+  const handleFile = async (key: SpectrumKey, file: File) => {
+    const scale = isFraction ? 100 : 1;
+    const points = parseTransmissionSpectrum(await file.text()).map(point => ({
+      ...point,
+      transmission: point.transmission * scale,
+      uncertainty: point.uncertainty * scale
+    }));
+    if (points.length < 2) {
+      setFileError(true);
+      return;
+    }
+    setFileError(false);
+    onChange({ ...spectra, [key]: points });
+  };
+
+  const fileFields: { key: SpectrumKey; label: string }[] = [
+    { key: 'unpolarized', label: t('characterization.unpolarizedFile') },
+    { key: 'polarized', label: t('characterization.polarizedFile') }
+  ];
+
+  return (
+    <div className="mb-6 border-t border-gray-200 pt-4">
+      <h3 className="text-lg font-semibold mb-3">{t('neutron.characterization')}</h3>
+      <div className="flex gap-8">
+        {/* 左：スペクトルの読み込み */}
+        <div className="flex-1 grid grid-cols-1 gap-4">
+          <div className="flex items-center space-x-2">
+            <label className="text-sm font-medium text-gray-700 w-48">
+              {t('characterization.unit')}
+            </label>
+            <select
+              value={isFraction ? 'fraction' : 'percent'}
+              onChange={(e) => setIsFraction(e.target.value === 'fraction')}
+              className="rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+            >
+              <option value="percent">%</option>
+              <option value="fraction">{t('characterization.fraction')}</option>
+            </select>
+          </div>
+          {fileFields.map(field => (
+            <div key={field.key} className="flex items-center space-x-2">
+              <label className="text-sm font-medium text-gray-700 w-48">
+                {field.label}
+              </label>
+              <input
+                type="file"
+                accept=".csv,.txt,.dat"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) handleFile(field.key, file);
+                }}
+                className="text-sm text-gray-700"
+              />
+              {spectra[field.key] && (
+                <span className="text-sm text-gray-500">
+                  {t('spectrum.points', { count: spectra[field.key]!.length })}
+                  <button
+                    onClick={() => onChange({ ...spectra, [field.key]: null })}
+                    className="ml-2 text-red-600 hover:text-red-800"
+                  >
+                    {t('decayFit.clear')}
+                  </button>
+                </span>
+              )}
+            </div>
+          ))}
+          {fileError && <p className="text-sm text-red-600">{t('characterization.noRows')}</p>}
+          <p className="text-sm text-gray-500">
+            {t('characterization.windowHint')}
+            {!thicknessFit && t('characterization.thicknessHint')}
+          </p>
+        </div>
+
+        {/* 右：フィット結果 */}
+        <div className="flex-1">
+          {thicknessFit || polarizationFit ? (
+            <div className="grid grid-cols-2 gap-4 text-sm text-gray-700">
+              {thicknessFit && (
+                <div>
+                  <FitSummary label={t('characterization.gasThickness')} unit="amg cm" fit={thicknessFit} digits={3} />
+                  <button
+                    onClick={() => onApplyThickness(Number(thicknessFit.value.toFixed(3)))}
+                    className="mt-2 px-3 py-1 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2"
+                  >
+                    {t('characterization.useThickness')}
+                  </button>
+                </div>
+              )}
+              {polarizationFit && (
+                <div>
+                  <FitSummary label={t('series.he3Polarization')} unit="%" fit={polarizationFit} digits={2} />
+                  <button
+                    onClick={() => onApplyPolarization(Number(polarizationFit.value.toFixed(2)))}
+                    className="mt-2 px-3 py-1 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2"
+                  >
+                    {t('characterization.usePolarization')}
+                  </button>
+                </div>
+              )}
+            </div>
+          ) : (
+            <p className="text-sm text-gray-500">{t('characterization.loadHint')}</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
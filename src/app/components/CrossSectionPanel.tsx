@@ -0,0 +1,161 @@
+"use client";
+
+import { useState } from 'react';
+import {
+  calculateCrossSection,
+  energyToWavelength,
+  isValidCrossSectionTable,
+  parseCrossSectionTable
+} from '@/lib/he3';
+import type { CrossSectionParams } from './types';
+import { DEFAULT_PARAMS } from './defaults';
+import { toCrossSectionSettings } from './calculation';
+import { useI18n } from './i18n';
+
+interface CrossSectionPanelProps {
+  crossSection: CrossSectionParams;                  // 現在の設定
+  energy: number;                                    // 代表エネルギー（meV、確認用の σ 表示）
+  onApply: (crossSection: CrossSectionParams) => void; // 設定を確定
+}
+
+// モデルの選択肢（名前は Functions タブと共通のメッセージ）
+const CROSS_SECTION_MODELS: CrossSectionParams['model'][] = ['linear', 'exact', 'table'];
+
+// 吸収断面積モデルと物理定数の編集パネル
+export default function CrossSectionPanel({ crossSection, energy, onApply }: CrossSectionPanelProps) {
+  const { t, formatNumber } = useI18n();
+  const [draft, setDraft] = useState<CrossSectionParams>(crossSection);  // 確定前の値
+  const [energyUnit, setEnergyUnit] = useState<'meV' | 'eV'>('eV');     // テーブルの E 列の単位
+  const [fileError, setFileError] = useState(false);  // 読める行がなかったか
+
+  const update = (next: Partial<CrossSectionParams>) => setDraft({ ...draft, ...next });
+
+  // σ(E) テーブルの読み込み（E は meV に換算して保持）
+  const handleFile = async (file: File) => {
+    const points = parseCrossSectionTable(await file.text(), energyUnit === 'eV' ? 1000 : 1);
+    const tableEnergies = points.map(point => point.energy);
+    const tableCrossSections = points.map(point => point.crossSection);
+    if (!isValidCrossSectionTable(tableEnergies, tableCrossSections)) {
+      setFileError(true);
+      return;
+    }
+    setFileError(false);
+    update({ model: 'table', tableEnergies, tableCrossSections });
+  };
+
+  const hasTable = isValidCrossSectionTable(draft.tableEnergies, draft.tableCrossSections);
+  const isValid = draft.sigma0 > 0 && draft.lambda0 > 0 && draft.numberDensity > 0 && (draft.model !== 'table' || hasTable);
+  const preview = isValid ? toCrossSectionSettings(draft) : null;
+  const fields: { key: 'sigma0' | 'lambda0' | 'numberDensity'; label: string; disabled: boolean }[] = [
+    { key: 'sigma0', label: t('crossSectionPanel.sigma0'), disabled: draft.model === 'table' },
+    { key: 'lambda0', label: t('crossSectionPanel.lambda0'), disabled: draft.model !== 'linear' },
+    { key: 'numberDensity', label: t('crossSectionPanel.numberDensity'), disabled: false }
+  ];
+
+  return (
+    <div className="mt-6 border-t border-gray-200 pt-4">
+      <h3 className="text-lg font-semibold mb-3">{t('crossSectionPanel.title')}</h3>
+      <div className="flex gap-8">
+        {/* 左：モデルと定数 */}
+        <div className="flex-1 grid grid-cols-1 gap-4">
+          <div className="flex items-center space-x-2">
+            <label className="text-sm font-medium text-gray-700 w-56">
+              {t('crossSectionPanel.model')}
+            </label>
+            <select
+              value={draft.model}
+              onChange={(e) => update({ model: e.target.value as CrossSectionParams['model'] })}
+              className="rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+            >
+              {CROSS_SECTION_MODELS.map(model => (
+                <option key={model} value={model}>{t(`crossSection.${model}`)}</option>
+              ))}
+            </select>
+          </div>
+          {fields.map(field => (
+            <div key={field.key} className="flex items-center space-x-2">
+              <label className="text-sm font-medium text-gray-700 w-56">
+                {field.label}
+              </label>
+              <input
+                type="number"
+                step="any"
+                disabled={field.disabled}
+                value={draft[field.key]}
+                onChange={(e) => {
+                  const value = e.target.value === '' ? 0 : parseFloat(e.target.value);
+                  update({ [field.key]: isNaN(value) ? 0 : value });
+                }}
+                className="w-32 rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 disabled:bg-gray-100"
+              />
+            </div>
+          ))}
+          {draft.model === 'table' && (
+            <div className="flex items-center space-x-2">
+              <label className="text-sm font-medium text-gray-700 w-56">
+                {t('crossSectionPanel.table')}
+              </label>
+              <select
+                value={energyUnit}
+                onChange={(e) => setEnergyUnit(e.target.value as 'meV' | 'eV')}
+                className="rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+              >
+                <option value="eV">{t('crossSectionPanel.energyUnit', { unit: 'eV' })}</option>
+                <option value="meV">{t('crossSectionPanel.energyUnit', { unit: 'meV' })}</option>
+              </select>
+              <input
+                type="file"
+                accept=".csv,.txt,.dat"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) handleFile(file);
+                }}
+                className="text-sm text-gray-700"
+              />
+            </div>
+          )}
+          {fileError && <p className="text-sm text-red-600">{t('crossSectionPanel.noRows')}</p>}
+        </div>
+
+        {/* 右：確認と確定 */}
+        <div className="flex-1 text-sm text-gray-700 space-y-2">
+          {draft.model === 'table' && (
+            <p>
+              {hasTable
+                ? t('crossSectionPanel.tableSummary', {
+                    count: draft.tableEnergies.length,
+                    min: draft.tableEnergies[0].toPrecision(3),
+                    max: draft.tableEnergies[draft.tableEnergies.length - 1].toPrecision(3)
+                  })
+                : t('crossSectionPanel.loadTable')}
+            </p>
+          )}
+          {preview && (
+            <p>
+              σ(1.8 Å) = {formatNumber(calculateCrossSection(1.8, preview), 1)} barn,
+              σ({formatNumber(energy, 2)} meV) = {formatNumber(calculateCrossSection(energyToWavelength(energy), preview), 1)} barn
+            </p>
+          )}
+          <p className="text-gray-500">
+            {t('crossSectionPanel.scope')}
+          </p>
+          <div className="flex gap-2">
+            <button
+              disabled={!isValid}
+              onClick={() => onApply(draft)}
+              className="px-4 py-2 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 disabled:opacity-50"
+            >
+              {t('crossSectionPanel.apply')}
+            </button>
+            <button
+              onClick={() => setDraft(DEFAULT_PARAMS.crossSection)}
+              className="px-4 py-2 border border-indigo-600 text-indigo-600 rounded-md hover:bg-indigo-50"
+            >
+              {t('crossSectionPanel.reset')}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,162 @@
+"use client";
+
+import { useState } from 'react';
+import {
+  ScatterChart,
+  Scatter,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ReferenceLine,
+  ResponsiveContainer
+} from 'recharts';
+import { parseDecayMeasurements } from '@/lib/he3';
+import type { DecayFitResult } from '@/lib/he3';
+import type { MeasuredDecay } from './types';
+import { useI18n } from './i18n';
+
+interface DecayFitPanelProps {
+  measuredDecay: MeasuredDecay | null;                     // 読み込んだ測定データ（null は未読み込み）
+  onChange: (measuredDecay: MeasuredDecay | null) => void; // 測定データの変更
+  fit: DecayFitResult | null;                              // フィット結果
+  onApply: (initialPolarization: number, relaxationTime: number) => void; // P0, T1 を He-3 パラメータへ反映
+}
+
+// 測定した偏極度（NMR）または中性子透過率の時系列から P0, T1 をフィットするパネル
+export default function DecayFitPanel({ measuredDecay, onChange, fit, onApply }: DecayFitPanelProps) {
+  const { t, formatNumber } = useI18n();
+  const [quantity, setQuantity] = useState<MeasuredDecay['quantity']>(measuredDecay?.quantity ?? 'polarization');
+  const [fileError, setFileError] = useState(false);  // 読める行が足りなかったか
+
+  // CSV（時刻, 値, 誤差）の読み込み
+  const handleFile = async (file: File) => {
+    const measurements = parseDecayMeasurements(await file.text());
+    if (measurements.length < 3) {
+      setFileError(true);
+      return;
+    }
+    setFileError(false);
+    onChange({ quantity, measurements });
+  };
+
+  return (
+    <div className="mb-6 border-t border-gray-200 pt-4">
+      <h3 className="text-lg font-semibold mb-3">{t('decayFit.title')}</h3>
+      <div className="flex gap-8">
+        {/* 左：データの読み込み */}
+        <div className="flex-1 grid grid-cols-1 gap-4">
+          <div className="flex items-center space-x-2">
+            <label className="text-sm font-medium text-gray-700 w-48">
+              {t('decayFit.quantity')}
+            </label>
+            <select
+              value={quantity}
+              onChange={(e) => {
+                const nextQuantity = e.target.value as MeasuredDecay['quantity'];
+                setQuantity(nextQuantity);
+                if (measuredDecay) onChange({ ...measuredDecay, quantity: nextQuantity });
+              }}
+              className="rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+            >
+              <option value="polarization">{t('decayFit.polarization')}</option>
+              <option value="transmission">{t('decayFit.transmission')}</option>
+            </select>
+          </div>
+          <div className="flex items-center space-x-2">
+            <label className="text-sm font-medium text-gray-700 w-48">
+              {t('decayFit.file')}
+            </label>
+            <input
+              type="file"
+              accept=".csv,.txt,.dat"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) handleFile(file);
+              }}
+              className="text-sm text-gray-700"
+            />
+          </div>
+          {fileError
+            ? <p className="text-sm text-red-600">{t('decayFit.notEnoughRows')}</p>
+            : measuredDecay && (
+              <p className="text-sm text-gray-500">
+                {t('decayFit.loaded', { count: measuredDecay.measurements.length })}
+                <button
+                  onClick={() => onChange(null)}
+                  className="ml-4 text-red-600 hover:text-red-800"
+                >
+                  {t('decayFit.clear')}
+                </button>
+              </p>
+            )}
+          <p className="text-sm text-gray-500">
+            {t('decayFit.timeHint')}
+            {quantity === 'transmission' && t('decayFit.transmissionHint')}
+          </p>
+        </div>
+
+        {/* 右：フィット結果 */}
+        <div className="flex-1">
+          {fit ? (
+            <>
+              <div className="grid grid-cols-2 gap-4 text-sm text-gray-700 mb-2">
+                <div>
+                  <span className="block font-medium">P0</span>
+                  {formatNumber(fit.initialPolarization, 2)} ± {formatNumber(fit.initialPolarizationError, 2)} %
+                </div>
+                <div>
+                  <span className="block font-medium">T1</span>
+                  {t('common.hours', { value: `${formatNumber(fit.relaxationTime)} ± ${formatNumber(fit.relaxationTimeError)}` })}
+                </div>
+                <div>
+                  <span className="block font-medium">χ² / dof</span>
+                  {formatNumber(fit.chiSquared, 2)} / {fit.degreesOfFreedom} = {formatNumber(fit.reducedChiSquared, 2)}
+                </div>
+                {!fit.weighted && (
+                  <div className="text-gray-500">
+                    {t('decayFit.unweighted')}
+                  </div>
+                )}
+              </div>
+
+              {/* 残差（σ 単位） */}
+              <div className="h-[160px]">
+                <ResponsiveContainer width="100%" height="100%">
+                  <ScatterChart margin={{ top: 10, right: 10, left: 10, bottom: 10 }}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis dataKey="time" type="number" name={t('decayFit.time')} unit=" h" tickFormatter={(value) => formatNumber(value, 0)} />
+                    <YAxis
+                      dataKey={fit.weighted ? 'normalizedResidual' : 'residual'}
+                      type="number"
+                      name={t('decayFit.residual')}
+                      label={{ value: t(fit.weighted ? 'decayFit.residualSigma' : 'decayFit.residualPercent'), angle: -90, position: 'insideLeft', style: { textAnchor: 'middle' } }}
+                      tickFormatter={(value) => formatNumber(value)}
+                    />
+                    <Tooltip formatter={(value: number) => formatNumber(value, 2)} />
+                    <ReferenceLine y={0} stroke="#6b7280" />
+                    <Scatter data={fit.residuals} fill="#8884d8" isAnimationActive={false} />
+                  </ScatterChart>
+                </ResponsiveContainer>
+              </div>
+
+              <div className="flex justify-end mt-4">
+                <button
+                  onClick={() => onApply(
+                    Number(fit.initialPolarization.toFixed(2)),
+                    Number(fit.relaxationTime.toFixed(1))
+                  )}
+                  className="px-4 py-2 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2"
+                >
+                  {t('decayFit.use')}
+                </button>
+              </div>
+            </>
+          ) : (
+            <p className="text-sm text-gray-500">{t('decayFit.loadHint')}</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
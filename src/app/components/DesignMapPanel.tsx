@@ -0,0 +1,303 @@
+"use client";
+
+import { useMemo, useState } from 'react';
+import type { MouseEvent } from 'react';
+import {
+  applyWindowTransmission,
+  calculateDesignMap,
+  calculateSpinFilter,
+  calculateWindowTransmission,
+  energyToWavelength
+} from '@/lib/he3';
+import type { SpinFilterResult } from '@/lib/he3';
+import type { Params } from './types';
+import { crossSectionSettingsOf } from './calculation';
+import { useI18n } from './i18n';
+import type { MessageKey } from './i18n';
+import { axisLabel, axisName, axisUnitSymbol, axisValueToWavelength, wavelengthToAxisValue } from './axis';
+
+// 色で表す量
+type MapQuantity = keyof SpinFilterResult;
+
+const QUANTITY_LABELS: Record<MapQuantity, MessageKey> = {
+  figureOfMerit: 'designMap.figureOfMerit',
+  neutronPolarization: 'designMap.neutronPolarization',
+  neutronTransmission: 'designMap.neutronTransmission'
+};
+
+interface DesignMapPanelProps {
+  params: Params;        // 現在の計算パラメータ（P_He・窓・X軸の単位）
+  xMin: number;          // Neutron グラフの X最小（Å or meV or TOF）
+  xMax: number;          // Neutron グラフの X最大（Å or meV or TOF）
+  isLogScale: boolean;   // X軸の対数表示フラグ
+}
+
+// 描画領域（SVG の viewBox 座標）
+const VIEW_WIDTH = 800;
+const VIEW_HEIGHT = 420;
+const PLOT = { left: 70, top: 10, width: 610, height: 350 };
+const COLORBAR = { left: 700, width: 16 };
+const NUM_COLUMNS = 100;  // X 方向の分割数
+const NUM_ROWS = 60;      // 厚さ方向の分割数
+
+// viridis の代表色（0 → 1）
+const VIRIDIS = ['#440154', '#3b528b', '#21918c', '#5ec962', '#fde725'];
+
+// 0–1 の値を色に変換（代表色の間を線形補間）
+function colorAt(t: number): string {
+  const position = Math.min(1, Math.max(0, t)) * (VIRIDIS.length - 1);
+  const index = Math.min(VIRIDIS.length - 2, Math.floor(position));
+  const fraction = position - index;
+  const [from, to] = [VIRIDIS[index], VIRIDIS[index + 1]].map(hex => [1, 3, 5].map(i => parseInt(hex.slice(i, i + 2), 16)));
+  const rgb = from.map((channel, i) => Math.round(channel + (to[i] - channel) * fraction));
+  return `rgb(${rgb.join(',')})`;
+}
+
+// 区間をおよそ count 個に分ける切りのよい目盛り
+function niceTicks(min: number, max: number, count: number): number[] {
+  if (!(max > min)) return [min];
+  const rough = (max - min) / count;
+  const magnitude = Math.pow(10, Math.floor(Math.log10(rough)));
+  const step = [1, 2, 5, 10].map(n => n * magnitude).find(candidate => candidate >= rough) ?? rough;
+  const ticks: number[] = [];
+  for (let value = Math.ceil(min / step) * step; value <= max + step * 1e-6; value += step) {
+    ticks.push(Number(value.toFixed(10)));
+  }
+  return ticks;
+}
+
+// 対数軸の目盛り（1, 2, 5 × 10^n）
+function logTicks(min: number, max: number): number[] {
+  const ticks: number[] = [];
+  for (let exp = Math.floor(Math.log10(min)); exp <= Math.ceil(Math.log10(max)); exp++) {
+    [1, 2, 5].forEach(n => {
+      const value = n * Math.pow(10, exp);
+      if (value >= min && value <= max) ticks.push(value);
+    });
+  }
+  return ticks;
+}
+
+// 0–1 の位置 → X軸の値（線形 or 対数）
+function fractionToAxisValue(f: number, lo: number, hi: number, isLogScale: boolean): number {
+  return isLogScale ? lo * Math.pow(hi / lo, f) : lo + (hi - lo) * f;
+}
+
+// 波長 × ガス厚さの設計マップ（FOM / Pn / T のヒートマップと FOM 最大の尾根線）
+export default function DesignMapPanel({ params, xMin, xMax, isLogScale }: DesignMapPanelProps) {
+  const { t, formatNumber } = useI18n();
+  const [quantity, setQuantity] = useState<MapQuantity>('figureOfMerit');
+  const [thicknessRange, setThicknessRange] = useState({                       // 入力と同期させるため文字列で持つ
+    min: "0",
+    max: String(Math.ceil(params.neutronParams.gasThickness * 3))
+  });
+  const [hover, setHover] = useState<{ x: number; y: number } | null>(null);  // カーソル位置（viewBox 座標）
+
+  const he3Polarization = params.neutronParams.he3Polarization / 100;  // 0–1 に正規化
+  const windowModel = params.windowParams.enabled ? params.windowParams : undefined;
+  const xLo = isLogScale ? Math.max(0.1, xMin) : xMin;
+  const xHi = xMax > xLo ? xMax : xLo + 1;
+  const dMin = Math.max(0, Number(thicknessRange.min) || 0);
+  const dMax = Number(thicknessRange.max) > dMin ? Number(thicknessRange.max) : dMin + 1;
+
+  // 座標変換（X軸の値・厚さ ⇔ viewBox 座標）
+  const toFraction = (x: number) => isLogScale
+    ? Math.log(x / xLo) / Math.log(xHi / xLo)
+    : (x - xLo) / (xHi - xLo);
+  const xToPx = (x: number) => PLOT.left + toFraction(x) * PLOT.width;
+  const dToPx = (d: number) => PLOT.top + (1 - (d - dMin) / (dMax - dMin)) * PLOT.height;
+
+  // 格子点（セルの中心）での値
+  const map = useMemo(() => {
+    const axisValues = Array.from({ length: NUM_COLUMNS }, (_, j) => fractionToAxisValue((j + 0.5) / NUM_COLUMNS, xLo, xHi, isLogScale));
+    const thicknesses = Array.from({ length: NUM_ROWS }, (_, i) => dMin + (dMax - dMin) * (i + 0.5) / NUM_ROWS);
+    return {
+      axisValues,
+      ...calculateDesignMap(
+        axisValues.map(x => axisValueToWavelength(x, params)), thicknesses, he3Polarization, windowModel, crossSectionSettingsOf(params)
+      )
+    };
+  }, [xLo, xHi, isLogScale, dMin, dMax, params, he3Polarization, windowModel]);
+
+  // 色の範囲（Pn は 0–100 固定、T と FOM は格子内の最大値まで）
+  const maxValue = quantity === 'neutronPolarization'
+    ? 100
+    : Math.max(...map.values.flat().map(value => value[quantity]), 1e-9);
+
+  // 格子のセル（カーソル移動のたびに描き直さない）
+  const heatmap = useMemo(() => {
+    const cellWidth = PLOT.width / NUM_COLUMNS;
+    const cellHeight = PLOT.height / NUM_ROWS;
+    return (
+      <g shapeRendering="crispEdges">
+        {map.values.map((row, i) => row.map((value, j) => (
+          <rect
+            key={`${i}-${j}`}
+            x={PLOT.left + j * cellWidth}
+            y={PLOT.top + PLOT.height - (i + 1) * cellHeight}
+            width={cellWidth + 0.5}
+            height={cellHeight + 0.5}
+            fill={colorAt(value[quantity] / maxValue)}
+          />
+        )))}
+      </g>
+    );
+  }, [map, quantity, maxValue]);
+
+  // カーソル位置での正確な値
+  const hovered = hover && (() => {
+    const axisValue = fractionToAxisValue((hover.x - PLOT.left) / PLOT.width, xLo, xHi, isLogScale);
+    const gasThickness = dMin + (1 - (hover.y - PLOT.top) / PLOT.height) * (dMax - dMin);
+    const wavelength = axisValueToWavelength(axisValue, params);
+    const value = applyWindowTransmission(
+      calculateSpinFilter(wavelength, he3Polarization, gasThickness, crossSectionSettingsOf(params)),
+      windowModel ? calculateWindowTransmission(wavelength, windowModel) : 100
+    );
+    return { axisValue, gasThickness, ...value };
+  })();
+
+  const handleMouseMove = (event: MouseEvent<SVGSVGElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    const x = (event.clientX - rect.left) * VIEW_WIDTH / rect.width;
+    const y = (event.clientY - rect.top) * VIEW_HEIGHT / rect.height;
+    const inside = x >= PLOT.left && x <= PLOT.left + PLOT.width && y >= PLOT.top && y <= PLOT.top + PLOT.height;
+    setHover(inside ? { x, y } : null);
+  };
+
+  const ridgePoints = map.axisValues.map((x, j) => `${xToPx(x)},${dToPx(map.ridge[j])}`).join(' ');
+  const operatingX = wavelengthToAxisValue(energyToWavelength(params.neutronParams.energy), params);
+  const xTicks = (isLogScale ? logTicks(xLo, xHi) : niceTicks(xLo, xHi, 8)).filter(x => x >= xLo && x <= xHi);
+  const dTicks = niceTicks(dMin, dMax, 6);
+  const colorTicks = niceTicks(0, maxValue, 5);
+  const unit = axisUnitSymbol(params);
+
+  return (
+    <div className="mt-6 border-t border-gray-200 pt-4">
+      <h3 className="text-lg font-semibold mb-3">{t('neutron.designMap')}</h3>
+
+      <div className="flex items-center gap-8 mb-4">
+        <div className="flex items-center space-x-2">
+          <label className="text-sm font-medium text-gray-700">
+            {t('designMap.color')}
+          </label>
+          <select
+            value={quantity}
+            onChange={(e) => setQuantity(e.target.value as MapQuantity)}
+            className="rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+          >
+            <option value="figureOfMerit">{t('series.figureOfMerit')}</option>
+            <option value="neutronPolarization">{t('series.neutronPolarization')}</option>
+            <option value="neutronTransmission">{t('series.neutronTransmission')}</option>
+          </select>
+        </div>
+        {(['min', 'max'] as const).map(key => (
+          <div key={key} className="flex items-center space-x-2">
+            <label className="text-sm font-medium text-gray-700">
+              {t(key === 'min' ? 'designMap.thicknessMin' : 'designMap.thicknessMax')}
+            </label>
+            <input
+              type="number"
+              step="any"
+              value={thicknessRange[key]}
+              onChange={(e) => setThicknessRange({ ...thicknessRange, [key]: e.target.value })}
+              className="w-24 rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+            />
+          </div>
+        ))}
+        <span className="text-sm text-gray-500">
+          P<sub>He</sub> = {formatNumber(params.neutronParams.he3Polarization)} %{windowModel && t('designMap.windowIncluded')}
+        </span>
+      </div>
+
+      <svg
+        viewBox={`0 0 ${VIEW_WIDTH} ${VIEW_HEIGHT}`}
+        className="w-full h-auto select-none"
+        onMouseMove={handleMouseMove}
+        onMouseLeave={() => setHover(null)}
+      >
+        <defs>
+          <clipPath id="design-map-plot">
+            <rect x={PLOT.left} y={PLOT.top} width={PLOT.width} height={PLOT.height} />
+          </clipPath>
+          <linearGradient id="design-map-colorbar" x1="0" y1="1" x2="0" y2="0">
+            {VIRIDIS.map((color, i) => <stop key={color} offset={i / (VIRIDIS.length - 1)} stopColor={color} />)}
+          </linearGradient>
+        </defs>
+
+        {/* ヒートマップ（行 i は下から） */}
+        {heatmap}
+
+        {/* FOM 最大の尾根線と現在の動作点 */}
+        <g clipPath="url(#design-map-plot)">
+          <polyline points={ridgePoints} fill="none" stroke="#ffffff" strokeWidth={2} strokeDasharray="6 3" />
+          <circle cx={xToPx(operatingX)} cy={dToPx(params.neutronParams.gasThickness)} r={5} fill="none" stroke="#ef4444" strokeWidth={2} />
+        </g>
+
+        {/* 軸 */}
+        <rect x={PLOT.left} y={PLOT.top} width={PLOT.width} height={PLOT.height} fill="none" stroke="#374151" />
+        {xTicks.map(x => (
+          <g key={x} transform={`translate(${xToPx(x)},${PLOT.top + PLOT.height})`}>
+            <line y2={5} stroke="#374151" />
+            <text y={18} textAnchor="middle" fontSize={12} fill="#374151">{Number(x.toPrecision(4))}</text>
+          </g>
+        ))}
+        {dTicks.map(d => (
+          <g key={d} transform={`translate(${PLOT.left},${dToPx(d)})`}>
+            <line x2={-5} stroke="#374151" />
+            <text x={-8} dominantBaseline="central" textAnchor="end" fontSize={12} fill="#374151">{d}</text>
+          </g>
+        ))}
+        <text x={PLOT.left + PLOT.width / 2} y={VIEW_HEIGHT - 22} textAnchor="middle" fontSize={14} fill="#374151">
+          {axisLabel(params, t)}
+        </text>
+        <text
+          transform={`translate(18,${PLOT.top + PLOT.height / 2}) rotate(-90)`}
+          textAnchor="middle"
+          fontSize={14}
+          fill="#374151"
+        >
+          {t('common.gasThickness')}
+        </text>
+
+        {/* 凡例（線）とカラーバー */}
+        <g transform={`translate(${PLOT.left},${VIEW_HEIGHT - 8})`} fontSize={12} fill="#374151">
+          <line x1={0} y1={-4} x2={24} y2={-4} stroke="#6b7280" strokeWidth={2} strokeDasharray="6 3" />
+          <text x={30}>{t('designMap.ridge')}</text>
+          <circle cx={220} cy={-4} r={5} fill="none" stroke="#ef4444" strokeWidth={2} />
+          <text x={230}>{t('designMap.currentCell')}</text>
+        </g>
+        <rect x={COLORBAR.left} y={PLOT.top} width={COLORBAR.width} height={PLOT.height} fill="url(#design-map-colorbar)" />
+        {colorTicks.map(value => (
+          <g key={value} transform={`translate(${COLORBAR.left + COLORBAR.width},${PLOT.top + PLOT.height * (1 - value / maxValue)})`}>
+            <line x2={4} stroke="#374151" />
+            <text x={7} dominantBaseline="central" fontSize={12} fill="#374151">{value}</text>
+          </g>
+        ))}
+        <text
+          transform={`translate(${VIEW_WIDTH - 12},${PLOT.top + PLOT.height / 2}) rotate(-90)`}
+          textAnchor="middle"
+          fontSize={13}
+          fill="#374151"
+        >
+          {t(QUANTITY_LABELS[quantity])}
+        </text>
+
+        {/* カーソル位置の値 */}
+        {hover && hovered && (
+          <g
+            transform={`translate(${hover.x + (hover.x > PLOT.left + PLOT.width - 200 ? -196 : 12)},${Math.min(hover.y + 12, PLOT.top + PLOT.height - 84)})`}
+            pointerEvents="none"
+            fontSize={12}
+            fill="#111827"
+          >
+            <rect width={184} height={80} rx={4} fill="#ffffff" fillOpacity={0.92} stroke="#9ca3af" />
+            <text x={8} y={16}>{axisName(params, t)}: {formatNumber(hovered.axisValue, 3)} {unit}</text>
+            <text x={8} y={32}>{t('designMap.hoverThickness', { value: formatNumber(hovered.gasThickness, 2) })}</text>
+            <text x={8} y={48}>Pn: {formatNumber(hovered.neutronPolarization, 2)} %, Tn: {formatNumber(hovered.neutronTransmission, 2)} %</text>
+            <text x={8} y={64}>FOM: {formatNumber(hovered.figureOfMerit, 3)} %</text>
+          </g>
+        )}
+      </svg>
+    </div>
+  );
+}
@@ -0,0 +1,43 @@
+"use client";
+
+import type { DataPoint, Params } from './types';
+import { formatDataCsv, formatDataJson } from './exportData';
+import { downloadText } from './download';
+import { useI18n } from './i18n';
+
+interface ExportButtonsProps {
+  series: string;     // 系列名（ファイル名にも使う）
+  data: DataPoint[];  // 書き出すデータ
+  params: Params;     // データの計算に使ったパラメータ
+  onExportFigure?: () => void;  // 図の書き出しパネルを開く（SVG / PNG）
+}
+
+// グラフデータを CSV / JSON でダウンロードするボタン（図の書き出しパネルを開くボタンも置ける）
+export default function ExportButtons({ series, data, params, onExportFigure }: ExportButtonsProps) {
+  const { t } = useI18n();
+  const buttonClass = "px-3 py-1 text-sm border border-indigo-600 text-indigo-600 rounded-md hover:bg-indigo-50 disabled:opacity-50";
+
+  return (
+    <div className="flex justify-end gap-2 mb-2">
+      <button
+        disabled={data.length === 0}
+        onClick={() => downloadText(`${series}.csv`, formatDataCsv(series, data, params), 'text/csv')}
+        className={buttonClass}
+      >
+        {t('export.csv')}
+      </button>
+      <button
+        disabled={data.length === 0}
+        onClick={() => downloadText(`${series}.json`, formatDataJson(series, data, params), 'application/json')}
+        className={buttonClass}
+      >
+        {t('export.json')}
+      </button>
+      {onExportFigure && (
+        <button disabled={data.length === 0} onClick={onExportFigure} className={buttonClass}>
+          {t('export.figure')}
+        </button>
+      )}
+    </div>
+  );
+}
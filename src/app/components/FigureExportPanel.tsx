@@ -0,0 +1,400 @@
+"use client";
+
+import 'katex/dist/katex.min.css';
+import { useRef, useState } from 'react';
+import { CartesianGrid, Customized, Label, Line, LineChart, XAxis, YAxis } from 'recharts';
+import type { FigureSeries, FigureStyle, LegendPosition } from './figureExport';
+import {
+  DEFAULT_FIGURE_STYLE,
+  FONT_FAMILIES,
+  collectKatexCss,
+  hasMath,
+  labelToHtml,
+  serializeFigure,
+  svgToPng
+} from './figureExport';
+import { downloadBlob, downloadText } from './download';
+import { useI18n } from './i18n';
+
+interface FigureExportPanelProps {
+  series: string;                        // 系列名（ファイル名に使う）
+  data: Record<string, number>[];        // グラフのデータ
+  lines: FigureSeries[];                 // 描ける系列
+  xKey: string;                          // X軸のキー
+  xScale: 'linear' | 'log';              // X軸のスケール
+  xDomain: [number, number];             // X軸の範囲
+  yDomain: [number, number];             // Y軸の範囲
+  xTicks?: number[];                     // X軸の目盛り
+  yTicks?: number[];                     // Y軸の目盛り
+  defaultXLabel: string;                 // X軸ラベルの既定値
+  defaultYLabel: string;                 // Y軸ラベルの既定値
+  onClose: () => void;                   // パネルを閉じる
+}
+
+// 凡例の各項目の位置（凡例の左上からの相対位置）と全体の大きさ
+function legendLayout(lines: FigureSeries[], style: FigureStyle, maxWidth: number) {
+  const rowHeight = style.fontSize * 1.5;
+  const itemWidth = (line: FigureSeries) => 34 + line.name.length * style.fontSize * 0.55;  // 線 28 px＋間隔＋文字幅の概算
+  const vertical = style.legendPosition === 'right' || style.legendPosition === 'inside';
+  const items: { line: FigureSeries; x: number; y: number }[] = [];
+  let x = 0;
+  let y = 0;
+  let width = 0;
+  for (const line of lines) {
+    const w = itemWidth(line);
+    if (vertical) {
+      items.push({ line, x: 0, y });
+      y += rowHeight;
+      width = Math.max(width, w);
+    } else {
+      if (x > 0 && x + w > maxWidth) {  // 折り返し
+        x = 0;
+        y += rowHeight;
+      }
+      items.push({ line, x, y });
+      x += w + 12;
+      width = Math.max(width, x - 12);
+    }
+  }
+  const height = lines.length === 0 ? 0 : vertical ? y : y + rowHeight;
+  return { items, width, height, rowHeight };
+}
+
+// 凡例（SVG 内に描く。recharts の Legend は HTML のため書き出しに含まれない）
+function FigureLegend({ layout, originX, originY, style, boxed }: {
+  layout: ReturnType<typeof legendLayout>;
+  originX: number;
+  originY: number;
+  style: FigureStyle;
+  boxed: boolean;
+}) {
+  return (
+    <g className="figure-legend" transform={`translate(${originX},${originY})`}>
+      {boxed && (
+        <rect x={-6} y={-4} width={layout.width + 12} height={layout.height + 8} fill="#ffffff" stroke="#000000" strokeWidth={0.5} />
+      )}
+      {layout.items.map(({ line, x, y }) => (
+        <g key={line.key} transform={`translate(${x},${y + layout.rowHeight / 2})`}>
+          <line x1={0} y1={0} x2={28} y2={0} stroke={line.color} strokeWidth={style.lineWidth} strokeDasharray={line.strokeDasharray} />
+          <text x={34} y={0} dominantBaseline="central" fontSize={style.fontSize} fill="#000000">{line.name}</text>
+        </g>
+      ))}
+    </g>
+  );
+}
+
+// 軸ラベル（$...$ を含む場合は KaTeX を foreignObject で描く）
+function AxisLabel({ viewBox, text, axis, fontSize }: {
+  viewBox: unknown;
+  text: string;
+  axis: 'x' | 'y';
+  fontSize: number;
+}) {
+  const { x = 0, y = 0, width = 0, height = 0 } = (viewBox ?? {}) as { x?: number; y?: number; width?: number; height?: number };
+  const cx = axis === 'x' ? x + width / 2 : x + fontSize;
+  const cy = axis === 'x' ? y + height - fontSize : y + height / 2;
+  const rotate = axis === 'y' ? -90 : 0;
+  const length = axis === 'x' ? width : height;
+
+  if (!hasMath(text)) {
+    return (
+      <text x={cx} y={cy} transform={`rotate(${rotate} ${cx} ${cy})`} textAnchor="middle" dominantBaseline="central" fontSize={fontSize} fill="#000000">
+        {text}
+      </text>
+    );
+  }
+  return (
+    <g transform={`translate(${cx},${cy}) rotate(${rotate})`}>
+      <foreignObject x={-length / 2} y={-fontSize * 1.2} width={length} height={fontSize * 2.4}>
+        <div
+          style={{ display: 'flex', justifyContent: 'center', alignItems: 'center', height: '100%', fontSize, color: '#000000' }}
+          dangerouslySetInnerHTML={{ __html: labelToHtml(text) }}
+        />
+      </foreignObject>
+    </g>
+  );
+}
+
+// グラフを論文・提案書用の図（SVG / PNG）として書き出すパネル
+export default function FigureExportPanel({
+  series,
+  data,
+  lines,
+  xKey,
+  xScale,
+  xDomain,
+  yDomain,
+  xTicks,
+  yTicks,
+  defaultXLabel,
+  defaultYLabel,
+  onClose
+}: FigureExportPanelProps) {
+  const { t } = useI18n();
+  const [figureStyle, setFigureStyle] = useState<FigureStyle>({ ...DEFAULT_FIGURE_STYLE, xLabel: '', yLabel: '' });
+  const [hiddenKeys, setHiddenKeys] = useState<string[]>([]);   // 図に含めない系列
+  const [isExporting, setIsExporting] = useState(false);
+  const [exportError, setExportError] = useState<string | null>(null);
+  const chartRef = useRef<HTMLDivElement>(null);
+
+  // 空のラベルは既定値
+  const style: FigureStyle = {
+    ...figureStyle,
+    xLabel: figureStyle.xLabel || defaultXLabel,
+    yLabel: figureStyle.yLabel || defaultYLabel
+  };
+  const update = (next: Partial<FigureStyle>) => setFigureStyle({ ...figureStyle, ...next });
+
+  // 余白と凡例の配置
+  const visibleLines = lines.filter(line => !hiddenKeys.includes(line.key));
+  const legendLines = style.legendPosition === 'none' ? [] : visibleLines;
+  const layout = legendLayout(legendLines, style, style.width - 40);
+  const margin = {
+    top: 10 + (style.legendPosition === 'top' ? layout.height + 8 : 0),
+    right: 20 + (style.legendPosition === 'right' ? layout.width + 16 : 0),
+    bottom: 6 + (style.legendPosition === 'bottom' ? layout.height + 4 : 0),
+    left: 10
+  };
+  const xAxisHeight = style.fontSize * 3.2;
+  const yAxisWidth = style.fontSize * 5;
+  const plot = {
+    left: margin.left + yAxisWidth,
+    top: margin.top,
+    width: style.width - margin.left - yAxisWidth - margin.right
+  };
+  const legendOrigin = {
+    top: { x: (style.width - layout.width) / 2, y: 8 },
+    bottom: { x: (style.width - layout.width) / 2, y: style.height - layout.height - 4 },
+    right: { x: plot.left + plot.width + 16, y: plot.top },
+    inside: { x: plot.left + plot.width - layout.width - 12, y: plot.top + 10 },
+    none: { x: 0, y: 0 }
+  }[style.legendPosition];
+
+  const formatTick = (value: number) => String(Number(value.toFixed(3)));
+
+  // 書き出し（KaTeX を使うラベルがあれば CSS とフォントを埋め込む）
+  const exportFigure = async (format: 'svg' | 'png') => {
+    const svg = chartRef.current?.querySelector<SVGSVGElement>('svg.recharts-surface');
+    if (!svg) return;
+    setIsExporting(true);
+    setExportError(null);
+    try {
+      const css = hasMath(style.xLabel) || hasMath(style.yLabel) ? await collectKatexCss() : '';
+      const svgText = serializeFigure(svg, style, css);
+      if (format === 'svg') {
+        downloadText(`${series}.svg`, svgText, 'image/svg+xml');
+      } else {
+        downloadBlob(`${series}.png`, await svgToPng(svgText, style));
+      }
+    } catch (error) {
+      setExportError(t('figure.pngFailed', { message: error instanceof Error ? error.message : String(error) }));
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const numberFields: { key: 'width' | 'height' | 'fontSize' | 'lineWidth'; label: string }[] = [
+    { key: 'width', label: t('figure.width') },
+    { key: 'height', label: t('figure.height') },
+    { key: 'fontSize', label: t('figure.fontSize') },
+    { key: 'lineWidth', label: t('figure.lineWidth') }
+  ];
+  const buttonClass = "px-4 py-2 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 disabled:opacity-50";
+
+  return (
+    <div className="mb-6 border-t border-b border-gray-200 py-4">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-lg font-semibold">{t('export.figure')}</h3>
+        <button onClick={onClose} className="text-sm text-gray-600 hover:text-gray-800">
+          {t('figure.close')}
+        </button>
+      </div>
+
+      <div className="flex gap-8 mb-4">
+        {/* 左：寸法と体裁 */}
+        <div className="flex-1 grid grid-cols-1 gap-3">
+          {numberFields.map(field => (
+            <div key={field.key} className="flex items-center space-x-2">
+              <label className="text-sm font-medium text-gray-700 w-48">
+                {field.label}
+              </label>
+              <input
+                type="number"
+                step="any"
+                min="0"
+                value={figureStyle[field.key]}
+                onChange={(e) => {
+                  const value = parseFloat(e.target.value);
+                  if (value > 0) update({ [field.key]: value });  // 0 以下・空は無視
+                }}
+                className="w-24 rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+              />
+            </div>
+          ))}
+          <div className="flex items-center space-x-2">
+            <label className="text-sm font-medium text-gray-700 w-48">
+              {t('figure.font')}
+            </label>
+            <select
+              value={figureStyle.fontFamily}
+              onChange={(e) => update({ fontFamily: e.target.value })}
+              className="rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+            >
+              {FONT_FAMILIES.map(font => <option key={font.value} value={font.value}>{font.label}</option>)}
+            </select>
+          </div>
+          <div className="flex items-center space-x-2">
+            <label className="text-sm font-medium text-gray-700 w-48">
+              {t('figure.dpi')}
+            </label>
+            <select
+              value={figureStyle.dpi}
+              onChange={(e) => update({ dpi: Number(e.target.value) })}
+              className="rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+            >
+              <option value={96}>{t('figure.screenDpi')}</option>
+              <option value={150}>150 dpi</option>
+              <option value={300}>300 dpi</option>
+              <option value={600}>600 dpi</option>
+            </select>
+          </div>
+        </div>
+
+        {/* 右：ラベル・凡例・系列 */}
+        <div className="flex-1 grid grid-cols-1 gap-3 content-start">
+          {(['xLabel', 'yLabel'] as const).map(key => (
+            <div key={key} className="flex items-center space-x-2">
+              <label className="text-sm font-medium text-gray-700 w-48">
+                {key === 'xLabel' ? t('figure.xLabel') : t('figure.yLabel')}
+              </label>
+              <input
+                type="text"
+                value={figureStyle[key]}
+                placeholder={key === 'xLabel' ? defaultXLabel : defaultYLabel}
+                onChange={(e) => update({ [key]: e.target.value })}
+                className="flex-1 rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+              />
+            </div>
+          ))}
+          <p className="text-sm text-gray-500">
+            {t('figure.latexHint', { example1: '$\\lambda$ (Å)', example2: '$P_\\mathrm{n}$ (%)' })}
+          </p>
+          <div className="flex items-center space-x-2">
+            <label className="text-sm font-medium text-gray-700 w-48">
+              {t('figure.legend')}
+            </label>
+            <select
+              value={figureStyle.legendPosition}
+              onChange={(e) => update({ legendPosition: e.target.value as LegendPosition })}
+              className="rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+            >
+              <option value="top">{t('figure.legendTop')}</option>
+              <option value="bottom">{t('figure.legendBottom')}</option>
+              <option value="right">{t('figure.legendRight')}</option>
+              <option value="inside">{t('figure.legendInside')}</option>
+              <option value="none">{t('figure.legendNone')}</option>
+            </select>
+            <label className="inline-flex items-center ml-4">
+              <input
+                type="checkbox"
+                className="form-checkbox h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-gray-300"
+                checked={figureStyle.showGrid}
+                onChange={(e) => update({ showGrid: e.target.checked })}
+              />
+              <span className="ml-2 text-sm text-gray-700">{t('figure.grid')}</span>
+            </label>
+          </div>
+          <div>
+            <span className="block text-sm font-medium text-gray-700 mb-1">{t('figure.series')}</span>
+            {lines.map(line => (
+              <label key={line.key} className="flex items-center text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  className="form-checkbox h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-gray-300"
+                  checked={!hiddenKeys.includes(line.key)}
+                  onChange={() => setHiddenKeys(hiddenKeys.includes(line.key)
+                    ? hiddenKeys.filter(key => key !== line.key)
+                    : [...hiddenKeys, line.key])}
+                />
+                <svg width="32" height="8" className="mx-2">
+                  <line x1="0" y1="4" x2="32" y2="4" stroke={line.color} strokeDasharray={line.strokeDasharray} strokeWidth="2" />
+                </svg>
+                {line.name}
+              </label>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {/* プレビュー（書き出す SVG そのもの） */}
+      <div className="overflow-auto border border-gray-200 mb-4">
+        <div ref={chartRef} style={{ width: style.width, fontFamily: style.fontFamily }}>
+          <LineChart width={style.width} height={style.height} data={data} margin={margin}>
+            {style.showGrid && <CartesianGrid stroke="#d1d5db" strokeDasharray="3 3" />}
+            <XAxis
+              dataKey={xKey}
+              type="number"
+              scale={xScale === 'log' ? 'log' : 'auto'}
+              domain={xDomain}
+              ticks={xTicks}
+              allowDataOverflow={true}
+              height={xAxisHeight}
+              stroke="#000000"
+              tick={{ fontSize: style.fontSize, fill: '#000000' }}
+              tickFormatter={formatTick}
+            >
+              <Label content={(props) => <AxisLabel viewBox={props.viewBox} text={style.xLabel} axis="x" fontSize={style.fontSize} />} />
+            </XAxis>
+            <YAxis
+              domain={yDomain}
+              ticks={yTicks}
+              allowDataOverflow={true}
+              width={yAxisWidth}
+              stroke="#000000"
+              tick={{ fontSize: style.fontSize, fill: '#000000' }}
+              tickFormatter={formatTick}
+            >
+              <Label content={(props) => <AxisLabel viewBox={props.viewBox} text={style.yLabel} axis="y" fontSize={style.fontSize} />} />
+            </YAxis>
+            {visibleLines.map(line => (
+              <Line
+                key={line.key}
+                type="monotone"
+                dataKey={line.key}
+                name={line.name}
+                stroke={line.color}
+                strokeDasharray={line.strokeDasharray}
+                strokeWidth={style.lineWidth}
+                dot={false}
+                isAnimationActive={false}
+              />
+            ))}
+            {legendLines.length > 0 && (
+              <Customized
+                component={() => (  /* 要素を渡すとグラフの props（layout など）で上書きされるため関数で渡す */
+                  <FigureLegend
+                    layout={layout}
+                    originX={legendOrigin.x}
+                    originY={legendOrigin.y}
+                    style={style}
+                    boxed={style.legendPosition === 'inside'}
+                  />
+                )}
+              />
+            )}
+          </LineChart>
+        </div>
+      </div>
+
+      <div className="flex items-center gap-4">
+        <button disabled={isExporting || visibleLines.length === 0} onClick={() => exportFigure('svg')} className={buttonClass}>
+          {t('figure.downloadSvg')}
+        </button>
+        <button disabled={isExporting || visibleLines.length === 0} onClick={() => exportFigure('png')} className={buttonClass}>
+          {t('figure.downloadPng')}
+        </button>
+        {exportError && <span className="text-sm text-red-600">{exportError}</span>}
+      </div>
+    </div>
+  );
+}
@@ -1,7 +1,13 @@
 "use client";
 
+import { useEffect, useState } from 'react';
 import 'katex/dist/katex.min.css';
 import { InlineMath } from 'react-katex';
+import type { CrossSectionParams } from './types';
+import { DEFAULT_PARAMS } from './defaults';
+import { readPermalinkState } from './permalink';
+import { useI18n } from './i18n';
+import type { Translate } from './i18n';
 
 // 関数情報の型定義
 interface FunctionInfo {
@@ -11,49 +17,201 @@ interface FunctionInfo {
   parameters?: { name: string; description: string }[];
 }
 
-// 計算に使用する関数の定義
-const functions: FunctionInfo[] = [
-  {
-    // 3He偏極の時間変化を計算する関数
-    name: "He-3 Polarization",
-    formula: "P_\\mathrm{He} = P_0\\exp(-t/\\tau)",
-    parameters: [
-      { name: "P_0", description: "Initial He-3 polarization" },
-      { name: "\\tau", description: "Relaxation time constant" },
-    ]
-  },
-  {
-    // 中性子偏極度を計算する関数
-    name: "Neutron Polarization",
-    formula: "P_n = \\tanh(\\rho d \\sigma P_{\\text{He}})",
-    parameters: [
-      { name: "\\rho d", description: "He-3 gas thickness (atm cm), where ρ is the number density and d is the gas length" },
-      { name: "\\sigma", description: "Neutron absorption cross section (barn)" },
-      { name: "P_\\mathrm{He}", description: "He-3 polarization" },
-    ]
-  },
-  {
-    // 中性子透過率を計算する関数
-    name: "Neutron Transmission",
-    formula: "T_n = \\exp(-\\rho d \\sigma)\\cosh(\\rho d \\sigma P_{\\text{He}})",
-  },
-  {
-    // 性能指数を計算する関数
-    name: "Figure Of Merit",
-    formula: "\\text{FOM} = P_n^2 T_n",
+// 計算に使用する関数の定義（表示言語の文言で）
+function functionList(t: Translate): FunctionInfo[] {
+  return [
+    {
+      // 3He偏極の時間変化を計算する関数
+      name: t("fn.he3Decay"),
+      formula: "P_\\mathrm{He} = P_0\\exp(-t/\\tau)",
+      parameters: [
+        { name: "P_0", description: t("fn.he3Decay.p0") },
+        { name: "\\tau", description: t("fn.he3Decay.tau") },
+      ]
+    },
+    {
+      // 測定した時系列から P0 と τ をフィットする関数
+      name: t("fn.decayFit"),
+      formula: "\\chi^2 = \\sum_i \\left[\\frac{y_i - f(t_i; P_0, \\tau)}{\\sigma_i}\\right]^2",
+      parameters: [
+        { name: "f", description: t("fn.decayFit.f") },
+        { name: "\\sigma_i", description: t("fn.decayFit.sigma") },
+        { name: "P_0, \\tau", description: t("fn.decayFit.params") },
+      ]
+    },
+    {
+      // ポンピングによる偏極度のビルドアップを計算する関数
+      name: t("fn.buildUp"),
+      formula: "P_\\mathrm{He}(t) = P_\\infty + (P_\\mathrm{start} - P_\\infty)\\exp[-(\\gamma + \\Gamma)t]",
+      parameters: [
+        { name: "\\gamma", description: t("fn.buildUp.gamma") },
+        { name: "\\Gamma", description: t("fn.buildUp.relaxation") },
+        { name: "P_\\infty", description: t("fn.buildUp.saturation") },
+      ]
+    },
+    {
+      // 緩和時間 T1 の内訳を合算する関数
+      name: t("fn.relaxationBudget"),
+      formula: "\\frac{1}{T_1} = \\frac{[\\mathrm{He}]}{744\\,\\mathrm{h}\\cdot\\mathrm{amg}} + \\frac{1}{T_1^\\mathrm{wall}} + D\\frac{|\\nabla B_\\perp|^2}{B_0^2}",
+      parameters: [
+        { name: "[\\mathrm{He}]", description: t("fn.relaxationBudget.density") },
+        { name: "T_1^\\mathrm{wall}", description: t("fn.relaxationBudget.wall") },
+        { name: "D", description: t("fn.relaxationBudget.diffusion") },
+        { name: "|\\nabla B_\\perp| / B_0", description: t("fn.relaxationBudget.gradient") },
+      ]
+    },
+    {
+      // 中性子偏極度を計算する関数
+      name: t("fn.neutronPolarization"),
+      formula: "P_n = \\tanh(\\rho d \\sigma P_{\\text{He}})",
+      parameters: [
+        { name: "\\rho d", description: t("fn.neutronPolarization.thickness") },
+        { name: "\\sigma", description: t("fn.neutronPolarization.sigma") },
+        { name: "P_\\mathrm{He}", description: t("fn.neutronPolarization.pHe") },
+      ]
+    },
+    {
+      // セル形状からガス厚さを求める関数
+      name: t("fn.geometry"),
+      formula: "\\rho d = \\frac{p}{p_0}\\frac{T_0}{T} L",
+      parameters: [
+        { name: "p", description: t("fn.geometry.pressure") },
+        { name: "T", description: t("fn.geometry.temperature") },
+        { name: "L", description: t("fn.geometry.length") },
+      ]
+    },
+    {
+      // 中性子透過率を計算する関数
+      name: t("fn.neutronTransmission"),
+      formula: "T_n = \\exp(-\\rho d \\sigma)\\cosh(\\rho d \\sigma P_{\\text{He}})",
+    },
+    {
+      // 波長分解した透過率からガス厚さと偏極度をフィットする関数
+      name: t("fn.characterization"),
+      formula: "T_\\mathrm{unpol}(\\lambda) = \\exp[-\\rho d \\sigma(\\lambda)],\\quad T_\\mathrm{pol}(\\lambda) = \\exp[-\\rho d \\sigma(\\lambda)]\\cosh[\\rho d \\sigma(\\lambda) P_{\\text{He}}]",
+      parameters: [
+        { name: "\\rho d", description: t("fn.characterization.thickness") },
+        { name: "P_{\\text{He}}", description: t("fn.characterization.pHe") },
+      ]
+    },
+    {
+      // 性能指数を計算する関数
+      name: t("fn.figureOfMerit"),
+      formula: "\\text{FOM} = P_n^2 T_n",
+    },
+    {
+      // アナライザー効率の時間変化で SF/NSF 計数を補正する関数
+      name: t("fn.correction"),
+      formula: "I_\\mathrm{NSF} = \\frac{(1+e)N_\\mathrm{NSF} - (1-e)N_\\mathrm{SF}}{4e\\langle T_0 \\rangle},\\quad e = P_\\mathrm{pol}\\frac{\\langle T_0 A \\rangle}{\\langle T_0 \\rangle}",
+      parameters: [
+        { name: "A", description: t("fn.correction.analyzingPower") },
+        { name: "\\langle \\cdot \\rangle", description: t("fn.correction.average") },
+        { name: "N", description: t("fn.correction.counts") },
+      ]
+    },
+    {
+      // AFP スピン反転の損失を含めた He-3 偏極度の減衰
+      name: t("fn.afp"),
+      formula: "P_{He}(t) = P_0 \\exp\\left(-\\frac{t}{T_1}\\right)(1 - \\epsilon)^{n(t)}, \\quad \\frac{1}{T_{1,\\text{eff}}} = \\frac{1}{T_1} - \\nu \\ln(1 - \\epsilon)",
+      parameters: [
+        { name: "\\epsilon", description: t("fn.afp.loss") },
+        { name: "n(t)", description: t("fn.afp.count") },
+        { name: "\\nu", description: t("fn.afp.rate") },
+      ]
+    },
+    {
+      // 入力パラメータの誤差を各曲線へ伝播する関数
+      name: t("fn.uncertainty"),
+      formula: "\\sigma_f^2 = \\sum_i \\left(\\frac{\\partial f}{\\partial x_i}\\right)^2 \\sigma_{x_i}^2",
+      parameters: [
+        { name: "f", description: t("fn.uncertainty.f") },
+        { name: "x_i", description: t("fn.uncertainty.x") },
+      ]
+    },
+    {
+      // 目標の Pn・Tn・FOM から P_He・厚さ・波長を逆算する関数
+      name: t("fn.inverse"),
+      formula: "P_\\mathrm{He} = \\frac{\\operatorname{artanh} P_n}{\\rho d \\sigma} = \\frac{\\operatorname{arcosh}(T_n e^{\\rho d \\sigma})}{\\rho d \\sigma},\\quad t_\\mathrm{hold} = \\tau \\ln\\frac{P_0}{P_\\mathrm{req}}",
+      parameters: [
+        { name: "\\rho d \\sigma", description: t("fn.inverse.opacity") },
+        { name: "P_\\mathrm{req}", description: t("fn.inverse.required") },
+        { name: "t_\\mathrm{hold}", description: t("fn.inverse.hold") },
+      ]
+    },
+    {
+      // セル窓の透過率を計算する関数
+      name: t("fn.window"),
+      formula: "T_w = \\exp\\left[-\\left(\\Sigma_a \\frac{\\lambda}{1.8\\,\\text{\\AA}} + \\Sigma_s\\right) t_w\\right]",
+      parameters: [
+        { name: "\\Sigma_a", description: t("fn.window.absorption") },
+        { name: "\\Sigma_s", description: t("fn.window.scattering") },
+        { name: "t_w", description: t("fn.window.thickness") },
+      ]
+    }
+  ];
+}
+
+// 現在の吸収断面積モデルの説明（計算タブで選んだモデルと定数）
+function crossSectionInfo(crossSection: CrossSectionParams, t: Translate): FunctionInfo {
+  const constants = [
+    { name: "n", description: t("fn.crossSection.numberDensity", { value: crossSection.numberDensity.toExponential(4) }) },
+  ];
+  const name = t("fn.crossSection");
+  const description = t("fn.crossSection.active", { model: t(`crossSection.${crossSection.model}`) });
+  switch (crossSection.model) {
+    case 'linear':
+      return {
+        name,
+        description,
+        formula: "\\sigma(\\lambda) = \\sigma_0 \\frac{\\lambda}{\\lambda_0}",
+        parameters: [
+          { name: "\\sigma_0", description: t("fn.crossSection.sigma0Reference", { value: crossSection.sigma0 }) },
+          { name: "\\lambda_0", description: t("fn.crossSection.lambda0", { value: crossSection.lambda0 }) },
+          ...constants,
+        ]
+      };
+    case 'exact':
+      return {
+        name,
+        description,
+        formula: "\\sigma(\\lambda) = \\sigma_0 \\frac{v_0}{v} = \\sigma_0 \\frac{v_0 \\lambda}{h/m_n}",
+        parameters: [
+          { name: "\\sigma_0", description: t("fn.crossSection.sigma0Thermal", { value: crossSection.sigma0 }) },
+          { name: "h/m_n", description: "3956.034 m/s·Å" },
+          ...constants,
+        ]
+      };
+    case 'table':
+      return {
+        name,
+        description,
+        formula: `\\ln\\sigma(E) = ${t("fn.crossSection.tableFormula")}`,
+        parameters: [
+          { name: "E_i, \\sigma_i", description: t("fn.crossSection.table", { count: crossSection.tableEnergies.length }) },
+          ...constants,
+        ]
+      };
   }
-];
+}
 
 export default function FunctionDescription() {
+  const { t } = useI18n();
+  const [crossSection, setCrossSection] = useState<CrossSectionParams>(DEFAULT_PARAMS.crossSection);
+
+  // 計算タブで選んだ断面積モデルを URL から読む
+  useEffect(() => {
+    setCrossSection(readPermalinkState().params.crossSection);
+  }, []);
+
   return (
     <div className="space-y-8">
       {/* セクションタイトル */}
       <h2 className="text-2xl font-bold text-slate-900 tracking-tight">
-        Function Reference
+        {t("fn.title")}
       </h2>
       {/* 関数リスト */}
       <div className="grid gap-6">
-        {functions.map((func) => (
+        {[...functionList(t), crossSectionInfo(crossSection, t)].map((func) => (
           // 各関数の説明カード
           <div key={func.name} className="bg-white rounded-lg border border-slate-200 overflow-hidden">
             {/* 関数名とその説明 */}
@@ -66,7 +224,7 @@ export default function FunctionDescription() {
               {/* 数式の表示 */}
               {func.formula && (
                 <div className="mb-4">
-                  <span className="text-sm font-medium text-slate-700">Formula</span>
+                  <span className="text-sm font-medium text-slate-700">{t("fn.formula")}</span>
                   <div className="mt-2 bg-slate-50 px-4 py-3 rounded-md overflow-x-auto">
                     <InlineMath math={func.formula} />
                   </div>
@@ -75,7 +233,7 @@ export default function FunctionDescription() {
               {/* パラメータリストの表示 */}
               {func.parameters && func.parameters.length > 0 && (
                 <div>
-                  <span className="text-sm font-medium text-slate-700">Parameters</span>
+                  <span className="text-sm font-medium text-slate-700">{t("fn.parameters")}</span>
                   <div className="mt-2 divide-y divide-slate-200">
                     {func.parameters.map((param) => (
                       <div key={param.name} className="py-3 flex items-start">
@@ -0,0 +1,116 @@
+"use client";
+
+import { calculateGasThickness } from '@/lib/he3';
+import type { CellGeometry } from '@/lib/he3';
+import type { Params, ThicknessInputMode } from './types';
+import UncertaintyInput from './UncertaintyInput';
+import { useI18n } from './i18n';
+
+interface GasThicknessInputProps {
+  tempParams: Params;                        // 入力フォームの一時値
+  onChange: (tempParams: Params) => void;    // 一時値の更新
+}
+
+// He-3 ガス厚さの入力欄（直接入力 or セル形状から算出）
+// He-3 ボックスと Neutron ボックスで共用し、どちらで入力しても同じ一時値に反映する
+export default function GasThicknessInput({ tempParams, onChange }: GasThicknessInputProps) {
+  const { t } = useI18n();
+  const isGeometry = tempParams.thicknessInput === 'geometry';
+
+  // 入力方法の切替（形状入力に切り替えたら厚さを算出し直す）
+  const handleModeChange = (mode: ThicknessInputMode) => {
+    onChange({
+      ...tempParams,
+      thicknessInput: mode,
+      neutronParams: {
+        ...tempParams.neutronParams,
+        gasThickness: mode === 'geometry'
+          ? calculateGasThickness(tempParams.cellGeometry)
+          : tempParams.neutronParams.gasThickness
+      }
+    });
+  };
+
+  // 形状パラメータの変更（厚さも同時に更新）
+  const handleGeometryChange = (field: keyof CellGeometry, value: string) => {
+    const parsed = value === '' ? 0 : parseFloat(value);
+    const cellGeometry = { ...tempParams.cellGeometry, [field]: isNaN(parsed) ? 0 : parsed };
+    onChange({
+      ...tempParams,
+      cellGeometry,
+      neutronParams: {
+        ...tempParams.neutronParams,
+        gasThickness: calculateGasThickness(cellGeometry)
+      }
+    });
+  };
+
+  const geometryFields: { key: keyof CellGeometry; label: string }[] = [
+    { key: 'pressure', label: t('gasThickness.pressure') },
+    { key: 'temperature', label: t('gasThickness.temperature') },
+    { key: 'length', label: t('gasThickness.length') }
+  ];
+
+  return (
+    <>
+      {/* He-3 厚さ（amg·cm） */}
+      <div className="flex items-center space-x-2">
+        <label className="text-sm font-medium text-gray-700 w-48">
+          {t('gasThickness.label')}
+        </label>
+        <input
+          type="number"
+          step="any"
+          readOnly={isGeometry}  /* 形状入力時は算出値を表示のみ */
+          value={isGeometry
+            ? Number(tempParams.neutronParams.gasThickness.toFixed(3))
+            : tempParams.neutronParams.gasThickness}
+          onChange={(e) => {
+            const value = e.target.value === '' ? 0 : parseFloat(e.target.value);
+            onChange({
+              ...tempParams,
+              neutronParams: {
+                ...tempParams.neutronParams,
+                gasThickness: isNaN(value) ? 0 : value
+              }
+            });
+          }}
+          className={`w-24 rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 ${isGeometry ? 'bg-gray-100' : ''}`}
+        />
+        {/* 厚さの誤差（1σ） */}
+        <UncertaintyInput
+          value={tempParams.uncertainties.gasThickness}
+          onChange={(gasThickness) => onChange({
+            ...tempParams,
+            uncertainties: { ...tempParams.uncertainties, gasThickness }
+          })}
+        />
+        {/* ▼ 入力方法の切替 */}
+        <select
+          value={tempParams.thicknessInput}
+          onChange={(e) => handleModeChange(e.target.value as ThicknessInputMode)}
+          className="ml-2 rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+        >
+          <option value="direct">{t('gasThickness.direct')}</option>
+          <option value="geometry">{t('gasThickness.fromGeometry')}</option>
+        </select>
+      </div>
+
+      {/* セル形状（圧力・温度・長さ） */}
+      {isGeometry && geometryFields.map(field => (
+        <div key={field.key} className="flex items-center space-x-2 pl-4">
+          <label className="text-sm font-medium text-gray-700 w-44">
+            {field.label}
+          </label>
+          <input
+            type="number"
+            step="any"
+            value={tempParams.cellGeometry[field.key]}
+            onChange={(e) => handleGeometryChange(field.key, e.target.value)}
+            className="w-24 rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+          />
+        </div>
+      ))}
+    </>
+  );
+}
@@ -0,0 +1,266 @@
+"use client";
+
+import { useState } from 'react';
+import {
+  calculateSpinFilter,
+  calculateTargetHoldTime,
+  energyToWavelength,
+  solveInverse,
+  wavelengthToEnergy
+} from '@/lib/he3';
+import type { InverseTarget, InverseUnknown, InverseSolution } from '@/lib/he3';
+import type { Params } from './types';
+import { crossSectionSettingsOf } from './calculation';
+import { useI18n } from './i18n';
+import type { MessageKey } from './i18n';
+
+interface InverseSolverPanelProps {
+  params: Params;                                          // 現在の計算パラメータ（入力の初期値と P0, T1）
+  onApplyPolarization: (he3Polarization: number) => void;  // 解いた P_He（%）を Neutron パラメータへ反映
+  onApplyThickness: (gasThickness: number) => void;        // 解いた厚さを反映
+  onApplyEnergy: (energy: number) => void;                 // 解いた波長を代表エネルギー（meV）として反映
+}
+
+const TARGET_LABELS: Record<InverseTarget, MessageKey> = {
+  neutronPolarization: 'inverse.targetNeutronPolarization',
+  neutronTransmission: 'inverse.targetNeutronTransmission',
+  figureOfMerit: 'series.figureOfMerit'
+};
+
+const UNKNOWN_LABELS: Record<InverseUnknown, MessageKey> = {
+  he3Polarization: 'series.he3Polarization',
+  gasThickness: 'inverse.gasThickness',
+  wavelength: 'inverse.wavelength'
+};
+
+// 目標の Pn・Tn・FOM から P_He・ガス厚さ・波長のうち 1 つを逆算するパネル
+export default function InverseSolverPanel({
+  params,
+  onApplyPolarization,
+  onApplyThickness,
+  onApplyEnergy
+}: InverseSolverPanelProps) {
+  const { t, formatNumber } = useI18n();
+  const [target, setTarget] = useState<InverseTarget>('neutronPolarization');
+  const [targetValue, setTargetValue] = useState('95');                   // 目標値（%）
+  const [unknown, setUnknown] = useState<InverseUnknown>('he3Polarization');
+  const [pointUnit, setPointUnit] = useState<'Å' | 'meV'>('Å');          // 波長・エネルギーの入力単位
+  const [pointValue, setPointValue] = useState(() => energyToWavelength(params.neutronParams.energy).toFixed(2));
+  const [he3Polarization, setHe3Polarization] = useState(String(params.neutronParams.he3Polarization)); // %
+  const [gasThickness, setGasThickness] = useState(String(params.neutronParams.gasThickness));          // amg·cm
+
+  // 波長・エネルギーの単位を切り替えたら入力値も換算する
+  const changePointUnit = (unit: 'Å' | 'meV') => {
+    const value = parseFloat(pointValue);
+    if (value > 0 && unit !== pointUnit) {
+      setPointValue((unit === 'meV' ? wavelengthToEnergy(value) : energyToWavelength(value)).toFixed(2));
+    }
+    setPointUnit(unit);
+  };
+
+  const wavelength = (() => {
+    const value = parseFloat(pointValue);
+    if (!(value > 0)) return NaN;
+    return pointUnit === 'Å' ? value : energyToWavelength(value);  // λ = √(81.81/E)
+  })();
+
+  // 逆算（入力が揃っていなければ null）。二分法のみで軽いので毎回計算する
+  const crossSection = crossSectionSettingsOf(params);
+  const result = (() => {
+    const problem = {
+      target,
+      targetValue: parseFloat(targetValue),
+      unknown,
+      wavelength,
+      he3Polarization: parseFloat(he3Polarization) / 100,
+      gasThickness: parseFloat(gasThickness),
+      crossSection
+    };
+    const inputs = [
+      problem.targetValue,
+      unknown === 'wavelength' ? 1 : problem.wavelength,
+      unknown === 'he3Polarization' ? 1 : problem.he3Polarization,
+      unknown === 'gasThickness' ? 1 : problem.gasThickness
+    ];
+    if (inputs.some(value => !Number.isFinite(value))) return null;
+    if (!(problem.targetValue > 0 && problem.targetValue < 100)) return null;
+    return solveInverse(problem);
+  })();
+
+  // 解での Pn・Tn・FOM と、P0 から T1 で緩和する間に目標を満たす時間
+  const rows = (result?.solutions ?? []).map((solution: InverseSolution) => ({
+    solution,
+    values: calculateSpinFilter(solution.wavelength, solution.he3Polarization, solution.gasThickness, crossSection),
+    holdTime: calculateTargetHoldTime(
+      solution.wavelength,
+      {
+        gasThickness: solution.gasThickness,
+        initialPolarization: params.initialPolarization,
+        relaxationTime: params.relaxationTimeConstant
+      },
+      target,
+      parseFloat(targetValue),
+      crossSection
+    )
+  }));
+
+  // 目標を満たす時間の表示
+  const formatHoldTime = (hours: number | null) => {
+    if (hours === null) return t('inverse.neverMet');
+    if (hours === Infinity) return t('inverse.alwaysMet');
+    return t('common.hours', { value: formatNumber(hours, 1) });
+  };
+
+  // 解いた量の表示と反映
+  const solvedValue = (solution: InverseSolution) => {
+    switch (unknown) {
+      case 'he3Polarization': return `${formatNumber(solution.he3Polarization * 100, 2)} %`;
+      case 'gasThickness': return `${formatNumber(solution.gasThickness, 3)} amg cm`;
+      case 'wavelength': return `${formatNumber(solution.wavelength, 3)} Å (${formatNumber(wavelengthToEnergy(solution.wavelength), 3)} meV)`;
+    }
+  };
+  const applySolution = (solution: InverseSolution) => {
+    switch (unknown) {
+      case 'he3Polarization': return onApplyPolarization(Number((solution.he3Polarization * 100).toFixed(2)));
+      case 'gasThickness': return onApplyThickness(Number(solution.gasThickness.toFixed(3)));
+      case 'wavelength': return onApplyEnergy(Number(wavelengthToEnergy(solution.wavelength).toFixed(3)));
+    }
+  };
+
+  const inputClass = "w-28 rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500";
+
+  return (
+    <div className="mt-6 border-t border-gray-200 pt-4">
+      <h3 className="text-lg font-semibold mb-3">{t('neutron.inverseSolver')}</h3>
+      <p className="text-sm text-gray-600 mb-4">
+        {t('inverse.introBefore')}<sub>He</sub>{t('inverse.introAfter')}
+      </p>
+
+      <div className="grid grid-cols-2 gap-x-8 gap-y-3 mb-4">
+        {/* 目標 */}
+        <div className="flex items-center space-x-2">
+          <label className="text-sm font-medium text-gray-700 w-40">{t('inverse.target')}</label>
+          <select
+            value={target}
+            onChange={(e) => setTarget(e.target.value as InverseTarget)}
+            className="rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+          >
+            {Object.entries(TARGET_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>{t(label)}</option>
+            ))}
+          </select>
+          <span className="text-sm text-gray-700">≥</span>
+          <input
+            type="number"
+            step="any"
+            value={targetValue}
+            onChange={(e) => setTargetValue(e.target.value)}
+            className={inputClass}
+          />
+          <span className="text-sm text-gray-700">%</span>
+        </div>
+        {/* 解く量 */}
+        <div className="flex items-center space-x-2">
+          <label className="text-sm font-medium text-gray-700 w-40">{t('inverse.solveFor')}</label>
+          <select
+            value={unknown}
+            onChange={(e) => setUnknown(e.target.value as InverseUnknown)}
+            className="rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+          >
+            {Object.entries(UNKNOWN_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>{t(label)}</option>
+            ))}
+          </select>
+        </div>
+        {/* 固定する量（解く量は入力不可） */}
+        <div className="flex items-center space-x-2">
+          <label className="text-sm font-medium text-gray-700 w-40">{t('he3.energyOrWavelength')}</label>
+          <input
+            type="number"
+            step="any"
+            value={pointValue}
+            disabled={unknown === 'wavelength'}
+            onChange={(e) => setPointValue(e.target.value)}
+            className={`${inputClass} disabled:bg-gray-100`}
+          />
+          <select
+            value={pointUnit}
+            disabled={unknown === 'wavelength'}
+            onChange={(e) => changePointUnit(e.target.value as 'Å' | 'meV')}
+            className="rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 disabled:bg-gray-100"
+          >
+            <option value="Å">Å</option>
+            <option value="meV">meV</option>
+          </select>
+        </div>
+        <div className="flex items-center space-x-2">
+          <label className="text-sm font-medium text-gray-700 w-40">{t('neutron.he3Polarization')}</label>
+          <input
+            type="number"
+            step="any"
+            value={he3Polarization}
+            disabled={unknown === 'he3Polarization'}
+            onChange={(e) => setHe3Polarization(e.target.value)}
+            className={`${inputClass} disabled:bg-gray-100`}
+          />
+        </div>
+        <div className="flex items-center space-x-2">
+          <label className="text-sm font-medium text-gray-700 w-40">{t('common.gasThickness')}</label>
+          <input
+            type="number"
+            step="any"
+            value={gasThickness}
+            disabled={unknown === 'gasThickness'}
+            onChange={(e) => setGasThickness(e.target.value)}
+            className={`${inputClass} disabled:bg-gray-100`}
+          />
+        </div>
+      </div>
+
+      {/* 結果 */}
+      {result === null && (
+        <p className="text-sm text-red-600">{t('inverse.enterHint')}</p>
+      )}
+      {result !== null && rows.length === 0 && (
+        <p className="text-sm text-red-600">
+          {t('inverse.unreachable', { value: formatNumber(result.bestValue, 2), unknown: t(UNKNOWN_LABELS[unknown]) })}
+        </p>
+      )}
+      {rows.length > 0 && (
+        <table className="min-w-full text-sm text-gray-700">
+          <thead>
+            <tr className="text-left border-b border-gray-200">
+              <th className="py-2 pr-4 font-medium">{t(UNKNOWN_LABELS[unknown])}</th>
+              <th className="py-2 pr-4 font-medium">Pn (%)</th>
+              <th className="py-2 pr-4 font-medium">Tn (%)</th>
+              <th className="py-2 pr-4 font-medium">FOM (%)</th>
+              <th className="py-2 pr-4 font-medium">
+                {t('inverse.metFor', { p0: params.initialPolarization, t1: params.relaxationTimeConstant })}
+              </th>
+              <th />
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(({ solution, values, holdTime }, i) => (
+              <tr key={i} className="border-b border-gray-100">
+                <td className="py-2 pr-4">{solvedValue(solution)}</td>
+                <td className="py-2 pr-4">{formatNumber(values.neutronPolarization, 2)}</td>
+                <td className="py-2 pr-4">{formatNumber(values.neutronTransmission, 2)}</td>
+                <td className="py-2 pr-4">{formatNumber(values.figureOfMerit, 2)}</td>
+                <td className="py-2 pr-4">{formatHoldTime(holdTime)}</td>
+                <td className="py-2 text-right">
+                  <button
+                    onClick={() => applySolution(solution)}
+                    className="px-3 py-1 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2"
+                  >
+                    {t('inverse.use')}
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,135 @@
+"use client";
+
+import { useMemo } from 'react';
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer
+} from 'recharts';
+import {
+  findOptimalThickness,   // FOM 最大化
+  wavelengthToEnergy,
+  energyToWavelength
+} from '@/lib/he3';
+import type { Params } from './types';
+import { crossSectionSettingsOf } from './calculation';
+import { useI18n } from './i18n';
+import { axisValueToWavelength, axisLabel, axisUnitSymbol, wavelengthToDetectorTof, sampleAxis } from './axis';
+
+// 最適厚さグラフ1点のデータ型
+interface OptimalPoint {
+  wavelength: number;     // 波長（Å）
+  energy: number;         // エネルギー（meV）
+  tof: number;            // 検出器での飛行時間（ms or µs）
+  gasThickness: number;   // 最適ガス厚さ（amg·cm）
+}
+
+interface OptimalThicknessPanelProps {
+  params: Params;                       // 現在の計算パラメータ
+  xMin: number;                         // Neutron グラフの X最小（Å or meV or TOF）
+  xMax: number;                         // Neutron グラフの X最大（Å or meV or TOF）
+  isLogScale: boolean;                  // X軸の対数表示フラグ
+  onApply: (gasThickness: number) => void; // 最適厚さを採用
+}
+
+const NUM_POINTS = 200; // サンプル点数
+
+export default function OptimalThicknessPanel({ params, xMin, xMax, isLogScale, onApply }: OptimalThicknessPanelProps) {
+  const { t, formatNumber } = useI18n();
+  const he3Polarization = params.neutronParams.he3Polarization / 100; // 0–1 に正規化
+  const energy = params.neutronParams.energy;                         // 代表エネルギー（meV）
+  const wavelength = energyToWavelength(energy);
+
+  const crossSection = crossSectionSettingsOf(params);
+
+  // 代表エネルギーでの最適厚さ
+  const optimum = useMemo(
+    () => findOptimalThickness(wavelength, he3Polarization, crossSection),
+    [wavelength, he3Polarization, crossSection]
+  );
+
+  // Neutron グラフの X 範囲に沿った最適厚さ
+  const data = useMemo(() => {
+    const start = isLogScale ? Math.max(0.1, xMin) : Math.max(xMin, xMax / NUM_POINTS); // λ=0, E=0 では厚さが発散するので除外
+    const points: OptimalPoint[] = sampleAxis(start, xMax, NUM_POINTS, isLogScale).map(x => {
+      const pointWavelength = axisValueToWavelength(x, params);
+      return {
+        wavelength: pointWavelength,
+        energy: wavelengthToEnergy(pointWavelength),
+        tof: wavelengthToDetectorTof(pointWavelength, params.tofParams),
+        gasThickness: findOptimalThickness(pointWavelength, he3Polarization, crossSection).gasThickness
+      };
+    });
+    return points;
+  }, [xMin, xMax, isLogScale, params, he3Polarization, crossSection]);
+
+  const xLabel = axisLabel(params, t);
+  const xUnit = axisUnitSymbol(params);
+
+  return (
+    <div className="mt-6 border-t border-gray-200 pt-4">
+      <h3 className="text-lg font-semibold mb-3">{t('optimizer.title')}</h3>
+
+      {/* 代表エネルギーでの最適値 */}
+      <div className="flex items-center justify-between mb-4">
+        <div className="grid grid-cols-3 gap-6 text-sm text-gray-700">
+          <div>
+            <span className="block font-medium">{t('optimizer.operatingPoint')}</span>
+            {formatNumber(energy, 2)} meV / {formatNumber(wavelength, 2)} Å, P<sub>He</sub> = {formatNumber(params.neutronParams.he3Polarization)} %
+          </div>
+          <div>
+            <span className="block font-medium">{t('optimizer.optimalThickness')}</span>
+            {formatNumber(optimum.gasThickness, 2)} amg cm
+          </div>
+          <div>
+            <span className="block font-medium">{t('optimizer.maximumFom')}</span>
+            {formatNumber(optimum.figureOfMerit, 2)} %
+          </div>
+        </div>
+        <button
+          onClick={() => onApply(Number(optimum.gasThickness.toFixed(2)))}
+          className="px-4 py-2 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2"
+        >
+          {t('optimizer.use')}
+        </button>
+      </div>
+
+      {/* 最適厚さ vs λ（or E）。最大 FOM 自体は P_He のみで決まり波長に依らない */}
+      <div className="h-[300px]">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={data} margin={{ top: 20, right: 30, left: 30, bottom: 20 }}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis
+              dataKey={params.xAxisUnit}
+              label={{ value: xLabel, position: 'bottom', offset: 0 }}
+              type="number"
+              scale={isLogScale ? 'log' : 'auto'}
+              domain={['dataMin', 'dataMax']}
+              tickFormatter={(value) => formatNumber(value)}
+            />
+            <YAxis
+              label={{ value: t('optimizer.yAxis'), angle: -90, position: 'insideLeft', offset: -5, style: { textAnchor: 'middle' } }}
+              tickFormatter={(value) => formatNumber(value)}
+            />
+            <Tooltip
+              formatter={(value: number) => formatNumber(value, 2)}
+              labelFormatter={(label: number) => `${xLabel}: ${formatNumber(label, 2)} ${xUnit}`}
+            />
+            <Line
+              type="monotone"
+              dataKey="gasThickness"
+              name={t('optimizer.series')}
+              stroke="#8884d8"
+              dot={false}
+              isAnimationActive={false}
+            />
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,258 @@
+"use client";
+
+import { useMemo, useState } from 'react';
+import {
+  correctPolarizationRuns,
+  energyToWavelength,
+  formatCorrectedRunsCsv,
+  parsePolarizationRuns,
+  parseTimestamp
+} from '@/lib/he3';
+import type { PolarizationRun } from '@/lib/he3';
+import type { Params } from './types';
+import { downloadText } from './download';
+import { crossSectionSettingsOf } from './calculation';
+import { useI18n } from './i18n';
+
+// 入力欄の値（入力と同期させるため文字列で持つ）
+interface RunInput {
+  name: string;
+  start: string;             // 開始時刻（h または日時）
+  stop: string;              // 終了時刻（h または日時）
+  nonSpinFlipCounts: string; // NSF 計数
+  spinFlipCounts: string;    // SF 計数
+}
+
+interface PolarizationCorrectionBoxProps {
+  params: Params;  // 現在の計算パラメータ（セルと代表エネルギーの初期値）
+}
+
+// 時刻（h）を入力欄の文字列に戻す
+function formatTime(hours: number): string {
+  return String(Number(hours.toFixed(4)));
+}
+
+// アナライザーセルの効率の時間変化で偏極解析データを補正するボックス
+export default function PolarizationCorrectionBox({ params }: PolarizationCorrectionBoxProps) {
+  const { t, formatNumber } = useI18n();
+  const [cellInputs, setCellInputs] = useState({
+    gasThickness: String(params.neutronParams.gasThickness),      // ガス厚さ（amg·cm）
+    initialPolarization: String(params.initialPolarization),     // 基準時刻の P0（%）
+    relaxationTime: String(params.relaxationTimeConstant),       // T1（h）
+    referenceTime: "0",                                          // 基準時刻（h または日時）
+    wavelength: energyToWavelength(params.neutronParams.energy).toFixed(2), // 波長（Å）
+    polarizerPolarization: "100"                                 // 入射ビームの偏極度（%）
+  });
+  const [runs, setRuns] = useState<RunInput[]>([
+    { name: 'run1', start: '0', stop: '2', nonSpinFlipCounts: '10000', spinFlipCounts: '800' }
+  ]);
+  const [fileError, setFileError] = useState(false);  // 読める行がなかったか
+
+  // 読める行だけを補正する
+  const results = useMemo(() => {
+    const cell = {
+      gasThickness: Number(cellInputs.gasThickness) || 0,
+      initialPolarization: Number(cellInputs.initialPolarization) || 0,
+      relaxationTime: Number(cellInputs.relaxationTime) || 0,
+      referenceTime: parseTimestamp(cellInputs.referenceTime)
+    };
+    const wavelength = Number(cellInputs.wavelength) || 0;
+    if (!Number.isFinite(cell.referenceTime) || cell.relaxationTime <= 0 || wavelength <= 0) return [];
+
+    const validRuns: PolarizationRun[] = runs
+      .map(run => ({
+        name: run.name,
+        start: parseTimestamp(run.start),
+        stop: parseTimestamp(run.stop),
+        nonSpinFlipCounts: Number(run.nonSpinFlipCounts),
+        spinFlipCounts: Number(run.spinFlipCounts)
+      }))
+      .filter(run => Number.isFinite(run.start) && Number.isFinite(run.stop) && run.stop >= run.start
+        && run.nonSpinFlipCounts > 0 && run.spinFlipCounts > 0);
+    return correctPolarizationRuns(
+      validRuns, cell, wavelength, (Number(cellInputs.polarizerPolarization) || 0) / 100, crossSectionSettingsOf(params)
+    );
+  }, [cellInputs, runs, params]);
+
+  // ラン一覧 CSV の読み込み（既存の行を置き換える）
+  const handleFile = async (file: File) => {
+    const imported = parsePolarizationRuns(await file.text());
+    if (imported.length === 0) {
+      setFileError(true);
+      return;
+    }
+    setFileError(false);
+    setRuns(imported.map(run => ({
+      name: run.name,
+      start: formatTime(run.start),
+      stop: formatTime(run.stop),
+      nonSpinFlipCounts: String(run.nonSpinFlipCounts),
+      spinFlipCounts: String(run.spinFlipCounts)
+    })));
+  };
+
+  const cellFields: { key: keyof typeof cellInputs; label: string; type: string }[] = [
+    { key: 'gasThickness', label: t('common.gasThickness'), type: 'number' },
+    { key: 'initialPolarization', label: t('correction.initialPolarization'), type: 'number' },
+    { key: 'relaxationTime', label: t('relaxation.t1'), type: 'number' },
+    { key: 'referenceTime', label: t('correction.referenceTime'), type: 'text' },
+    { key: 'wavelength', label: t('axis.wavelength'), type: 'number' },
+    { key: 'polarizerPolarization', label: t('correction.incidentPolarization'), type: 'number' }
+  ];
+  const runFields: { key: keyof RunInput; label: string; width: string }[] = [
+    { key: 'name', label: t('correction.run'), width: 'w-24' },
+    { key: 'start', label: t('correction.start'), width: 'w-44' },
+    { key: 'stop', label: t('correction.stop'), width: 'w-44' },
+    { key: 'nonSpinFlipCounts', label: t('correction.nsfCounts'), width: 'w-24' },
+    { key: 'spinFlipCounts', label: t('correction.sfCounts'), width: 'w-24' }
+  ];
+
+  // 値 ± 誤差（補正できないランは null で "—"）
+  const formatWithError = (value: number | null, error: number | null, digits: number) => {
+    if (value === null || error === null) return '—';
+    return `${formatNumber(value, digits)} ± ${formatNumber(error, digits)}`;
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow p-4">
+      <h2 className="text-2xl font-bold text-center mb-4">{t('correction.title')}</h2>
+
+      {/* アナライザーセル */}
+      <h3 className="text-lg font-semibold mb-3">{t('twoCell.analyzerCell')}</h3>
+      <div className="grid grid-cols-2 gap-4 mb-2">
+        {cellFields.map(field => (
+          <div key={field.key} className="flex items-center space-x-2">
+            <label className="text-sm font-medium text-gray-700 w-48">
+              {field.label}
+            </label>
+            <input
+              type={field.type}
+              step="any"
+              value={cellInputs[field.key]}
+              onChange={(e) => setCellInputs({ ...cellInputs, [field.key]: e.target.value })}
+              className={`${field.type === 'text' ? 'w-44' : 'w-24'} rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500`}
+            />
+          </div>
+        ))}
+      </div>
+      <p className="text-sm text-gray-500 mb-6">
+        {t('correction.timeHint')}
+      </p>
+
+      {/* ラン一覧 */}
+      <h3 className="text-lg font-semibold mb-3">{t('correction.runs')}</h3>
+      <table className="w-full text-sm text-gray-700 mb-4">
+        <thead>
+          <tr className="border-b border-gray-200 text-left">
+            {runFields.map(field => <th key={field.key} className="py-2 font-medium">{field.label}</th>)}
+            <th />
+          </tr>
+        </thead>
+        <tbody>
+          {runs.map((run, index) => (
+            <tr key={index} className="border-b border-gray-100">
+              {runFields.map(field => (
+                <td key={field.key} className="py-2 pr-2">
+                  <input
+                    type="text"
+                    value={run[field.key]}
+                    onChange={(e) => setRuns(runs.map((r, i) => i === index ? { ...r, [field.key]: e.target.value } : r))}
+                    className={`${field.width} rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500`}
+                  />
+                </td>
+              ))}
+              <td className="py-2 text-right">
+                <button
+                  onClick={() => setRuns(runs.filter((_, i) => i !== index))}
+                  className="text-sm text-red-600 hover:text-red-800"
+                >
+                  {t('rotation.removeCell')}
+                </button>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <div className="flex items-center gap-6 mb-6">
+        <button
+          onClick={() => setRuns([...runs, {
+            name: `run${runs.length + 1}`,
+            start: runs.length > 0 ? runs[runs.length - 1].stop : '0',  // 前のランの終了から
+            stop: '',
+            nonSpinFlipCounts: '',
+            spinFlipCounts: ''
+          }])}
+          className="text-sm text-indigo-600 hover:text-indigo-800"
+        >
+          {t('correction.addRun')}
+        </button>
+        <label className="text-sm text-gray-700">
+          {t('correction.importCsv')}
+          <input
+            type="file"
+            accept=".csv,.txt,.dat"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) handleFile(file);
+            }}
+            className="ml-2 text-sm text-gray-700"
+          />
+        </label>
+        {fileError && <span className="text-sm text-red-600">{t('correction.noRows')}</span>}
+      </div>
+
+      {/* 補正結果 */}
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-lg font-semibold">{t('correction.results')}</h3>
+        <button
+          disabled={results.length === 0}
+          onClick={() => downloadText('polarization_correction.csv', formatCorrectedRunsCsv(results), 'text/csv')}
+          className="px-4 py-2 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 disabled:opacity-50"
+        >
+          {t('export.csv')}
+        </button>
+      </div>
+      {results.some(result => !result.correctable) && (
+        <p className="text-sm text-red-600 mb-2">
+          {t('correction.uncorrectable')}
+        </p>
+      )}
+      {results.length === 0 ? (
+        <p className="text-sm text-gray-500">{t('correction.enterHint')}</p>
+      ) : (
+        <table className="w-full text-sm text-gray-700">
+          <thead>
+            <tr className="border-b border-gray-200 text-left">
+              <th className="py-2 font-medium">{t('correction.run')}</th>
+              <th className="py-2 font-medium text-right">⟨P_He⟩ (%)</th>
+              <th className="py-2 font-medium text-right">⟨A⟩ (%)</th>
+              <th className="py-2 font-medium text-right">⟨T0⟩ (%)</th>
+              <th className="py-2 font-medium text-right">NSF</th>
+              <th className="py-2 font-medium text-right">SF</th>
+              <th className="py-2 font-medium text-right">{t('correction.measuredRatio')}</th>
+              <th className="py-2 font-medium text-right">{t('correction.correctedRatio')}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {results.map((result, index) => (
+              <tr key={index} className="border-b border-gray-100">
+                <td className="py-2">{result.name}</td>
+                <td className="py-2 text-right">{formatNumber(result.he3Polarization, 2)}</td>
+                <td className="py-2 text-right">{formatNumber(result.analyzingPower, 2)}</td>
+                <td className="py-2 text-right">{formatNumber(result.transmission, 2)}</td>
+                <td className="py-2 text-right">{formatWithError(result.nonSpinFlip, result.nonSpinFlipError, 0)}</td>
+                <td className="py-2 text-right">{formatWithError(result.spinFlip, result.spinFlipError, 0)}</td>
+                <td className="py-2 text-right">
+                  {formatWithError(result.measuredFlippingRatio, result.measuredFlippingRatioError, 2)}
+                </td>
+                <td className="py-2 text-right">
+                  {formatWithError(result.flippingRatio, result.flippingRatioError, 2)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
@@ -1,222 +1,161 @@
 "use client"; // Next.js（App Router）でクライアント側で実行するコンポーネントであることを宣言
 
-import { useState, useEffect, useCallback } from 'react'; // React のフックをインポート
+import { useState, useEffect, useMemo } from 'react'; // React のフックをインポート
 import {
-  LineChart,  // 折れ線グラフ本体
+  ComposedChart, // グラフ本体（折れ線＋測定点の散布図）
+  Scatter,    // 散布系列（測定点）
+  ErrorBar,   // 誤差棒
   Line,       // 折れ線系列
   XAxis,      // X軸
   YAxis,      // Y軸
   CartesianGrid, // グリッド線
   Tooltip,    // ホバー時ツールチップ
   Legend,     // 凡例
+  ReferenceLine, // 基準線（ポンピング終了時刻）
+  Area,       // 誤差帯（±1σ）
   ResponsiveContainer // 親に合わせて自動リサイズ
 } from 'recharts';
+import {
+  wavelengthToEnergy,      // λ → E
+  energyToWavelength,      // E → λ
+  spectrumIntensity,       // 入射スペクトル強度
+  evaluateDecayModel,      // フィットモデルの値
+  fitDecay,                // P0, T1 のフィット
+  calculateCellTransmission, // セル（ガス＋窓）の透過率
+  fitGasThickness,         // 非偏極スペクトル → ガス厚さ
+  fitHe3Polarization       // 偏極スペクトル → He-3 偏極度
+} from '@/lib/he3';
+import type { SpectrumDefinition, DecayFitModel, TransmissionPoint } from '@/lib/he3';
+import type { Params, DataPoint, MeasuredDecay, MeasuredSpectra, AxisRanges, EnergyUnit, SamplingSettings } from './types';
+import { DEFAULT_PARAMS, DEFAULT_AXIS_RANGES, DEFAULT_SAMPLING } from './defaults';
+import { readPermalinkState, writePermalink } from './permalink';
+import ScenarioPanel from './ScenarioPanel';
+import type { ScenarioOverlay } from './ScenarioPanel';
+import { loadScenarios, saveScenarios, scenarioStyle } from './scenarios';
+import type { Scenario } from './scenarios';
+import {
+  axisLabel,               // X軸のラベル
+  axisUnitSymbol,          // X軸の単位記号
+  wavelengthToDetectorTof, // λ → 検出器での TOF
+  detectorTofToWavelength, // 検出器での TOF → λ
+  wavelengthToCellTof      // λ → セル到達時の TOF
+} from './axis';
+import OptimalThicknessPanel from './OptimalThicknessPanel';
+import InverseSolverPanel from './InverseSolverPanel';
+import DesignMapPanel from './DesignMapPanel';
+import SpectrumPanel from './SpectrumPanel';
+import TwoCellBox from './TwoCellBox';
+import GasThicknessInput from './GasThicknessInput';
+import WindowInput from './WindowInput';
+import RelaxationBudgetPanel from './RelaxationBudgetPanel';
+import PumpingInput from './PumpingInput';
+import RotationPlannerBox from './RotationPlannerBox';
+import DecayFitPanel from './DecayFitPanel';
+import CellCharacterizationPanel from './CellCharacterizationPanel';
+import PolarizationCorrectionBox from './PolarizationCorrectionBox';
+import ExportButtons from './ExportButtons';
+import FigureExportPanel from './FigureExportPanel';
+import type { FigureSeries } from './figureExport';
+import UncertaintyInput from './UncertaintyInput';
+import SamplingInput from './SamplingInput';
+import AfpInput from './AfpInput';
+import CrossSectionPanel from './CrossSectionPanel';
+import { toCrossSectionSettings } from './calculation';
+import {
+  he3DataPoint,            // 時刻 t での He-3 偏極度と中性子特性（誤差つき）
+  neutronDataPoint,        // X軸の値での Pn, T, FOM（誤差つき）
+  displayCurve,            // 描画用の間引き
+  HE3_CURVE_KEYS,
+  NEUTRON_CURVE_KEYS
+} from './curves';
+import { useCurveWorker } from './useCurveWorker';
+import { useI18n } from './i18n';
 
-// 基本計算パラメータの型定義
-interface BaseCalculationParams {
-  initialPolarization: number;  // 初期偏極度（%）
-  relaxationTimeConstant: number;  // 緩和時定数（時間）
-}
-
-// 中性子パラメータの型定義
-interface NeutronParams {
-  gasThickness: number;  // He-3 ガス厚さ（atm·cm）
-  energy: number;        // エネルギー（meV）
-  he3Polarization: number;  // He-3 偏極度（%）
-}
-
-// 全パラメータの型定義（基底＋中性子＋軸単位）
-interface Params extends BaseCalculationParams {
-  xAxisUnit: 'wavelength' | 'energy';  // X軸の単位（波長 or エネルギー）
-  neutronParams: NeutronParams;        // 中性子関連パラメータ
-}
-
-// グラフ1点のデータ型
-interface DataPoint {
-  time: number;                 // 時間（h）
-  wavelength: number;           // 波長（Å）
-  energy: number;               // エネルギー（meV）
-  he3Polarization: number;      // He-3 偏極度（%）
-  neutronPolarization: number;  // 中性子偏極度（%）
-  neutronTransmission: number;  // 中性子透過率（%）
-  figureOfMerit: number;        // FOM（%単位換算後の値）
-  [key: string]: number;        // 拡張用の数値プロパティ
-}
-
-// 物理定数
-const PHYSICAL_CONSTANTS = {
-  V: 22.4e3,             // モル体積 (cm^3/mol) @標準
-  Na: 6.0221409e23,      // アボガドロ数 (/mol)
-  sigma0: 5333,          // 吸収断面積 barn @ λ=1.8Å（スケーリング用）
-  barn_to_cm2: 1e-24     // barn→cm^2 変換
-};
-
-// 共通因子 n * σ(λ) の計算（cm^2単位へ変換込み）
-function calculateCommonFactors(wavelength: number) {
-  // const n = PHYSICAL_CONSTANTS.Na/PHYSICAL_CONSTANTS.V;  // 数密度 n
-  const n = 2.687e19;  // 数密度 n
-  const sigma = PHYSICAL_CONSTANTS.sigma0 * (wavelength / 1.8);  // σ(λ) を1.8Å基準で線形スケール
-  return n * sigma * PHYSICAL_CONSTANTS.barn_to_cm2;  // nσ を cm^2 に直して返す
-}
-
-// 中性子偏極度 Pn = tanh(nσ·P_He3·t)
-function calculateNeutronPolarization(wavelength: number, he3Polarization: number, gasThickness: number): number {
-  const commonFactor = calculateCommonFactors(wavelength); // nσ(λ)
-  const neutronPolarization = Math.tanh(commonFactor * he3Polarization * gasThickness); // tanh(nσ P t)
-  return neutronPolarization * 100;  // %
-}
-
-// 中性子透過率 T = e^{-nσt} cosh(nσ P t)
-function calculateNeutronTransmission(wavelength: number, he3Polarization: number, gasThickness: number): number {
-  const commonFactor = calculateCommonFactors(wavelength); // nσ(λ)
-  const factor = commonFactor * gasThickness;              // nσ t
-  const neutronTransmission = Math.exp(-factor) * Math.cosh(factor*he3Polarization); // e^{-nσt} cosh(nσPt)
-  return neutronTransmission * 100;  // %
-}
+// 誤差帯を描く量と色（主系列と同じ色）
+const HE3_BANDS = [
+  { key: 'he3Polarization', color: '#82ca9d' },
+  { key: 'neutronPolarization', color: '#8884d8' },
+  { key: 'neutronTransmission', color: '#ff7300' }
+];
+const NEUTRON_BANDS = [
+  { key: 'neutronPolarization', color: '#8884d8' },
+  { key: 'neutronTransmission', color: '#ff7300' },
+  { key: 'figureOfMerit', color: '#82ca9d' }
+];
 
-// FOM = Pn^2 * T （%換算して返す）
-function calculateFigureOfMerit(wavelength: number, he3Polarization: number, gasThickness: number): number {
-  const commonFactor = calculateCommonFactors(wavelength);        // nσ(λ)
-  const factor = commonFactor * gasThickness;                     // nσ t
-  const neutronPolarization = Math.tanh(commonFactor * he3Polarization * gasThickness); // Pn
-  const neutronTransmission = Math.exp(-factor) * Math.cosh(factor*he3Polarization);    // T
-  const FigureOfMerit = neutronPolarization*neutronPolarization*neutronTransmission;    // Pn^2 T
-  return FigureOfMerit * 100;  // %
+// ±1σ の範囲（Area の dataKey 用）
+function bandRange(key: string) {
+  return (point: Record<string, number>) => [point[key] - point[`${key}Sigma`], point[key] + point[`${key}Sigma`]];
 }
 
 export default function PolarizationPlot() {
-  const [params, setParams] = useState<Params>({ // 実際に計算に使う現在値
-    initialPolarization: 70.0,                   // He-3 初期偏極度（%）
-    relaxationTimeConstant: 100.0,               // 緩和時定数（h）
-    xAxisUnit: 'wavelength',                     // X軸は波長表示
-    neutronParams: {
-      gasThickness: 10.0,                        // 厚さ（atm·cm）
-      energy: 14.7,                              // 代表エネルギー（meV）
-      he3Polarization: 70,                       // He-3 偏極度（%）
-    }
-  });
+  const { t, formatNumber } = useI18n();                                          // 表示言語の文言と数値の書式
+  const [params, setParams] = useState<Params>(DEFAULT_PARAMS);                   // 実際に計算に使う現在値
 
-  const [axisRanges, setAxisRanges] = useState({ // 軸レンジ（文字列で持ち、入力と同期）
-    he3: {
-      xMin: "0",      // He-3 グラフの X最小（h）
-      xMax: "100",    // He-3 グラフの X最大（h）
-      yMin: "0",      // He-3 グラフの Y最小（%）
-      yMax: "100"      // He-3 グラフの Y最大（%）
-    },
-    neutron: {
-      xMin: "0",      // Neutron グラフ X最小（Å or meV）
-      xMax: "100",    // Neutron グラフ X最大（Å or meV）
-      yMin: "0",      // Neutron グラフ Y最小（%）
-      yMax: "100"     // Neutron グラフ Y最大（%）
-    }
-  });
+  const [axisRanges, setAxisRanges] = useState<AxisRanges>(DEFAULT_AXIS_RANGES); // 軸レンジ（文字列で持ち、入力と同期）
 
   const [he3Data, setHe3Data] = useState<DataPoint[]>([]);       // He-3 グラフ用データ配列
   const [neutronData, setNeutronData] = useState<DataPoint[]>([]); // Neutron グラフ用データ配列
 
-  const [tempParams, setTempParams] = useState<Params>({ // 入力フォームの一時値（確定ボタンで params に反映）
-    initialPolarization: 70.0,
-    relaxationTimeConstant: 100.0,
-    xAxisUnit: 'wavelength',
-    neutronParams: {
-      gasThickness: 10.0,
-      energy: 14.7,
-      he3Polarization: 70,
-    }
-  });
+  const [tempParams, setTempParams] = useState<Params>(DEFAULT_PARAMS);           // 入力フォームの一時値（確定ボタンで params に反映）
+  const [sampling, setSampling] = useState<SamplingSettings>(DEFAULT_SAMPLING);   // 曲線のサンプル点数と適応サンプリング
+
+  // 吸収断面積モデル（このコンポーネントの計算にはこの設定を渡す）
+  const crossSectionSettings = useMemo(() => toCrossSectionSettings(params.crossSection), [params.crossSection]);
 
   const [isLogScale, setIsLogScale] = useState(false); // Neutron X軸の対数表示フラグ
-  const [energyUnit, setEnergyUnit] = useState<'meV' | 'Å'>('meV'); // He-3 Polarization グラフのエネルギー単位
-
-  // x（波長 or エネルギー）から1点分の中性子特性を計算して points へ push
-  const addDataPoint = useCallback((x: number, currentParams: Params, points: DataPoint[]) => {
-    const wavelength = currentParams.xAxisUnit === 'wavelength' ? x : Math.sqrt(81.81 / x); // E↔λ 変換: E[meV]=81.81/λ^2
-    const energy = currentParams.xAxisUnit === 'wavelength' ? 81.81 / (x * x) : x;          // 逆変換
-
-    const neutronPolarization = calculateNeutronPolarization(       // 中性子偏極度（%）
-      wavelength,
-      currentParams.neutronParams.he3Polarization / 100,            // He-3 偏極度を 0–1 に正規化
-      currentParams.neutronParams.gasThickness
-    );
-
-    const neutronTransmission = calculateNeutronTransmission(       // 透過率（%）
-      wavelength,
-      currentParams.neutronParams.he3Polarization / 100,
-      currentParams.neutronParams.gasThickness
-    );
-
-    const figureOfMerit = calculateFigureOfMerit(                   // FOM（%）
-      wavelength,
-      currentParams.neutronParams.he3Polarization / 100,
-      currentParams.neutronParams.gasThickness
-    );
-
-    points.push({                // 計算点を配列へ追加
-      time: 0,                   // Neutron グラフでは時間は未使用のため 0 に固定
-      wavelength,
-      energy,
-      he3Polarization: currentParams.neutronParams.he3Polarization, // 表示用に % 値を保持
-      neutronPolarization,
-      neutronTransmission,
-      figureOfMerit
-    });
+  const [energyUnit, setEnergyUnit] = useState<EnergyUnit>('meV'); // He-3 Polarization グラフのエネルギー単位
+  const [showOptimizer, setShowOptimizer] = useState(false); // 最適厚さ探索モードの表示フラグ
+  const [showInverseSolver, setShowInverseSolver] = useState(false); // 目標値からの逆算パネルの表示フラグ
+  const [showDesignMap, setShowDesignMap] = useState(false); // 波長 × 厚さの設計マップの表示フラグ
+  const [showCrossSection, setShowCrossSection] = useState(false); // 断面積モデル・物理定数パネルの表示フラグ
+  const [showTwoCell, setShowTwoCell] = useState(false);     // ポラライザー＋アナライザー2セルモードの表示フラグ
+  const [showRelaxationBudget, setShowRelaxationBudget] = useState(false); // T1 内訳パネルの表示フラグ
+  const [showRotationPlanner, setShowRotationPlanner] = useState(false);   // セルローテーション計画の表示フラグ
+  const [showDecayFit, setShowDecayFit] = useState(false);                 // 測定データのフィットパネルの表示フラグ
+  const [measuredDecay, setMeasuredDecay] = useState<MeasuredDecay | null>(null); // 測定した偏極度の時系列
+  const [showCorrection, setShowCorrection] = useState(false);             // 偏極解析データ補正の表示フラグ
+  const [showCharacterization, setShowCharacterization] = useState(false); // 透過率スペクトルからのセル評価の表示フラグ
+  const [measuredSpectra, setMeasuredSpectra] = useState<MeasuredSpectra>({ unpolarized: null, polarized: null }); // 透過率スペクトル
+  const [spectrum, setSpectrum] = useState<SpectrumDefinition | null>(null); // 入射スペクトル（null は単色）
+  const [figureExport, setFigureExport] = useState<'he3' | 'neutron' | null>(null); // 図の書き出しパネルを開いているグラフ
+  const [isPermalinkLoaded, setIsPermalinkLoaded] = useState(false);       // URL の状態を読み込んだか
+  const [scenarios, setScenarios] = useState<Scenario[]>([]);              // 保存済みシナリオ
+  const [selectedScenarioIds, setSelectedScenarioIds] = useState<string[]>([]); // 重ね描きするシナリオ
+  const [scenarioOverlay, setScenarioOverlay] = useState<ScenarioOverlay>({ // 重ね描きする量
+    he3: 'neutronPolarization',
+    neutron: 'figureOfMerit'
+  });
+
+  useEffect(() => {                                    // 保存済みシナリオの読み込み（localStorage）
+    setScenarios(loadScenarios());
   }, []);
 
-  // He-3 偏極度の指数減衰カーブを生成
-  const calculateHe3Polarization = useCallback((currentParams: Params) => {
-    const points: DataPoint[] = [];                       // 出力配列
-    const xMin = Number(axisRanges.he3.xMin) || 0;        // 時間の最小値
-    const xMax = Number(axisRanges.he3.xMax) || 24;       // 時間の最大値
-    const step = (xMax - xMin) / 100;                     // サンプル点数を100分割
-
-    for (let time = xMin; time <= xMax; time += step) {   // 時間でループ
-      const he3Polarization = currentParams.initialPolarization *
-        Math.exp(-time / currentParams.relaxationTimeConstant);     // P(t)=P0 exp(-t/T1)
-      const wavelength = Math.sqrt(81.81 / currentParams.neutronParams.energy); // E = 81.81/λ^2 から λ = √(81.81/E)
-      const NeutronPolarization_decay = Math.tanh(calculateCommonFactors(wavelength) * he3Polarization/100 * currentParams.neutronParams.gasThickness);
-      const NeutronTransmission_decay = Math.exp(-calculateCommonFactors(wavelength)*currentParams.neutronParams.gasThickness) * Math.cosh(he3Polarization/100 * currentParams.neutronParams.gasThickness*calculateCommonFactors(wavelength));
-
-
-      points.push({                                       // 点を追加
-        time,
-        wavelength: wavelength,
-        energy: currentParams.neutronParams.energy,
-        he3Polarization,
-        neutronPolarization: NeutronPolarization_decay * 100, // パーセントに変換
-        neutronTransmission: NeutronTransmission_decay * 100,
-        figureOfMerit: 0
-      });
-    }
+  // シナリオ一覧を更新して保存
+  const updateScenarios = (next: Scenario[]) => {
+    setScenarios(next);
+    saveScenarios(next);
+  };
 
-    return points; // 配列を返す
-  }, [axisRanges.he3.xMin, axisRanges.he3.xMax, params.neutronParams.energy, params.neutronParams.gasThickness]); // x範囲とneutronパラメータの変更で再生成
-
-  // 中性子特性（Pn, T, FOM）を X 軸（λ or E、lin or log）に沿って生成
-  const calculateNeutronProperties = useCallback((currentParams: Params) => {
-    const xMin = Number(axisRanges.neutron.xMin) || 0;    // X最小
-    const xMax = Number(axisRanges.neutron.xMax) || 10;   // X最大
-    const effectiveXMin = isLogScale ? Math.max(0.1, xMin) : xMin; // 対数では0以下不可
-    const points: DataPoint[] = [];                       // 出力配列
-    const numPoints = 200;                                // サンプル点数
-
-    if (isLogScale) {                                     // 対数スケールの場合
-      const logMin = Math.log10(effectiveXMin);           // 10^均等刻み
-      const logMax = Math.log10(xMax);
-      const logStep = (logMax - logMin) / numPoints;
-
-      for (let i = 0; i <= numPoints; i++) {              // 対数均等刻みでループ
-        const x = Math.pow(10, logMin + i * logStep);
-        addDataPoint(x, currentParams, points);           // 1点を追加
-      }
-    } else {                                              // 線形スケールの場合
-      const step = (xMax - effectiveXMin) / numPoints;
-      for (let x = effectiveXMin; x <= xMax; x += step) {
-        addDataPoint(x, currentParams, points);           // 1点を追加
-      }
-    }
+  useEffect(() => {                                    // URL（パーマリンク）の状態を復元
+    const loadPermalink = () => {
+      const state = readPermalinkState();              // 不正・欠けた値は既定値
+      setParams(state.params);
+      setTempParams(state.params);
+      setAxisRanges(state.axisRanges);
+      setIsLogScale(state.isLogScale);
+      setEnergyUnit(state.energyUnit);
+      setIsPermalinkLoaded(true);
+    };
+    loadPermalink();
+    window.addEventListener('hashchange', loadPermalink); // 同じページでリンクを開き直した場合
+    return () => window.removeEventListener('hashchange', loadPermalink);
+  }, []);
 
-    return points; // 配列を返す
-  }, [axisRanges.neutron.xMin, axisRanges.neutron.xMax, isLogScale, addDataPoint]); // 依存
+  useEffect(() => {                                    // 状態が変わるたびに URL を更新（復元前は書かない）
+    if (!isPermalinkLoaded) return;
+    writePermalink({ state: { params, axisRanges, isLogScale, energyUnit } });
+  }, [isPermalinkLoaded, params, axisRanges, isLogScale, energyUnit]);
 
   // 軸レンジ入力変更ハンドラ（対象グラフ・フィールド・値）
   const handleAxisRangeChange = (graph: 'he3' | 'neutron', field: keyof typeof axisRanges.he3, value: string) => {
@@ -227,26 +166,158 @@ export default function PolarizationPlot() {
         [field]: value
       }
     }));
-
-    // 軸変更に応じて即再計算（操作感向上）
-    setHe3Data(calculateHe3Polarization(params));
-    setNeutronData(calculateNeutronProperties(params));
   };
 
-  useEffect(() => {                                    // He-3 or Neutron の再計算トリガー
-    setHe3Data(calculateHe3Polarization(params));      // He-3 再計算
-    setNeutronData(calculateNeutronProperties(params));// Neutron 再計算
-  }, [calculateHe3Polarization, calculateNeutronProperties, params, axisRanges.he3.yMin, axisRanges.he3.yMax]); // 依存
+  // 曲線の計算（Web Worker。入力が変わると計算中の古い依頼は打ち切られ、null が返る）
+  const { compute: computeCurve, pending: curvePending } = useCurveWorker();
+
+  useEffect(() => {                                    // He-3 の再計算（パラメータ・時間範囲・サンプリング）
+    computeCurve({
+      kind: 'he3',
+      params,
+      xMin: Number(axisRanges.he3.xMin) || 0,          // 時間の最小値
+      xMax: Number(axisRanges.he3.xMax) || 24,         // 時間の最大値
+      sampling: sampling.he3
+    }).then(points => {
+      if (points) setHe3Data(points);
+    });
+  }, [computeCurve, params, axisRanges.he3.xMin, axisRanges.he3.xMax, sampling.he3]);
+
+  useEffect(() => {                                    // Neutron の再計算（X 範囲・ログスケールでも）
+    computeCurve({
+      kind: 'neutron',
+      params,
+      xMin: Number(axisRanges.neutron.xMin) || 0,      // X最小
+      xMax: Number(axisRanges.neutron.xMax) || 10,     // X最大
+      isLogScale,
+      sampling: sampling.neutron
+    }).then(points => {
+      if (points) setNeutronData(points);
+    });
+  }, [computeCurve, params, axisRanges.neutron.xMin, axisRanges.neutron.xMax, isLogScale, sampling.neutron]);
+
+  // 描画用の曲線（点が多いときは間引く。書き出しは全点）
+  const he3DisplayData = useMemo(() => displayCurve(he3Data, 'time', HE3_CURVE_KEYS), [he3Data]);
+  const neutronDisplayData = useMemo(
+    () => displayCurve(neutronData, params.xAxisUnit, NEUTRON_CURVE_KEYS, isLogScale),
+    [neutronData, params.xAxisUnit, isLogScale]
+  );
+
+  // 測定データのフィット（透過率は He-3 ボックスのエネルギー・厚さ・窓で評価）
+  const decayFitModel = useMemo<DecayFitModel | null>(() => {
+    if (!measuredDecay) return null;
+    return measuredDecay.quantity === 'polarization'
+      ? { type: 'polarization' }
+      : {
+          type: 'transmission',
+          wavelength: energyToWavelength(params.neutronParams.energy),
+          gasThickness: params.neutronParams.gasThickness,
+          window: params.windowParams.enabled ? params.windowParams : undefined,
+          crossSection: crossSectionSettings
+        };
+  }, [measuredDecay, params.neutronParams.energy, params.neutronParams.gasThickness, params.windowParams, crossSectionSettings]);
+  const decayFit = useMemo(
+    () => measuredDecay && decayFitModel ? fitDecay(measuredDecay.measurements, decayFitModel) : null,
+    [measuredDecay, decayFitModel]
+  );
+
+  // 透過率スペクトルのフィット（P_He は非偏極データの厚さ、なければ現在の厚さで評価）
+  const cellWindow = params.windowParams.enabled ? params.windowParams : undefined;
+  const thicknessFit = useMemo(
+    () => measuredSpectra.unpolarized && fitGasThickness(measuredSpectra.unpolarized, cellWindow, crossSectionSettings),
+    [measuredSpectra.unpolarized, cellWindow, crossSectionSettings]
+  );
+  const fittedGasThickness = thicknessFit ? thicknessFit.value : params.neutronParams.gasThickness;
+  const polarizationFit = useMemo(
+    () => measuredSpectra.polarized
+      && fitHe3Polarization(measuredSpectra.polarized, fittedGasThickness, cellWindow, crossSectionSettings),
+    [measuredSpectra.polarized, fittedGasThickness, cellWindow, crossSectionSettings]
+  );
+
+  // 測定スペクトルを Neutron グラフの点（X軸のキーを揃える）に変換
+  const toNeutronGraphPoints = (points: TransmissionPoint[]) => points.map(point => ({
+    wavelength: point.wavelength,
+    energy: wavelengthToEnergy(point.wavelength),
+    tof: wavelengthToDetectorTof(point.wavelength, params.tofParams),
+    transmission: point.transmission,
+    uncertainty: point.uncertainty
+  }));
+
+  // 誤差帯を描くか（関係する入力に誤差があるとき）
+  const hasHe3Uncertainty = params.uncertainties.initialPolarization > 0
+    || params.uncertainties.relaxationTimeConstant > 0
+    || params.uncertainties.gasThickness > 0;
+  const hasNeutronUncertainty = params.uncertainties.he3Polarization > 0 || params.uncertainties.gasThickness > 0;
+
+  // He-3 グラフの Y 最小（Pn の符号反転を表示するときは負側も含める）
+  const he3YMin = params.afpParams.enabled && params.afpParams.showSign
+    ? Math.min(Number(axisRanges.he3.yMin), -Number(axisRanges.he3.yMax))
+    : Number(axisRanges.he3.yMin);
+
+  // 重ね描きするシナリオ（一覧での並び順で線のスタイルを決める）
+  const overlaidScenarios = useMemo(() => scenarios
+    .map((scenario, index) => ({ ...scenario, style: scenarioStyle(index) }))
+    .filter(scenario => selectedScenarioIds.includes(scenario.id)),
+  [scenarios, selectedScenarioIds]);
+
+  // シナリオごとの曲線（現在のグラフと同じ描画点。Neutron は現在の X 軸の単位、断面積はシナリオのモデルで評価）
+  const scenarioCurves = useMemo(() => overlaidScenarios.map(scenario => {
+    const neutronParams: Params = { ...scenario.params, xAxisUnit: params.xAxisUnit, tofParams: params.tofParams };
+    return {
+      key: `scenario_${scenario.id}`,
+      he3: he3DisplayData.map(point => he3DataPoint(point.time, scenario.params)),
+      neutron: neutronDisplayData.map(point => neutronDataPoint(point[params.xAxisUnit], neutronParams))
+    };
+  }), [overlaidScenarios, he3DisplayData, neutronDisplayData, params.xAxisUnit, params.tofParams]);
 
-  useEffect(() => {                                    // 尤も Neutron はログスケール変更でも再計算
-    setNeutronData(calculateNeutronProperties(params));
-  }, [isLogScale, calculateNeutronProperties, params,axisRanges.neutron.yMin,axisRanges.neutron.yMax]);
+  // He-3 グラフのデータ（フィット曲線・シナリオの曲線を重ねる）
+  const he3GraphData = useMemo(() => {
+    if ((!decayFit || !decayFitModel) && scenarioCurves.length === 0) return he3DisplayData;
+    return he3DisplayData.map((point, i) => ({
+      ...point,
+      ...(decayFit && decayFitModel && {
+        fittedValue: evaluateDecayModel(decayFitModel, decayFit.initialPolarization, decayFit.relaxationTime, point.time)
+      }),
+      ...Object.fromEntries(scenarioCurves.map(curve => [curve.key, curve.he3[i]?.[scenarioOverlay.he3]]))
+    }));
+  }, [he3DisplayData, decayFit, decayFitModel, scenarioCurves, scenarioOverlay.he3]);
 
-  // He-3 グラフのデータ（そのまま渡すだけ）
-  const he3GraphData = he3Data;
+  // Neutron グラフのデータ（入射スペクトル・セル評価のフィット曲線があれば重ねる）
+  const neutronGraphData = useMemo(() => {
+    const data = showCharacterization && (thicknessFit || polarizationFit)
+      ? neutronDisplayData.map(point => ({
+          ...point,
+          ...(thicknessFit && {
+            unpolarizedFit: calculateCellTransmission(point.wavelength, thicknessFit.value, 0, cellWindow, crossSectionSettings)
+          }),
+          ...(polarizationFit && {
+            polarizedFit: calculateCellTransmission(
+              point.wavelength, fittedGasThickness, polarizationFit.value, cellWindow, crossSectionSettings
+            )
+          })
+        }))
+      : neutronDisplayData;
+    const withScenarios = scenarioCurves.length === 0 ? data : data.map((point, i) => ({
+      ...point,
+      ...Object.fromEntries(scenarioCurves.map(curve => [curve.key, curve.neutron[i]?.[scenarioOverlay.neutron]]))
+    }));
+    if (!spectrum) return withScenarios;
 
-  // Neutron グラフのデータ（そのまま渡すだけ）
-  const neutronGraphData = neutronData;
+    const intensities = neutronDisplayData.map(point => {
+      const intensity = spectrumIntensity(spectrum, point.wavelength);          // /Å
+      return params.xAxisUnit === 'energy'
+        ? intensity * point.wavelength / (2 * point.energy)                     // /meV（|dλ/dE| = λ/2E）
+        : intensity;
+    });
+    const peak = Math.max(...intensities.filter(Number.isFinite), 0);
+    const scale = peak > 0 ? 100 / peak : 0;                                    // 入射ピークを 100 に正規化
+
+    return withScenarios.map((point, i) => ({
+      ...point,
+      incidentSpectrum: intensities[i] * scale,
+      transmittedSpectrum: intensities[i] * scale * point.neutronTransmission / 100
+    }));
+  }, [neutronDisplayData, spectrum, params.xAxisUnit, showCharacterization, thicknessFit, polarizationFit, fittedGasThickness, cellWindow, scenarioCurves, scenarioOverlay.neutron, crossSectionSettings]);
 
   // 対数目盛り用の補助目盛を生成（1,2,4,6,8×10^n）
   const generateLogTicks = (min: number, max: number) => {
@@ -293,33 +364,105 @@ export default function PolarizationPlot() {
     return ticks;
   };
 
+  // ツールチップの値（誤差があれば value ± σ、表示言語の書式で）
+  const formatWithSigma = (value: number, _name: string, item: { dataKey?: unknown; payload?: Record<string, number> }) => {
+    const sigma = typeof item.dataKey === 'string' ? item.payload?.[`${item.dataKey}Sigma`] : undefined;
+    return sigma ? `${formatNumber(value)} ± ${formatNumber(sigma)}` : formatNumber(value);
+  };
+
   // X軸のラベルと dataKey を現在の単位に応じて返す
   const getXAxisProps = () => {
     return {
-      label: params.xAxisUnit === 'wavelength' ? 'Wavelength (Å)' : 'Energy (meV)', // 軸ラベル
-      dataKey: params.xAxisUnit === 'wavelength' ? 'wavelength' : 'energy'          // データキー
+      label: axisLabel(params, t),   // 軸ラベル（表示言語で）
+      dataKey: params.xAxisUnit   // データキー（DataPoint のキーと一致）
     };
   };
 
+  // 図の書き出しで選べる系列（グラフに描いている折れ線と同じ）
+  const scenarioFigureSeries: FigureSeries[] = overlaidScenarios.map(scenario => ({
+    key: `scenario_${scenario.id}`,
+    name: scenario.name,
+    color: scenario.style.stroke,
+    strokeDasharray: scenario.style.strokeDasharray
+  }));
+  const he3FigureSeries: FigureSeries[] = [
+    { key: 'he3Polarization', name: t('series.he3Polarization'), color: '#82ca9d' },
+    { key: 'neutronPolarization', name: t('series.neutronPolarization'), color: '#8884d8' },
+    { key: 'neutronTransmission', name: t('series.neutronTransmission'), color: '#ff7300' },
+    ...(showDecayFit && decayFit ? [{
+      key: 'fittedValue',
+      name: measuredDecay?.quantity === 'transmission' ? t('series.fitTransmission') : t('series.fitHe3Polarization'),
+      color: '#374151',
+      strokeDasharray: '6 3'
+    }] : []),
+    ...scenarioFigureSeries
+  ];
+  const neutronFigureSeries: FigureSeries[] = [
+    { key: 'neutronPolarization', name: t('series.neutronPolarization'), color: '#8884d8' },
+    { key: 'neutronTransmission', name: t('series.neutronTransmission'), color: '#ff7300' },
+    { key: 'figureOfMerit', name: t('series.figureOfMerit'), color: '#82ca9d' },
+    ...(params.windowParams.enabled
+      ? [{ key: 'windowTransmission', name: t('series.windowTransmission'), color: '#a16207', strokeDasharray: '2 2' }]
+      : []),
+    ...(spectrum ? [
+      { key: 'incidentSpectrum', name: t('series.incidentSpectrum'), color: '#9ca3af', strokeDasharray: '5 5' },
+      { key: 'transmittedSpectrum', name: t('series.transmittedSpectrum'), color: '#4b5563', strokeDasharray: '5 5' }
+    ] : []),
+    ...(showCharacterization && thicknessFit
+      ? [{ key: 'unpolarizedFit', name: t('series.fitUnpolarized'), color: '#374151', strokeDasharray: '6 3' }]
+      : []),
+    ...(showCharacterization && polarizationFit
+      ? [{ key: 'polarizedFit', name: t('series.fitPolarized'), color: '#be123c', strokeDasharray: '6 3' }]
+      : []),
+    ...scenarioFigureSeries
+  ];
+
   return (
     <div className="space-y-6">
       {/* ルートコンテナ。縦に6の間隔を空けてボックスを並べる */}
 
+      {/* Scenarios Box */}
+      <ScenarioPanel
+        params={params}
+        scenarios={scenarios}
+        selectedIds={selectedScenarioIds}
+        overlay={scenarioOverlay}
+        onSave={(name) => {
+          const id = Date.now().toString(36);
+          updateScenarios([...scenarios, { id, name, params }]);
+          setSelectedScenarioIds([...selectedScenarioIds, id]);  // 保存したら重ね描きする
+        }}
+        onDelete={(id) => {
+          updateScenarios(scenarios.filter(scenario => scenario.id !== id));
+          setSelectedScenarioIds(selectedScenarioIds.filter(selected => selected !== id));
+        }}
+        onLoad={(id) => {
+          const scenario = scenarios.find(item => item.id === id);
+          if (!scenario) return;
+          setParams(scenario.params);
+          setTempParams(scenario.params);
+        }}
+        onToggle={(id) => setSelectedScenarioIds(selectedScenarioIds.includes(id)
+          ? selectedScenarioIds.filter(selected => selected !== id)
+          : [...selectedScenarioIds, id])}
+        onOverlayChange={setScenarioOverlay}
+      />
+
       {/* He-3 Polarization Box */}
       <div className="bg-white rounded-lg shadow p-4">
         {/* ボックス見出し */}
-        <h2 className="text-2xl font-bold text-center mb-4">He-3 Polarization</h2>
+        <h2 className="text-2xl font-bold text-center mb-4">{t('he3.title')}</h2>
 
         {/* パラメータ設定とレンジ設定を横並び */}
         <div className="flex gap-8 mb-6">
           {/* 左側：He-3 パラメータ入力 */}
           <div className="flex-1">
-            <h3 className="text-lg font-semibold mb-3">Parameters</h3>
+            <h3 className="text-lg font-semibold mb-3">{t('common.parameters')}</h3>
             <div className="grid grid-cols-1 gap-4">
               {/* 初期偏極度入力 */}
               <div className="flex items-center space-x-2">
                 <label className="text-sm font-medium text-gray-700 w-48">
-                  Initial Polarization (%)
+                  {t('he3.initialPolarization')}
                 </label>
                 <input
                   type="number"               /* 数値入力 */
@@ -334,11 +477,18 @@ export default function PolarizationPlot() {
                   }}
                   className="w-24 rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500" /* 見た目 */
                 />
+                <UncertaintyInput
+                  value={tempParams.uncertainties.initialPolarization}
+                  onChange={(initialPolarization) => setTempParams({
+                    ...tempParams,
+                    uncertainties: { ...tempParams.uncertainties, initialPolarization }
+                  })}
+                />
               </div>
               {/* 緩和時定数入力 */}
               <div className="flex items-center space-x-2">
                 <label className="text-sm font-medium text-gray-700 w-48">
-                  Relaxation Time (hour)
+                  {t('he3.relaxationTime')}
                 </label>
                 <input
                   type="number"
@@ -353,33 +503,20 @@ export default function PolarizationPlot() {
                   }}
                   className="w-24 rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
                 />
-              </div>
-                            {/* He-3 厚さ（atm·cm） */}
-                            <div className="flex items-center space-x-2">
-                <label className="text-sm font-medium text-gray-700 w-48">
-                  He-3 Gas Thickness (amg cm)
-                </label>
-                <input
-                  type="number"
-                  step="any"
-                  value={tempParams.neutronParams.gasThickness}
-                  onChange={(e) => {
-                    const value = parseFloat(e.target.value) || 0;
-                    setTempParams({
-                      ...tempParams,
-                      neutronParams: {
-                        ...tempParams.neutronParams,
-                        gasThickness: value
-                      }
-                    });
-                  }}
-                  className="w-24 rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+                <UncertaintyInput
+                  value={tempParams.uncertainties.relaxationTimeConstant}
+                  onChange={(relaxationTimeConstant) => setTempParams({
+                    ...tempParams,
+                    uncertainties: { ...tempParams.uncertainties, relaxationTimeConstant }
+                  })}
                 />
               </div>
-              {/* Neutron Energy (meV or Å) 入力 */}
+              {/* He-3 厚さ（amg·cm、直接入力 or セル形状から算出） */}
+              <GasThicknessInput tempParams={tempParams} onChange={setTempParams} />
+              {/* Neutron Energy (meV or Å or TOF) 入力 */}
               <div className="flex items-center space-x-2">
                 <label className="text-sm font-medium text-gray-700 w-48">
-                  Energy or Wavelength
+                  {t('he3.energyOrWavelength')}
                 </label>
                 <input
                   type="number"
@@ -388,7 +525,12 @@ export default function PolarizationPlot() {
                   value={
                     energyUnit === 'meV'
                       ? Number(tempParams.neutronParams.energy.toFixed(1))                      // E (meV)
-                      : Number(Math.sqrt(81.81 / tempParams.neutronParams.energy).toFixed(1))  // λ = √(81.81/E)
+                      : energyUnit === 'Å'
+                        ? Number(energyToWavelength(tempParams.neutronParams.energy).toFixed(1)) // λ = √(81.81/E)
+                        : Number(wavelengthToDetectorTof(                                        // 検出器での TOF
+                            energyToWavelength(tempParams.neutronParams.energy),
+                            tempParams.tofParams
+                          ).toFixed(2))
                   }
                   onChange={(e) => {
                     const val = parseFloat(e.target.value) || 0;
@@ -397,9 +539,12 @@ export default function PolarizationPlot() {
                     if (energyUnit === 'meV') {
                       // 入力は E そのまま
                       energy = val;
+                    } else if (energyUnit === 'TOF') {
+                      // 入力は TOF → λ → E に換算
+                      energy = val > 0 ? wavelengthToEnergy(detectorTofToWavelength(val, tempParams.tofParams)) : 0;
                     } else {
                       // 入力は λ → E に換算
-                      energy = val > 0 ? 81.81 / (val * val) : 0;
+                      energy = val > 0 ? wavelengthToEnergy(val) : 0;
                     }
 
                     setTempParams({
@@ -416,23 +561,96 @@ export default function PolarizationPlot() {
                 {/* ▼ 単位選択プルダウン */}
                 <select
                   value={energyUnit}
-                  onChange={(e) => setEnergyUnit(e.target.value as 'meV' | 'Å')}
+                  onChange={(e) => setEnergyUnit(e.target.value as EnergyUnit)}
                   className="ml-2 rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
                 >
                   <option value="meV">meV</option>
                   <option value="Å">Å</option>
+                  <option value="TOF">TOF ({tempParams.tofParams.unit})</option>
                 </select>
               </div>
+              {/* ポンピング＋緩和サイクル */}
+              <PumpingInput tempParams={tempParams} onChange={setTempParams} />
+              {/* AFP スピン反転の損失 */}
+              <AfpInput tempParams={tempParams} onChange={setTempParams} duration={Number(axisRanges.he3.xMax) || 24} />
+              {/* T1 の内訳パネルの表示切替 */}
+              <div className="flex items-center space-x-2">
+                <label className="text-sm font-medium text-gray-700 w-48">
+                  {t('he3.relaxationBudget')}
+                </label>
+                <label className="inline-flex items-center">
+                  <input
+                    type="checkbox"
+                    className="form-checkbox h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-gray-300"
+                    checked={showRelaxationBudget}
+                    onChange={(e) => setShowRelaxationBudget(e.target.checked)}
+                  />
+                  <span className="ml-2 text-sm text-gray-700">
+                    {t('he3.relaxationBudgetHint')}
+                  </span>
+                </label>
+              </div>
+              {/* セルローテーション計画の表示切替 */}
+              <div className="flex items-center space-x-2">
+                <label className="text-sm font-medium text-gray-700 w-48">
+                  {t('he3.rotationPlanner')}
+                </label>
+                <label className="inline-flex items-center">
+                  <input
+                    type="checkbox"
+                    className="form-checkbox h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-gray-300"
+                    checked={showRotationPlanner}
+                    onChange={(e) => setShowRotationPlanner(e.target.checked)}
+                  />
+                  <span className="ml-2 text-sm text-gray-700">
+                    {t('he3.rotationPlannerHint')}
+                  </span>
+                </label>
+              </div>
+              {/* 測定データのフィットパネルの表示切替 */}
+              <div className="flex items-center space-x-2">
+                <label className="text-sm font-medium text-gray-700 w-48">
+                  {t('he3.measuredData')}
+                </label>
+                <label className="inline-flex items-center">
+                  <input
+                    type="checkbox"
+                    className="form-checkbox h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-gray-300"
+                    checked={showDecayFit}
+                    onChange={(e) => setShowDecayFit(e.target.checked)}
+                  />
+                  <span className="ml-2 text-sm text-gray-700">
+                    {t('he3.measuredDataHint')}
+                  </span>
+                </label>
+              </div>
+              {/* 偏極解析データ補正の表示切替 */}
+              <div className="flex items-center space-x-2">
+                <label className="text-sm font-medium text-gray-700 w-48">
+                  {t('he3.dataCorrection')}
+                </label>
+                <label className="inline-flex items-center">
+                  <input
+                    type="checkbox"
+                    className="form-checkbox h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-gray-300"
+                    checked={showCorrection}
+                    onChange={(e) => setShowCorrection(e.target.checked)}
+                  />
+                  <span className="ml-2 text-sm text-gray-700">
+                    {t('he3.dataCorrectionHint')}
+                  </span>
+                </label>
+              </div>
             </div>
           </div>
 
           {/* 右側：He-3 グラフの軸レンジ設定 */}
           <div className="flex-1">
-            <h3 className="text-lg font-semibold mb-3">Graph Range Settings</h3>
+            <h3 className="text-lg font-semibold mb-3">{t('common.graphRange')}</h3>
             <div className="grid grid-cols-2 gap-4">
               {/* X最小（時間） */}
               <div>
-                <label className="block text-sm font-medium text-gray-700">X Min (hour)</label>
+                <label className="block text-sm font-medium text-gray-700">{t('range.xMinHour')}</label>
                 <input
                   type="number"
                   step="any"
@@ -443,7 +661,7 @@ export default function PolarizationPlot() {
               </div>
               {/* X最大（時間） */}
               <div>
-                <label className="block text-sm font-medium text-gray-700">X Max (hour)</label>
+                <label className="block text-sm font-medium text-gray-700">{t('range.xMaxHour')}</label>
                 <input
                   type="number"
                   step="any"
@@ -454,7 +672,7 @@ export default function PolarizationPlot() {
               </div>
               {/* Y最小（%） */}
               <div>
-                <label className="block text-sm font-medium text-gray-700">Y Min (%)</label>
+                <label className="block text-sm font-medium text-gray-700">{t('range.yMin')}</label>
                 <input
                   type="number"
                   step="any"
@@ -465,7 +683,7 @@ export default function PolarizationPlot() {
               </div>
               {/* Y最大（%） */}
               <div>
-                <label className="block text-sm font-medium text-gray-700">Y Max (%)</label>
+                <label className="block text-sm font-medium text-gray-700">{t('range.yMax')}</label>
                 <input
                   type="number"
                   step="any"
@@ -474,6 +692,12 @@ export default function PolarizationPlot() {
                   className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
                 />
               </div>
+              {/* サンプル点数とサンプリング方法 */}
+              <SamplingInput
+                sampling={sampling.he3}
+                pending={curvePending.he3}
+                onChange={(he3Sampling) => setSampling({ ...sampling, he3: he3Sampling })}
+              />
             </div>
           </div>
         </div>
@@ -486,21 +710,76 @@ export default function PolarizationPlot() {
                 ...params,
                 initialPolarization: tempParams.initialPolarization,
                 relaxationTimeConstant: tempParams.relaxationTimeConstant,
-                neutronParams: tempParams.neutronParams
+                neutronParams: tempParams.neutronParams,
+                tofParams: tempParams.tofParams,
+                thicknessInput: tempParams.thicknessInput,
+                cellGeometry: tempParams.cellGeometry,
+                windowParams: tempParams.windowParams,
+                pumpingParams: tempParams.pumpingParams,
+                afpParams: tempParams.afpParams,
+                crossSection: tempParams.crossSection,
+                uncertainties: tempParams.uncertainties
               };
-              setParams(newParams);                         /* 確定 */
-              setHe3Data(calculateHe3Polarization(newParams)); /* 即再計算 */
+              setParams(newParams);                         /* 確定（曲線は effect で再計算） */
             }}
             className="px-4 py-2 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2"
           >
-            Set Parameters
+            {t('common.setParameters')}
           </button>
         </div>
 
+        {/* T1 の内訳（双極子・壁・磁場勾配） */}
+        {showRelaxationBudget && (
+          <RelaxationBudgetPanel
+            cellGeometry={tempParams.cellGeometry}
+            onApply={(relaxationTimeConstant) => {
+              setTempParams({ ...tempParams, relaxationTimeConstant });  // 入力欄にも反映
+              setParams({ ...params, relaxationTimeConstant });          // 確定
+            }}
+          />
+        )}
+
+        {/* 測定データから P0, T1 をフィット */}
+        {showDecayFit && (
+          <DecayFitPanel
+            measuredDecay={measuredDecay}
+            onChange={setMeasuredDecay}
+            fit={decayFit}
+            onApply={(initialPolarization, relaxationTimeConstant) => {
+              setTempParams({ ...tempParams, initialPolarization, relaxationTimeConstant }); // 入力欄にも反映
+              setParams({ ...params, initialPolarization, relaxationTimeConstant });         // 確定
+            }}
+          />
+        )}
+
+        {/* 計算した曲線の書き出し */}
+        <ExportButtons
+          series="he3_polarization"
+          data={he3Data}
+          params={params}
+          onExportFigure={() => setFigureExport(figureExport === 'he3' ? null : 'he3')}
+        />
+        {figureExport === 'he3' && (
+          <FigureExportPanel
+            series="he3_polarization"
+            data={he3GraphData}
+            lines={he3FigureSeries}
+            xKey="time"
+            xScale="linear"
+            xDomain={[Number(axisRanges.he3.xMin) || 0, Number(axisRanges.he3.xMax) || 24]}
+            yDomain={[he3YMin, Number(axisRanges.he3.yMax)]}
+            xTicks={generateTicks(Number(axisRanges.he3.xMin) || 0, Number(axisRanges.he3.xMax) || 24, false)}
+            yTicks={generateTicks(he3YMin, Number(axisRanges.he3.yMax), false)}
+            defaultXLabel={t('chart.time')}
+            defaultYLabel={t('chart.polarization')}
+            onClose={() => setFigureExport(null)}
+          />
+        )}
+
         {/* He-3 グラフ領域（高さ固定） */}
         <div className="h-[400px]">
           <ResponsiveContainer width="100%" height="100%">
-            <LineChart
+            <ComposedChart
               key={`he3-${Number(axisRanges.he3.xMin)}-${Number(axisRanges.he3.xMax)}-${Number(axisRanges.he3.yMin)}-${Number(axisRanges.he3.yMax)}`} /* 軸変更で完全再マウント */
               data={he3GraphData}            /* データソース */
               margin={{                      /* 余白設定 */
@@ -513,7 +792,7 @@ export default function PolarizationPlot() {
               <CartesianGrid strokeDasharray="3 3" /> {/* 点線グリッド */}
               <XAxis
                 dataKey="time"               /* Xは時間 */
-                label={{ value: 'Time (hour)', position: 'bottom', offset: 0 }} /* 軸ラベル */
+                label={{ value: t('chart.time'), position: 'bottom', offset: 0 }} /* 軸ラベル */
                 type="number"                /* 数値軸 */
                 scale="auto"                 /* 自動スケール */
                 domain={[
@@ -525,36 +804,69 @@ export default function PolarizationPlot() {
                   Number(axisRanges.he3.xMax) || 24,
                   false
                 )}
-                tickFormatter={(value) => value.toFixed(1)} /* 表示桁 */
+                tickFormatter={(value) => formatNumber(value)} /* 表示桁 */
               />
               <YAxis
                 label={{
-                  value: 'Polarization (%)',
+                  value: t('chart.polarization'),
                   angle: -90,
                   position: 'insideLeft',
                   offset: -5
                 }}                           /* Y軸ラベル */
                 domain={[
-                  Number(axisRanges.he3.yMin),
+                  he3YMin,
                   Number(axisRanges.he3.yMax)
                 ]}                           /* 表示範囲 */
                 allowDataOverflow={true}     /* データ外も描画可 */
                 ticks={generateTicks(        /* 目盛り */
-                  Number(axisRanges.he3.yMin),
+                  he3YMin,
                   Number(axisRanges.he3.yMax),
                   false
                 )}
-                tickFormatter={(value) => value.toFixed(1)} /* 表示桁 */
+                tickFormatter={(value) => formatNumber(value)} /* 表示桁 */
               />
               <Tooltip
-                formatter={(value: number) => value.toFixed(1)} /* 値の表示桁 */
-                labelFormatter={(label: number) => `Time: ${label.toFixed(1)} hour`} /* ラベル表示 */
+                formatter={formatWithSigma}  /* 値の表示桁（誤差があれば ± σ） */
+                labelFormatter={(label: number) => t('chart.timeTooltip', { time: formatNumber(label) })} /* ラベル表示 */
               />
               <Legend verticalAlign="top" height={36} /> {/* 凡例 */}
+              {hasHe3Uncertainty && HE3_BANDS.map(band => (
+                <Area
+                  key={`band-${band.key}`}
+                  type="monotone"
+                  dataKey={bandRange(band.key)}  /* ±1σ の誤差帯 */
+                  stroke="none"
+                  fill={band.color}
+                  fillOpacity={0.2}
+                  legendType="none"
+                  tooltipType="none"
+                  isAnimationActive={false}
+                />
+              ))}
+              {overlaidScenarios.map(scenario => (
+                <Line
+                  key={scenario.id}
+                  type="monotone"
+                  dataKey={`scenario_${scenario.id}`} /* y=シナリオの曲線 */
+                  name={scenario.name}
+                  stroke={scenario.style.stroke}
+                  strokeDasharray={scenario.style.strokeDasharray}
+                  dot={false}
+                  isAnimationActive={false}
+                />
+              ))}
+              {params.pumpingParams.enabled && (
+                <ReferenceLine
+                  x={params.pumpingParams.pumpDuration}   /* ポンピング終了＝ビーム開始 */
+                  stroke="#6b7280"
+                  strokeDasharray="4 4"
+                  label={{ value: t('chart.endOfPumping'), position: 'insideTopRight', fill: '#6b7280', fontSize: 12 }}
+                />
+              )}
               <Line
                 type="monotone"              /* 曲線形状 */
                 dataKey="he3Polarization"    /* y=He-3 偏極度 */
-                name="He-3 Polarization"     /* 凡例名 */
+                name={t('series.he3Polarization')}     /* 凡例名 */
                 stroke="#82ca9d"              /* 線色 */
                 dot={false}                   /* マーカー非表示 */
                 isAnimationActive={false}     /* アニメ無効（数値安定） */
@@ -562,7 +874,7 @@ export default function PolarizationPlot() {
               <Line
                 type="monotone"              /* 曲線形状 */
                 dataKey="neutronPolarization" /* y=中性子偏極度 */
-                name="Neutron Polarization"  /* 凡例名 */
+                name={t('series.neutronPolarization')}  /* 凡例名 */
                 stroke="#8884d8"              /* 線色 */
                 dot={false}                   /* マーカー非表示 */
                 isAnimationActive={false}     /* アニメ無効（数値安定） */
@@ -570,30 +882,58 @@ export default function PolarizationPlot() {
               <Line
                 type="monotone"              /* 曲線形状 */
                 dataKey="neutronTransmission" /* y=中性子透過率 */
-                name="Neutron Transmission"  /* 凡例名 */
+                name={t('series.neutronTransmission')}  /* 凡例名 */
                 stroke="#ff7300"              /* 線色 */
                 dot={false}                   /* マーカー非表示 */
                 isAnimationActive={false}     /* アニメ無効（数値安定） */
               />
-            </LineChart>
+              {showDecayFit && decayFit && (
+                <Line
+                  type="monotone"
+                  dataKey="fittedValue"       /* y=フィット曲線 */
+                  name={measuredDecay?.quantity === 'transmission' ? t('series.fitTransmission') : t('series.fitHe3Polarization')}
+                  stroke="#374151"
+                  strokeDasharray="6 3"
+                  dot={false}
+                  isAnimationActive={false}
+                />
+              )}
+              {showDecayFit && measuredDecay && (
+                <Scatter
+                  data={measuredDecay.measurements} /* 測定点（time, value, uncertainty） */
+                  dataKey="value"
+                  name={measuredDecay.quantity === 'transmission' ? t('series.measuredTransmission') : t('series.measuredHe3Polarization')}
+                  fill="#374151"
+                  isAnimationActive={false}
+                >
+                  <ErrorBar dataKey="uncertainty" direction="y" stroke="#374151" />
+                </Scatter>
+              )}
+            </ComposedChart>
           </ResponsiveContainer>
         </div>
       </div>
 
+      {/* Cell Rotation Planner Box */}
+      {showRotationPlanner && <RotationPlannerBox params={params} />}
+
+      {/* Polarization Analysis Correction Box */}
+      {showCorrection && <PolarizationCorrectionBox params={params} />}
+
       {/* Neutron Polarization Box */}
       <div className="bg-white rounded-lg shadow p-4">
-        <h2 className="text-2xl font-bold text-center mb-4">Neutron Polarization</h2>
+        <h2 className="text-2xl font-bold text-center mb-4">{t('neutron.title')}</h2>
 
         {/* 上段：パラメータ入力＋レンジ設定 */}
         <div className="flex gap-8 mb-6">
           {/* 左：中性子計算パラメータ */}
           <div className="flex-1">
-            <h3 className="text-lg font-semibold mb-3">Parameters</h3>
+            <h3 className="text-lg font-semibold mb-3">{t('common.parameters')}</h3>
             <div className="grid grid-cols-1 gap-4">
               {/* He-3 偏極度（%） */}
               <div className="flex items-center space-x-2">
                 <label className="text-sm font-medium text-gray-700 w-48">
-                  He-3 Polarization (%)
+                  {t('neutron.he3Polarization')}
                 </label>
                 <input
                   type="number"
@@ -611,33 +951,22 @@ export default function PolarizationPlot() {
                   }}
                   className="w-24 rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
                 />
-              </div>
-              {/* He-3 厚さ（atm·cm） */}
-              <div className="flex items-center space-x-2">
-                <label className="text-sm font-medium text-gray-700 w-48">
-                  He-3 Gas Thickness (amg cm)
-                </label>
-                <input
-                  type="number"
-                  step="any"
-                  value={tempParams.neutronParams.gasThickness}
-                  onChange={(e) => {
-                    const value = e.target.value === '' ? 0 : parseFloat(e.target.value);
-                    setTempParams({
-                      ...tempParams,
-                      neutronParams: {
-                        ...tempParams.neutronParams,
-                        gasThickness: isNaN(value) ? 0 : value
-                      }
-                    });
-                  }}
-                  className="w-24 rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+                <UncertaintyInput
+                  value={tempParams.uncertainties.he3Polarization}
+                  onChange={(he3Polarization) => setTempParams({
+                    ...tempParams,
+                    uncertainties: { ...tempParams.uncertainties, he3Polarization }
+                  })}
                 />
               </div>
+              {/* He-3 厚さ（amg·cm、直接入力 or セル形状から算出） */}
+              <GasThicknessInput tempParams={tempParams} onChange={setTempParams} />
+              {/* セル窓の減衰 */}
+              <WindowInput tempParams={tempParams} onChange={setTempParams} />
               {/* X軸の単位（λ or E） */}
               <div className="flex items-center space-x-4">
                 <label className="text-sm font-medium text-gray-700 w-40">
-                  X-Axis Unit
+                  {t('neutron.xAxisUnit')}
                 </label>
                 <div className="flex space-x-4">
                   <label className="inline-flex items-center">
@@ -648,12 +977,10 @@ export default function PolarizationPlot() {
                       onChange={() => {
                         const newParams: Params = { ...params, xAxisUnit: 'wavelength' }; // 単位切替
                         setParams(newParams);                                             // 反映
-                        const neutronData = calculateNeutronProperties(newParams);        // 再計算
-                        setNeutronData(neutronData);                                      // セット
                       }}
                     />
                     <span className="ml-2 text-sm text-gray-700">
-                      Wavelength (Å)
+                      {t('axis.wavelength')}
                     </span>
                   </label>
                   <label className="inline-flex items-center">
@@ -664,20 +991,95 @@ export default function PolarizationPlot() {
                       onChange={() => {
                         const newParams: Params = { ...params, xAxisUnit: 'energy' };     // 単位切替
                         setParams(newParams);
-                        const neutronData = calculateNeutronProperties(newParams);
-                        setNeutronData(neutronData);
                       }}
                     />
                     <span className="ml-2 text-sm text-gray-700">
-                      Energy (meV)
+                      {t('axis.energy')}
+                    </span>
+                  </label>
+                  <label className="inline-flex items-center">
+                    <input
+                      type="radio"
+                      className="form-radio h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-gray-300"
+                      checked={params.xAxisUnit === 'tof'}
+                      onChange={() => {
+                        const newParams: Params = { ...params, xAxisUnit: 'tof' };        // 単位切替
+                        setParams(newParams);
+                      }}
+                    />
+                    <span className="ml-2 text-sm text-gray-700">
+                      {t('axis.tof', { unit: params.tofParams.unit })}
                     </span>
                   </label>
                 </div>
               </div>
+              {/* 飛行距離と TOF 単位（TOF 表示時のみ） */}
+              {(params.xAxisUnit === 'tof' || energyUnit === 'TOF') && (
+                <>
+                  <div className="flex items-center space-x-2">
+                    <label className="text-sm font-medium text-gray-700 w-48">
+                      {t('neutron.sourceToCell')}
+                    </label>
+                    <input
+                      type="number"
+                      step="any"
+                      value={tempParams.tofParams.sourceToCell}
+                      onChange={(e) => {
+                        const value = parseFloat(e.target.value);
+                        if (!(value > 0)) return;  // 距離は正の値だけ反映（0 以下では TOF ↔ λ の換算ができない）
+                        setTempParams({
+                          ...tempParams,
+                          tofParams: {
+                            ...tempParams.tofParams,
+                            sourceToCell: value
+                          }
+                        });
+                      }}
+                      className="w-24 rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+                    />
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <label className="text-sm font-medium text-gray-700 w-48">
+                      {t('neutron.sourceToDetector')}
+                    </label>
+                    <input
+                      type="number"
+                      step="any"
+                      value={tempParams.tofParams.sourceToDetector}
+                      onChange={(e) => {
+                        const value = parseFloat(e.target.value);
+                        if (!(value > 0)) return;  // 距離は正の値だけ反映（0 以下では TOF ↔ λ の換算ができない）
+                        setTempParams({
+                          ...tempParams,
+                          tofParams: {
+                            ...tempParams.tofParams,
+                            sourceToDetector: value
+                          }
+                        });
+                      }}
+                      className="w-24 rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+                    />
+                    <select
+                      value={tempParams.tofParams.unit}
+                      onChange={(e) => setTempParams({
+                        ...tempParams,
+                        tofParams: {
+                          ...tempParams.tofParams,
+                          unit: e.target.value as 'ms' | 'µs'
+                        }
+                      })}
+                      className="ml-2 rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+                    >
+                      <option value="ms">ms</option>
+                      <option value="µs">µs</option>
+                    </select>
+                  </div>
+                </>
+              )}
               {/* X軸スケール（Linear / Log） */}
               <div className="flex items-center space-x-4">
                 <label className="text-sm font-medium text-gray-700 w-40">
-                  X-Axis Scale
+                  {t('neutron.xAxisScale')}
                 </label>
                 <div className="flex space-x-4">
                   <label className="inline-flex items-center">
@@ -686,12 +1088,11 @@ export default function PolarizationPlot() {
                       className="form-radio h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-gray-300"
                       checked={!isLogScale}
                       onChange={() => {
-                        setIsLogScale(false);                            // 線形へ
-                        setNeutronData(calculateNeutronProperties(params)); // 再計算
+                        setIsLogScale(false);                            // 線形へ（曲線は effect で再計算）
                       }}
                     />
                     <span className="ml-2 text-sm text-gray-700">
-                      Linear
+                      {t('neutron.linear')}
                     </span>
                   </label>
                   <label className="inline-flex items-center">
@@ -701,26 +1102,127 @@ export default function PolarizationPlot() {
                       checked={isLogScale}
                       onChange={() => {
                         setIsLogScale(true);                             // 対数へ
-                        setNeutronData(calculateNeutronProperties(params));
                       }}
                     />
                     <span className="ml-2 text-sm text-gray-700">
-                      Log
+                      {t('neutron.log')}
                     </span>
                   </label>
                 </div>
               </div>
+              {/* 最適厚さ探索モード */}
+              <div className="flex items-center space-x-4">
+                <label className="text-sm font-medium text-gray-700 w-40">
+                  {t('neutron.optimizer')}
+                </label>
+                <label className="inline-flex items-center">
+                  <input
+                    type="checkbox"
+                    className="form-checkbox h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-gray-300"
+                    checked={showOptimizer}
+                    onChange={(e) => setShowOptimizer(e.target.checked)}
+                  />
+                  <span className="ml-2 text-sm text-gray-700">
+                    {t('neutron.optimizerHint')}
+                  </span>
+                </label>
+              </div>
+              {/* 目標の Pn・Tn・FOM からの逆算 */}
+              <div className="flex items-center space-x-4">
+                <label className="text-sm font-medium text-gray-700 w-40">
+                  {t('neutron.inverseSolver')}
+                </label>
+                <label className="inline-flex items-center">
+                  <input
+                    type="checkbox"
+                    className="form-checkbox h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-gray-300"
+                    checked={showInverseSolver}
+                    onChange={(e) => setShowInverseSolver(e.target.checked)}
+                  />
+                  <span className="ml-2 text-sm text-gray-700">
+                    {t('neutron.inverseSolverHint')}
+                  </span>
+                </label>
+              </div>
+              {/* 波長 × 厚さの設計マップ */}
+              <div className="flex items-center space-x-4">
+                <label className="text-sm font-medium text-gray-700 w-40">
+                  {t('neutron.designMap')}
+                </label>
+                <label className="inline-flex items-center">
+                  <input
+                    type="checkbox"
+                    className="form-checkbox h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-gray-300"
+                    checked={showDesignMap}
+                    onChange={(e) => setShowDesignMap(e.target.checked)}
+                  />
+                  <span className="ml-2 text-sm text-gray-700">
+                    {t('neutron.designMapHint')}
+                  </span>
+                </label>
+              </div>
+              {/* 吸収断面積モデルと物理定数 */}
+              <div className="flex items-center space-x-4">
+                <label className="text-sm font-medium text-gray-700 w-40">
+                  {t('neutron.crossSection')}
+                </label>
+                <label className="inline-flex items-center">
+                  <input
+                    type="checkbox"
+                    className="form-checkbox h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-gray-300"
+                    checked={showCrossSection}
+                    onChange={(e) => setShowCrossSection(e.target.checked)}
+                  />
+                  <span className="ml-2 text-sm text-gray-700">
+                    {t('neutron.crossSectionHint')}
+                  </span>
+                </label>
+              </div>
+              {/* ポラライザー＋アナライザー2セルモード */}
+              <div className="flex items-center space-x-4">
+                <label className="text-sm font-medium text-gray-700 w-40">
+                  {t('neutron.twoCell')}
+                </label>
+                <label className="inline-flex items-center">
+                  <input
+                    type="checkbox"
+                    className="form-checkbox h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-gray-300"
+                    checked={showTwoCell}
+                    onChange={(e) => setShowTwoCell(e.target.checked)}
+                  />
+                  <span className="ml-2 text-sm text-gray-700">
+                    {t('neutron.twoCellHint')}
+                  </span>
+                </label>
+              </div>
+              {/* 透過率スペクトルからのセル評価 */}
+              <div className="flex items-center space-x-4">
+                <label className="text-sm font-medium text-gray-700 w-40">
+                  {t('neutron.characterization')}
+                </label>
+                <label className="inline-flex items-center">
+                  <input
+                    type="checkbox"
+                    className="form-checkbox h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-gray-300"
+                    checked={showCharacterization}
+                    onChange={(e) => setShowCharacterization(e.target.checked)}
+                  />
+                  <span className="ml-2 text-sm text-gray-700">
+                    {t('neutron.characterizationHint')}
+                  </span>
+                </label>
+              </div>
             </div>
           </div>
 
           {/* 右：Neutron グラフの軸レンジ設定 */}
           <div className="flex-1">
-            <h3 className="text-lg font-semibold mb-3">Graph Range Settings</h3>
+            <h3 className="text-lg font-semibold mb-3">{t('common.graphRange')}</h3>
             <div className="grid grid-cols-2 gap-4">
               {/* X最小（単位は現在の選択に追従） */}
               <div>
                 <label className="block text-sm font-medium text-gray-700">
-                  X Min ({params.xAxisUnit === 'wavelength' ? 'Å' : 'meV'})
+                  {t('range.xMin', { unit: axisUnitSymbol(params) })}
                 </label>
                 <input
                   type="number"
@@ -733,7 +1235,7 @@ export default function PolarizationPlot() {
               {/* X最大 */}
               <div>
                 <label className="block text-sm font-medium text-gray-700">
-                  X Max ({params.xAxisUnit === 'wavelength' ? 'Å' : 'meV'})
+                  {t('range.xMax', { unit: axisUnitSymbol(params) })}
                 </label>
                 <input
                   type="number"
@@ -745,7 +1247,7 @@ export default function PolarizationPlot() {
               </div>
               {/* Y最小（%） */}
               <div>
-                <label className="block text-sm font-medium text-gray-700">Y Min (%)</label>
+                <label className="block text-sm font-medium text-gray-700">{t('range.yMin')}</label>
                 <input
                   type="number"
                   step="any"
@@ -756,7 +1258,7 @@ export default function PolarizationPlot() {
               </div>
               {/* Y最大（%） */}
               <div>
-                <label className="block text-sm font-medium text-gray-700">Y Max (%)</label>
+                <label className="block text-sm font-medium text-gray-700">{t('range.yMax')}</label>
                 <input
                   type="number"
                   step="any"
@@ -765,6 +1267,12 @@ export default function PolarizationPlot() {
                   className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
                 />
               </div>
+              {/* サンプル点数とサンプリング方法 */}
+              <SamplingInput
+                sampling={sampling.neutron}
+                pending={curvePending.neutron}
+                onChange={(neutronSampling) => setSampling({ ...sampling, neutron: neutronSampling })}
+              />
             </div>
           </div>
         </div>
@@ -775,21 +1283,80 @@ export default function PolarizationPlot() {
             onClick={() => {
               const newParams = {
                 ...params,
-                neutronParams: tempParams.neutronParams
+                neutronParams: tempParams.neutronParams,
+                tofParams: tempParams.tofParams,
+                thicknessInput: tempParams.thicknessInput,
+                cellGeometry: tempParams.cellGeometry,
+                windowParams: tempParams.windowParams,
+                pumpingParams: tempParams.pumpingParams,
+                afpParams: tempParams.afpParams,
+                crossSection: tempParams.crossSection,
+                uncertainties: tempParams.uncertainties
               };
-              setParams(newParams);                            // 反映
-              setNeutronData(calculateNeutronProperties(newParams)); // 再計算
+              setParams(newParams);                            // 反映（曲線は effect で再計算）
             }}
             className="px-4 py-2 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2"
           >
-            Set Parameters
+            {t('common.setParameters')}
           </button>
         </div>
 
+        {/* 入射スペクトル設定とスペクトル平均値 */}
+        <SpectrumPanel params={params} spectrum={spectrum} onChange={setSpectrum} />
+
+        {/* 透過率スペクトルからガス厚さと He-3 偏極度を求める */}
+        {showCharacterization && (
+          <CellCharacterizationPanel
+            spectra={measuredSpectra}
+            onChange={setMeasuredSpectra}
+            thicknessFit={thicknessFit}
+            polarizationFit={polarizationFit}
+            onApplyThickness={(gasThickness) => {
+              setTempParams({ ...tempParams, thicknessInput: 'direct', neutronParams: { ...tempParams.neutronParams, gasThickness } });
+              setParams({ ...params, thicknessInput: 'direct', neutronParams: { ...params.neutronParams, gasThickness } });
+            }}
+            onApplyPolarization={(he3Polarization) => {
+              setTempParams({ ...tempParams, neutronParams: { ...tempParams.neutronParams, he3Polarization } });
+              setParams({ ...params, neutronParams: { ...params.neutronParams, he3Polarization } });
+            }}
+          />
+        )}
+
+        {/* 計算した曲線の書き出し */}
+        <ExportButtons
+          series="neutron_polarization"
+          data={neutronData}
+          params={params}
+          onExportFigure={() => setFigureExport(figureExport === 'neutron' ? null : 'neutron')}
+        />
+        {figureExport === 'neutron' && (
+          <FigureExportPanel
+            series="neutron_polarization"
+            data={neutronGraphData}
+            lines={neutronFigureSeries}
+            xKey={getXAxisProps().dataKey}
+            xScale={isLogScale ? 'log' : 'linear'}
+            xDomain={[
+              isLogScale ? Math.max(0.1, Number(axisRanges.neutron.xMin) || 0.1) : Number(axisRanges.neutron.xMin) || 0,
+              Number(axisRanges.neutron.xMax) || 10
+            ]}
+            yDomain={[Number(axisRanges.neutron.yMin) || 0, Number(axisRanges.neutron.yMax) || 100]}
+            xTicks={generateTicks(
+              isLogScale ? Math.max(0.1, Number(axisRanges.neutron.xMin) || 0.1) : Number(axisRanges.neutron.xMin) || 0,
+              Number(axisRanges.neutron.xMax) || 10,
+              isLogScale
+            )}
+            yTicks={generateTicks(Number(axisRanges.neutron.yMin) || 0, Number(axisRanges.neutron.yMax) || 100, false)}
+            defaultXLabel={getXAxisProps().label}
+            defaultYLabel={t('chart.neutronFigureYLabel')}
+            onClose={() => setFigureExport(null)}
+          />
+        )}
+
         {/* Neutron グラフ */}
         <div className="h-[400px]">
           <ResponsiveContainer width="100%" height="100%">
-            <LineChart
+            <ComposedChart
               key={`neutron-${axisRanges.neutron.xMin}-${axisRanges.neutron.xMax}-${axisRanges.neutron.yMin}-${axisRanges.neutron.yMax}-${isLogScale}`} /* 軸やスケール変更で再マウント */
               data={neutronGraphData}        /* データソース */
               margin={{
@@ -822,11 +1389,11 @@ export default function PolarizationPlot() {
                   Number(axisRanges.neutron.xMax) || 10,
                   isLogScale
                 )}
-                tickFormatter={(value) => value.toFixed(1)} /* 表示桁 */
+                tickFormatter={(value) => formatNumber(value)} /* 表示桁 */
               />
               <YAxis
                 label={{
-                  value: ['Polarization /', 'Transmission /', 'Figure of Merit'].join('\n'), // 縦書きふうに3行
+                  value: t('chart.neutronYAxis'), // 縦書きふうに3行
                   angle: -90,
                   position: 'insideLeft',
                   offset: -10,
@@ -842,20 +1409,48 @@ export default function PolarizationPlot() {
                   Number(axisRanges.neutron.yMax) || 100,
                   false
                 )}
-                tickFormatter={(value) => value.toFixed(1)} /* 表示桁 */
+                tickFormatter={(value) => formatNumber(value)} /* 表示桁 */
               />
               <Tooltip
-                formatter={(value: number) => value.toFixed(1)} /* 値の桁 */
+                formatter={formatWithSigma}      /* 値の桁（誤差があれば ± σ） */
                 labelFormatter={(label: number) => {
-                  const unit = params.xAxisUnit === 'wavelength' ? 'Å' : 'meV'; // 単位を付与
-                  return `${isLogScale ? 'log ' : ''}${getXAxisProps().label}: ${label.toFixed(1)} ${unit}`;
+                  const unit = axisUnitSymbol(params); // 単位を付与
+                  const text = `${isLogScale ? t('chart.logPrefix') : ''}${getXAxisProps().label}: ${formatNumber(label)} ${unit}`;
+                  if (params.xAxisUnit !== 'tof') return text;
+                  const cellTof = wavelengthToCellTof(detectorTofToWavelength(label, params.tofParams), params.tofParams);
+                  return `${text} ${t('chart.atCell', { value: formatNumber(cellTof), unit })}`; // セル到達時の TOF も表示
                 }}
               />
               <Legend verticalAlign="top" height={36} /> {/* 凡例 */}
+              {hasNeutronUncertainty && NEUTRON_BANDS.map(band => (
+                <Area
+                  key={`band-${band.key}`}
+                  type="monotone"
+                  dataKey={bandRange(band.key)}  /* ±1σ の誤差帯 */
+                  stroke="none"
+                  fill={band.color}
+                  fillOpacity={0.2}
+                  legendType="none"
+                  tooltipType="none"
+                  isAnimationActive={false}
+                />
+              ))}
+              {overlaidScenarios.map(scenario => (
+                <Line
+                  key={scenario.id}
+                  type="monotone"
+                  dataKey={`scenario_${scenario.id}`} /* y=シナリオの曲線 */
+                  name={scenario.name}
+                  stroke={scenario.style.stroke}
+                  strokeDasharray={scenario.style.strokeDasharray}
+                  dot={false}
+                  isAnimationActive={false}
+                />
+              ))}
               <Line
                 type="monotone"
                 dataKey="neutronPolarization"    /* y=中性子偏極度 */
-                name="Neutron Polarization"
+                name={t('series.neutronPolarization')}
                 stroke="#8884d8"
                 dot={false}
                 isAnimationActive={false}
@@ -863,7 +1458,7 @@ export default function PolarizationPlot() {
               <Line
                 type="monotone"
                 dataKey="neutronTransmission"    /* y=透過率 */
-                name="Neutron Transmission"
+                name={t('series.neutronTransmission')}
                 stroke="#ff7300"
                 dot={false}
                 isAnimationActive={false}
@@ -871,15 +1466,161 @@ export default function PolarizationPlot() {
               <Line
                 type="monotone"
                 dataKey="figureOfMerit"          /* y=FOM */
-                name="Figure of Merit"
+                name={t('series.figureOfMerit')}
                 stroke="#82ca9d"
                 dot={false}
                 isAnimationActive={false}
               />
-            </LineChart>
+              {params.windowParams.enabled && (
+                <Line
+                  type="monotone"
+                  dataKey="windowTransmission"   /* y=窓のみの透過率 */
+                  name={t('series.windowTransmission')}
+                  stroke="#a16207"
+                  strokeDasharray="2 2"
+                  dot={false}
+                  isAnimationActive={false}
+                />
+              )}
+              {spectrum && (
+                <Line
+                  type="monotone"
+                  dataKey="incidentSpectrum"     /* y=入射スペクトル（ピーク100に正規化） */
+                  name={t('series.incidentSpectrum')}
+                  stroke="#9ca3af"
+                  strokeDasharray="5 5"
+                  dot={false}
+                  isAnimationActive={false}
+                />
+              )}
+              {spectrum && (
+                <Line
+                  type="monotone"
+                  dataKey="transmittedSpectrum"  /* y=透過スペクトル */
+                  name={t('series.transmittedSpectrum')}
+                  stroke="#4b5563"
+                  strokeDasharray="5 5"
+                  dot={false}
+                  isAnimationActive={false}
+                />
+              )}
+              {showCharacterization && thicknessFit && (
+                <Line
+                  type="monotone"
+                  dataKey="unpolarizedFit"       /* y=非偏極セルのフィット */
+                  name={t('series.fitUnpolarized')}
+                  stroke="#374151"
+                  strokeDasharray="6 3"
+                  dot={false}
+                  isAnimationActive={false}
+                />
+              )}
+              {showCharacterization && polarizationFit && (
+                <Line
+                  type="monotone"
+                  dataKey="polarizedFit"         /* y=偏極セルのフィット */
+                  name={t('series.fitPolarized')}
+                  stroke="#be123c"
+                  strokeDasharray="6 3"
+                  dot={false}
+                  isAnimationActive={false}
+                />
+              )}
+              {showCharacterization && measuredSpectra.unpolarized && (
+                <Scatter
+                  data={toNeutronGraphPoints(measuredSpectra.unpolarized)} /* 非偏極セルの測定値 */
+                  dataKey="transmission"
+                  name={t('series.measuredUnpolarized')}
+                  fill="#374151"
+                  isAnimationActive={false}
+                >
+                  <ErrorBar dataKey="uncertainty" direction="y" stroke="#374151" />
+                </Scatter>
+              )}
+              {showCharacterization && measuredSpectra.polarized && (
+                <Scatter
+                  data={toNeutronGraphPoints(measuredSpectra.polarized)}   /* 偏極セルの測定値 */
+                  dataKey="transmission"
+                  name={t('series.measuredPolarized')}
+                  fill="#be123c"
+                  isAnimationActive={false}
+                >
+                  <ErrorBar dataKey="uncertainty" direction="y" stroke="#be123c" />
+                </Scatter>
+              )}
+            </ComposedChart>
           </ResponsiveContainer>
         </div>
+
+        {/* 最適厚さ（FOM 最大）パネル */}
+        {showOptimizer && (
+          <OptimalThicknessPanel
+            params={params}
+            xMin={Number(axisRanges.neutron.xMin) || 0}
+            xMax={Number(axisRanges.neutron.xMax) || 10}
+            isLogScale={isLogScale}
+            onApply={(gasThickness) => {
+              const neutronParams = { ...params.neutronParams, gasThickness }; // 最適厚さを採用（直接入力に切替）
+              setTempParams({ ...tempParams, thicknessInput: 'direct', neutronParams: { ...tempParams.neutronParams, gasThickness } });
+              setParams({ ...params, thicknessInput: 'direct', neutronParams });
+            }}
+          />
+        )}
+
+        {/* 目標値から P_He・厚さ・波長を逆算するパネル */}
+        {showInverseSolver && (
+          <InverseSolverPanel
+            params={params}
+            onApplyPolarization={(he3Polarization) => {
+              setTempParams({ ...tempParams, neutronParams: { ...tempParams.neutronParams, he3Polarization } });
+              setParams({ ...params, neutronParams: { ...params.neutronParams, he3Polarization } });
+            }}
+            onApplyThickness={(gasThickness) => {
+              setTempParams({ ...tempParams, thicknessInput: 'direct', neutronParams: { ...tempParams.neutronParams, gasThickness } });
+              setParams({ ...params, thicknessInput: 'direct', neutronParams: { ...params.neutronParams, gasThickness } });
+            }}
+            onApplyEnergy={(energy) => {
+              setTempParams({ ...tempParams, neutronParams: { ...tempParams.neutronParams, energy } });
+              setParams({ ...params, neutronParams: { ...params.neutronParams, energy } });
+            }}
+          />
+        )}
+
+        {/* 波長 × ガス厚さの設計マップ */}
+        {showDesignMap && (
+          <DesignMapPanel
+            params={params}
+            xMin={Number(axisRanges.neutron.xMin) || 0}
+            xMax={Number(axisRanges.neutron.xMax) || 10}
+            isLogScale={isLogScale}
+          />
+        )}
+
+        {/* 吸収断面積モデルと物理定数 */}
+        {showCrossSection && (
+          <CrossSectionPanel
+            key={JSON.stringify(params.crossSection)}
+            crossSection={params.crossSection}
+            energy={params.neutronParams.energy}
+            onApply={(crossSection) => {
+              setTempParams({ ...tempParams, crossSection });
+              setParams({ ...params, crossSection });
+            }}
+          />
+        )}
       </div>
+
+      {/* Polarizer + Analyzer Box */}
+      {showTwoCell && (
+        <TwoCellBox
+          params={params}
+          neutronXMin={Number(axisRanges.neutron.xMin) || 0}
+          neutronXMax={Number(axisRanges.neutron.xMax) || 10}
+          isLogScale={isLogScale}
+          timeMin={Number(axisRanges.he3.xMin) || 0}
+          timeMax={Number(axisRanges.he3.xMax) || 24}
+        />
+      )}
     </div>
   );
 }
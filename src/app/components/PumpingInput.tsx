@@ -0,0 +1,79 @@
+"use client";
+
+import { calculateBuildUp, calculateSpinUpTime } from '@/lib/he3';
+import type { Params, PumpingCycleParams } from './types';
+import { useI18n } from './i18n';
+
+interface PumpingInputProps {
+  tempParams: Params;                        // 入力フォームの一時値
+  onChange: (tempParams: Params) => void;    // 一時値の更新
+}
+
+// ポンピング（偏極生成）＋ビーム上での緩和サイクルの入力欄
+export default function PumpingInput({ tempParams, onChange }: PumpingInputProps) {
+  const { t, formatNumber } = useI18n();
+  const pumpingParams = tempParams.pumpingParams;
+
+  // ポンピングパラメータの一部を更新
+  const update = (next: Partial<PumpingCycleParams>) => {
+    onChange({ ...tempParams, pumpingParams: { ...pumpingParams, ...next } });
+  };
+
+  const fields: { key: keyof Omit<PumpingCycleParams, 'enabled'>; label: string }[] = [
+    { key: 'pumpRate', label: t('pumping.pumpRate') },
+    { key: 'pumpingRelaxationRate', label: t('pumping.relaxationRate') },
+    { key: 'saturationPolarization', label: t('pumping.saturation') },
+    { key: 'startPolarization', label: t('pumping.startPolarization') },
+    { key: 'pumpDuration', label: t('pumping.duration') }
+  ];
+
+  const spinUpTime = calculateSpinUpTime(pumpingParams);                                   // τ_up
+  const polarizationAtEnd = calculateBuildUp(pumpingParams, pumpingParams.pumpDuration);   // ポンピング終了時の P
+
+  return (
+    <>
+      <div className="flex items-center space-x-2">
+        <label className="text-sm font-medium text-gray-700 w-48">
+          {t('pumping.title')}
+        </label>
+        <label className="inline-flex items-center">
+          <input
+            type="checkbox"
+            className="form-checkbox h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-gray-300"
+            checked={pumpingParams.enabled}
+            onChange={(e) => update({ enabled: e.target.checked })}
+          />
+          <span className="ml-2 text-sm text-gray-700">
+            {t('pumping.include')}
+          </span>
+        </label>
+      </div>
+
+      {pumpingParams.enabled && (
+        <>
+          {fields.map(field => (
+            <div key={field.key} className="flex items-center space-x-2 pl-4">
+              <label className="text-sm font-medium text-gray-700 w-44">
+                {field.label}
+              </label>
+              <input
+                type="number"
+                step="any"
+                value={pumpingParams[field.key]}
+                onChange={(e) => {
+                  const value = e.target.value === '' ? 0 : parseFloat(e.target.value);
+                  update({ [field.key]: isNaN(value) ? 0 : value });
+                }}
+                className="w-24 rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+              />
+            </div>
+          ))}
+          <p className="text-sm text-gray-500 pl-4">
+            {t('pumping.spinUpTime')} τ<sub>up</sub> = {Number.isFinite(spinUpTime) ? t('common.hours', { value: formatNumber(spinUpTime) }) : '∞'},
+            {t('pumping.endPolarization', { value: formatNumber(polarizationAtEnd) })}
+          </p>
+        </>
+      )}
+    </>
+  );
+}
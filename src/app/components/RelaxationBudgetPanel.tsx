@@ -0,0 +1,113 @@
+"use client";
+
+import { useState } from 'react';
+import { calculateAmagat, calculateRelaxationBudget } from '@/lib/he3';
+import type { CellGeometry } from '@/lib/he3';
+import { useI18n } from './i18n';
+
+interface RelaxationBudgetPanelProps {
+  cellGeometry: CellGeometry;              // 充填圧力・温度の初期値
+  onApply: (relaxationTime: number) => void; // 合計 T1 を He-3 パラメータへ反映
+}
+
+// 緩和時間 T1 の内訳（双極子・壁・磁場勾配）から合計 T1 を組み立てるパネル
+export default function RelaxationBudgetPanel({ cellGeometry, onApply }: RelaxationBudgetPanelProps) {
+  const { t, formatNumber } = useI18n();
+  const [inputs, setInputs] = useState({      // 入力値（文字列で持ち、入力と同期）
+    pressure: String(cellGeometry.pressure),       // 充填圧力（bar）
+    temperature: String(cellGeometry.temperature), // 充填温度（K）
+    wallRelaxationTime: "300",                     // 壁緩和時間（h）
+    holdingField: "10",                            // 保持磁場（G）
+    fieldGradient: "5"                             // 横方向磁場勾配（mG/cm）
+  });
+
+  const density = calculateAmagat(Number(inputs.pressure) || 0, Number(inputs.temperature) || 0); // amg
+  const budget = calculateRelaxationBudget({
+    density: Number.isFinite(density) ? density : 0,
+    wallRelaxationTime: Number(inputs.wallRelaxationTime) || 0,
+    holdingField: Number(inputs.holdingField) || 0,
+    fieldGradient: Number(inputs.fieldGradient) || 0
+  });
+
+  const fields: { key: keyof typeof inputs; label: string }[] = [
+    { key: 'pressure', label: t('gasThickness.pressure') },
+    { key: 'temperature', label: t('gasThickness.temperature') },
+    { key: 'wallRelaxationTime', label: t('relaxation.wallTime') },
+    { key: 'holdingField', label: t('relaxation.holdingField') },
+    { key: 'fieldGradient', label: t('relaxation.gradient') }
+  ];
+
+  // T1 の表示（寄与がなければ ∞）
+  const formatHours = (hours: number) => Number.isFinite(hours) ? formatNumber(hours) : '∞';
+
+  // 各寄与（緩和率の割合を併記）
+  const rows = [
+    { name: t('relaxation.dipolar'), value: budget.dipolar },
+    { name: t('relaxation.wall'), value: budget.wall },
+    { name: t('relaxation.fieldGradient'), value: budget.gradient }
+  ];
+
+  return (
+    <div className="mb-6 border-t border-gray-200 pt-4">
+      <h3 className="text-lg font-semibold mb-3">{t('relaxation.title')}</h3>
+      <div className="flex gap-8">
+        {/* 左：入力 */}
+        <div className="flex-1 grid grid-cols-1 gap-4">
+          {fields.map(field => (
+            <div key={field.key} className="flex items-center space-x-2">
+              <label className="text-sm font-medium text-gray-700 w-48">
+                {field.label}
+              </label>
+              <input
+                type="number"
+                step="any"
+                value={inputs[field.key]}
+                onChange={(e) => setInputs({ ...inputs, [field.key]: e.target.value })}
+                className="w-24 rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+              />
+            </div>
+          ))}
+          <p className="text-sm text-gray-500">{t('relaxation.density', { value: formatNumber(density, 3) })}</p>
+        </div>
+
+        {/* 右：内訳と合計 */}
+        <div className="flex-1">
+          <table className="w-full text-sm text-gray-700">
+            <thead>
+              <tr className="border-b border-gray-200 text-left">
+                <th className="py-2 font-medium">{t('relaxation.contribution')}</th>
+                <th className="py-2 font-medium text-right">{t('relaxation.t1')}</th>
+                <th className="py-2 font-medium text-right">{t('relaxation.share')}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map(row => (
+                <tr key={row.name} className="border-b border-gray-100">
+                  <td className="py-2">{row.name}</td>
+                  <td className="py-2 text-right">{formatHours(row.value)}</td>
+                  <td className="py-2 text-right">
+                    {formatNumber(Number.isFinite(budget.total) ? budget.total / row.value * 100 : 0)} %
+                  </td>
+                </tr>
+              ))}
+              <tr className="font-semibold">
+                <td className="py-2">{t('relaxation.total')}</td>
+                <td className="py-2 text-right">{formatHours(budget.total)}</td>
+                <td className="py-2 text-right">{formatNumber(100)} %</td>
+              </tr>
+            </tbody>
+          </table>
+          <div className="flex justify-end mt-4">
+            <button
+              disabled={!Number.isFinite(budget.total)}
+              onClick={() => onApply(Number(budget.total.toFixed(1)))}
+              className="px-4 py-2 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 disabled:opacity-50"
+            >
+              {t('relaxation.useTotal')}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,274 @@
+"use client";
+
+import { useMemo, useState } from 'react';
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ReferenceLine,
+  ResponsiveContainer
+} from 'recharts';
+import { planCellRotation, energyToWavelength } from '@/lib/he3';
+import type { RotationCell, SwapPolicy } from '@/lib/he3';
+import type { Params } from './types';
+import { crossSectionSettingsOf } from './calculation';
+import { useI18n } from './i18n';
+
+// 計画の設定（セル一覧・交換方針・ビームタイム）
+interface RotationSettings {
+  cells: RotationCell[];
+  policy: SwapPolicy;
+  duration: number;  // ビームタイムの長さ（h）
+}
+
+interface RotationPlannerBoxProps {
+  params: Params;  // 現在の計算パラメータ（代表エネルギー・初期セル）
+}
+
+export default function RotationPlannerBox({ params }: RotationPlannerBoxProps) {
+  const { t, formatNumber } = useI18n();
+  const initialCell = (name: string): RotationCell => ({ // 現在の単セル設定を雛形にする
+    name,
+    gasThickness: params.neutronParams.gasThickness,
+    initialPolarization: params.initialPolarization,
+    relaxationTime: params.relaxationTimeConstant,
+    repolarizationTime: 24
+  });
+  const initialSettings: RotationSettings = {
+    cells: [initialCell(t('rotation.cellName', { index: 1 })), initialCell(t('rotation.cellName', { index: 2 }))],
+    policy: { type: 'interval', interval: 24 },
+    duration: 120
+  };
+  const [settings, setSettings] = useState<RotationSettings>(initialSettings);         // 計算に使う値
+  const [tempSettings, setTempSettings] = useState<RotationSettings>(initialSettings); // 入力フォームの一時値
+
+  const wavelength = energyToWavelength(params.neutronParams.energy); // 代表波長（Å）
+  const crossSection = crossSectionSettingsOf(params);
+  const plan = useMemo(
+    () => planCellRotation({ ...settings, wavelength, crossSection }),
+    [settings, wavelength, crossSection]
+  );
+
+  // 数値入力欄の値を読む（空欄・不正値は 0）
+  const parse = (value: string) => {
+    const parsed = value === '' ? 0 : parseFloat(value);
+    return isNaN(parsed) ? 0 : parsed;
+  };
+
+  // i 番目のセルの一部を更新
+  const updateCell = (index: number, next: Partial<RotationCell>) => {
+    setTempSettings({
+      ...tempSettings,
+      cells: tempSettings.cells.map((cell, i) => i === index ? { ...cell, ...next } : cell)
+    });
+  };
+
+  const cellFields: { key: keyof Omit<RotationCell, 'name'>; label: string }[] = [
+    { key: 'gasThickness', label: t('rotation.thickness') },
+    { key: 'initialPolarization', label: 'P0 (%)' },
+    { key: 'relaxationTime', label: t('relaxation.t1') },
+    { key: 'repolarizationTime', label: t('rotation.repolarization') }
+  ];
+
+  return (
+    <div className="bg-white rounded-lg shadow p-4">
+      <h2 className="text-2xl font-bold text-center mb-4">{t('rotation.title')}</h2>
+
+      {/* セル一覧 */}
+      <h3 className="text-lg font-semibold mb-3">{t('rotation.cells')}</h3>
+      <table className="w-full text-sm text-gray-700 mb-4">
+        <thead>
+          <tr className="border-b border-gray-200 text-left">
+            <th className="py-2 font-medium">{t('rotation.name')}</th>
+            {cellFields.map(field => <th key={field.key} className="py-2 font-medium">{field.label}</th>)}
+            <th />
+          </tr>
+        </thead>
+        <tbody>
+          {tempSettings.cells.map((cell, index) => (
+            <tr key={index} className="border-b border-gray-100">
+              <td className="py-2 pr-2">
+                <input
+                  type="text"
+                  value={cell.name}
+                  onChange={(e) => updateCell(index, { name: e.target.value })}
+                  className="w-28 rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+                />
+              </td>
+              {cellFields.map(field => (
+                <td key={field.key} className="py-2 pr-2">
+                  <input
+                    type="number"
+                    step="any"
+                    value={cell[field.key]}
+                    onChange={(e) => updateCell(index, { [field.key]: parse(e.target.value) })}
+                    className="w-24 rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+                  />
+                </td>
+              ))}
+              <td className="py-2 text-right">
+                <button
+                  disabled={tempSettings.cells.length <= 1}
+                  onClick={() => setTempSettings({ ...tempSettings, cells: tempSettings.cells.filter((_, i) => i !== index) })}
+                  className="text-sm text-red-600 hover:text-red-800 disabled:opacity-30"
+                >
+                  {t('rotation.removeCell')}
+                </button>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <button
+        onClick={() => setTempSettings({
+          ...tempSettings,
+          cells: [...tempSettings.cells, initialCell(t('rotation.cellName', { index: tempSettings.cells.length + 1 }))]
+        })}
+        className="mb-6 text-sm text-indigo-600 hover:text-indigo-800"
+      >
+        {t('rotation.addCell')}
+      </button>
+
+      {/* 交換方針とビームタイム */}
+      <div className="flex gap-8 mb-6">
+        <div className="flex-1 grid grid-cols-1 gap-4">
+          <div className="flex items-center space-x-2">
+            <label className="text-sm font-medium text-gray-700 w-48">
+              {t('rotation.policy')}
+            </label>
+            <select
+              value={tempSettings.policy.type}
+              onChange={(e) => setTempSettings({
+                ...tempSettings,
+                policy: e.target.value === 'interval'
+                  ? { type: 'interval', interval: 24 }
+                  : { type: 'threshold', minNeutronPolarization: 90 }
+              })}
+              className="rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+            >
+              <option value="interval">{t('rotation.fixedInterval')}</option>
+              <option value="threshold">{t('rotation.threshold')}</option>
+            </select>
+          </div>
+          <div className="flex items-center space-x-2">
+            <label className="text-sm font-medium text-gray-700 w-48">
+              {t(tempSettings.policy.type === 'interval' ? 'rotation.interval' : 'rotation.minimumPn')}
+            </label>
+            <input
+              type="number"
+              step="any"
+              value={tempSettings.policy.type === 'interval'
+                ? tempSettings.policy.interval
+                : tempSettings.policy.minNeutronPolarization}
+              onChange={(e) => setTempSettings({
+                ...tempSettings,
+                policy: tempSettings.policy.type === 'interval'
+                  ? { type: 'interval', interval: parse(e.target.value) }
+                  : { type: 'threshold', minNeutronPolarization: parse(e.target.value) }
+              })}
+              className="w-24 rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+            />
+          </div>
+          <div className="flex items-center space-x-2">
+            <label className="text-sm font-medium text-gray-700 w-48">
+              {t('rotation.beamtime')}
+            </label>
+            <input
+              type="number"
+              step="any"
+              value={tempSettings.duration}
+              onChange={(e) => setTempSettings({ ...tempSettings, duration: parse(e.target.value) })}
+              className="w-24 rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+            />
+          </div>
+        </div>
+
+        {/* 結果のまとめ */}
+        <div className="flex-1 text-sm text-gray-700">
+          <p className="mb-2">
+            <span className="font-medium">{t('rotation.operatingPoint')}</span> {formatNumber(params.neutronParams.energy, 2)} meV / {formatNumber(wavelength, 2)} Å
+          </p>
+          <p className="mb-2">
+            <span className="font-medium">{t('rotation.averageFom')}</span> {formatNumber(plan.averageFigureOfMerit, 2)} %
+          </p>
+          <p>
+            <span className="font-medium">{t('rotation.swapCount')}</span> {plan.swaps.length}
+          </p>
+          {plan.thresholdUnreachable && <p className="mt-2 text-red-600">{t('rotation.thresholdUnreachable')}</p>}
+        </div>
+      </div>
+
+      <div className="flex justify-end mb-6">
+        <button
+          onClick={() => setSettings(tempSettings)}
+          className="px-4 py-2 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2"
+        >
+          {t('common.setParameters')}
+        </button>
+      </div>
+
+      {/* ビームタイム中の He-3 偏極度・Pn・FOM */}
+      <div className="h-[400px] mb-6">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={plan.points} margin={{ top: 20, right: 30, left: 30, bottom: 20 }}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis
+              dataKey="time"
+              label={{ value: t('rotation.beamtime'), position: 'bottom', offset: 0 }}
+              type="number"
+              domain={[0, settings.duration]}
+              tickFormatter={(value) => formatNumber(value, 0)}
+            />
+            <YAxis
+              domain={[0, 100]}
+              label={{ value: t('rotation.yAxis'), angle: -90, position: 'insideLeft', offset: -5, style: { textAnchor: 'middle' } }}
+              tickFormatter={(value) => formatNumber(value, 0)}
+            />
+            <Tooltip
+              formatter={(value: number) => formatNumber(value, 2)}
+              labelFormatter={(label: number) => t('chart.timeTooltip', { time: formatNumber(label) })}
+            />
+            <Legend verticalAlign="top" height={36} />
+            {plan.swaps.map(swap => (
+              <ReferenceLine key={swap.time} x={swap.time} stroke="#9ca3af" strokeDasharray="4 4" />
+            ))}
+            <Line type="linear" dataKey="he3Polarization" name={t('series.he3Polarization')} stroke="#82ca9d" dot={false} isAnimationActive={false} />
+            <Line type="linear" dataKey="neutronPolarization" name={t('series.neutronPolarization')} stroke="#8884d8" dot={false} isAnimationActive={false} />
+            <Line type="linear" dataKey="figureOfMerit" name={t('series.figureOfMerit')} stroke="#ff7300" dot={false} isAnimationActive={false} />
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+
+      {/* 交換スケジュール */}
+      <h3 className="text-lg font-semibold mb-3">{t('rotation.timetable')}</h3>
+      {plan.swaps.length === 0 ? (
+        <p className="text-sm text-gray-500">{t('rotation.noSwaps')}</p>
+      ) : (
+        <table className="w-full text-sm text-gray-700">
+          <thead>
+            <tr className="border-b border-gray-200 text-left">
+              <th className="py-2 font-medium">{t('rotation.time')}</th>
+              <th className="py-2 font-medium">{t('rotation.remove')}</th>
+              <th className="py-2 font-medium">{t('rotation.install')}</th>
+              <th className="py-2 font-medium">{t('rotation.readyAgain')}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {plan.swaps.map(swap => (
+              <tr key={swap.time} className="border-b border-gray-100">
+                <td className="py-2">{formatNumber(swap.time)}</td>
+                <td className="py-2">{settings.cells[swap.fromCell].name}</td>
+                <td className="py-2">{settings.cells[swap.toCell].name}</td>
+                <td className="py-2">{formatNumber(swap.time + settings.cells[swap.fromCell].repolarizationTime)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,47 @@
+"use client";
+
+import type { CurveSampling } from './types';
+import { RESOLUTION_OPTIONS } from './defaults';
+import { useI18n } from './i18n';
+
+interface SamplingInputProps {
+  sampling: CurveSampling;                      // 現在のサンプリング
+  pending: boolean;                             // 計算中か
+  onChange: (sampling: CurveSampling) => void;
+}
+
+// 軸レンジ設定の下に置く、曲線の点数とサンプリング方法の選択（2 列分）
+export default function SamplingInput({ sampling, pending, onChange }: SamplingInputProps) {
+  const { t, formatNumber } = useI18n();
+  return (
+    <>
+      {/* 区間数（点数は +1） */}
+      <div>
+        <label className="block text-sm font-medium text-gray-700">
+          {t('sampling.resolution')}{pending && <span className="ml-2 text-gray-500">{t('sampling.computing')}</span>}
+        </label>
+        <select
+          value={sampling.resolution}
+          onChange={(e) => onChange({ ...sampling, resolution: Number(e.target.value) })}
+          className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+        >
+          {RESOLUTION_OPTIONS.map(resolution => (
+            <option key={resolution} value={resolution}>{formatNumber(resolution, 0)}</option>
+          ))}
+        </select>
+      </div>
+      {/* 等間隔 or 急な所に点を寄せる */}
+      <div>
+        <label className="block text-sm font-medium text-gray-700">{t('sampling.method')}</label>
+        <select
+          value={sampling.adaptive ? 'adaptive' : 'uniform'}
+          onChange={(e) => onChange({ ...sampling, adaptive: e.target.value === 'adaptive' })}
+          className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+        >
+          <option value="uniform">{t('sampling.uniform')}</option>
+          <option value="adaptive">{t('sampling.adaptive')}</option>
+        </select>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,200 @@
+"use client";
+
+import { useState } from 'react';
+import {
+  applyWindowTransmission,
+  calculatePolarizationDropTime,
+  calculateSpinFilter,
+  calculateWindowTransmission,
+  energyToWavelength
+} from '@/lib/he3';
+import type { Params } from './types';
+import { crossSectionSettingsOf } from './calculation';
+import { useI18n } from './i18n';
+import type { Scenario } from './scenarios';
+import { scenarioStyle } from './scenarios';
+
+// 重ね描きする量
+export interface ScenarioOverlay {
+  he3: 'he3Polarization' | 'neutronPolarization' | 'neutronTransmission';          // He-3 グラフ
+  neutron: 'neutronPolarization' | 'neutronTransmission' | 'figureOfMerit';        // Neutron グラフ
+}
+
+interface ScenarioPanelProps {
+  params: Params;                                 // 現在のパラメータ（保存対象・比較用）
+  scenarios: Scenario[];                          // 保存済みシナリオ
+  selectedIds: string[];                          // 重ね描きするシナリオ
+  overlay: ScenarioOverlay;                       // 重ね描きする量
+  onSave: (name: string) => void;                 // 現在のパラメータを保存
+  onDelete: (id: string) => void;                 // 削除
+  onLoad: (id: string) => void;                   // パラメータを読み込む
+  onToggle: (id: string) => void;                 // 重ね描きの切替
+  onOverlayChange: (overlay: ScenarioOverlay) => void;
+}
+
+// 代表エネルギーでの主要な数値（断面積はシナリオのモデルで評価）
+function keyNumbers(params: Params) {
+  const crossSection = crossSectionSettingsOf(params);
+  const wavelength = energyToWavelength(params.neutronParams.energy);
+  const windowTransmission = params.windowParams.enabled
+    ? calculateWindowTransmission(wavelength, params.windowParams)
+    : 100;
+  const { neutronPolarization, neutronTransmission, figureOfMerit } = applyWindowTransmission(
+    calculateSpinFilter(wavelength, params.neutronParams.he3Polarization / 100, params.neutronParams.gasThickness, crossSection),
+    windowTransmission
+  );
+  const dropTime = calculatePolarizationDropTime(wavelength, {  // He-3 ボックスの P0, T1 からの減衰
+    gasThickness: params.neutronParams.gasThickness,
+    initialPolarization: params.initialPolarization,
+    relaxationTime: params.relaxationTimeConstant
+  }, undefined, crossSection);
+  return { neutronPolarization, neutronTransmission, figureOfMerit, dropTime };
+}
+
+// 名前付きシナリオの保存・重ね描き・比較表
+export default function ScenarioPanel({
+  params,
+  scenarios,
+  selectedIds,
+  overlay,
+  onSave,
+  onDelete,
+  onLoad,
+  onToggle,
+  onOverlayChange
+}: ScenarioPanelProps) {
+  const { t, formatNumber } = useI18n();
+  const [name, setName] = useState('');
+
+  const rows = [
+    { id: 'current', name: t('scenario.current'), params, style: null },
+    ...scenarios
+      .map((scenario, index) => ({ ...scenario, style: scenarioStyle(index) }))
+      .filter(scenario => selectedIds.includes(scenario.id))
+  ];
+
+  return (
+    <div className="bg-white rounded-lg shadow p-4">
+      <h2 className="text-2xl font-bold text-center mb-4">{t('scenario.title')}</h2>
+
+      <div className="flex gap-8 mb-6">
+        {/* 左：保存と一覧 */}
+        <div className="flex-1">
+          <div className="flex items-center space-x-2 mb-4">
+            <input
+              type="text"
+              value={name}
+              placeholder={t('scenario.namePlaceholder')}
+              onChange={(e) => setName(e.target.value)}
+              className="flex-1 rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+            />
+            <button
+              disabled={name.trim() === ''}
+              onClick={() => {
+                onSave(name.trim());
+                setName('');
+              }}
+              className="px-4 py-2 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 disabled:opacity-50"
+            >
+              {t('scenario.saveCurrent')}
+            </button>
+          </div>
+          {scenarios.length === 0 ? (
+            <p className="text-sm text-gray-500">{t('scenario.none')}</p>
+          ) : (
+            <ul className="space-y-2">
+              {scenarios.map((scenario, index) => {
+                const style = scenarioStyle(index);
+                return (
+                  <li key={scenario.id} className="flex items-center text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      className="form-checkbox h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-gray-300"
+                      checked={selectedIds.includes(scenario.id)}
+                      onChange={() => onToggle(scenario.id)}
+                    />
+                    <svg width="32" height="8" className="mx-2">
+                      <line x1="0" y1="4" x2="32" y2="4" stroke={style.stroke} strokeDasharray={style.strokeDasharray} strokeWidth="2" />
+                    </svg>
+                    <span className="flex-1">{scenario.name}</span>
+                    <button onClick={() => onLoad(scenario.id)} className="ml-2 text-indigo-600 hover:text-indigo-800">
+                      {t('scenario.load')}
+                    </button>
+                    <button onClick={() => onDelete(scenario.id)} className="ml-2 text-red-600 hover:text-red-800">
+                      {t('scenario.delete')}
+                    </button>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+
+        {/* 右：重ね描きする量 */}
+        <div className="flex-1 grid grid-cols-1 gap-4 content-start">
+          <div className="flex items-center space-x-2">
+            <label className="text-sm font-medium text-gray-700 w-48">
+              {t('scenario.he3Overlay')}
+            </label>
+            <select
+              value={overlay.he3}
+              onChange={(e) => onOverlayChange({ ...overlay, he3: e.target.value as ScenarioOverlay['he3'] })}
+              className="rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+            >
+              <option value="he3Polarization">{t('series.he3Polarization')}</option>
+              <option value="neutronPolarization">{t('series.neutronPolarization')}</option>
+              <option value="neutronTransmission">{t('series.neutronTransmission')}</option>
+            </select>
+          </div>
+          <div className="flex items-center space-x-2">
+            <label className="text-sm font-medium text-gray-700 w-48">
+              {t('scenario.neutronOverlay')}
+            </label>
+            <select
+              value={overlay.neutron}
+              onChange={(e) => onOverlayChange({ ...overlay, neutron: e.target.value as ScenarioOverlay['neutron'] })}
+              className="rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+            >
+              <option value="neutronPolarization">{t('series.neutronPolarization')}</option>
+              <option value="neutronTransmission">{t('series.neutronTransmission')}</option>
+              <option value="figureOfMerit">{t('series.figureOfMerit')}</option>
+            </select>
+          </div>
+        </div>
+      </div>
+
+      {/* 比較表（現在値＋重ね描き中のシナリオ） */}
+      <table className="w-full text-sm text-gray-700">
+        <thead>
+          <tr className="border-b border-gray-200 text-left">
+            <th className="py-2 font-medium">{t('scenario.scenario')}</th>
+            <th className="py-2 font-medium text-right">E (meV)</th>
+            <th className="py-2 font-medium text-right">{t('scenario.thickness')}</th>
+            <th className="py-2 font-medium text-right">P_He (%)</th>
+            <th className="py-2 font-medium text-right">Pn (%)</th>
+            <th className="py-2 font-medium text-right">Tn (%)</th>
+            <th className="py-2 font-medium text-right">FOM (%)</th>
+            <th className="py-2 font-medium text-right">{t('scenario.dropTime')}</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map(row => {
+            const numbers = keyNumbers(row.params);
+            return (
+              <tr key={row.id} className="border-b border-gray-100">
+                <td className="py-2" style={row.style ? { color: row.style.stroke } : undefined}>{row.name}</td>
+                <td className="py-2 text-right">{formatNumber(row.params.neutronParams.energy, 2)}</td>
+                <td className="py-2 text-right">{formatNumber(row.params.neutronParams.gasThickness, 2)}</td>
+                <td className="py-2 text-right">{formatNumber(row.params.neutronParams.he3Polarization, 1)}</td>
+                <td className="py-2 text-right">{formatNumber(numbers.neutronPolarization, 2)}</td>
+                <td className="py-2 text-right">{formatNumber(numbers.neutronTransmission, 2)}</td>
+                <td className="py-2 text-right">{formatNumber(numbers.figureOfMerit, 2)}</td>
+                <td className="py-2 text-right">{Number.isFinite(numbers.dropTime) ? formatNumber(numbers.dropTime, 1) : '–'}</td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,201 @@
+"use client";
+
+import { useMemo, useState } from 'react';
+import {
+  calculateSpectrumAverage,  // スペクトル平均の Pn, T, FOM
+  parseSpectrumTable,        // 2列テーブルの読み込み
+  maxwellianWavelength
+} from '@/lib/he3';
+import type { SpectrumDefinition, SpectrumPoint } from '@/lib/he3';
+import type { Params } from './types';
+import { crossSectionSettingsOf } from './calculation';
+import { useI18n } from './i18n';
+
+type SpectrumType = 'none' | SpectrumDefinition['type'];
+
+interface SpectrumPanelProps {
+  params: Params;                                          // 現在の計算パラメータ
+  spectrum: SpectrumDefinition | null;                     // 現在の入射スペクトル（null は単色）
+  onChange: (spectrum: SpectrumDefinition | null) => void; // スペクトル変更
+}
+
+export default function SpectrumPanel({ params, spectrum, onChange }: SpectrumPanelProps) {
+  const { t, formatNumber } = useI18n();
+  const [type, setType] = useState<SpectrumType>(spectrum ? spectrum.type : 'none'); // 選択中の種類
+  const [temperature, setTemperature] = useState("300");  // 減速材温度（K）
+  const [wavelengthMin, setWavelengthMin] = useState("2"); // 一様分布の λmin（Å）
+  const [wavelengthMax, setWavelengthMax] = useState("6"); // 一様分布の λmax（Å）
+  const [tablePoints, setTablePoints] = useState<SpectrumPoint[]>([]); // 読み込んだテーブル
+  const [fileError, setFileError] = useState(false);  // テーブルに読める行がなかったか
+
+  // 入力値からスペクトル定義を組み立てて親へ通知
+  const update = (next: {
+    type?: SpectrumType;
+    temperature?: string;
+    wavelengthMin?: string;
+    wavelengthMax?: string;
+    tablePoints?: SpectrumPoint[];
+  }) => {
+    const nextType = next.type ?? type;
+    const nextTemperature = Number(next.temperature ?? temperature);
+    const nextMin = Number(next.wavelengthMin ?? wavelengthMin);
+    const nextMax = Number(next.wavelengthMax ?? wavelengthMax);
+    const nextPoints = next.tablePoints ?? tablePoints;
+
+    if (nextType === 'maxwellian' && nextTemperature > 0) {
+      onChange({ type: 'maxwellian', temperature: nextTemperature });
+    } else if (nextType === 'flat' && nextMin > 0 && nextMax > nextMin) {
+      onChange({ type: 'flat', wavelengthMin: nextMin, wavelengthMax: nextMax });
+    } else if (nextType === 'table' && nextPoints.length >= 2) {
+      onChange({ type: 'table', points: nextPoints });
+    } else {
+      onChange(null); // 不完全な入力では単色に戻す
+    }
+  };
+
+  // テーブルファイルの読み込み
+  const handleFile = async (file: File) => {
+    const points = parseSpectrumTable(await file.text());
+    if (points.length < 2) {
+      setFileError(true);
+      return;
+    }
+    setFileError(false);
+    setTablePoints(points);
+    update({ tablePoints: points });
+  };
+
+  // スペクトル平均値
+  const crossSection = crossSectionSettingsOf(params);
+  const average = useMemo(() => spectrum && calculateSpectrumAverage(
+    spectrum,
+    params.neutronParams.he3Polarization / 100,
+    params.neutronParams.gasThickness,
+    1000,
+    params.windowParams.enabled ? params.windowParams : undefined,  // セル窓の減衰
+    crossSection
+  ), [spectrum, params.neutronParams.he3Polarization, params.neutronParams.gasThickness, params.windowParams, crossSection]);
+
+  return (
+    <div className="mb-6">
+      <h3 className="text-lg font-semibold mb-3">{t('spectrum.title')}</h3>
+      <div className="flex gap-8">
+        {/* 左：スペクトル設定 */}
+        <div className="flex-1 grid grid-cols-1 gap-4">
+          <div className="flex items-center space-x-2">
+            <label className="text-sm font-medium text-gray-700 w-48">
+              {t('spectrum.type')}
+            </label>
+            <select
+              value={type}
+              onChange={(e) => {
+                const nextType = e.target.value as SpectrumType;
+                setType(nextType);
+                update({ type: nextType });
+              }}
+              className="rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+            >
+              <option value="none">{t('spectrum.none')}</option>
+              <option value="maxwellian">{t('spectrum.maxwellian')}</option>
+              <option value="flat">{t('spectrum.flat')}</option>
+              <option value="table">{t('spectrum.table')}</option>
+            </select>
+          </div>
+
+          {type === 'maxwellian' && (
+            <div className="flex items-center space-x-2">
+              <label className="text-sm font-medium text-gray-700 w-48">
+                {t('spectrum.temperature')}
+              </label>
+              <input
+                type="number"
+                step="any"
+                value={temperature}
+                onChange={(e) => {
+                  setTemperature(e.target.value);
+                  update({ temperature: e.target.value });
+                }}
+                className="w-24 rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+              />
+              {Number(temperature) > 0 && (
+                <span className="text-sm text-gray-500">
+                  λ<sub>T</sub> = {formatNumber(maxwellianWavelength(Number(temperature)), 2)} Å
+                </span>
+              )}
+            </div>
+          )}
+
+          {type === 'flat' && (
+            <div className="flex items-center space-x-2">
+              <label className="text-sm font-medium text-gray-700 w-48">
+                {t('spectrum.range')}
+              </label>
+              <input
+                type="number"
+                step="any"
+                value={wavelengthMin}
+                onChange={(e) => {
+                  setWavelengthMin(e.target.value);
+                  update({ wavelengthMin: e.target.value });
+                }}
+                className="w-24 rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+              />
+              <input
+                type="number"
+                step="any"
+                value={wavelengthMax}
+                onChange={(e) => {
+                  setWavelengthMax(e.target.value);
+                  update({ wavelengthMax: e.target.value });
+                }}
+                className="w-24 rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+              />
+            </div>
+          )}
+
+          {type === 'table' && (
+            <div className="flex items-center space-x-2">
+              <label className="text-sm font-medium text-gray-700 w-48">
+                {t('spectrum.tableFile')}
+              </label>
+              <input
+                type="file"
+                accept=".csv,.txt,.dat"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) handleFile(file);
+                }}
+                className="text-sm text-gray-700"
+              />
+              {fileError
+                ? <span className="text-sm text-red-600">{t('spectrum.noRows')}</span>
+                : tablePoints.length > 0 && <span className="text-sm text-gray-500">{t('spectrum.points', { count: tablePoints.length })}</span>}
+            </div>
+          )}
+        </div>
+
+        {/* 右：スペクトル平均値 */}
+        <div className="flex-1">
+          {average ? (
+            <div className="grid grid-cols-3 gap-4 text-sm text-gray-700">
+              <div>
+                <span className="block font-medium">⟨Pn⟩</span>
+                {formatNumber(average.neutronPolarization, 2)} %
+              </div>
+              <div>
+                <span className="block font-medium">⟨Tn⟩</span>
+                {formatNumber(average.neutronTransmission, 2)} %
+              </div>
+              <div>
+                <span className="block font-medium">⟨FOM⟩</span>
+                {formatNumber(average.figureOfMerit, 2)} %
+              </div>
+            </div>
+          ) : (
+            <p className="text-sm text-gray-500">{t('spectrum.selectHint')}</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,22 +1,73 @@
 "use client";
 
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import PolarizationPlot from "./PolarizationPlot";
 import FunctionDescription from "./FunctionDescription";
+import { readPermalinkTab, writePermalink } from "./permalink";
+import type { ActiveTab } from "./permalink";
+import { useI18n } from "./i18n";
+import type { Language } from "./i18n";
+
+// 言語の選択肢（各言語での自称）
+const LANGUAGE_OPTIONS: { value: Language; label: string }[] = [
+  { value: "en", label: "English" },
+  { value: "ja", label: "日本語" }
+];
 
 export default function TabContainer() {
+  const { language, setLanguage, t } = useI18n();
   // タブの状態管理（"plot"または"functions"）
-  const [activeTab, setActiveTab] = useState<"plot" | "functions">("plot");
+  const [activeTab, setActiveTab] = useState<ActiveTab>("plot");
+  const [isTabLoaded, setIsTabLoaded] = useState(false); // URL のタブを読み込んだか
+  const [copied, setCopied] = useState(false);           // リンクをコピーした直後の表示
+
+  // URL（パーマリンク）のタブを復元
+  useEffect(() => {
+    const loadTab = () => setActiveTab(readPermalinkTab());
+    loadTab();
+    setIsTabLoaded(true);
+    window.addEventListener("hashchange", loadTab);
+    return () => window.removeEventListener("hashchange", loadTab);
+  }, []);
+
+  // タブを切り替えたら URL を更新
+  useEffect(() => {
+    if (isTabLoaded) writePermalink({ tab: activeTab });
+  }, [isTabLoaded, activeTab]);
+
+  // 現在の状態を表す URL をクリップボードへ
+  const copyLink = async () => {
+    await navigator.clipboard.writeText(window.location.href);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
 
   return (
     <div className="min-h-screen bg-slate-50">
       {/* ヘッダー部分 */}
       <div className="bg-gradient-to-r from-sky-500 to-indigo-500 text-white">
-        <div className="container mx-auto px-4 py-8">
-          <h1 className="text-3xl font-bold mb-2 tracking-tight">
-            He-3 Polarization Calculator
-          </h1>
-          <p className="text-sm text-sky-100 font-medium">Version 1.0.0</p>
+        <div className="container mx-auto px-4 py-8 flex items-start justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold mb-2 tracking-tight">
+              {t("app.title")}
+            </h1>
+            <p className="text-sm text-sky-100 font-medium">{t("app.version", { version: "1.0.0" })}</p>
+          </div>
+          {/* 表示言語の切り替え */}
+          <div className="flex rounded-md border border-white/60 overflow-hidden" role="group" aria-label={t("app.language")}>
+            {LANGUAGE_OPTIONS.map(option => (
+              <button
+                key={option.value}
+                onClick={() => setLanguage(option.value)}
+                lang={option.value}
+                className={`px-3 py-1 text-sm font-medium transition-colors duration-200 ${
+                  language === option.value ? "bg-white text-sky-600" : "text-white hover:bg-white/10"
+                }`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
         </div>
       </div>
 
@@ -33,7 +84,7 @@ export default function TabContainer() {
                   : "border-transparent text-slate-600 hover:text-slate-900 hover:border-slate-300"
               }`}
             >
-              Visualization
+              {t("tab.visualization")}
             </button>
             {/* 関数説明タブ */}
             <button
@@ -44,8 +95,17 @@ export default function TabContainer() {
                   : "border-transparent text-slate-600 hover:text-slate-900 hover:border-slate-300"
               }`}
             >
-              Functions
+              {t("tab.functions")}
             </button>
+            {/* 現在の状態のリンクをコピー */}
+            <div className="ml-auto flex items-center">
+              <button
+                onClick={copyLink}
+                className="px-4 py-2 text-sm font-medium text-sky-600 border border-sky-500 rounded-md hover:bg-sky-50 transition-colors duration-200"
+              >
+                {copied ? t("link.copied") : t("link.copy")}
+              </button>
+            </div>
           </div>
         </div>
       </div>
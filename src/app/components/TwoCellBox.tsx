@@ -0,0 +1,254 @@
+"use client";
+
+import { useMemo, useState } from 'react';
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer
+} from 'recharts';
+import {
+  calculateTwoCell,          // 2セル構成の計算
+  calculateCellPolarization, // セルの He-3 偏極度の緩和
+  energyToWavelength
+} from '@/lib/he3';
+import type { CrossSectionSettings, He3Cell, TwoCellResult } from '@/lib/he3';
+import type { Params } from './types';
+import { crossSectionSettingsOf } from './calculation';
+import { useI18n } from './i18n';
+import { axisValueToWavelength, axisLabel, axisUnitSymbol, sampleAxis } from './axis';
+
+// ポラライザーとアナライザーのセル組
+interface CellPair {
+  polarizer: He3Cell;
+  analyzer: He3Cell;
+}
+
+interface TwoCellBoxProps {
+  params: Params;          // 現在の計算パラメータ（代表エネルギー・X軸単位）
+  neutronXMin: number;     // Neutron グラフの X最小
+  neutronXMax: number;     // Neutron グラフの X最大
+  isLogScale: boolean;     // X軸の対数表示フラグ
+  timeMin: number;         // He-3 グラフの時間最小（h）
+  timeMax: number;         // He-3 グラフの時間最大（h）
+}
+
+const NUM_POINTS = 200;   // 波長グラフのサンプル点数
+const NUM_STEPS = 100;    // 時間グラフの分割数
+
+// 2セル構成の結果を t 時間後・波長 λ で計算
+function evaluatePair(cells: CellPair, wavelength: number, time: number, crossSection: CrossSectionSettings): TwoCellResult {
+  return calculateTwoCell(
+    wavelength,
+    calculateCellPolarization(cells.polarizer, time) / 100,
+    cells.polarizer.gasThickness,
+    calculateCellPolarization(cells.analyzer, time) / 100,
+    cells.analyzer.gasThickness,
+    crossSection
+  );
+}
+
+export default function TwoCellBox({ params, neutronXMin, neutronXMax, isLogScale, timeMin, timeMax }: TwoCellBoxProps) {
+  const { t, formatNumber } = useI18n();
+  const initialCell: He3Cell = {             // 現在の単セル設定を初期値にする
+    gasThickness: params.neutronParams.gasThickness,
+    initialPolarization: params.initialPolarization,
+    relaxationTime: params.relaxationTimeConstant
+  };
+  const [cells, setCells] = useState<CellPair>({ polarizer: initialCell, analyzer: initialCell });         // 計算に使う値
+  const [tempCells, setTempCells] = useState<CellPair>({ polarizer: initialCell, analyzer: initialCell }); // 入力フォームの一時値
+
+  const operatingWavelength = energyToWavelength(params.neutronParams.energy); // 代表波長（Å）
+  const crossSection = crossSectionSettingsOf(params);                        // 断面積モデル
+  const operatingPoint = evaluatePair(cells, operatingWavelength, 0, crossSection); // t = 0 での値
+
+  // 波長（X軸）依存性：t = 0
+  const wavelengthData = useMemo(() => {
+    const start = isLogScale ? Math.max(0.1, neutronXMin) : neutronXMin;
+    return sampleAxis(start, neutronXMax, NUM_POINTS, isLogScale).map(x => ({
+      x,
+      ...evaluatePair(cells, axisValueToWavelength(x, params), 0, crossSection)
+    }));
+  }, [cells, params, neutronXMin, neutronXMax, isLogScale, crossSection]);
+
+  // 時間依存性：代表エネルギーで両セルが緩和
+  const timeData = useMemo(() => {
+    return sampleAxis(timeMin, timeMax, NUM_STEPS, false).map(time => ({
+      time,
+      polarizerHe3: calculateCellPolarization(cells.polarizer, time),
+      analyzerHe3: calculateCellPolarization(cells.analyzer, time),
+      ...evaluatePair(cells, operatingWavelength, time, crossSection)
+    }));
+  }, [cells, operatingWavelength, timeMin, timeMax, crossSection]);
+
+  // セル入力欄
+  const renderCellInputs = (role: keyof CellPair, title: string) => {
+    const fields: { key: keyof He3Cell; label: string }[] = [
+      { key: 'gasThickness', label: t('common.gasThickness') },
+      { key: 'initialPolarization', label: t('he3.initialPolarization') },
+      { key: 'relaxationTime', label: t('he3.relaxationTime') }
+    ];
+    return (
+      <div className="flex-1">
+        <h3 className="text-lg font-semibold mb-3">{title}</h3>
+        <div className="grid grid-cols-1 gap-4">
+          {fields.map(field => (
+            <div key={field.key} className="flex items-center space-x-2">
+              <label className="text-sm font-medium text-gray-700 w-48">
+                {field.label}
+              </label>
+              <input
+                type="number"
+                step="any"
+                value={tempCells[role][field.key]}
+                onChange={(e) => {
+                  const value = e.target.value === '' ? 0 : parseFloat(e.target.value);
+                  setTempCells({
+                    ...tempCells,
+                    [role]: { ...tempCells[role], [field.key]: isNaN(value) ? 0 : value }
+                  });
+                }}
+                className="w-24 rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+              />
+            </div>
+          ))}
+        </div>
+      </div>
+    );
+  };
+
+  const xLabel = axisLabel(params, t);
+  const xUnit = axisUnitSymbol(params);
+
+  return (
+    <div className="bg-white rounded-lg shadow p-4">
+      <h2 className="text-2xl font-bold text-center mb-4">{t('twoCell.title')}</h2>
+
+      {/* ポラライザー／アナライザーの入力 */}
+      <div className="flex gap-8 mb-6">
+        {renderCellInputs('polarizer', t('twoCell.polarizerCell'))}
+        {renderCellInputs('analyzer', t('twoCell.analyzerCell'))}
+      </div>
+
+      <div className="flex justify-end mb-6">
+        <button
+          onClick={() => setCells(tempCells)}
+          className="px-4 py-2 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2"
+        >
+          {t('common.setParameters')}
+        </button>
+      </div>
+
+      {/* 代表エネルギー・t = 0 での値 */}
+      <div className="grid grid-cols-5 gap-4 text-sm text-gray-700 mb-6">
+        <div>
+          <span className="block font-medium">{t('optimizer.operatingPoint')}</span>
+          {formatNumber(params.neutronParams.energy, 2)} meV / {formatNumber(operatingWavelength, 2)} Å
+        </div>
+        <div>
+          <span className="block font-medium">Pp · Pa</span>
+          {formatNumber(operatingPoint.polarizationProduct, 2)} %
+        </div>
+        <div>
+          <span className="block font-medium">Tp · Ta</span>
+          {formatNumber(operatingPoint.neutronTransmission, 2)} %
+        </div>
+        <div>
+          <span className="block font-medium">{t('twoCell.flippingRatio')}</span>
+          {formatNumber(operatingPoint.flippingRatio)}
+        </div>
+        <div>
+          <span className="block font-medium">{t('twoCell.combinedFom')}</span>
+          {formatNumber(operatingPoint.figureOfMerit, 2)} %
+        </div>
+      </div>
+
+      {/* 波長（X軸）依存性 */}
+      <div className="h-[400px] mb-6">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={wavelengthData} margin={{ top: 20, right: 30, left: 30, bottom: 20 }}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis
+              dataKey="x"
+              label={{ value: xLabel, position: 'bottom', offset: 0 }}
+              type="number"
+              scale={isLogScale ? 'log' : 'auto'}
+              domain={['dataMin', 'dataMax']}
+              tickFormatter={(value) => formatNumber(value)}
+            />
+            <YAxis
+              yAxisId="percent"
+              domain={[0, 100]}
+              label={{ value: t('chart.neutronFigureYLabel'), angle: -90, position: 'insideLeft', offset: -5, style: { textAnchor: 'middle' } }}
+              tickFormatter={(value) => formatNumber(value, 0)}
+            />
+            <YAxis
+              yAxisId="ratio"
+              orientation="right"
+              scale="log"
+              domain={[1, 'auto']}
+              allowDataOverflow={true}
+              label={{ value: t('twoCell.flippingRatio'), angle: 90, position: 'insideRight', offset: -5, style: { textAnchor: 'middle' } }}
+              tickFormatter={(value) => formatNumber(value, 0)}
+            />
+            <Tooltip
+              formatter={(value: number) => formatNumber(value, 2)}
+              labelFormatter={(label: number) => `${xLabel}: ${formatNumber(label, 2)} ${xUnit}`}
+            />
+            <Legend verticalAlign="top" height={36} />
+            <Line yAxisId="percent" type="monotone" dataKey="polarizationProduct" name="Pp · Pa" stroke="#8884d8" dot={false} isAnimationActive={false} />
+            <Line yAxisId="percent" type="monotone" dataKey="neutronTransmission" name="Tp · Ta" stroke="#ff7300" dot={false} isAnimationActive={false} />
+            <Line yAxisId="percent" type="monotone" dataKey="figureOfMerit" name={t('twoCell.combinedFom')} stroke="#82ca9d" dot={false} isAnimationActive={false} />
+            <Line yAxisId="ratio" type="monotone" dataKey="flippingRatio" name={t('twoCell.flippingRatio')} stroke="#dc2626" strokeDasharray="5 5" dot={false} isAnimationActive={false} />
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+
+      {/* 時間依存性 */}
+      <div className="h-[400px]">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={timeData} margin={{ top: 20, right: 30, left: 30, bottom: 20 }}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis
+              dataKey="time"
+              label={{ value: t('chart.time'), position: 'bottom', offset: 0 }}
+              type="number"
+              domain={[timeMin, timeMax]}
+              tickFormatter={(value) => formatNumber(value)}
+            />
+            <YAxis
+              yAxisId="percent"
+              domain={[0, 100]}
+              label={{ value: t('chart.neutronFigureYLabel'), angle: -90, position: 'insideLeft', offset: -5, style: { textAnchor: 'middle' } }}
+              tickFormatter={(value) => formatNumber(value, 0)}
+            />
+            <YAxis
+              yAxisId="ratio"
+              orientation="right"
+              scale="log"
+              domain={[1, 'auto']}
+              allowDataOverflow={true}
+              label={{ value: t('twoCell.flippingRatio'), angle: 90, position: 'insideRight', offset: -5, style: { textAnchor: 'middle' } }}
+              tickFormatter={(value) => formatNumber(value, 0)}
+            />
+            <Tooltip
+              formatter={(value: number) => formatNumber(value, 2)}
+              labelFormatter={(label: number) => t('chart.timeTooltip', { time: formatNumber(label) })}
+            />
+            <Legend verticalAlign="top" height={36} />
+            <Line yAxisId="percent" type="monotone" dataKey="polarizerHe3" name={t('twoCell.polarizerHe3')} stroke="#82ca9d" strokeDasharray="3 3" dot={false} isAnimationActive={false} />
+            <Line yAxisId="percent" type="monotone" dataKey="analyzerHe3" name={t('twoCell.analyzerHe3')} stroke="#8884d8" strokeDasharray="3 3" dot={false} isAnimationActive={false} />
+            <Line yAxisId="percent" type="monotone" dataKey="polarizationProduct" name="Pp · Pa" stroke="#8884d8" dot={false} isAnimationActive={false} />
+            <Line yAxisId="percent" type="monotone" dataKey="neutronTransmission" name="Tp · Ta" stroke="#ff7300" dot={false} isAnimationActive={false} />
+            <Line yAxisId="percent" type="monotone" dataKey="figureOfMerit" name={t('twoCell.combinedFom')} stroke="#82ca9d" dot={false} isAnimationActive={false} />
+            <Line yAxisId="ratio" type="monotone" dataKey="flippingRatio" name={t('twoCell.flippingRatio')} stroke="#dc2626" strokeDasharray="5 5" dot={false} isAnimationActive={false} />
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,30 @@
+"use client";
+
+import { useI18n } from './i18n';
+
+interface UncertaintyInputProps {
+  value: number;                      // 1σ 誤差（0 は誤差なし）
+  onChange: (value: number) => void;
+}
+
+// 入力欄の横に置く ±σ の入力
+export default function UncertaintyInput({ value, onChange }: UncertaintyInputProps) {
+  const { t } = useI18n();
+  return (
+    <>
+      <span className="text-sm text-gray-500">±</span>
+      <input
+        type="number"
+        step="any"
+        min="0"
+        value={value}
+        title={t('uncertainty.title')}
+        onChange={(e) => {
+          const parsed = e.target.value === '' ? 0 : parseFloat(e.target.value);
+          onChange(isNaN(parsed) ? 0 : Math.abs(parsed));
+        }}
+        className="w-20 rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+      />
+    </>
+  );
+}
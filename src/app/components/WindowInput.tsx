@@ -0,0 +1,119 @@
+"use client";
+
+import { WINDOW_MATERIALS, calculateWindowTransmission, energyToWavelength } from '@/lib/he3';
+import type { WindowMaterial } from '@/lib/he3';
+import type { Params, WindowParams } from './types';
+import { useI18n } from './i18n';
+
+interface WindowInputProps {
+  tempParams: Params;                        // 入力フォームの一時値
+  onChange: (tempParams: Params) => void;    // 一時値の更新
+}
+
+// セル窓（容器）の減衰モデルの入力欄
+export default function WindowInput({ tempParams, onChange }: WindowInputProps) {
+  const { t, formatNumber } = useI18n();
+  const windowParams = tempParams.windowParams;
+
+  // 窓パラメータの一部を更新
+  const update = (next: Partial<WindowParams>) => {
+    onChange({ ...tempParams, windowParams: { ...windowParams, ...next } });
+  };
+
+  // 数値入力欄の値を読む（空欄・不正値は 0）
+  const parse = (value: string) => {
+    const parsed = value === '' ? 0 : parseFloat(value);
+    return isNaN(parsed) ? 0 : parsed;
+  };
+
+  // 代表エネルギーでの窓のみの損失（%）
+  const loss = 100 - calculateWindowTransmission(energyToWavelength(tempParams.neutronParams.energy), windowParams);
+
+  return (
+    <>
+      <div className="flex items-center space-x-4">
+        <label className="text-sm font-medium text-gray-700 w-40">
+          {t('window.title')}
+        </label>
+        <label className="inline-flex items-center">
+          <input
+            type="checkbox"
+            className="form-checkbox h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-gray-300"
+            checked={windowParams.enabled}
+            onChange={(e) => update({ enabled: e.target.checked })}
+          />
+          <span className="ml-2 text-sm text-gray-700">
+            {t('window.include')}
+          </span>
+        </label>
+      </div>
+
+      {windowParams.enabled && (
+        <>
+          {/* 窓材の選択（プリセットは断面積を上書き） */}
+          <div className="flex items-center space-x-2 pl-4">
+            <label className="text-sm font-medium text-gray-700 w-44">
+              {t('window.material')}
+            </label>
+            <select
+              value={windowParams.material}
+              onChange={(e) => {
+                const material = e.target.value as WindowMaterial | 'custom';
+                update(material === 'custom'
+                  ? { material }
+                  : { material, absorption: WINDOW_MATERIALS[material].absorption, scattering: WINDOW_MATERIALS[material].scattering });
+              }}
+              className="rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+            >
+              {(Object.keys(WINDOW_MATERIALS) as WindowMaterial[]).map(material => (
+                <option key={material} value={material}>{WINDOW_MATERIALS[material].label}</option>
+              ))}
+              <option value="custom">{t('window.custom')}</option>
+            </select>
+          </div>
+          <div className="flex items-center space-x-2 pl-4">
+            <label className="text-sm font-medium text-gray-700 w-44">
+              Σ<sub>abs</sub> @1.8 Å (1/cm)
+            </label>
+            <input
+              type="number"
+              step="any"
+              readOnly={windowParams.material !== 'custom'}
+              value={windowParams.absorption}
+              onChange={(e) => update({ absorption: parse(e.target.value) })}
+              className={`w-24 rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 ${windowParams.material !== 'custom' ? 'bg-gray-100' : ''}`}
+            />
+          </div>
+          <div className="flex items-center space-x-2 pl-4">
+            <label className="text-sm font-medium text-gray-700 w-44">
+              Σ<sub>scatt</sub> (1/cm)
+            </label>
+            <input
+              type="number"
+              step="any"
+              readOnly={windowParams.material !== 'custom'}
+              value={windowParams.scattering}
+              onChange={(e) => update({ scattering: parse(e.target.value) })}
+              className={`w-24 rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 ${windowParams.material !== 'custom' ? 'bg-gray-100' : ''}`}
+            />
+          </div>
+          <div className="flex items-center space-x-2 pl-4">
+            <label className="text-sm font-medium text-gray-700 w-44">
+              {t('window.thickness')}
+            </label>
+            <input
+              type="number"
+              step="any"
+              value={windowParams.thickness}
+              onChange={(e) => update({ thickness: parse(e.target.value) })}
+              className="w-24 rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+            />
+            <span className="text-sm text-gray-500">
+              {t('window.loss', { energy: formatNumber(tempParams.neutronParams.energy), loss: formatNumber(loss) })}
+            </span>
+          </div>
+        </>
+      )}
+    </>
+  );
+}
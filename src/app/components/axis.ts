@@ -0,0 +1,81 @@
+import {
+  energyToWavelength,
+  tofToWavelength,
+  wavelengthToEnergy,
+  wavelengthToTof
+} from '@/lib/he3';
+import type { Params, TofParams } from './types';
+import type { Translate } from './i18n';
+
+// TOF（ms）→ 表示単位（ms or µs）の倍率
+function tofScale(tofParams: TofParams): number {
+  return tofParams.unit === 'µs' ? 1e3 : 1;
+}
+
+// 波長（Å）→ 検出器での TOF（表示単位）
+export function wavelengthToDetectorTof(wavelength: number, tofParams: TofParams): number {
+  return wavelengthToTof(wavelength, tofParams.sourceToDetector) * tofScale(tofParams);
+}
+
+// 検出器での TOF（表示単位）→ 波長（Å）
+export function detectorTofToWavelength(tof: number, tofParams: TofParams): number {
+  return tofToWavelength(tof / tofScale(tofParams), tofParams.sourceToDetector);
+}
+
+// 波長（Å）→ セル到達時の TOF（表示単位）
+export function wavelengthToCellTof(wavelength: number, tofParams: TofParams): number {
+  return wavelengthToTof(wavelength, tofParams.sourceToCell) * tofScale(tofParams);
+}
+
+// X軸の値（λ, E, TOF）→ 波長（Å）
+export function axisValueToWavelength(x: number, params: Params): number {
+  switch (params.xAxisUnit) {
+    case 'wavelength': return x;
+    case 'energy': return energyToWavelength(x);
+    case 'tof': return detectorTofToWavelength(x, params.tofParams);
+  }
+}
+
+// 波長（Å）→ X軸の値（λ, E, TOF）
+export function wavelengthToAxisValue(wavelength: number, params: Params): number {
+  switch (params.xAxisUnit) {
+    case 'wavelength': return wavelength;
+    case 'energy': return wavelengthToEnergy(wavelength);
+    case 'tof': return wavelengthToDetectorTof(wavelength, params.tofParams);
+  }
+}
+
+// X軸の単位記号
+export function axisUnitSymbol(params: Params): string {
+  switch (params.xAxisUnit) {
+    case 'wavelength': return 'Å';
+    case 'energy': return 'meV';
+    case 'tof': return params.tofParams.unit;
+  }
+}
+
+// X軸のラベル（表示言語で。name は単位なしの量の名前）
+export function axisLabel(params: Params, t: Translate): string {
+  return t(`axis.${params.xAxisUnit}`, { unit: params.tofParams.unit });
+}
+export function axisName(params: Params, t: Translate): string {
+  return t(`axis.${params.xAxisUnit}Name`);
+}
+
+// X軸のサンプル点（線形 or 対数均等刻み、両端を含む numPoints + 1 点）
+export function sampleAxis(min: number, max: number, numPoints: number, isLogScale: boolean): number[] {
+  const values: number[] = [];
+  if (!(max > min)) return values;
+  if (isLogScale) {
+    const logMin = Math.log10(min);
+    const logMax = Math.log10(max);
+    for (let i = 0; i <= numPoints; i++) {
+      values.push(Math.pow(10, logMin + i * (logMax - logMin) / numPoints));
+    }
+  } else {
+    for (let i = 0; i <= numPoints; i++) {
+      values.push(min + i * (max - min) / numPoints);
+    }
+  }
+  return values;
+}
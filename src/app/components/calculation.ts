@@ -0,0 +1,102 @@
+import {
+  calculateSpinFilter,
+  calculateHe3Decay,
+  calculatePumpDecayCycle,
+  calculateFlipFactor,
+  calculateWindowTransmission,
+  applyWindowTransmission
+} from '@/lib/he3';
+import type { AfpParams, CrossSectionSettings, SpinFilterResult } from '@/lib/he3';
+import type { AfpCycleParams, CrossSectionParams, Params } from './types';
+
+// Params から1点分の値を求める計算（グラフと CLI で共通。UI には依存しない）
+
+// 入力欄の値を計算ライブラリの AFP パラメータに変換
+export function toAfpParams(afpParams: AfpCycleParams): AfpParams {
+  return {
+    schedule: afpParams.scheduleType === 'interval'
+      ? { type: 'interval', interval: afpParams.interval }
+      : { type: 'list', times: afpParams.times },
+    lossPerFlip: afpParams.lossPerFlip
+  };
+}
+
+// 入力欄の値を計算ライブラリの断面積設定に変換
+export function toCrossSectionSettings(crossSection: CrossSectionParams): CrossSectionSettings {
+  return {
+    model: crossSection.model === 'table'
+      ? {
+          type: 'table',
+          points: crossSection.tableEnergies.map((energy, i) => ({ energy, crossSection: crossSection.tableCrossSections[i] }))
+        }
+      : { type: crossSection.model },
+    sigma0: crossSection.sigma0,
+    lambda0: crossSection.lambda0,
+    numberDensity: crossSection.numberDensity
+  };
+}
+
+// Params の断面積設定（同じ CrossSectionParams なら変換結果を使い回し、点ごとにテーブルを作り直さない）
+const crossSectionSettingsCache = new WeakMap<CrossSectionParams, CrossSectionSettings>();
+export function crossSectionSettingsOf(currentParams: Params): CrossSectionSettings {
+  let settings = crossSectionSettingsCache.get(currentParams.crossSection);
+  if (!settings) {
+    settings = toCrossSectionSettings(currentParams.crossSection);
+    crossSectionSettingsCache.set(currentParams.crossSection, settings);
+  }
+  return settings;
+}
+
+// 窓のみの透過率（%）。窓を含めない場合は 100
+export function windowTransmissionFor(wavelength: number, currentParams: Params): number {
+  return currentParams.windowParams.enabled
+    ? calculateWindowTransmission(wavelength, currentParams.windowParams)
+    : 100;
+}
+
+// 緩和（ビーム上での使用）の開始時刻（h）。ポンピングを計算する場合はポンピング終了時
+export function decayStartOf(currentParams: Params): number {
+  return currentParams.pumpingParams.enabled ? currentParams.pumpingParams.pumpDuration : 0;
+}
+
+// 波長 λ での中性子特性（%、窓を含む）。He-3 偏極度と厚さは Neutron ボックスの値
+export function neutronPointAt(wavelength: number, currentParams: Params): SpinFilterResult {
+  return applyWindowTransmission(
+    calculateSpinFilter(
+      wavelength,
+      currentParams.neutronParams.he3Polarization / 100,  // He-3 偏極度を 0–1 に正規化
+      currentParams.neutronParams.gasThickness,
+      crossSectionSettingsOf(currentParams)
+    ),
+    windowTransmissionFor(wavelength, currentParams)      // 窓の減衰を掛ける
+  );
+}
+
+// 時刻 t での He-3 偏極度と、代表波長での中性子特性（いずれも %）
+export function he3PointAt(time: number, wavelength: number, currentParams: Params) {
+  const unflippedPolarization = currentParams.pumpingParams.enabled
+    ? calculatePumpDecayCycle(                            // ポンピング → 緩和
+        currentParams.pumpingParams,
+        currentParams.relaxationTimeConstant,
+        time
+      )
+    : calculateHe3Decay(
+        currentParams.initialPolarization,
+        currentParams.relaxationTimeConstant,
+        time
+      );                                                  // P(t)=P0 exp(-t/T1)
+  const flip = currentParams.afpParams.enabled            // AFP 反転の損失（緩和の開始から数える）
+    ? calculateFlipFactor(toAfpParams(currentParams.afpParams), time - decayStartOf(currentParams))
+    : { factor: 1, sign: 1 };
+  const he3Polarization = unflippedPolarization * flip.factor;
+  const { neutronPolarization, neutronTransmission, figureOfMerit } = applyWindowTransmission(
+    calculateSpinFilter(wavelength, he3Polarization / 100, currentParams.neutronParams.gasThickness, crossSectionSettingsOf(currentParams)),
+    windowTransmissionFor(wavelength, currentParams)
+  );
+  return {
+    he3Polarization,
+    neutronPolarization: currentParams.afpParams.showSign ? flip.sign * neutronPolarization : neutronPolarization,
+    neutronTransmission,
+    figureOfMerit
+  };
+}
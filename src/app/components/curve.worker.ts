@@ -0,0 +1,19 @@
+import { computeCurve } from './curves';
+import type { CurveJob, CurveResult } from './curves';
+import type { DataPoint } from './types';
+
+// 曲線の計算を UI スレッドの外で行う Web Worker（断面積モデルは computeCurve が依頼の Params から合わせる）
+
+const scope = self as unknown as Worker;
+
+scope.onmessage = (event: MessageEvent<CurveJob>) => {
+  const { id, request } = event.data;
+  let points: DataPoint[] | null;
+  try {
+    points = computeCurve(request);
+  } catch {
+    points = null;                                     // 例外は結果として返す（onerror は読み込みの失敗だけ）
+  }
+  const result: CurveResult = { id, points };
+  scope.postMessage(result);
+};
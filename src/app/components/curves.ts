@@ -0,0 +1,147 @@
+import {
+  decimateIndices,
+  energyToWavelength,
+  countFlipTimes,
+  listFlipTimes,
+  propagateUncertainty,
+  sampleAdaptive,
+  wavelengthToEnergy
+} from '@/lib/he3';
+import type { CurveSampling, DataPoint, Params } from './types';
+import { axisValueToWavelength, sampleAxis, wavelengthToDetectorTof } from './axis';
+import { decayStartOf, he3PointAt, neutronPointAt, toAfpParams, windowTransmissionFor } from './calculation';
+
+// グラフの曲線（サンプル点の選択と各点の計算）。UI に依存せず、Web Worker からも呼ぶ
+
+// 計算の依頼（Worker に送る）
+export type CurveRequest =
+  | { kind: 'he3'; params: Params; xMin: number; xMax: number; sampling: CurveSampling }
+  | { kind: 'neutron'; params: Params; xMin: number; xMax: number; isLogScale: boolean; sampling: CurveSampling };
+
+// Worker とのメッセージ
+export interface CurveJob {
+  id: number;              // 依頼の番号（古い結果を捨てるため）
+  request: CurveRequest;
+}
+export interface CurveResult {
+  id: number;
+  points: DataPoint[] | null;  // 計算で例外が出たら null
+}
+
+// 適応サンプリングで見る量（描画の間引きでも残す）
+export const HE3_CURVE_KEYS = ['he3Polarization', 'neutronPolarization', 'neutronTransmission'];
+export const NEUTRON_CURVE_KEYS = ['neutronPolarization', 'neutronTransmission', 'figureOfMerit'];
+
+// 1σ を "<量>Sigma" のキーで持たせる（誤差帯とツールチップ用）
+function sigmaFields(sigma: Record<string, number>): Record<string, number> {
+  return Object.fromEntries(Object.entries(sigma).map(([key, value]) => [`${key}Sigma`, value]));
+}
+
+// x（波長 or エネルギー or TOF）での中性子特性（Pn, T, FOM と誤差）
+export function neutronDataPoint(x: number, currentParams: Params): DataPoint {
+  const wavelength = axisValueToWavelength(x, currentParams);                              // X軸の値 → λ
+  const energy = currentParams.xAxisUnit === 'energy' ? x : wavelengthToEnergy(wavelength); // E[meV]=81.81/λ^2
+  const tof = currentParams.xAxisUnit === 'tof' ? x : wavelengthToDetectorTof(wavelength, currentParams.tofParams); // 検出器 TOF
+
+  const { value, sigma } = propagateUncertainty(                  // Pn, T, FOM（%）と誤差
+    ([he3Polarization, gasThickness]) => neutronPointAt(wavelength, {
+      ...currentParams,
+      neutronParams: { ...currentParams.neutronParams, he3Polarization, gasThickness }
+    }),
+    [currentParams.neutronParams.he3Polarization, currentParams.neutronParams.gasThickness],
+    [currentParams.uncertainties.he3Polarization, currentParams.uncertainties.gasThickness]
+  );
+
+  return {
+    time: 0,                   // Neutron グラフでは時間は未使用のため 0 に固定
+    wavelength,
+    energy,
+    tof,
+    he3Polarization: currentParams.neutronParams.he3Polarization, // 表示用に % 値を保持
+    ...value,
+    windowTransmission: windowTransmissionFor(wavelength, currentParams), // 窓のみの透過率（%）
+    ...sigmaFields(sigma)      // 誤差帯用の 1σ
+  };
+}
+
+// 時刻 t での He-3 偏極度と代表エネルギーでの中性子特性（P0, T1, 厚さの誤差を伝播）
+export function he3DataPoint(time: number, currentParams: Params): DataPoint {
+  const wavelength = energyToWavelength(currentParams.neutronParams.energy); // E = 81.81/λ^2 から λ = √(81.81/E)
+  const { uncertainties } = currentParams;
+  const { value, sigma } = propagateUncertainty(
+    ([initialPolarization, relaxationTimeConstant, gasThickness]) => he3PointAt(time, wavelength, {
+      ...currentParams,
+      initialPolarization,
+      relaxationTimeConstant,
+      neutronParams: { ...currentParams.neutronParams, gasThickness }
+    }),
+    [currentParams.initialPolarization, currentParams.relaxationTimeConstant, currentParams.neutronParams.gasThickness],
+    [uncertainties.initialPolarization, uncertainties.relaxationTimeConstant, uncertainties.gasThickness]
+  );
+
+  return {
+    time,
+    wavelength,
+    energy: currentParams.neutronParams.energy,
+    tof: wavelengthToDetectorTof(wavelength, currentParams.tofParams),
+    ...value,                  // He-3 偏極度・Pn・T・FOM（%、FOM はグラフには描かないが書き出し用に保持）
+    windowTransmission: windowTransmissionFor(wavelength, currentParams),
+    ...sigmaFields(sigma)      // 誤差帯用の 1σ
+  };
+}
+
+// He-3 グラフのサンプル時刻（等間隔 or 適応サンプリング＋反転の直前・直後で段差を描く）
+const MAX_FLIP_EDGES = 500;  // これより反転が多いときは段差を描かない（サンプル点のみ）
+function he3SampleTimes(xMin: number, xMax: number, currentParams: Params, sampling: CurveSampling): number[] {
+  const wavelength = energyToWavelength(currentParams.neutronParams.energy);
+  const times = sampling.adaptive
+    ? sampleAdaptive(time => {
+        const point = he3PointAt(time, wavelength, currentParams);
+        return HE3_CURVE_KEYS.map(key => point[key as keyof typeof point]);
+      }, xMin, xMax, sampling.resolution)
+    : sampleAxis(xMin, xMax, sampling.resolution, false);
+  if (!currentParams.afpParams.enabled) return times;
+
+  const decayStart = decayStartOf(currentParams);
+  const schedule = toAfpParams(currentParams.afpParams).schedule;
+  if (countFlipTimes(schedule, xMin - decayStart, xMax - decayStart) > MAX_FLIP_EDGES) return times;  // 一覧を作る前に数える
+  const flipTimes = listFlipTimes(schedule, xMin - decayStart, xMax - decayStart);
+  const epsilon = (xMax - xMin) * 1e-6;
+  for (const flipTime of flipTimes) times.push(decayStart + flipTime - epsilon, decayStart + flipTime);
+  return times.sort((a, b) => a - b);
+}
+
+// Neutron グラフのサンプル点（X 軸の単位で、線形 or 対数）
+function neutronSamplePoints(
+  xMin: number,
+  xMax: number,
+  isLogScale: boolean,
+  currentParams: Params,
+  sampling: CurveSampling
+): number[] {
+  const effectiveXMin = isLogScale ? Math.max(0.1, xMin) : xMin; // 対数では0以下不可
+  if (!sampling.adaptive) return sampleAxis(effectiveXMin, xMax, sampling.resolution, isLogScale);
+  return sampleAdaptive(x => {
+    const point = neutronPointAt(axisValueToWavelength(x, currentParams), currentParams);
+    return NEUTRON_CURVE_KEYS.map(key => point[key as keyof typeof point]);
+  }, effectiveXMin, xMax, sampling.resolution, isLogScale);
+}
+
+// 依頼どおりに曲線を計算（断面積は依頼の Params のモデル）
+export function computeCurve(request: CurveRequest): DataPoint[] {
+  if (request.kind === 'he3') {
+    return he3SampleTimes(request.xMin, request.xMax, request.params, request.sampling)
+      .map(time => he3DataPoint(time, request.params));
+  }
+  return neutronSamplePoints(request.xMin, request.xMax, request.isLogScale, request.params, request.sampling)
+    .map(x => neutronDataPoint(x, request.params));
+}
+
+// 描画用に間引いた曲線（点が多いときは x の区間ごとに各量の最小・最大の点を残す）
+const MAX_DISPLAY_POINTS = 2000;
+const DISPLAY_BUCKETS = 400;
+export function displayCurve(points: DataPoint[], xKey: string, keys: string[], isLogScale: boolean = false): DataPoint[] {
+  if (points.length <= MAX_DISPLAY_POINTS) return points;
+  const xs = points.map(point => isLogScale ? Math.log10(point[xKey]) : point[xKey]);
+  return decimateIndices(xs, points.map(point => keys.map(key => point[key])), DISPLAY_BUCKETS).map(i => points[i]);
+}
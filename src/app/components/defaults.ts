@@ -0,0 +1,86 @@
+import type { AxisRanges, Params, SamplingSettings } from './types';
+
+// 計算パラメータの既定値（params と tempParams の初期値、パーマリンクの補完にも使う）
+export const DEFAULT_PARAMS: Params = {
+  initialPolarization: 70.0,                   // He-3 初期偏極度（%）
+  relaxationTimeConstant: 100.0,               // 緩和時定数（h）
+  xAxisUnit: 'wavelength',                     // X軸は波長表示
+  neutronParams: {
+    gasThickness: 10.0,                        // 厚さ（amg·cm）
+    energy: 14.7,                              // 代表エネルギー（meV）
+    he3Polarization: 70,                       // He-3 偏極度（%）
+  },
+  tofParams: {
+    sourceToCell: 15.0,                        // 線源–セル間距離（m）
+    sourceToDetector: 18.0,                    // 線源–検出器間距離（m）
+    unit: 'ms'                                 // TOF の表示単位
+  },
+  thicknessInput: 'direct',                    // ガス厚さは直接入力
+  cellGeometry: {
+    pressure: 1.0,                             // 充填圧力（bar）
+    temperature: 293.15,                       // 充填温度（K）
+    length: 10.0                               // セル内長（cm）
+  },
+  windowParams: {
+    enabled: false,                            // 窓の減衰は含めない
+    material: 'GE180',                         // 窓材
+    absorption: 0.015,                         // Σa @1.8Å（/cm）
+    scattering: 0.25,                          // Σs（/cm）
+    thickness: 0.4                             // 窓の合計厚さ（cm）
+  },
+  pumpingParams: {
+    enabled: false,                            // ポンピングは計算しない
+    pumpRate: 0.1,                             // ポンピング率 γ（1/h）
+    pumpingRelaxationRate: 0.02,               // ポンピング中の緩和率 Γ（1/h）
+    saturationPolarization: 75,                // 到達偏極度 P∞（%）
+    pumpDuration: 24,                          // ポンピング時間（h）
+    startPolarization: 0                       // 開始時の偏極度（%）
+  },
+  afpParams: {
+    enabled: false,                            // 反転損失は含めない
+    scheduleType: 'interval',                  // 一定間隔で反転
+    interval: 60,                              // 反転間隔（分）
+    times: [],                                 // 反転時刻の一覧（h）
+    lossPerFlip: 0.1,                          // 1 回の反転での損失（%）
+    showSign: false                            // Pn の符号反転は表示しない
+  },
+  crossSection: {
+    model: 'linear',                           // σ0·(λ/λ0) の 1/v 近似
+    sigma0: 5333,                              // 吸収断面積（barn）
+    lambda0: 1.8,                              // 基準波長（Å）
+    numberDensity: 2.687e19,                   // 1 amg あたりの数密度（/cm^3）
+    tableEnergies: [],                         // テーブルのエネルギー（meV）
+    tableCrossSections: []                     // テーブルの断面積（barn）
+  },
+  uncertainties: {
+    initialPolarization: 0,                    // P0 の誤差（%）
+    relaxationTimeConstant: 0,                 // T1 の誤差（h）
+    gasThickness: 0,                           // 厚さの誤差（amg·cm）
+    he3Polarization: 0                         // He-3 偏極度の誤差（%）
+  }
+};
+
+// 軸レンジの既定値
+export const DEFAULT_AXIS_RANGES: AxisRanges = {
+  he3: {
+    xMin: "0",      // He-3 グラフの X最小（h）
+    xMax: "100",    // He-3 グラフの X最大（h）
+    yMin: "0",      // He-3 グラフの Y最小（%）
+    yMax: "100"     // He-3 グラフの Y最大（%）
+  },
+  neutron: {
+    xMin: "0",      // Neutron グラフ X最小（Å or meV or TOF）
+    xMax: "100",    // Neutron グラフ X最大（Å or meV or TOF）
+    yMin: "0",      // Neutron グラフ Y最小（%）
+    yMax: "100"     // Neutron グラフ Y最大（%）
+  }
+};
+
+// サンプリングの既定値（等間隔、He-3 は 100 区間・Neutron は 200 区間）
+export const DEFAULT_SAMPLING: SamplingSettings = {
+  he3: { resolution: 100, adaptive: false },
+  neutron: { resolution: 200, adaptive: false }
+};
+
+// 選べる区間数
+export const RESOLUTION_OPTIONS = [100, 200, 500, 1000, 10000, 100000];
@@ -0,0 +1,16 @@
+const REVOKE_DELAY_MS = 1000;  // オブジェクト URL を解放するまでの待ち時間（ms）
+
+// ファイルとしてダウンロードさせる（ブラウザのみ）
+export function downloadBlob(filename: string, blob: Blob): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), REVOKE_DELAY_MS);  // click() 直後に解放するとダウンロードが始まらないブラウザがある
+}
+
+// テキストをファイルとしてダウンロードさせる（ブラウザのみ）
+export function downloadText(filename: string, text: string, mimeType: string = 'text/plain'): void {
+  downloadBlob(filename, new Blob([text], { type: `${mimeType};charset=utf-8` }));
+}
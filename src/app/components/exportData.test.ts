@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { formatDataCsv, formatDataJson } from './exportData';
+import { DEFAULT_PARAMS } from './defaults';
+import type { DataPoint } from './types';
+
+const point = (time: number, extra: Record<string, number> = {}): DataPoint => ({
+  time,
+  wavelength: 4,
+  energy: 5.11,
+  tof: 10,
+  he3Polarization: 70,
+  neutronPolarization: 90,
+  neutronTransmission: 30,
+  windowTransmission: 95,
+  figureOfMerit: 24,
+  ...extra
+});
+
+describe('formatDataCsv', () => {
+  it("'#' のヘッダーに系列名・パラメータ・単位を書く", () => {
+    const lines = formatDataCsv('he3', [point(0)], DEFAULT_PARAMS).split('\n');
+    const header = lines.filter(line => line.startsWith('#'));
+    expect(header[0]).toBe('# series = he3');
+    expect(header[1]).toMatch(/^# generated = \d{4}-\d{2}-\d{2}T/);
+    expect(header).toContain(`# params.neutronParams.energy = ${DEFAULT_PARAMS.neutronParams.energy}`);
+    expect(header).toContain(`# params.tofParams.unit = ${DEFAULT_PARAMS.tofParams.unit}`);
+    expect(header[header.length - 1]).toMatch(/^# units = time\[hour\] wavelength\[angstrom\] energy\[meV\] tof\[ms\] /);
+    expect(lines.findIndex(line => !line.startsWith('#'))).toBe(header.length);  // ヘッダーは先頭にまとまっている
+  });
+
+  it('基本列を決まった順に並べ、データの行を続ける', () => {
+    const lines = formatDataCsv('he3', [point(0), point(1)], DEFAULT_PARAMS).trimEnd().split('\n').filter(line => !line.startsWith('#'));
+    expect(lines).toEqual([
+      'time,wavelength,energy,tof,he3Polarization,neutronPolarization,neutronTransmission,windowTransmission,figureOfMerit',
+      '0,4,5.11,10,70,90,30,95,24',
+      '1,4,5.11,10,70,90,30,95,24'
+    ]);
+  });
+
+  it('*Sigma などの追加列は基本列の後ろに足し、値のない点は空欄', () => {
+    const data = [point(0, { neutronPolarizationSigma: 0.5 }), point(1, { figureOfMeritSigma: 0.2 })];
+    const text = formatDataCsv('neutron', data, DEFAULT_PARAMS);
+    const lines = text.trimEnd().split('\n').filter(line => !line.startsWith('#'));
+    expect(lines[0].split(',').slice(-2)).toEqual(['neutronPolarizationSigma', 'figureOfMeritSigma']);
+    expect(lines[1].split(',').slice(-2)).toEqual(['0.5', '']);
+    expect(lines[2].split(',').slice(-2)).toEqual(['', '0.2']);
+    expect(text).toContain('neutronPolarizationSigma[-] figureOfMeritSigma[-]');
+  });
+});
+
+describe('formatDataJson', () => {
+  it('パラメータをそのまま復元できる', () => {
+    const data = [point(0, { neutronPolarizationSigma: 0.5 })];
+    const parsed = JSON.parse(formatDataJson('neutron', data, DEFAULT_PARAMS));
+    expect(parsed.series).toBe('neutron');
+    expect(parsed.params).toEqual(DEFAULT_PARAMS);
+    expect(parsed.columns).toEqual([
+      'time', 'wavelength', 'energy', 'tof', 'he3Polarization', 'neutronPolarization',
+      'neutronTransmission', 'windowTransmission', 'figureOfMerit', 'neutronPolarizationSigma'
+    ]);
+    expect(parsed.units.tof).toBe(DEFAULT_PARAMS.tofParams.unit);
+    expect(parsed.data).toEqual(data);
+  });
+});
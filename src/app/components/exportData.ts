@@ -0,0 +1,77 @@
+import type { DataPoint, Params } from './types';
+
+// グラフデータの書き出し（CSV / JSON）。入力パラメータをヘッダーに記録して再現できるようにする
+
+// 列の並び（DataPoint の基本列。これ以外の数値列は後ろに追加）
+const BASE_COLUMNS = [
+  'time',                 // h
+  'wavelength',           // Å
+  'energy',               // meV
+  'tof',                  // ms or µs（tofParams.unit）
+  'he3Polarization',      // %
+  'neutronPolarization',  // %
+  'neutronTransmission',  // %
+  'windowTransmission',   // %
+  'figureOfMerit'         // %
+];
+
+// 各列の単位（TOF 以外）
+const COLUMN_UNITS: Record<string, string> = {
+  time: 'hour',
+  wavelength: 'angstrom',
+  energy: 'meV',
+  he3Polarization: '%',
+  neutronPolarization: '%',
+  neutronTransmission: '%',
+  windowTransmission: '%',
+  figureOfMerit: '%'
+};
+
+// 各列の単位（TOF は表示単位に追従）
+function unitsOf(params: Params): Record<string, string> {
+  return { ...COLUMN_UNITS, tof: params.tofParams.unit };
+}
+
+// データに含まれる列（基本列＋追加列）
+function columnsOf(data: DataPoint[]): string[] {
+  const extra = new Set<string>();
+  data.forEach(point => Object.keys(point).forEach(key => {
+    if (!BASE_COLUMNS.includes(key)) extra.add(key);
+  }));
+  return [...BASE_COLUMNS, ...extra];
+}
+
+// ネストしたパラメータを "neutronParams.energy" のような平たいキーに展開
+function flattenParams(value: unknown, prefix: string = ''): [string, string][] {
+  if (value !== null && typeof value === 'object' && !Array.isArray(value)) {
+    return Object.entries(value).flatMap(([key, child]) => flattenParams(child, prefix ? `${prefix}.${key}` : key));
+  }
+  return [[prefix, Array.isArray(value) ? JSON.stringify(value) : String(value)]];
+}
+
+// CSV：'#' で始まるヘッダーブロック（系列名・作成日時・パラメータ・単位）＋列名＋データ
+export function formatDataCsv(series: string, data: DataPoint[], params: Params): string {
+  const columns = columnsOf(data);
+  const units = unitsOf(params);
+  const header = [
+    `# series = ${series}`,
+    `# generated = ${new Date().toISOString()}`,
+    ...flattenParams(params).map(([key, value]) => `# params.${key} = ${value}`),
+    `# units = ${columns.map(column => `${column}[${units[column] ?? '-'}]`).join(' ')}`
+  ];
+  const rows = data.map(point => columns.map(column => point[column] ?? '').join(','));
+  return [...header, columns.join(','), ...rows].join('\n') + '\n';
+}
+
+// JSON：{ series, generated, params, units, columns, data }
+export function formatDataJson(series: string, data: DataPoint[], params: Params): string {
+  const columns = columnsOf(data);
+  return JSON.stringify({
+    series,
+    generated: new Date().toISOString(),
+    params,
+    units: unitsOf(params),
+    columns,
+    data
+  }, null, 2);
+}
@@ -0,0 +1,189 @@
+import katex from 'katex';
+
+// 論文・提案書用の図の書き出し（SVG / 高解像度 PNG）
+//   図は FigureExportPanel が固定サイズで描いた recharts の SVG をそのまま文字列にする。
+//   軸ラベルの $...$ は KaTeX で描き（foreignObject）、書き出し時に KaTeX の CSS とフォントを埋め込む
+
+// 図に描く系列
+export interface FigureSeries {
+  key: string;               // DataPoint のキー
+  name: string;              // 凡例名
+  color: string;             // 線色
+  strokeDasharray?: string;  // 破線
+}
+
+// 凡例の位置
+export type LegendPosition = 'top' | 'bottom' | 'right' | 'inside' | 'none';
+
+// 図の体裁
+export interface FigureStyle {
+  width: number;             // 図の幅（px）
+  height: number;            // 図の高さ（px）
+  fontSize: number;          // 文字サイズ（px）
+  fontFamily: string;        // 書体
+  lineWidth: number;         // 線幅（px）
+  showGrid: boolean;         // グリッドを描くか
+  legendPosition: LegendPosition;
+  xLabel: string;            // X軸ラベル（$...$ は LaTeX）
+  yLabel: string;            // Y軸ラベル（$...$ は LaTeX）
+  dpi: number;               // PNG の解像度（96 dpi = 等倍）
+}
+
+export const DEFAULT_FIGURE_STYLE: Omit<FigureStyle, 'xLabel' | 'yLabel'> = {
+  width: 640,
+  height: 420,
+  fontSize: 14,
+  fontFamily: 'Arial, Helvetica, sans-serif',
+  lineWidth: 2,
+  showGrid: false,
+  legendPosition: 'top',
+  dpi: 300
+};
+
+// 書体の選択肢
+export const FONT_FAMILIES = [
+  { value: 'Arial, Helvetica, sans-serif', label: 'Sans-serif (Arial)' },
+  { value: '"Times New Roman", Times, serif', label: 'Serif (Times)' },
+  { value: '"Courier New", Courier, monospace', label: 'Monospace (Courier)' }
+];
+
+// ラベルに LaTeX（$...$）を含むか
+export function hasMath(label: string): boolean {
+  return /\$[^$]+\$/.test(label);
+}
+
+// ラベルを HTML に変換（$...$ は KaTeX、それ以外はエスケープした文字列）
+export function labelToHtml(label: string): string {
+  return label.split(/(\$[^$]+\$)/).map(part => {
+    if (/^\$[^$]+\$$/.test(part)) {
+      return katex.renderToString(part.slice(1, -1), { throwOnError: false, output: 'html' });
+    }
+    return part.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+  }).join('');
+}
+
+// Blob → data URL
+function blobToDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+// 読み込み済みの KaTeX の CSS を集め、フォントを data URL で埋め込む
+//   SVG を画像として描くときは外部のフォントを読めないため
+export async function collectKatexCss(): Promise<string> {
+  const rules: string[] = [];
+  for (const sheet of Array.from(document.styleSheets)) {
+    let cssRules: CSSRuleList;
+    try {
+      cssRules = sheet.cssRules;
+    } catch {
+      continue;  // 別オリジンのスタイルシートは読めない
+    }
+    for (const rule of Array.from(cssRules)) {
+      if (rule instanceof CSSFontFaceRule) {
+        const family = rule.style.getPropertyValue('font-family');
+        if (!family.includes('KaTeX')) continue;
+        const url = rule.style.getPropertyValue('src').match(/url\(["']?([^"')]+)["']?\)/)?.[1];
+        if (!url) continue;
+        try {
+          const response = await fetch(new URL(url, sheet.href ?? window.location.href));
+          const dataUrl = await blobToDataUrl(await response.blob());
+          rules.push(`@font-face{font-family:${family};font-style:${rule.style.getPropertyValue('font-style') || 'normal'};`
+            + `font-weight:${rule.style.getPropertyValue('font-weight') || 'normal'};src:url(${dataUrl});}`);
+        } catch {
+          // フォントが取れなければ代替書体で描く
+        }
+      } else if (rule.cssText.includes('.katex')) {
+        rules.push(rule.cssText);
+      }
+    }
+  }
+  return rules.join('\n');
+}
+
+// 描画済みの SVG を単独のファイルとして文字列にする（白背景・書体・追加の CSS を入れる）
+export function serializeFigure(svg: SVGSVGElement, style: FigureStyle, extraCss: string = ''): string {
+  const clone = svg.cloneNode(true) as SVGSVGElement;
+  clone.setAttribute('xmlns', 'http://www.w3.org/2000/svg');
+  clone.setAttribute('width', String(style.width));
+  clone.setAttribute('height', String(style.height));
+  clone.setAttribute('viewBox', `0 0 ${style.width} ${style.height}`);
+  clone.removeAttribute('class');
+  clone.removeAttribute('style');
+
+  const css = document.createElementNS('http://www.w3.org/2000/svg', 'style');
+  css.textContent = `svg{font-family:${style.fontFamily};font-size:${style.fontSize}px;}\n${extraCss}`;
+  const background = document.createElementNS('http://www.w3.org/2000/svg', 'rect');
+  background.setAttribute('width', '100%');
+  background.setAttribute('height', '100%');
+  background.setAttribute('fill', '#ffffff');
+  clone.insertBefore(background, clone.firstChild);
+  clone.insertBefore(css, clone.firstChild);
+
+  return '<?xml version="1.0" encoding="UTF-8"?>\n' + new XMLSerializer().serializeToString(clone);
+}
+
+// CRC-32（PNG チャンク用）
+function crc32(bytes: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (const byte of bytes) {
+    crc ^= byte;
+    for (let k = 0; k < 8; k++) crc = crc & 1 ? (crc >>> 1) ^ 0xedb88320 : crc >>> 1;
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// PNG に解像度（pHYs チャンク）を書き込む。IHDR の直後に挿入する
+function withPngDpi(png: Uint8Array, dpi: number): Uint8Array {
+  const pixelsPerMeter = Math.round(dpi / 0.0254);
+  const chunk = new Uint8Array(21);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, 9);                                   // データ長
+  chunk.set([0x70, 0x48, 0x59, 0x73], 4);                 // "pHYs"
+  view.setUint32(8, pixelsPerMeter);                      // X 方向
+  view.setUint32(12, pixelsPerMeter);                     // Y 方向
+  chunk[16] = 1;                                          // 単位はメートル
+  view.setUint32(17, crc32(chunk.subarray(4, 17)));
+
+  const ihdrEnd = 8 + 25;                                 // シグネチャ 8 バイト＋IHDR 25 バイト
+  const result = new Uint8Array(png.length + chunk.length);
+  result.set(png.subarray(0, ihdrEnd));
+  result.set(chunk, ihdrEnd);
+  result.set(png.subarray(ihdrEnd), ihdrEnd + chunk.length);
+  return result;
+}
+
+// SVG 文字列を PNG に変換（dpi / 96 倍の画素数で描く）
+export function svgToPng(svgText: string, style: FigureStyle): Promise<Blob> {
+  const scale = style.dpi / 96;
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => {
+      try {
+        const canvas = document.createElement('canvas');
+        canvas.width = Math.round(style.width * scale);
+        canvas.height = Math.round(style.height * scale);
+        const context = canvas.getContext('2d');
+        if (!context) throw new Error('Canvas is not available');
+        context.scale(scale, scale);
+        context.drawImage(image, 0, 0, style.width, style.height);
+        canvas.toBlob(async blob => {
+          if (!blob) {
+            reject(new Error('PNG encoding failed'));
+            return;
+          }
+          const png = withPngDpi(new Uint8Array(await blob.arrayBuffer()), style.dpi);
+          resolve(new Blob([png], { type: 'image/png' }));
+        }, 'image/png');
+      } catch (error) {
+        reject(error instanceof Error ? error : new Error(String(error)));  // foreignObject を拒むブラウザ
+      }
+    };
+    image.onerror = () => reject(new Error('The figure could not be rendered as an image'));
+    image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svgText)}`;
+  });
+}
@@ -0,0 +1,422 @@
+// 英語のメッセージカタログ（キーの一覧もここで決まる。ja.ts は同じキーをすべて持つ）
+export const en = {
+  // ヘッダー・タブ
+  'app.title': 'He-3 Polarization Calculator',
+  'app.version': 'Version {version}',
+  'app.language': 'Language',
+  'tab.visualization': 'Visualization',
+  'tab.functions': 'Functions',
+  'link.copy': 'Copy Link',
+  'link.copied': 'Copied!',
+
+  // 共通
+  'common.parameters': 'Parameters',
+  'common.graphRange': 'Graph Range Settings',
+  'common.setParameters': 'Set Parameters',
+  'common.hours': '{value} hour',
+  'common.gasThickness': 'Gas Thickness (amg cm)',
+  'range.xMinHour': 'X Min (hour)',
+  'range.xMaxHour': 'X Max (hour)',
+  'range.xMin': 'X Min ({unit})',
+  'range.xMax': 'X Max ({unit})',
+  'range.yMin': 'Y Min (%)',
+  'range.yMax': 'Y Max (%)',
+  'sampling.resolution': 'Resolution (points)',
+  'sampling.computing': 'Computing…',
+  'sampling.method': 'Sampling',
+  'sampling.uniform': 'Uniform',
+  'sampling.adaptive': 'Adaptive (denser where steep)',
+
+  // He-3 ボックス
+  'he3.title': 'He-3 Polarization',
+  'he3.initialPolarization': 'Initial Polarization (%)',
+  'he3.relaxationTime': 'Relaxation Time (hour)',
+  'he3.energyOrWavelength': 'Energy or Wavelength',
+  'he3.relaxationBudget': 'Relaxation Budget',
+  'he3.relaxationBudgetHint': 'Build T1 from cell physics',
+  'he3.rotationPlanner': 'Rotation Planner',
+  'he3.rotationPlannerHint': 'Plan multi-cell swaps over a beamtime',
+  'he3.measuredData': 'Measured Data',
+  'he3.measuredDataHint': 'Fit P0 and T1 from measurements',
+  'he3.dataCorrection': 'Data Correction',
+  'he3.dataCorrectionHint': 'Correct SF/NSF runs for analyzer decay',
+
+  // Neutron ボックス
+  'neutron.title': 'Neutron Polarization',
+  'neutron.he3Polarization': 'He-3 Polarization (%)',
+  'neutron.xAxisUnit': 'X-Axis Unit',
+  'neutron.sourceToCell': 'Source to Cell (m)',
+  'neutron.sourceToDetector': 'Source to Detector (m)',
+  'neutron.xAxisScale': 'X-Axis Scale',
+  'neutron.linear': 'Linear',
+  'neutron.log': 'Log',
+  'neutron.optimizer': 'Optimizer Mode',
+  'neutron.optimizerHint': 'Show optimal thickness',
+  'neutron.inverseSolver': 'Inverse Solver',
+  'neutron.inverseSolverHint': 'Solve for P_He, thickness or λ from a target',
+  'neutron.designMap': 'Design Map',
+  'neutron.designMapHint': 'Show FOM map over thickness',
+  'neutron.crossSection': 'Cross Section',
+  'neutron.crossSectionHint': 'Edit model and constants',
+  'neutron.twoCell': 'Two-Cell Mode',
+  'neutron.twoCellHint': 'Show polarizer + analyzer',
+  'neutron.characterization': 'Cell Characterization',
+  'neutron.characterizationHint': 'Fit thickness and P_He from spectra',
+
+  // グラフ
+  'axis.wavelength': 'Wavelength (Å)',
+  'axis.energy': 'Energy (meV)',
+  'axis.tof': 'TOF ({unit})',
+  'axis.wavelengthName': 'Wavelength',
+  'axis.energyName': 'Energy',
+  'axis.tofName': 'TOF',
+  'chart.time': 'Time (hour)',
+  'chart.timeTooltip': 'Time: {time} hour',
+  'chart.polarization': 'Polarization (%)',
+  'chart.neutronYAxis': 'Polarization /\nTransmission /\nFigure of Merit',
+  'chart.neutronFigureYLabel': 'Polarization / Transmission / FOM (%)',
+  'chart.logPrefix': 'log ',
+  'chart.atCell': '(at cell: {value} {unit})',
+  'chart.endOfPumping': 'End of pumping',
+  'series.he3Polarization': 'He-3 Polarization',
+  'series.neutronPolarization': 'Neutron Polarization',
+  'series.neutronTransmission': 'Neutron Transmission',
+  'series.figureOfMerit': 'Figure of Merit',
+  'series.windowTransmission': 'Window Transmission',
+  'series.incidentSpectrum': 'Incident Spectrum (norm.)',
+  'series.transmittedSpectrum': 'Transmitted Spectrum',
+  'series.fitTransmission': 'Fit (Transmission)',
+  'series.fitHe3Polarization': 'Fit (He-3 Polarization)',
+  'series.measuredTransmission': 'Measured Transmission',
+  'series.measuredHe3Polarization': 'Measured He-3 Polarization',
+  'series.fitUnpolarized': 'Fit (Unpolarized)',
+  'series.fitPolarized': 'Fit (Polarized)',
+  'series.measuredUnpolarized': 'Measured (Unpolarized)',
+  'series.measuredPolarized': 'Measured (Polarized)',
+
+  // Functions タブ
+  'fn.title': 'Function Reference',
+  'fn.formula': 'Formula',
+  'fn.parameters': 'Parameters',
+  'fn.he3Decay': 'He-3 Polarization',
+  'fn.he3Decay.p0': 'Initial He-3 polarization',
+  'fn.he3Decay.tau': 'Relaxation time constant',
+  'fn.decayFit': 'Decay Fit',
+  'fn.decayFit.f': 'He-3 polarization P_He(t), or neutron transmission T(λ, P_He(t)) at the operating energy',
+  'fn.decayFit.sigma': 'Measurement uncertainty (equal weights if omitted)',
+  'fn.decayFit.params': 'Minimized by Levenberg–Marquardt; errors from the covariance matrix',
+  'fn.buildUp': 'Polarization Build-up',
+  'fn.buildUp.gamma': 'Pump rate (spin-exchange rate for SEOP, effective fill rate for MEOP)',
+  'fn.buildUp.relaxation': 'Relaxation rate during pumping',
+  'fn.buildUp.saturation': 'Saturation polarization; after the pump duration the cell decays with τ',
+  'fn.relaxationBudget': 'Relaxation Time Budget',
+  'fn.relaxationBudget.density': 'He-3 density (amg) from fill pressure and temperature',
+  'fn.relaxationBudget.wall': 'Wall relaxation time (hour)',
+  'fn.relaxationBudget.diffusion': 'He-3 self-diffusion coefficient, 1.9 cm²/s at 1 amg, scaling as 1/[He]',
+  'fn.relaxationBudget.gradient': 'Transverse field gradient relative to the holding field (1/cm)',
+  'fn.neutronPolarization': 'Neutron Polarization',
+  'fn.neutronPolarization.thickness': 'He-3 gas thickness (atm cm), where ρ is the number density and d is the gas length',
+  'fn.neutronPolarization.sigma': 'Neutron absorption cross section (barn)',
+  'fn.neutronPolarization.pHe': 'He-3 polarization',
+  'fn.geometry': 'Gas Thickness from Cell Geometry',
+  'fn.geometry.pressure': 'Fill pressure (bar), with p_0 = 1.01325 bar',
+  'fn.geometry.temperature': 'Fill temperature (K), with T_0 = 273.15 K',
+  'fn.geometry.length': 'Inner cell length (cm)',
+  'fn.neutronTransmission': 'Neutron Transmission',
+  'fn.characterization': 'Cell Characterization',
+  'fn.characterization.thickness': 'Gas thickness, fitted to the unpolarized spectrum',
+  'fn.characterization.pHe': 'He-3 polarization, fitted to the polarized spectrum with the fitted thickness',
+  'fn.figureOfMerit': 'Figure Of Merit',
+  'fn.correction': 'Polarization Analysis Correction',
+  'fn.correction.analyzingPower': 'Analyzing power tanh(ρdσP_He(t)) of the decaying analyzer cell',
+  'fn.correction.average': 'Average over the run from start to stop time',
+  'fn.correction.counts': 'Measured counts; errors are propagated from √N',
+  'fn.afp': 'AFP Flip Losses',
+  'fn.afp.loss': 'Fractional polarization loss per AFP flip',
+  'fn.afp.count': 'Number of flips since the start of the decay; each flip reverses the sign of Pn',
+  'fn.afp.rate': 'Flip rate (1/hour): 60/interval, or the number of listed flips per chart time span',
+  'fn.uncertainty': 'Uncertainty Bands',
+  'fn.uncertainty.f': 'He-3 polarization, Pn, Tn or FOM',
+  'fn.uncertainty.x': 'P0, τ and thickness (He-3 chart); P_He and thickness (neutron chart), treated as uncorrelated',
+  'fn.inverse': 'Inverse Solver',
+  'fn.inverse.opacity': 'Solved by bisection for the thickness or wavelength; FOM can have two solutions around the optimum',
+  'fn.inverse.required': 'Smallest He-3 polarization that meets the target (bisection for FOM)',
+  'fn.inverse.hold': 'Hours after polarization during which the target is still met',
+  'fn.window': 'Window Transmission',
+  'fn.window.absorption': 'Macroscopic absorption cross section of the window at 1.8 Å (1/cm)',
+  'fn.window.scattering': 'Macroscopic scattering cross section of the window (1/cm)',
+  'fn.window.thickness': 'Total window thickness (cm); T_w multiplies T_n and FOM',
+  'fn.crossSection': 'Cross Section Model',
+  'fn.crossSection.active': 'Active model: {model}',
+  'fn.crossSection.numberDensity': 'Number density {value} /cm³ per amg; ρd σ = n · thickness · σ(λ) · 10⁻²⁴',
+  'fn.crossSection.sigma0Reference': '{value} barn at the reference wavelength',
+  'fn.crossSection.lambda0': '{value} Å',
+  'fn.crossSection.sigma0Thermal': '{value} barn at v₀ = 2200 m/s',
+  'fn.crossSection.table': '{count} tabulated points; 1/v extrapolation outside the table',
+  'fn.crossSection.tableFormula': '\\text{linear interpolation in } \\ln E',  // KaTeX
+  'crossSection.linear': '1/v approximation (σ0 at λ0)',
+  'crossSection.exact': 'Exact 1/v law (σ0 at 2200 m/s)',
+  'crossSection.table': 'Tabulated σ(E), log-log interpolation',
+
+  // 書き出し
+  'export.csv': 'Export CSV',
+  'export.json': 'Export JSON',
+  'export.figure': 'Export Figure',
+
+  // セル窓
+  'window.title': 'Cell Windows',
+  'window.include': 'Include window attenuation',
+  'window.material': 'Material',
+  'window.custom': 'Custom',
+  'window.thickness': 'Total Thickness (cm)',
+  'window.loss': 'window loss @ {energy} meV: {loss} %',
+
+  // ガス厚さ
+  'gasThickness.label': 'He-3 Gas Thickness (amg cm)',
+  'gasThickness.direct': 'Direct',
+  'gasThickness.fromGeometry': 'From geometry',
+  'gasThickness.pressure': 'Fill Pressure (bar)',
+  'gasThickness.temperature': 'Fill Temperature (K)',
+  'gasThickness.length': 'Cell Inner Length (cm)',
+
+  // ポンピング
+  'pumping.title': 'Pump + Decay Cycle',
+  'pumping.include': 'Simulate polarization build-up before decay',
+  'pumping.pumpRate': 'Pump Rate γ (1/hour)',
+  'pumping.relaxationRate': 'Relaxation Rate Γ (1/hour)',
+  'pumping.saturation': 'Saturation P∞ (%)',
+  'pumping.startPolarization': 'Start Polarization (%)',
+  'pumping.duration': 'Pump Duration (hour)',
+  'pumping.spinUpTime': 'Spin-up time',
+  'pumping.endPolarization': 'P at end of pumping = {value} % (decays with the relaxation time above)',
+
+  // AFP
+  'afp.title': 'AFP Spin Flips',
+  'afp.include': 'Include polarization loss per flip',
+  'afp.schedule': 'Flip Schedule',
+  'afp.everyInterval': 'Every N minutes',
+  'afp.listOfTimes': 'List of times',
+  'afp.interval': 'Flip Interval (min)',
+  'afp.times': 'Flip Times (hour)',
+  'afp.timesPlaceholder': 'e.g. 1, 2.5, 6',
+  'afp.lossPerFlip': 'Loss per Flip (%)',
+  'afp.sign': 'Pn Sign',
+  'afp.showSign': 'Show sign reversals of neutron polarization',
+  'afp.effectiveT1': 'Effective T1 including flip losses = {value}',
+  'afp.averagedOver': ' (averaged over 0–{duration} hour)',
+  'afp.countedFromDecay': '. Flips are counted from the start of the decay.',
+
+  // T1 の内訳
+  'relaxation.title': 'Relaxation Time Budget',
+  'relaxation.wallTime': 'Wall Relaxation Time (hour)',
+  'relaxation.holdingField': 'Holding Field (G)',
+  'relaxation.gradient': 'Transverse Gradient (mG/cm)',
+  'relaxation.density': 'He-3 density: {value} amg',
+  'relaxation.contribution': 'Contribution',
+  'relaxation.t1': 'T1 (hour)',
+  'relaxation.share': 'Share of 1/T1',
+  'relaxation.dipolar': 'Dipolar',
+  'relaxation.wall': 'Wall',
+  'relaxation.fieldGradient': 'Field gradient',
+  'relaxation.total': 'Total',
+  'relaxation.useTotal': 'Use Total T1',
+
+  // 最適厚さ
+  'optimizer.title': 'Optimal Gas Thickness',
+  'optimizer.operatingPoint': 'Operating point',
+  'optimizer.optimalThickness': 'Optimal thickness',
+  'optimizer.maximumFom': 'Maximum FOM',
+  'optimizer.use': 'Use Optimal Thickness',
+  'optimizer.yAxis': 'Optimal Thickness (amg cm)',
+  'optimizer.series': 'Optimal Thickness',
+
+  // 入射スペクトル
+  'spectrum.title': 'Incident Spectrum',
+  'spectrum.type': 'Spectrum',
+  'spectrum.none': 'Monochromatic',
+  'spectrum.maxwellian': 'Maxwellian',
+  'spectrum.flat': 'Flat band',
+  'spectrum.table': 'Uploaded table',
+  'spectrum.temperature': 'Moderator Temperature (K)',
+  'spectrum.range': 'λ min – λ max (Å)',
+  'spectrum.tableFile': 'Table (λ [Å], intensity)',
+  'spectrum.noRows': 'No valid (λ, intensity) rows found',
+  'spectrum.points': '{count} points',
+  'spectrum.selectHint': 'Select a spectrum to compute spectrum-averaged values.',
+
+  // 2 セル
+  'twoCell.title': 'Polarizer + Analyzer',
+  'twoCell.polarizerCell': 'Polarizer Cell',
+  'twoCell.analyzerCell': 'Analyzer Cell',
+  'twoCell.flippingRatio': 'Flipping Ratio',
+  'twoCell.combinedFom': 'Combined FOM',
+  'twoCell.polarizerHe3': 'Polarizer He-3',
+  'twoCell.analyzerHe3': 'Analyzer He-3',
+
+  // 設計マップ
+  'designMap.color': 'Color',
+  'designMap.thicknessMin': 'Thickness Min (amg cm)',
+  'designMap.thicknessMax': 'Thickness Max (amg cm)',
+  'designMap.windowIncluded': ', window included',
+  'designMap.figureOfMerit': 'Figure of Merit (%)',
+  'designMap.neutronPolarization': 'Neutron Polarization (%)',
+  'designMap.neutronTransmission': 'Neutron Transmission (%)',
+  'designMap.ridge': 'Optimal thickness (max FOM)',
+  'designMap.currentCell': 'Current cell',
+  'designMap.hoverThickness': 'Thickness: {value} amg cm',
+
+  // セルローテーション
+  'rotation.title': 'Cell Rotation Planner',
+  'rotation.cells': 'Cells',
+  'rotation.name': 'Name',
+  'rotation.cellName': 'Cell {index}',
+  'rotation.thickness': 'Thickness (amg cm)',
+  'rotation.repolarization': 'Re-polarization (hour)',
+  'rotation.removeCell': 'Remove',
+  'rotation.addCell': '+ Add Cell',
+  'rotation.policy': 'Swap Policy',
+  'rotation.fixedInterval': 'Fixed interval',
+  'rotation.threshold': 'When Pn drops below',
+  'rotation.interval': 'Swap Interval (hour)',
+  'rotation.minimumPn': 'Minimum Pn (%)',
+  'rotation.beamtime': 'Beamtime (hour)',
+  'rotation.operatingPoint': 'Operating point:',
+  'rotation.averageFom': 'Time-averaged FOM:',
+  'rotation.swapCount': 'Swaps:',
+  'rotation.thresholdUnreachable': 'No cell reaches the minimum Pn even at P0, so cells are not swapped.',
+  'rotation.yAxis': 'Polarization / FOM (%)',
+  'rotation.timetable': 'Swap Timetable',
+  'rotation.noSwaps': 'No swaps during this beamtime.',
+  'rotation.time': 'Time (hour)',
+  'rotation.remove': 'Remove',
+  'rotation.install': 'Install',
+  'rotation.readyAgain': 'Removed cell ready again (hour)',
+
+  // 減衰のフィット
+  'decayFit.title': 'Fit Measured Decay',
+  'decayFit.quantity': 'Measured Quantity',
+  'decayFit.polarization': 'He-3 polarization (%)',
+  'decayFit.transmission': 'Neutron transmission (%)',
+  'decayFit.file': 'CSV (time, value, σ)',
+  'decayFit.notEnoughRows': 'At least 3 valid (time, value, uncertainty) rows are needed',
+  'decayFit.loaded': '{count} points loaded',
+  'decayFit.clear': 'Clear',
+  'decayFit.timeHint': 'Time is in hours, or a date/time (hours since the first row).',
+  'decayFit.transmissionHint': ' Transmission is fitted at the He-3 box energy, gas thickness and window settings.',
+  'decayFit.unweighted': 'Unweighted fit (some rows have no uncertainty)',
+  'decayFit.time': 'Time',
+  'decayFit.residual': 'Residual',
+  'decayFit.residualSigma': 'Residual (σ)',
+  'decayFit.residualPercent': 'Residual (%)',
+  'decayFit.use': 'Use Fitted P0 and T1',
+  'decayFit.loadHint': 'Load a measurement file to fit P0 and T1.',
+
+  // セル評価
+  'characterization.unit': 'Transmission Unit',
+  'characterization.fraction': 'Fraction (0–1)',
+  'characterization.unpolarizedFile': 'Unpolarized Cell (λ, T, σT)',
+  'characterization.polarizedFile': 'Polarized Cell (λ, T, σT)',
+  'characterization.noRows': 'No valid (λ, T, σT) rows found',
+  'characterization.windowHint': 'The cell window settings are included in both fits.',
+  'characterization.thicknessHint': ' Without unpolarized data, P_He is fitted with the current gas thickness.',
+  'characterization.unweighted': ' (unweighted)',
+  'characterization.gasThickness': 'Gas Thickness',
+  'characterization.useThickness': 'Use Thickness',
+  'characterization.usePolarization': 'Use Polarization',
+  'characterization.loadHint': 'Load transmission spectra to fit the cell.',
+
+  // データ補正
+  'correction.title': 'Polarization Analysis Correction',
+  'correction.initialPolarization': 'P0 at Reference (%)',
+  'correction.referenceTime': 'Reference Time',
+  'correction.incidentPolarization': 'Incident Polarization (%)',
+  'correction.timeHint': 'Times are hours or date/time (e.g. 2024-05-01 08:00), on the same clock for the reference and the runs.',
+  'correction.runs': 'Runs',
+  'correction.run': 'Run',
+  'correction.start': 'Start',
+  'correction.stop': 'Stop',
+  'correction.nsfCounts': 'NSF Counts',
+  'correction.sfCounts': 'SF Counts',
+  'correction.addRun': '+ Add Run',
+  'correction.importCsv': 'Import CSV (name, start, stop, NSF, SF)',
+  'correction.noRows': 'No valid (name, start, stop, NSF, SF) rows found',
+  'correction.results': 'Corrected Results',
+  'correction.uncorrectable': 'Runs marked — cannot be corrected: the analyzer efficiency is zero (unpolarized beam or cell).',
+  'correction.enterHint': 'Enter the cell parameters and at least one complete run.',
+  'correction.measuredRatio': 'R (measured)',
+  'correction.correctedRatio': 'R (corrected)',
+
+  // シナリオ
+  'scenario.title': 'Scenarios',
+  'scenario.current': 'Current',
+  'scenario.namePlaceholder': 'Scenario name',
+  'scenario.saveCurrent': 'Save Current',
+  'scenario.none': 'No saved scenarios.',
+  'scenario.load': 'Load',
+  'scenario.delete': 'Delete',
+  'scenario.he3Overlay': 'He-3 Chart Overlay',
+  'scenario.neutronOverlay': 'Neutron Chart Overlay',
+  'scenario.scenario': 'Scenario',
+  'scenario.thickness': 'Thickness (amg cm)',
+  'scenario.dropTime': 'Pn −10% after (hour)',
+
+  // 図の書き出し
+  'figure.close': 'Close',
+  'figure.width': 'Width (px)',
+  'figure.height': 'Height (px)',
+  'figure.fontSize': 'Font Size (px)',
+  'figure.lineWidth': 'Line Width (px)',
+  'figure.font': 'Font',
+  'figure.dpi': 'PNG Resolution',
+  'figure.screenDpi': '96 dpi (screen)',
+  'figure.xLabel': 'X Axis Label',
+  'figure.yLabel': 'Y Axis Label',
+  'figure.latexHint': 'Use $...$ for LaTeX, e.g. {example1} or {example2}.',
+  'figure.legend': 'Legend',
+  'figure.legendTop': 'Top',
+  'figure.legendBottom': 'Bottom',
+  'figure.legendRight': 'Right',
+  'figure.legendInside': 'Inside (top right)',
+  'figure.legendNone': 'None',
+  'figure.grid': 'Grid',
+  'figure.series': 'Series',
+  'figure.downloadSvg': 'Download SVG',
+  'figure.downloadPng': 'Download PNG',
+  'figure.pngFailed': '{message}. Try the SVG export instead.',
+
+  // 吸収断面積パネル
+  'crossSectionPanel.title': 'Cross Section & Constants',
+  'crossSectionPanel.model': 'Cross-Section Model',
+  'crossSectionPanel.sigma0': 'σ0 (barn)',
+  'crossSectionPanel.lambda0': 'Reference λ0 (Å)',
+  'crossSectionPanel.numberDensity': 'Number Density (/cm³ per amg)',
+  'crossSectionPanel.table': 'σ(E) Table (E, σ)',
+  'crossSectionPanel.energyUnit': 'E in {unit}',
+  'crossSectionPanel.noRows': 'No valid (E, σ) rows found',
+  'crossSectionPanel.tableSummary': '{count} points, {min}–{max} meV (1/v extrapolation outside)',
+  'crossSectionPanel.loadTable': 'Load a table of E and σ (barn).',
+  'crossSectionPanel.scope': 'Applies to every calculation on this page (the thickness is still given in amg cm).',
+  'crossSectionPanel.apply': 'Apply',
+  'crossSectionPanel.reset': 'Reset to Defaults',
+
+  // 誤差
+  'uncertainty.title': '1σ uncertainty (0 = none)',
+
+  // 逆算
+  'inverse.introBefore': 'Solve for one of P',
+  'inverse.introAfter': ', gas thickness and wavelength from a target value. Cell windows are not included.',
+  'inverse.target': 'Target',
+  'inverse.targetNeutronPolarization': 'Neutron Polarization Pn',
+  'inverse.targetNeutronTransmission': 'Neutron Transmission Tn',
+  'inverse.solveFor': 'Solve for',
+  'inverse.gasThickness': 'Gas Thickness',
+  'inverse.wavelength': 'Wavelength',
+  'inverse.enterHint': 'Enter a target between 0 and 100 % and the fixed values.',
+  'inverse.unreachable': 'Target not reachable: at most {value} % by varying {unknown}.',
+  'inverse.metFor': 'Met for (P0 = {p0} %, T1 = {t1} h)',
+  'inverse.neverMet': 'Not met even right after polarization',
+  'inverse.alwaysMet': 'Always met (even unpolarized)',
+  'inverse.use': 'Use'
+};
+
+export type MessageKey = keyof typeof en;
@@ -0,0 +1,98 @@
+"use client";
+
+import { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+import type { ReactNode } from 'react';
+import { readPermalinkLanguage, writePermalink } from '../permalink';
+import type { Language } from '../permalink';
+import { en } from './en';
+import type { MessageKey } from './en';
+import { ja } from './ja';
+
+// 表示言語の切り替え（英語・日本語のメッセージカタログと数値の書式）
+//   言語は URL（#lang=...）→ localStorage → ブラウザの言語の順で決め、変更時は両方に保存する
+
+export type { Language, MessageKey };
+
+const CATALOGS: Record<Language, Record<MessageKey, string>> = { en, ja };
+const LOCALES: Record<Language, string> = { en: 'en-US', ja: 'ja-JP' };
+const STORAGE_KEY = 'he3polarization.language';
+const numberFormats = new Map<string, Intl.NumberFormat>();  // 言語・桁数ごとに使い回す書式
+
+// 差し込み値つきのメッセージを返す関数（"{name}" を values.name で置き換える）
+export type Translate = (key: MessageKey, values?: Record<string, string | number>) => string;
+
+interface I18nContextValue {
+  language: Language;
+  setLanguage: (language: Language) => void;
+  t: Translate;
+  formatNumber: (value: number, fractionDigits?: number) => string;  // 小数桁を固定した数値
+}
+
+// メッセージを引く（差し込み値は {name} の形）
+function translate(language: Language, key: MessageKey, values?: Record<string, string | number>): string {
+  const message = CATALOGS[language][key] ?? en[key];
+  if (!values) return message;
+  return message.replace(/\{(\w+)\}/g, (match, name: string) => name in values ? String(values[name]) : match);
+}
+
+// 保存された言語（URL を優先）。どちらもなければブラウザの言語
+function initialLanguage(): Language {
+  const fromUrl = readPermalinkLanguage();
+  if (fromUrl) return fromUrl;
+  const stored = window.localStorage.getItem(STORAGE_KEY);
+  if (stored === 'en' || stored === 'ja') return stored;
+  return window.navigator.language.toLowerCase().startsWith('ja') ? 'ja' : 'en';
+}
+
+const I18nContext = createContext<I18nContextValue>({
+  language: 'en',
+  setLanguage: () => {},
+  t: (key, values) => translate('en', key, values),
+  formatNumber: (value, fractionDigits = 1) => value.toFixed(fractionDigits)
+});
+
+export function LanguageProvider({ children }: { children: ReactNode }) {
+  const [language, setLanguageState] = useState<Language>('en');
+  const [isLoaded, setIsLoaded] = useState(false);  // 保存された言語を読み込んだか
+
+  useEffect(() => {                                  // URL・localStorage から復元（同じページでリンクを開き直した場合も）
+    const loadLanguage = () => setLanguageState(initialLanguage());
+    loadLanguage();
+    setIsLoaded(true);
+    window.addEventListener('hashchange', loadLanguage);
+    return () => window.removeEventListener('hashchange', loadLanguage);
+  }, []);
+
+  useEffect(() => {                                  // 変更を URL・localStorage・<html lang> に反映（復元前は書かない）
+    if (!isLoaded) return;
+    writePermalink({ lang: language });
+    window.localStorage.setItem(STORAGE_KEY, language);
+    document.documentElement.lang = language;
+  }, [isLoaded, language]);
+
+  const t = useCallback<Translate>((key, values) => translate(language, key, values), [language]);
+  const formatNumber = useCallback((value: number, fractionDigits: number = 1) => {
+    if (!Number.isFinite(value)) return value.toFixed(fractionDigits);
+    const formatKey = `${language}:${fractionDigits}`;
+    let format = numberFormats.get(formatKey);
+    if (!format) {
+      format = new Intl.NumberFormat(LOCALES[language], {
+        minimumFractionDigits: fractionDigits,
+        maximumFractionDigits: fractionDigits
+      });
+      numberFormats.set(formatKey, format);
+    }
+    return format.format(value);
+  }, [language]);
+
+  const value = useMemo(
+    () => ({ language, setLanguage: setLanguageState, t, formatNumber }),
+    [language, t, formatNumber]
+  );
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+}
+
+// 現在の言語・メッセージ・数値の書式
+export function useI18n(): I18nContextValue {
+  return useContext(I18nContext);
+}
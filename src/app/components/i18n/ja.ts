@@ -0,0 +1,422 @@
+import type { MessageKey } from './en';
+
+// 日本語のメッセージカタログ（en.ts と同じキーをすべて持つ）
+export const ja: Record<MessageKey, string> = {
+  // ヘッダー・タブ
+  'app.title': 'He-3 偏極度計算機',
+  'app.version': 'バージョン {version}',
+  'app.language': '言語',
+  'tab.visualization': '可視化',
+  'tab.functions': '計算式',
+  'link.copy': 'リンクをコピー',
+  'link.copied': 'コピーしました',
+
+  // 共通
+  'common.parameters': 'パラメータ',
+  'common.graphRange': 'グラフの表示範囲',
+  'common.setParameters': 'パラメータを確定',
+  'common.hours': '{value} 時間',
+  'common.gasThickness': 'ガス厚さ（amg cm）',
+  'range.xMinHour': 'X 最小（時間）',
+  'range.xMaxHour': 'X 最大（時間）',
+  'range.xMin': 'X 最小（{unit}）',
+  'range.xMax': 'X 最大（{unit}）',
+  'range.yMin': 'Y 最小（%）',
+  'range.yMax': 'Y 最大（%）',
+  'sampling.resolution': '分割数（点数）',
+  'sampling.computing': '計算中…',
+  'sampling.method': 'サンプリング',
+  'sampling.uniform': '等間隔',
+  'sampling.adaptive': '適応（急な所を密に）',
+
+  // He-3 ボックス
+  'he3.title': 'He-3 偏極度',
+  'he3.initialPolarization': '初期偏極度（%）',
+  'he3.relaxationTime': '緩和時間（時間）',
+  'he3.energyOrWavelength': 'エネルギー・波長',
+  'he3.relaxationBudget': 'T1 の内訳',
+  'he3.relaxationBudgetHint': 'セルの物性から T1 を見積もる',
+  'he3.rotationPlanner': 'セルローテーション',
+  'he3.rotationPlannerHint': 'ビームタイム中の複数セルの交換を計画',
+  'he3.measuredData': '測定データ',
+  'he3.measuredDataHint': '測定値から P0 と T1 をフィット',
+  'he3.dataCorrection': 'データ補正',
+  'he3.dataCorrectionHint': 'アナライザーの減衰で SF/NSF 測定を補正',
+
+  // Neutron ボックス
+  'neutron.title': '中性子偏極度',
+  'neutron.he3Polarization': 'He-3 偏極度（%）',
+  'neutron.xAxisUnit': 'X 軸の単位',
+  'neutron.sourceToCell': '線源–セル間距離（m）',
+  'neutron.sourceToDetector': '線源–検出器間距離（m）',
+  'neutron.xAxisScale': 'X 軸の目盛',
+  'neutron.linear': '線形',
+  'neutron.log': '対数',
+  'neutron.optimizer': '最適化モード',
+  'neutron.optimizerHint': '最適な厚さを表示',
+  'neutron.inverseSolver': '逆算',
+  'neutron.inverseSolverHint': '目標値から P_He・厚さ・λ を求める',
+  'neutron.designMap': '設計マップ',
+  'neutron.designMapHint': '厚さごとの FOM マップを表示',
+  'neutron.crossSection': '吸収断面積',
+  'neutron.crossSectionHint': 'モデルと定数を編集',
+  'neutron.twoCell': '2 セルモード',
+  'neutron.twoCellHint': 'ポラライザー＋アナライザーを表示',
+  'neutron.characterization': 'セル評価',
+  'neutron.characterizationHint': 'スペクトルから厚さと P_He をフィット',
+
+  // グラフ
+  'axis.wavelength': '波長（Å）',
+  'axis.energy': 'エネルギー（meV）',
+  'axis.tof': 'TOF（{unit}）',
+  'axis.wavelengthName': '波長',
+  'axis.energyName': 'エネルギー',
+  'axis.tofName': 'TOF',
+  'chart.time': '時間（h）',
+  'chart.timeTooltip': '時間: {time} h',
+  'chart.polarization': '偏極度（%）',
+  'chart.neutronYAxis': '偏極度 /\n透過率 /\n性能指数',
+  'chart.neutronFigureYLabel': '偏極度 / 透過率 / FOM（%）',
+  'chart.logPrefix': 'log ',
+  'chart.atCell': '（セル位置: {value} {unit}）',
+  'chart.endOfPumping': 'ポンピング終了',
+  'series.he3Polarization': 'He-3 偏極度',
+  'series.neutronPolarization': '中性子偏極度',
+  'series.neutronTransmission': '中性子透過率',
+  'series.figureOfMerit': '性能指数',
+  'series.windowTransmission': '窓の透過率',
+  'series.incidentSpectrum': '入射スペクトル（規格化）',
+  'series.transmittedSpectrum': '透過スペクトル',
+  'series.fitTransmission': 'フィット（透過率）',
+  'series.fitHe3Polarization': 'フィット（He-3 偏極度）',
+  'series.measuredTransmission': '測定透過率',
+  'series.measuredHe3Polarization': '測定 He-3 偏極度',
+  'series.fitUnpolarized': 'フィット（非偏極）',
+  'series.fitPolarized': 'フィット（偏極）',
+  'series.measuredUnpolarized': '測定（非偏極）',
+  'series.measuredPolarized': '測定（偏極）',
+
+  // Functions タブ
+  'fn.title': '計算式の一覧',
+  'fn.formula': '式',
+  'fn.parameters': 'パラメータ',
+  'fn.he3Decay': 'He-3 偏極度',
+  'fn.he3Decay.p0': 'He-3 の初期偏極度',
+  'fn.he3Decay.tau': '緩和時定数',
+  'fn.decayFit': '減衰のフィット',
+  'fn.decayFit.f': 'He-3 偏極度 P_He(t)、または代表エネルギーでの中性子透過率 T(λ, P_He(t))',
+  'fn.decayFit.sigma': '測定誤差（省略時は等しい重み）',
+  'fn.decayFit.params': 'Levenberg–Marquardt 法で最小化。誤差は共分散行列から求める',
+  'fn.buildUp': '偏極度のビルドアップ',
+  'fn.buildUp.gamma': 'ポンプレート（SEOP ではスピン交換レート、MEOP では実効的な充填レート）',
+  'fn.buildUp.relaxation': 'ポンピング中の緩和レート',
+  'fn.buildUp.saturation': '飽和偏極度。ポンピング時間の後は τ で緩和する',
+  'fn.relaxationBudget': '緩和時間の内訳',
+  'fn.relaxationBudget.density': '封入圧力と温度から求めた He-3 の密度（amg）',
+  'fn.relaxationBudget.wall': '壁緩和時間（h）',
+  'fn.relaxationBudget.diffusion': 'He-3 の自己拡散係数。1 amg で 1.9 cm²/s、1/[He] に比例',
+  'fn.relaxationBudget.gradient': '保持磁場に対する横方向の磁場勾配（1/cm）',
+  'fn.neutronPolarization': '中性子偏極度',
+  'fn.neutronPolarization.thickness': 'He-3 ガス厚さ（atm cm）。ρ は数密度、d はガスの長さ',
+  'fn.neutronPolarization.sigma': '中性子の吸収断面積（barn）',
+  'fn.neutronPolarization.pHe': 'He-3 偏極度',
+  'fn.geometry': 'セル形状からのガス厚さ',
+  'fn.geometry.pressure': '封入圧力（bar）。p_0 = 1.01325 bar',
+  'fn.geometry.temperature': '封入温度（K）。T_0 = 273.15 K',
+  'fn.geometry.length': 'セルの内側の長さ（cm）',
+  'fn.neutronTransmission': '中性子透過率',
+  'fn.characterization': 'セル評価',
+  'fn.characterization.thickness': 'ガス厚さ。非偏極スペクトルにフィット',
+  'fn.characterization.pHe': 'He-3 偏極度。フィットした厚さで偏極スペクトルにフィット',
+  'fn.figureOfMerit': '性能指数',
+  'fn.correction': '偏極解析データの補正',
+  'fn.correction.analyzingPower': '減衰していくアナライザーセルの解析能 tanh(ρdσP_He(t))',
+  'fn.correction.average': '測定の開始から終了までの平均',
+  'fn.correction.counts': '測定カウント。誤差は √N から伝播',
+  'fn.afp': 'AFP 反転の損失',
+  'fn.afp.loss': 'AFP 反転 1 回あたりの偏極度の損失の割合',
+  'fn.afp.count': '減衰開始からの反転回数。反転ごとに Pn の符号が反転する',
+  'fn.afp.rate': '反転レート（1/h）。60/間隔、または一覧の反転回数をグラフの時間幅で割った値',
+  'fn.uncertainty': '誤差帯',
+  'fn.uncertainty.f': 'He-3 偏極度、Pn、Tn、FOM',
+  'fn.uncertainty.x': 'P0、τ、厚さ（He-3 グラフ）、P_He と厚さ（中性子グラフ）。互いに無相関とする',
+  'fn.inverse': '逆算',
+  'fn.inverse.opacity': '厚さ・波長は二分法で解く。FOM は最適値の両側に 2 解ありうる',
+  'fn.inverse.required': '目標を満たす最小の He-3 偏極度（FOM は二分法）',
+  'fn.inverse.hold': '偏極後、目標を満たし続ける時間',
+  'fn.window': '窓の透過率',
+  'fn.window.absorption': '1.8 Å での窓の巨視的吸収断面積（1/cm）',
+  'fn.window.scattering': '窓の巨視的散乱断面積（1/cm）',
+  'fn.window.thickness': '窓の合計厚さ（cm）。T_w を T_n と FOM に掛ける',
+  'fn.crossSection': '吸収断面積モデル',
+  'fn.crossSection.active': '使用中のモデル: {model}',
+  'fn.crossSection.numberDensity': '1 amg あたりの数密度 {value} /cm³。ρd σ = n · 厚さ · σ(λ) · 10⁻²⁴',
+  'fn.crossSection.sigma0Reference': '基準波長での値 {value} barn',
+  'fn.crossSection.lambda0': '{value} Å',
+  'fn.crossSection.sigma0Thermal': 'v₀ = 2200 m/s での値 {value} barn',
+  'fn.crossSection.table': 'テーブルの点数 {count}。範囲外は 1/v で外挿',
+  'fn.crossSection.tableFormula': '\\ln E \\text{ について線形補間}',  // KaTeX
+  'crossSection.linear': '1/v 近似（λ0 での σ0）',
+  'crossSection.exact': '厳密な 1/v 則（2200 m/s での σ0）',
+  'crossSection.table': 'σ(E) テーブル（両対数補間）',
+
+  // 書き出し
+  'export.csv': 'CSV を書き出す',
+  'export.json': 'JSON を書き出す',
+  'export.figure': '図を書き出す',
+
+  // セル窓
+  'window.title': 'セルの窓',
+  'window.include': '窓の減衰を含める',
+  'window.material': '材質',
+  'window.custom': 'カスタム',
+  'window.thickness': '合計厚さ（cm）',
+  'window.loss': '{energy} meV での窓の損失: {loss} %',
+
+  // ガス厚さ
+  'gasThickness.label': 'He-3 ガス厚さ（amg cm）',
+  'gasThickness.direct': '直接入力',
+  'gasThickness.fromGeometry': 'セル形状から',
+  'gasThickness.pressure': '封入圧力（bar）',
+  'gasThickness.temperature': '封入温度（K）',
+  'gasThickness.length': 'セルの内側の長さ（cm）',
+
+  // ポンピング
+  'pumping.title': 'ポンピング＋緩和',
+  'pumping.include': '緩和の前の偏極度のビルドアップを計算',
+  'pumping.pumpRate': 'ポンプレート γ（1/時間）',
+  'pumping.relaxationRate': '緩和レート Γ（1/時間）',
+  'pumping.saturation': '飽和偏極度 P∞（%）',
+  'pumping.startPolarization': '開始時の偏極度（%）',
+  'pumping.duration': 'ポンピング時間（時間）',
+  'pumping.spinUpTime': 'スピンアップ時間',
+  'pumping.endPolarization': 'ポンピング終了時の P = {value} %（その後は上の緩和時間で緩和）',
+
+  // AFP
+  'afp.title': 'AFP スピン反転',
+  'afp.include': '反転ごとの偏極度の損失を含める',
+  'afp.schedule': '反転の予定',
+  'afp.everyInterval': 'N 分ごと',
+  'afp.listOfTimes': '時刻の一覧',
+  'afp.interval': '反転の間隔（分）',
+  'afp.times': '反転時刻（時間）',
+  'afp.timesPlaceholder': '例: 1, 2.5, 6',
+  'afp.lossPerFlip': '1 回あたりの損失（%）',
+  'afp.sign': 'Pn の符号',
+  'afp.showSign': '中性子偏極度の符号の反転を表示',
+  'afp.effectiveT1': '反転の損失を含む実効 T1 = {value}',
+  'afp.averagedOver': '（0–{duration} 時間の平均）',
+  'afp.countedFromDecay': '。反転は緩和の開始から数える。',
+
+  // T1 の内訳
+  'relaxation.title': '緩和時間の内訳',
+  'relaxation.wallTime': '壁緩和時間（時間）',
+  'relaxation.holdingField': '保持磁場（G）',
+  'relaxation.gradient': '横方向の磁場勾配（mG/cm）',
+  'relaxation.density': 'He-3 の密度: {value} amg',
+  'relaxation.contribution': '寄与',
+  'relaxation.t1': 'T1（時間）',
+  'relaxation.share': '1/T1 に占める割合',
+  'relaxation.dipolar': '双極子',
+  'relaxation.wall': '壁',
+  'relaxation.fieldGradient': '磁場勾配',
+  'relaxation.total': '合計',
+  'relaxation.useTotal': '合計 T1 を使う',
+
+  // 最適厚さ
+  'optimizer.title': '最適なガス厚さ',
+  'optimizer.operatingPoint': '動作点',
+  'optimizer.optimalThickness': '最適な厚さ',
+  'optimizer.maximumFom': '最大 FOM',
+  'optimizer.use': '最適な厚さを使う',
+  'optimizer.yAxis': '最適な厚さ（amg cm）',
+  'optimizer.series': '最適な厚さ',
+
+  // 入射スペクトル
+  'spectrum.title': '入射スペクトル',
+  'spectrum.type': 'スペクトル',
+  'spectrum.none': '単色',
+  'spectrum.maxwellian': 'マクスウェル分布',
+  'spectrum.flat': '一様な帯域',
+  'spectrum.table': '読み込んだテーブル',
+  'spectrum.temperature': '減速材の温度（K）',
+  'spectrum.range': 'λ 最小 – λ 最大（Å）',
+  'spectrum.tableFile': 'テーブル（λ [Å], 強度）',
+  'spectrum.noRows': '読める（λ, 強度）の行がありません',
+  'spectrum.points': '{count} 点',
+  'spectrum.selectHint': 'スペクトルを選ぶとスペクトル平均の値を計算します。',
+
+  // 2 セル
+  'twoCell.title': 'ポラライザー＋アナライザー',
+  'twoCell.polarizerCell': 'ポラライザーのセル',
+  'twoCell.analyzerCell': 'アナライザーのセル',
+  'twoCell.flippingRatio': 'フリッピング比',
+  'twoCell.combinedFom': '2 セルの FOM',
+  'twoCell.polarizerHe3': 'ポラライザーの He-3',
+  'twoCell.analyzerHe3': 'アナライザーの He-3',
+
+  // 設計マップ
+  'designMap.color': '色',
+  'designMap.thicknessMin': '厚さの最小（amg cm）',
+  'designMap.thicknessMax': '厚さの最大（amg cm）',
+  'designMap.windowIncluded': '、窓を含む',
+  'designMap.figureOfMerit': '性能指数（%）',
+  'designMap.neutronPolarization': '中性子偏極度（%）',
+  'designMap.neutronTransmission': '中性子透過率（%）',
+  'designMap.ridge': '最適な厚さ（FOM 最大）',
+  'designMap.currentCell': '現在のセル',
+  'designMap.hoverThickness': '厚さ: {value} amg cm',
+
+  // セルローテーション
+  'rotation.title': 'セルローテーションの計画',
+  'rotation.cells': 'セル',
+  'rotation.name': '名前',
+  'rotation.cellName': 'セル {index}',
+  'rotation.thickness': '厚さ（amg cm）',
+  'rotation.repolarization': '再偏極（時間）',
+  'rotation.removeCell': '削除',
+  'rotation.addCell': '+ セルを追加',
+  'rotation.policy': '交換の方針',
+  'rotation.fixedInterval': '一定の間隔',
+  'rotation.threshold': 'Pn が下回ったとき',
+  'rotation.interval': '交換の間隔（時間）',
+  'rotation.minimumPn': 'Pn の下限（%）',
+  'rotation.beamtime': 'ビームタイム（時間）',
+  'rotation.operatingPoint': '動作点:',
+  'rotation.averageFom': '時間平均の FOM:',
+  'rotation.swapCount': '交換の回数:',
+  'rotation.thresholdUnreachable': 'どのセルも P0 で Pn の下限に届かないため、交換しません。',
+  'rotation.yAxis': '偏極度 / FOM（%）',
+  'rotation.timetable': '交換の時刻表',
+  'rotation.noSwaps': 'このビームタイム中の交換はありません。',
+  'rotation.time': '時刻（時間）',
+  'rotation.remove': '外すセル',
+  'rotation.install': '入れるセル',
+  'rotation.readyAgain': '外したセルの再使用可能時刻（時間）',
+
+  // 減衰のフィット
+  'decayFit.title': '測定した減衰のフィット',
+  'decayFit.quantity': '測定した量',
+  'decayFit.polarization': 'He-3 偏極度（%）',
+  'decayFit.transmission': '中性子透過率（%）',
+  'decayFit.file': 'CSV（時刻, 値, σ）',
+  'decayFit.notEnoughRows': '読める（時刻, 値, 誤差）の行が 3 行以上必要です',
+  'decayFit.loaded': '{count} 点を読み込みました',
+  'decayFit.clear': '消去',
+  'decayFit.timeHint': '時刻は時間単位、または日時（最初の行からの時間）。',
+  'decayFit.transmissionHint': '透過率は He-3 ボックスのエネルギー・ガス厚さ・窓の設定でフィットします。',
+  'decayFit.unweighted': '重みなしのフィット（誤差のない行があります）',
+  'decayFit.time': '時刻',
+  'decayFit.residual': '残差',
+  'decayFit.residualSigma': '残差（σ）',
+  'decayFit.residualPercent': '残差（%）',
+  'decayFit.use': 'フィットした P0 と T1 を使う',
+  'decayFit.loadHint': '測定ファイルを読み込むと P0 と T1 をフィットします。',
+
+  // セル評価
+  'characterization.unit': '透過率の単位',
+  'characterization.fraction': '割合（0–1）',
+  'characterization.unpolarizedFile': '非偏極のセル（λ, T, σT）',
+  'characterization.polarizedFile': '偏極したセル（λ, T, σT）',
+  'characterization.noRows': '読める（λ, T, σT）の行がありません',
+  'characterization.windowHint': 'どちらのフィットにもセルの窓の設定を含めます。',
+  'characterization.thicknessHint': '非偏極のデータがなければ、現在のガス厚さで P_He をフィットします。',
+  'characterization.unweighted': '（重みなし）',
+  'characterization.gasThickness': 'ガス厚さ',
+  'characterization.useThickness': '厚さを使う',
+  'characterization.usePolarization': '偏極度を使う',
+  'characterization.loadHint': '透過率スペクトルを読み込むとセルをフィットします。',
+
+  // データ補正
+  'correction.title': '偏極解析データの補正',
+  'correction.initialPolarization': '基準時刻の P0（%）',
+  'correction.referenceTime': '基準時刻',
+  'correction.incidentPolarization': '入射ビームの偏極度（%）',
+  'correction.timeHint': '時刻は時間単位または日時（例: 2024-05-01 08:00）。基準時刻とランで同じ時計を使ってください。',
+  'correction.runs': 'ラン',
+  'correction.run': 'ラン',
+  'correction.start': '開始',
+  'correction.stop': '終了',
+  'correction.nsfCounts': 'NSF カウント',
+  'correction.sfCounts': 'SF カウント',
+  'correction.addRun': '+ ランを追加',
+  'correction.importCsv': 'CSV を読み込む（名前, 開始, 終了, NSF, SF）',
+  'correction.noRows': '読める（名前, 開始, 終了, NSF, SF）の行がありません',
+  'correction.results': '補正の結果',
+  'correction.uncorrectable': '— のランは補正できません。アナライザーの効率が 0 です（非偏極のビームまたはセル）。',
+  'correction.enterHint': 'セルのパラメータと、すべて入力したランを 1 つ以上入れてください。',
+  'correction.measuredRatio': 'R（測定）',
+  'correction.correctedRatio': 'R（補正後）',
+
+  // シナリオ
+  'scenario.title': 'シナリオ',
+  'scenario.current': '現在',
+  'scenario.namePlaceholder': 'シナリオ名',
+  'scenario.saveCurrent': '現在の値を保存',
+  'scenario.none': '保存したシナリオはありません。',
+  'scenario.load': '読み込む',
+  'scenario.delete': '削除',
+  'scenario.he3Overlay': 'He-3 グラフに重ねる量',
+  'scenario.neutronOverlay': '中性子グラフに重ねる量',
+  'scenario.scenario': 'シナリオ',
+  'scenario.thickness': '厚さ（amg cm）',
+  'scenario.dropTime': 'Pn が 10% 下がるまで（時間）',
+
+  // 図の書き出し
+  'figure.close': '閉じる',
+  'figure.width': '幅（px）',
+  'figure.height': '高さ（px）',
+  'figure.fontSize': '文字の大きさ（px）',
+  'figure.lineWidth': '線の太さ（px）',
+  'figure.font': 'フォント',
+  'figure.dpi': 'PNG の解像度',
+  'figure.screenDpi': '96 dpi（画面）',
+  'figure.xLabel': 'X 軸のラベル',
+  'figure.yLabel': 'Y 軸のラベル',
+  'figure.latexHint': 'LaTeX は $...$ で囲む。例: {example1}、{example2}',
+  'figure.legend': '凡例',
+  'figure.legendTop': '上',
+  'figure.legendBottom': '下',
+  'figure.legendRight': '右',
+  'figure.legendInside': '内側（右上）',
+  'figure.legendNone': 'なし',
+  'figure.grid': 'グリッド',
+  'figure.series': '系列',
+  'figure.downloadSvg': 'SVG をダウンロード',
+  'figure.downloadPng': 'PNG をダウンロード',
+  'figure.pngFailed': '{message}。SVG で書き出してください。',
+
+  // 吸収断面積パネル
+  'crossSectionPanel.title': '吸収断面積と定数',
+  'crossSectionPanel.model': '吸収断面積のモデル',
+  'crossSectionPanel.sigma0': 'σ0（barn）',
+  'crossSectionPanel.lambda0': '基準波長 λ0（Å）',
+  'crossSectionPanel.numberDensity': '数密度（1 amg あたり /cm³）',
+  'crossSectionPanel.table': 'σ(E) テーブル（E, σ）',
+  'crossSectionPanel.energyUnit': 'E の単位 {unit}',
+  'crossSectionPanel.noRows': '読める（E, σ）の行がありません',
+  'crossSectionPanel.tableSummary': '{count} 点、{min}–{max} meV（範囲外は 1/v で外挿）',
+  'crossSectionPanel.loadTable': 'E と σ（barn）のテーブルを読み込んでください。',
+  'crossSectionPanel.scope': 'このページのすべての計算に使います（厚さは amg cm のまま）。',
+  'crossSectionPanel.apply': '適用',
+  'crossSectionPanel.reset': '既定値に戻す',
+
+  // 誤差
+  'uncertainty.title': '1σ 誤差（0 は誤差なし）',
+
+  // 逆算
+  'inverse.introBefore': '目標値から P',
+  'inverse.introAfter': '・ガス厚さ・波長のうち 1 つを求めます。セルの窓は含みません。',
+  'inverse.target': '目標',
+  'inverse.targetNeutronPolarization': '中性子偏極度 Pn',
+  'inverse.targetNeutronTransmission': '中性子透過率 Tn',
+  'inverse.solveFor': '求める量',
+  'inverse.gasThickness': 'ガス厚さ',
+  'inverse.wavelength': '波長',
+  'inverse.enterHint': '0–100 % の目標値と、固定する値を入力してください。',
+  'inverse.unreachable': '目標に届きません。{unknown}を変えても最大 {value} % です。',
+  'inverse.metFor': '目標を満たす時間（P0 = {p0} %、T1 = {t1} h）',
+  'inverse.neverMet': '偏極直後でも満たさない',
+  'inverse.alwaysMet': '常に満たす（無偏極でも）',
+  'inverse.use': '使う'
+};
@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest';
+import { normalizeParams } from './permalink';
+import { DEFAULT_PARAMS } from './defaults';
+
+describe('normalizeParams（数値の範囲）', () => {
+  it('範囲内の値はそのまま使う', () => {
+    const params = normalizeParams({
+      ...DEFAULT_PARAMS,
+      initialPolarization: 100,
+      relaxationTimeConstant: 0.5,
+      neutronParams: { ...DEFAULT_PARAMS.neutronParams, gasThickness: 0, he3Polarization: 0 }
+    });
+    expect(params.initialPolarization).toBe(100);
+    expect(params.relaxationTimeConstant).toBe(0.5);
+    expect(params.neutronParams.gasThickness).toBe(0);
+    expect(params.neutronParams.he3Polarization).toBe(0);
+  });
+
+  it('0 の T1・負の厚さ・100 % を超える偏極度は既定値に戻す', () => {
+    const params = normalizeParams({
+      ...DEFAULT_PARAMS,
+      initialPolarization: 120,
+      relaxationTimeConstant: 0,
+      neutronParams: { ...DEFAULT_PARAMS.neutronParams, gasThickness: -5, he3Polarization: 500 }
+    });
+    expect(params.initialPolarization).toBe(DEFAULT_PARAMS.initialPolarization);
+    expect(params.relaxationTimeConstant).toBe(DEFAULT_PARAMS.relaxationTimeConstant);
+    expect(params.neutronParams.gasThickness).toBe(DEFAULT_PARAMS.neutronParams.gasThickness);
+    expect(params.neutronParams.he3Polarization).toBe(DEFAULT_PARAMS.neutronParams.he3Polarization);
+  });
+
+  it('0 以下の距離・定数は既定値に戻す', () => {
+    const params = normalizeParams({
+      ...DEFAULT_PARAMS,
+      tofParams: { ...DEFAULT_PARAMS.tofParams, sourceToCell: -1, sourceToDetector: 0 },
+      crossSection: { ...DEFAULT_PARAMS.crossSection, sigma0: 0, numberDensity: -1 }
+    });
+    expect(params.tofParams).toEqual(DEFAULT_PARAMS.tofParams);
+    expect(params.crossSection.sigma0).toBe(DEFAULT_PARAMS.crossSection.sigma0);
+    expect(params.crossSection.numberDensity).toBe(DEFAULT_PARAMS.crossSection.numberDensity);
+  });
+
+  it('範囲外の値だけを戻し、他の値は残す', () => {
+    const params = normalizeParams({
+      ...DEFAULT_PARAMS,
+      relaxationTimeConstant: -10,
+      neutronParams: { ...DEFAULT_PARAMS.neutronParams, gasThickness: 12 }
+    });
+    expect(params.relaxationTimeConstant).toBe(DEFAULT_PARAMS.relaxationTimeConstant);
+    expect(params.neutronParams.gasThickness).toBe(12);
+  });
+});
+
+describe('normalizeParams（AFP の損失）', () => {
+  const withLoss = (lossPerFlip: number) => normalizeParams({
+    ...DEFAULT_PARAMS,
+    afpParams: { ...DEFAULT_PARAMS.afpParams, lossPerFlip }
+  }).afpParams.lossPerFlip;
+
+  it('0 以上 100 % 未満はそのまま使う', () => {
+    expect(withLoss(0)).toBe(0);
+    expect(withLoss(2.5)).toBe(2.5);
+  });
+
+  it('100 % 以上や負の損失は既定値に戻す', () => {
+    expect(withLoss(100)).toBe(DEFAULT_PARAMS.afpParams.lossPerFlip);
+    expect(withLoss(-1)).toBe(DEFAULT_PARAMS.afpParams.lossPerFlip);
+  });
+});
+
+describe('normalizeParams（断面積テーブル）', () => {
+  const withTable = (tableEnergies: unknown, tableCrossSections: unknown) => normalizeParams({
+    ...DEFAULT_PARAMS,
+    crossSection: { ...DEFAULT_PARAMS.crossSection, model: 'table', tableEnergies, tableCrossSections }
+  });
+
+  it('E と σ が同じ長さで正ならそのまま使う', () => {
+    const { crossSection } = withTable([1, 25.3, 1000], [30000, 5333, 850]);
+    expect(crossSection.model).toBe('table');
+    expect(crossSection.tableEnergies).toEqual([1, 25.3, 1000]);
+    expect(crossSection.tableCrossSections).toEqual([30000, 5333, 850]);
+  });
+
+  it('長さが違うテーブルは既定値に戻す', () => {
+    const { crossSection } = withTable([1, 25.3, 1000], [30000, 5333]);
+    expect(crossSection.model).toBe(DEFAULT_PARAMS.crossSection.model);
+    expect(crossSection.tableEnergies).toEqual(DEFAULT_PARAMS.crossSection.tableEnergies);
+    expect(crossSection.tableCrossSections).toEqual(DEFAULT_PARAMS.crossSection.tableCrossSections);
+  });
+
+  it('1 点だけや同じ E が続くテーブルは読み込み時と同じく使わない', () => {
+    expect(withTable([25.3], [5333]).crossSection.model).toBe(DEFAULT_PARAMS.crossSection.model);
+    expect(withTable([1, 1, 1000], [30000, 30000, 850]).crossSection.tableEnergies).toEqual([]);
+  });
+
+  it('正でない値や昇順でない E も既定値に戻す', () => {
+    expect(withTable([1, 25.3], [30000, -1]).crossSection.tableEnergies).toEqual([]);
+    expect(withTable([0, 25.3], [30000, 5333]).crossSection.tableEnergies).toEqual([]);
+    expect(withTable([25.3, 1], [5333, 30000]).crossSection.tableEnergies).toEqual([]);
+  });
+
+  it('他の断面積の設定は残す', () => {
+    const params = normalizeParams({
+      ...DEFAULT_PARAMS,
+      crossSection: { ...DEFAULT_PARAMS.crossSection, model: 'exact', sigma0: 5316, tableEnergies: [1], tableCrossSections: [] }
+    });
+    expect(params.crossSection.model).toBe('exact');
+    expect(params.crossSection.sigma0).toBe(5316);
+    expect(params.crossSection.tableEnergies).toEqual([]);
+  });
+});
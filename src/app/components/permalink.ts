@@ -0,0 +1,159 @@
+import { isValidCrossSectionTable, isValidLossPerFlip } from '@/lib/he3';
+import type { AxisRanges, CrossSectionParams, EnergyUnit, Params } from './types';
+import { DEFAULT_AXIS_RANGES, DEFAULT_PARAMS } from './defaults';
+
+// パーマリンク：計算機の状態を URL のハッシュ（#tab=...&lang=...&state=...）に保存・復元する
+//   静的書き出し（GitHub Pages）でも動くようにクエリではなくハッシュを使う
+//   state は JSON。壊れた値・欠けた値は既定値で補う
+
+// 表示中のタブ
+export type ActiveTab = 'plot' | 'functions';
+
+// 表示言語
+export type Language = 'en' | 'ja';
+
+// 可視化タブの状態
+export interface PermalinkState {
+  params: Params;
+  axisRanges: AxisRanges;
+  isLogScale: boolean;
+  energyUnit: EnergyUnit;
+}
+
+export const DEFAULT_PERMALINK_STATE: PermalinkState = {
+  params: DEFAULT_PARAMS,
+  axisRanges: DEFAULT_AXIS_RANGES,
+  isLogScale: false,
+  energyUnit: 'meV'
+};
+
+// 文字列の値のうち選択肢が決まっているもの（パスは PermalinkState からの位置）
+const ALLOWED_VALUES: Record<string, readonly string[]> = {
+  'params.xAxisUnit': ['wavelength', 'energy', 'tof'],
+  'params.tofParams.unit': ['ms', 'µs'],
+  'params.thicknessInput': ['direct', 'geometry'],
+  'params.windowParams.material': ['GE180', 'quartz', 'borosilicate', 'custom'],
+  'params.afpParams.scheduleType': ['interval', 'list'],
+  'params.crossSection.model': ['linear', 'exact', 'table'],
+  'energyUnit': ['meV', 'Å', 'TOF']
+};
+
+// 数値のうち範囲が決まっているもの（範囲外は既定値。NaN や物理的でない曲線を描かない）
+const isPositive = (value: number) => value > 0;
+const isNonNegative = (value: number) => value >= 0;
+const isPercentage = (value: number) => value >= 0 && value <= 100;
+const VALID_NUMBERS: Record<string, (value: number) => boolean> = {
+  'params.initialPolarization': isPercentage,
+  'params.relaxationTimeConstant': isPositive,
+  'params.neutronParams.gasThickness': isNonNegative,
+  'params.neutronParams.energy': isPositive,
+  'params.neutronParams.he3Polarization': isPercentage,
+  'params.tofParams.sourceToCell': isPositive,
+  'params.tofParams.sourceToDetector': isPositive,
+  'params.cellGeometry.pressure': isPositive,
+  'params.cellGeometry.temperature': isPositive,
+  'params.cellGeometry.length': isPositive,
+  'params.windowParams.absorption': isNonNegative,
+  'params.windowParams.scattering': isNonNegative,
+  'params.windowParams.thickness': isNonNegative,
+  'params.pumpingParams.pumpRate': isNonNegative,
+  'params.pumpingParams.pumpingRelaxationRate': isNonNegative,
+  'params.pumpingParams.saturationPolarization': isPercentage,
+  'params.pumpingParams.pumpDuration': isNonNegative,
+  'params.pumpingParams.startPolarization': isPercentage,
+  'params.afpParams.interval': isNonNegative,
+  'params.afpParams.lossPerFlip': isValidLossPerFlip,
+  'params.crossSection.sigma0': isPositive,
+  'params.crossSection.lambda0': isPositive,
+  'params.crossSection.numberDensity': isPositive,
+  'params.uncertainties.initialPolarization': isNonNegative,
+  'params.uncertainties.relaxationTimeConstant': isNonNegative,
+  'params.uncertainties.gasThickness': isNonNegative,
+  'params.uncertainties.he3Polarization': isNonNegative
+};
+
+// 断面積テーブルは読み込み時と同じ条件（isValidCrossSectionTable）を満たすときだけ使う。
+//   そうでなければ既定のテーブル（空）に戻し、テーブルモデルなら既定のモデルにする
+function withValidCrossSectionTable(crossSection: CrossSectionParams): CrossSectionParams {
+  const { tableEnergies, tableCrossSections } = crossSection;
+  const isEmpty = tableEnergies.length === 0 && tableCrossSections.length === 0;
+  const isValid = isValidCrossSectionTable(tableEnergies, tableCrossSections)
+    || (isEmpty && crossSection.model !== 'table');
+  if (isValid) return crossSection;
+  const defaults = DEFAULT_PARAMS.crossSection;
+  return {
+    ...crossSection,
+    model: crossSection.model === 'table' ? defaults.model : crossSection.model,
+    tableEnergies: defaults.tableEnergies,
+    tableCrossSections: defaults.tableCrossSections
+  };
+}
+
+// 既定値と同じ形・同じ型の値だけを取り込む
+function mergeWithDefaults<T>(defaults: T, value: unknown, path: string): T {
+  if (Array.isArray(defaults)) {  // 配列は有限の数値だけのもの（反転時刻・断面積テーブル）
+    return (Array.isArray(value) && value.every(item => typeof item === 'number' && Number.isFinite(item))
+      ? value
+      : defaults) as T;
+  }
+  if (defaults !== null && typeof defaults === 'object') {
+    if (value === null || typeof value !== 'object' || Array.isArray(value)) return defaults;
+    const source = value as Record<string, unknown>;
+    const merged = { ...defaults } as Record<string, unknown>;
+    for (const key of Object.keys(merged)) {
+      merged[key] = mergeWithDefaults(merged[key], source[key], path ? `${path}.${key}` : key);
+    }
+    if (path === 'params.crossSection') return withValidCrossSectionTable(merged as unknown as CrossSectionParams) as T;
+    return merged as T;
+  }
+  if (typeof defaults === 'number') {
+    const isValid = VALID_NUMBERS[path];
+    return (typeof value === 'number' && Number.isFinite(value) && (!isValid || isValid(value)) ? value : defaults) as T;
+  }
+  if (typeof defaults === 'string') {
+    const allowed = ALLOWED_VALUES[path];
+    return (typeof value === 'string' && (!allowed || allowed.includes(value)) ? value : defaults) as T;
+  }
+  return (typeof value === typeof defaults ? value : defaults) as T;
+}
+
+// 保存された値を Params として読む（不正・欠けた値は既定値）
+export function normalizeParams(value: unknown): Params {
+  return mergeWithDefaults(DEFAULT_PARAMS, value, 'params');
+}
+
+// 現在のハッシュをキー・値に分解
+function readHash(): URLSearchParams {
+  return new URLSearchParams(window.location.hash.replace(/^#/, ''));
+}
+
+// URL から可視化タブの状態を読む
+export function readPermalinkState(): PermalinkState {
+  const text = readHash().get('state');
+  if (!text) return DEFAULT_PERMALINK_STATE;
+  try {
+    return mergeWithDefaults(DEFAULT_PERMALINK_STATE, JSON.parse(text), '');
+  } catch {
+    return DEFAULT_PERMALINK_STATE;  // JSON として読めない
+  }
+}
+
+// URL から表示中のタブを読む
+export function readPermalinkTab(): ActiveTab {
+  return readHash().get('tab') === 'functions' ? 'functions' : 'plot';
+}
+
+// URL から表示言語を読む（指定がなければ null）
+export function readPermalinkLanguage(): Language | null {
+  const lang = readHash().get('lang');
+  return lang === 'en' || lang === 'ja' ? lang : null;
+}
+
+// URL を書き換える（履歴は増やさない）。指定した項目だけ更新し、他は残す
+export function writePermalink(update: { tab?: ActiveTab; lang?: Language; state?: PermalinkState }): void {
+  const hash = readHash();
+  if (update.tab) hash.set('tab', update.tab);
+  if (update.lang) hash.set('lang', update.lang);
+  if (update.state) hash.set('state', JSON.stringify(update.state));
+  window.history.replaceState(null, '', `${window.location.pathname}${window.location.search}#${hash.toString()}`);
+}
@@ -0,0 +1,42 @@
+import type { Params } from './types';
+import { normalizeParams } from './permalink';
+
+// 名前付きシナリオ（保存したパラメータ一式）。localStorage に保存する
+
+export interface Scenario {
+  id: string;      // 識別子（保存時刻から生成）
+  name: string;    // 表示名
+  params: Params;  // 保存したパラメータ
+}
+
+const STORAGE_KEY = 'he3polarization.scenarios';
+
+// 重ね描きの線の色と線種（シナリオの並び順で割り当て）
+export const SCENARIO_COLORS = ['#dc2626', '#2563eb', '#16a34a', '#9333ea', '#ca8a04', '#0891b2'];
+export const SCENARIO_DASHES = ['6 3', '2 2', '10 4 2 4', '12 6', '4 4 1 4', '1 3'];
+
+// i 番目のシナリオの線のスタイル
+export function scenarioStyle(index: number): { stroke: string; strokeDasharray: string } {
+  return {
+    stroke: SCENARIO_COLORS[index % SCENARIO_COLORS.length],
+    strokeDasharray: SCENARIO_DASHES[index % SCENARIO_DASHES.length]
+  };
+}
+
+// 保存済みシナリオの読み込み（壊れたデータは無視）
+export function loadScenarios(): Scenario[] {
+  try {
+    const stored = JSON.parse(window.localStorage.getItem(STORAGE_KEY) ?? '[]');
+    if (!Array.isArray(stored)) return [];
+    return stored
+      .filter(item => item && typeof item.id === 'string' && typeof item.name === 'string')
+      .map(item => ({ id: item.id, name: item.name, params: normalizeParams(item.params) }));
+  } catch {
+    return [];
+  }
+}
+
+// シナリオ一覧の保存
+export function saveScenarios(scenarios: Scenario[]): void {
+  window.localStorage.setItem(STORAGE_KEY, JSON.stringify(scenarios));
+}
@@ -0,0 +1,142 @@
+import type {
+  CellGeometry,
+  DecayMeasurement,
+  PumpingParams,
+  TransmissionPoint,
+  WindowMaterial,
+  WindowModel
+} from '@/lib/he3';
+
+// 基本計算パラメータの型定義
+export interface BaseCalculationParams {
+  initialPolarization: number;  // 初期偏極度（%）
+  relaxationTimeConstant: number;  // 緩和時定数（時間）
+}
+
+// 中性子パラメータの型定義
+export interface NeutronParams {
+  gasThickness: number;  // He-3 ガス厚さ（atm·cm）
+  energy: number;        // エネルギー（meV）
+  he3Polarization: number;  // He-3 偏極度（%）
+}
+
+// 飛行時間（TOF）パラメータの型定義
+export interface TofParams {
+  sourceToCell: number;      // 線源–セル間距離（m）
+  sourceToDetector: number;  // 線源–検出器間距離（m）
+  unit: 'ms' | 'µs';         // TOF の表示単位
+}
+
+// X軸の単位（波長 or エネルギー or 飛行時間）
+export type XAxisUnit = 'wavelength' | 'energy' | 'tof';
+
+// ガス厚さの入力方法（直接入力 or セル形状から算出）
+export type ThicknessInputMode = 'direct' | 'geometry';
+
+// セル窓パラメータの型定義（Σa, Σs, 厚さは WindowModel と共通）
+export interface WindowParams extends WindowModel {
+  enabled: boolean;                     // 窓の減衰を含めるか
+  material: WindowMaterial | 'custom';  // 窓材プリセット or 任意の断面積
+}
+
+// ポンピング＋緩和サイクルのパラメータの型定義
+export interface PumpingCycleParams extends PumpingParams {
+  enabled: boolean;                     // ポンピングから計算するか（false なら P0 からの緩和のみ）
+}
+
+// AFP スピン反転の損失のパラメータの型定義
+export interface AfpCycleParams {
+  enabled: boolean;                     // 反転損失を含めるか
+  scheduleType: 'interval' | 'list';    // 一定間隔 or 時刻の一覧
+  interval: number;                     // 反転間隔（分）
+  times: number[];                      // 反転時刻の一覧（h、緩和開始から）
+  lossPerFlip: number;                  // 1 回の反転での損失（%）
+  showSign: boolean;                    // 中性子偏極度の符号反転を表示するか
+}
+
+// 吸収断面積モデルと定数の型定義（テーブルは URL に保存できるよう数値配列で持つ）
+export interface CrossSectionParams {
+  model: 'linear' | 'exact' | 'table';  // 1/v 近似（λ0 基準） or 厳密な 1/v（2200 m/s 基準） or テーブル補間
+  sigma0: number;                       // 基準の吸収断面積（barn）
+  lambda0: number;                      // σ0 の基準波長（Å、1/v 近似のみ）
+  numberDensity: number;                // 1 amg あたりの数密度（/cm^3）
+  tableEnergies: number[];              // テーブルのエネルギー（meV）
+  tableCrossSections: number[];         // テーブルの断面積（barn）
+}
+
+// 測定した偏極度の時系列（P0, T1 のフィット用）
+export interface MeasuredDecay {
+  quantity: 'polarization' | 'transmission';  // 測定量（He-3 偏極度 or 中性子透過率）
+  measurements: DecayMeasurement[];           // 測定点（時間は h）
+}
+
+// 波長分解した透過率スペクトル（セル評価用、未読み込みは null）
+export interface MeasuredSpectra {
+  unpolarized: TransmissionPoint[] | null;  // 非偏極セル → ガス厚さ
+  polarized: TransmissionPoint[] | null;    // 偏極セル → He-3 偏極度
+}
+
+// 入力パラメータの 1σ 誤差（0 は誤差なし）。グラフの誤差帯に使う
+export interface UncertaintyParams {
+  initialPolarization: number;     // P0 の誤差（%）
+  relaxationTimeConstant: number;  // T1 の誤差（h）
+  gasThickness: number;            // ガス厚さの誤差（amg·cm）
+  he3Polarization: number;         // Neutron ボックスの He-3 偏極度の誤差（%）
+}
+
+// 全パラメータの型定義（基底＋中性子＋軸単位）
+export interface Params extends BaseCalculationParams {
+  xAxisUnit: XAxisUnit;                // X軸の単位
+  neutronParams: NeutronParams;        // 中性子関連パラメータ
+  tofParams: TofParams;                // TOF 関連パラメータ
+  thicknessInput: ThicknessInputMode;  // ガス厚さの入力方法
+  cellGeometry: CellGeometry;          // セル形状（圧力・温度・長さ）
+  windowParams: WindowParams;          // セル窓の減衰
+  pumpingParams: PumpingCycleParams;   // ポンピング＋緩和サイクル
+  afpParams: AfpCycleParams;           // AFP スピン反転の損失
+  crossSection: CrossSectionParams;    // 吸収断面積モデルと定数
+  uncertainties: UncertaintyParams;    // 入力パラメータの誤差
+}
+
+// グラフ1枚分の軸レンジ（入力欄と同期させるため文字列で持つ）
+export interface AxisRange {
+  xMin: string;
+  xMax: string;
+  yMin: string;
+  yMax: string;
+}
+
+// He-3 グラフと Neutron グラフの軸レンジ
+export interface AxisRanges {
+  he3: AxisRange;
+  neutron: AxisRange;
+}
+
+// 曲線1本のサンプリング（点数と、急な所に点を寄せるか）
+export interface CurveSampling {
+  resolution: number;  // 区間数（点数は resolution + 1、最大 10^5）
+  adaptive: boolean;   // 適応サンプリング（false なら等間隔）
+}
+
+// He-3 グラフと Neutron グラフのサンプリング
+export interface SamplingSettings {
+  he3: CurveSampling;
+  neutron: CurveSampling;
+}
+
+// He-3 ボックスのエネルギー入力の単位
+export type EnergyUnit = 'meV' | 'Å' | 'TOF';
+
+// グラフ1点のデータ型
+export interface DataPoint {
+  time: number;                 // 時間（h）
+  wavelength: number;           // 波長（Å）
+  energy: number;               // エネルギー（meV）
+  tof: number;                  // 検出器での飛行時間（ms or µs）
+  he3Polarization: number;      // He-3 偏極度（%）
+  neutronPolarization: number;  // 中性子偏極度（%）
+  neutronTransmission: number;  // 中性子透過率（%、窓を含む）
+  windowTransmission: number;   // 窓のみの透過率（%）
+  figureOfMerit: number;        // FOM（%単位換算後の値）
+  [key: string]: number;        // 拡張用の数値プロパティ
+}
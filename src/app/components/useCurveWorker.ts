@@ -0,0 +1,92 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { DataPoint } from './types';
+import { computeCurve } from './curves';
+import type { CurveRequest, CurveResult } from './curves';
+
+type CurveKind = CurveRequest['kind'];
+
+// グラフ1枚分の Worker と実行中の依頼
+interface CurveChannel {
+  worker: Worker | null;
+  job: { id: number; request: CurveRequest; resolve: (points: DataPoint[] | null) => void } | null;
+}
+
+let nextJobId = 0;
+let workerUnavailable = typeof Worker === 'undefined';  // Worker を作れない・読み込めなかった
+
+// このスレッドでの計算（例外は null）
+function computeHere(request: CurveRequest): DataPoint[] | null {
+  try {
+    return computeCurve(request);
+  } catch {
+    return null;
+  }
+}
+
+// 曲線の計算を Web Worker で行うフック
+//   グラフごとに Worker を1つ持ち、新しい依頼が来たら計算中の古い依頼は Worker ごと打ち切る（結果は null）。
+//   Worker を作れない・読み込めないときだけこのスレッドで計算する。計算の例外は null
+export function useCurveWorker() {
+  const channels = useRef<Record<CurveKind, CurveChannel>>({
+    he3: { worker: null, job: null },
+    neutron: { worker: null, job: null }
+  });
+  const [pending, setPending] = useState<Record<CurveKind, boolean>>({ he3: false, neutron: false }); // 計算中か
+
+  useEffect(() => {                                    // アンマウント時に Worker を止める
+    const current = channels.current;
+    return () => Object.values(current).forEach(channel => {
+      channel.worker?.terminate();
+      channel.worker = null;
+      channel.job = null;
+    });
+  }, []);
+
+  const compute = useCallback((request: CurveRequest): Promise<DataPoint[] | null> => {
+    if (workerUnavailable) return Promise.resolve(computeHere(request));
+    const channel = channels.current[request.kind];
+
+    // 依頼を終える（Worker の結果 or このスレッドでの計算結果）
+    const finish = (points: DataPoint[] | null) => {
+      const job = channel.job;
+      channel.job = null;
+      setPending(prev => ({ ...prev, [request.kind]: false }));
+      job?.resolve(points);
+    };
+
+    if (channel.job) {                                 // 計算中の古い依頼は打ち切る
+      channel.worker?.terminate();
+      channel.worker = null;
+      channel.job.resolve(null);
+      channel.job = null;
+    }
+    if (!channel.worker) {
+      let worker: Worker;
+      try {
+        worker = new Worker(new URL('./curve.worker.ts', import.meta.url));
+      } catch {
+        workerUnavailable = true;
+        return Promise.resolve(computeHere(request));
+      }
+      worker.onmessage = (event: MessageEvent<CurveResult>) => {
+        if (channel.job?.id === event.data.id) finish(event.data.points);
+      };
+      worker.onerror = () => {                         // Worker が読めない（計算の例外は onmessage で null が届く）
+        worker.terminate();
+        workerUnavailable = true;
+        if (channel.worker === worker) channel.worker = null;
+        if (channel.job) finish(computeHere(channel.job.request));
+      };
+      channel.worker = worker;
+    }
+
+    const id = ++nextJobId;
+    setPending(prev => ({ ...prev, [request.kind]: true }));
+    return new Promise(resolve => {
+      channel.job = { id, request, resolve };
+      channel.worker?.postMessage({ id, request });
+    });
+  }, []);
+
+  return { compute, pending };
+}
@@ -1,7 +1,12 @@
 "use client";
 
 import TabContainer from "./components/TabContainer";
+import { LanguageProvider } from "./components/i18n";
 
 export default function Home() {
-  return <TabContainer />;
+  return (
+    <LanguageProvider>
+      <TabContainer />
+    </LanguageProvider>
+  );
 }
@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'vitest';
+import { parseArguments, parseRange, runCommand, USAGE } from './commands';
+
+const noFile = (path: string): string => {
+  throw new Error(`unexpected read: ${path}`);
+};
+const run = (...argv: string[]) => runCommand(argv, noFile);
+
+describe('parseRange', () => {
+  it('start:stop:step を終点まで展開する', () => {
+    expect(parseRange('1:2:0.25')).toEqual([1, 1.25, 1.5, 1.75, 2]);
+    expect(parseRange('0.1:0.3:0.1')).toEqual([0.1, 0.2, 0.3]);  // 浮動小数の誤差で終点を落とさない
+  });
+
+  it('カンマ区切りの一覧と単一の値', () => {
+    expect(parseRange('1,4,2.5')).toEqual([1, 4, 2.5]);
+    expect(parseRange('3')).toEqual([3]);
+  });
+
+  it('不正な範囲は Error', () => {
+    expect(() => parseRange('1:2')).toThrow();
+    expect(() => parseRange('1:2:0')).toThrow();
+    expect(() => parseRange('2:1:0.5')).toThrow();
+    expect(() => parseRange('1,x')).toThrow();
+  });
+});
+
+describe('parseArguments', () => {
+  it('--name value と --name=value を読む', () => {
+    expect(parseArguments(['neutron', '--thickness', '12', '--p-he=70'])).toEqual({
+      command: 'neutron',
+      options: { thickness: '12', 'p-he': '70' }
+    });
+  });
+
+  it('--help は値を取らない', () => {
+    expect(parseArguments(['--help', 'decay'])).toEqual({ command: 'decay', options: { help: 'true' } });
+  });
+
+  it('値のないオプションと余分な引数は Error', () => {
+    expect(() => parseArguments(['neutron', '--thickness'])).toThrow('Missing value for --thickness');
+    expect(() => parseArguments(['neutron', 'decay'])).toThrow('Unexpected argument: decay');
+  });
+});
+
+describe('runCommand', () => {
+  it('コマンドがなければ使い方を返す', () => {
+    expect(run()).toBe(USAGE);
+    expect(run('neutron', '--help')).toBe(USAGE);
+  });
+
+  it('neutron は λ ごとに 1 行を出す', () => {
+    const rows = JSON.parse(run('neutron', '--lambda', '2:4:1', '--format', 'json')).data;
+    expect(rows.map((row: { wavelength: number }) => row.wavelength)).toEqual([2, 3, 4]);
+    const table = run('neutron', '--lambda', '2,4').trim().split('\n');
+    expect(table).toHaveLength(3);
+    expect(table[0]).toContain('neutronPolarization');
+  });
+
+  it('綴りの誤ったオプションは Error', () => {
+    expect(() => run('neutron', '--thikness', '12')).toThrow('Unknown option: --thikness');
+  });
+
+  it('コマンドに関係しないオプションは Error', () => {
+    expect(() => run('neutron', '--p0', '80')).toThrow('--p0 does not apply to neutron');
+    expect(() => run('neutron', '--t1', '100')).toThrow('--t1 does not apply to neutron');
+    expect(() => run('decay', '--p-he', '70')).toThrow('--p-he does not apply to decay');
+  });
+
+  it('--lambda と --energy の両方は Error', () => {
+    expect(() => run('neutron', '--lambda', '4', '--energy', '5')).toThrow('Give either --lambda or --energy');
+    expect(() => run('decay', '--lambda', '4', '--energy', '5')).toThrow('Give either --lambda or --energy');
+  });
+
+  it('0 以下の波長・エネルギーは Error', () => {
+    expect(() => run('neutron', '--lambda', '0:1:0.5')).toThrow('--lambda must be positive');
+    expect(() => run('neutron', '--energy', '0')).toThrow('--energy must be positive');
+    expect(() => run('decay', '--energy', '0')).toThrow('--energy must be positive');
+    expect(() => run('decay', '--lambda', '-4')).toThrow('--lambda must be positive');
+  });
+
+  it('範囲外の数値は Error', () => {
+    expect(() => run('neutron', '--thickness', '-5')).toThrow('--thickness must not be negative: -5');
+    expect(() => run('neutron', '--p-he', '150')).toThrow('--p-he must be between 0 and 100: 150');
+    expect(() => run('decay', '--p0', '-1')).toThrow('--p0 must be between 0 and 100');
+    expect(() => run('decay', '--t1', '0')).toThrow('--t1 must be positive: 0');
+    expect(() => run('decay', '--flip-interval', '0')).toThrow('--flip-interval must be positive');
+    expect(() => run('decay', '--flip-interval', '-10')).toThrow('--flip-interval must be positive');
+    expect(() => run('decay', '--flip-interval', '60', '--flip-loss', '100')).toThrow('--flip-loss must be at least 0 and below 100');
+    expect(() => run('neutron', '--window', 'quartz', '--window-thickness', '0')).toThrow('--window-thickness must be positive');
+    expect(() => run('neutron', '--sigma0', '-1')).toThrow('--sigma0 must be positive');
+    expect(() => run('neutron', '--lambda0', '0')).toThrow('--lambda0 must be positive');
+    expect(() => run('neutron', '--number-density', '0')).toThrow('--number-density must be positive');
+  });
+
+  it('範囲の端の値は使える', () => {
+    expect(() => run('neutron', '--thickness', '0', '--p-he', '100', '--lambda', '4')).not.toThrow();
+    expect(() => run('decay', '--p0', '0', '--flip-interval', '60', '--flip-loss', '0', '--time', '0')).not.toThrow();
+  });
+
+  it('有効にするオプションのない従属オプションは Error', () => {
+    expect(() => run('decay', '--flip-loss', '1')).toThrow('--flip-loss needs --flip-interval');
+    expect(() => run('neutron', '--window-thickness', '0.2')).toThrow('--window-thickness needs --window');
+    expect(() => run('neutron', '--table', 'sigma.csv')).toThrow('--table needs --cross-section table');
+    expect(() => run('neutron', '--table-unit', 'meV')).toThrow('--table-unit needs --cross-section table');
+    expect(() => run('neutron', '--cross-section', 'exact', '--lambda0', '1.8')).toThrow('--lambda0 needs --cross-section linear');
+  });
+
+  it('断面積の設定はその実行だけに使い、次の実行に残らない', () => {
+    const transmission = (...argv: string[]) =>
+      JSON.parse(run('neutron', '--lambda', '4', '--format', 'json', ...argv)).data[0].neutronTransmission;
+    const before = transmission();
+    expect(transmission('--sigma0', '10666')).toBeLessThan(before);
+    expect(transmission()).toBe(before);
+  });
+});
@@ -0,0 +1,305 @@
+import {
+  energyToWavelength,
+  wavelengthToEnergy,
+  isValidCrossSectionTable,
+  isValidLossPerFlip,
+  parseCrossSectionTable,
+  WINDOW_MATERIALS
+} from '@/lib/he3';
+import type { WindowMaterial } from '@/lib/he3';
+import type { DataPoint, Params } from '@/app/components/types';
+import { DEFAULT_PARAMS } from '@/app/components/defaults';
+import { wavelengthToDetectorTof } from '@/app/components/axis';
+import { formatDataCsv, formatDataJson } from '@/app/components/exportData';
+import {
+  he3PointAt,
+  neutronPointAt,
+  windowTransmissionFor
+} from '@/app/components/calculation';
+
+// he3calc のサブコマンド（Web の PolarizationPlot と同じ Params → 同じ計算関数 → 同じ書き出し形式）
+
+export const USAGE = `Usage: he3calc <command> [options]
+
+Commands:
+  neutron   Pn, Tn and FOM versus wavelength or energy
+  decay     He-3 polarization and Pn, Tn, FOM at one energy versus time
+
+Ranges are start:stop:step, a comma-separated list, or a single value.
+
+neutron options:
+  --thickness <amg cm>      He-3 gas thickness (default ${DEFAULT_PARAMS.neutronParams.gasThickness})
+  --p-he <%>                He-3 polarization (default ${DEFAULT_PARAMS.neutronParams.he3Polarization})
+  --lambda <range>          Wavelengths in Å (default 1:10:0.1)
+  --energy <range>          Energies in meV (instead of --lambda)
+
+decay options:
+  --p0 <%>                  Initial He-3 polarization (default ${DEFAULT_PARAMS.initialPolarization})
+  --t1 <hour>               Relaxation time (default ${DEFAULT_PARAMS.relaxationTimeConstant})
+  --time <range>            Times in hours (default 0:100:1)
+  --thickness <amg cm>      He-3 gas thickness (default ${DEFAULT_PARAMS.neutronParams.gasThickness})
+  --lambda <Å>              Neutron wavelength
+  --energy <meV>            Neutron energy (default ${DEFAULT_PARAMS.neutronParams.energy})
+  --flip-interval <min>     AFP flip interval (enables flip losses)
+  --flip-loss <%>           Polarization loss per flip (default ${DEFAULT_PARAMS.afpParams.lossPerFlip})
+
+Common options:
+  --window <material>       Include cell windows: ${Object.keys(WINDOW_MATERIALS).join(', ')}
+  --window-thickness <cm>   Total window thickness (default ${DEFAULT_PARAMS.windowParams.thickness})
+  --cross-section <model>   linear, exact or table (default ${DEFAULT_PARAMS.crossSection.model})
+  --sigma0 <barn>           Reference cross section (default ${DEFAULT_PARAMS.crossSection.sigma0})
+  --lambda0 <Å>             Reference wavelength of the linear model (default ${DEFAULT_PARAMS.crossSection.lambda0})
+  --number-density <1/cm³>  Number density per amg (default ${DEFAULT_PARAMS.crossSection.numberDensity})
+  --table <file>            σ(E) table (E, σ in barn) for --cross-section table
+  --table-unit <meV|eV>     Energy unit of the table (default eV)
+  --format <table|csv|json> Output format (default table); csv and json match the web export
+  --help                    Show this help
+`;
+
+type Options = Record<string, string>;
+
+// 引数を解釈（--name value または --name=value）
+export function parseArguments(argv: string[]): { command: string | undefined; options: Options } {
+  const options: Options = {};
+  let command: string | undefined;
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith('--')) {
+      if (command !== undefined) throw new Error(`Unexpected argument: ${arg}`);
+      command = arg;
+      continue;
+    }
+    const equals = arg.indexOf('=');
+    const name = equals < 0 ? arg.slice(2) : arg.slice(2, equals);
+    const inlineValue = equals < 0 ? undefined : arg.slice(equals + 1);
+    if (name === 'help') {
+      options.help = 'true';
+      continue;
+    }
+    const value = inlineValue ?? argv[++i];
+    if (value === undefined) throw new Error(`Missing value for --${name}`);
+    options[name] = value;
+  }
+  return { command, options };
+}
+
+// コマンドごとに使えるオプション（それ以外は誤りとして弾く）
+const COMMON_OPTIONS = [
+  'window', 'window-thickness', 'cross-section', 'sigma0', 'lambda0', 'number-density',
+  'table', 'table-unit', 'format'
+];
+const COMMAND_OPTIONS: Record<string, string[]> = {
+  neutron: [...COMMON_OPTIONS, 'thickness', 'p-he', 'lambda', 'energy'],
+  decay: [...COMMON_OPTIONS, 'p0', 't1', 'time', 'thickness', 'lambda', 'energy', 'flip-interval', 'flip-loss']
+};
+
+// 綴りの誤りやコマンドに関係しないオプションを弾く（黙って既定値で計算しない）
+function checkOptions(command: string, options: Options): void {
+  const allowed = COMMAND_OPTIONS[command];
+  for (const name of Object.keys(options)) {
+    if (allowed.includes(name)) continue;
+    if (Object.values(COMMAND_OPTIONS).some(names => names.includes(name))) {
+      throw new Error(`--${name} does not apply to ${command}`);
+    }
+    throw new Error(`Unknown option: --${name}`);
+  }
+  if (options.lambda !== undefined && options.energy !== undefined) throw new Error('Give either --lambda or --energy');
+
+  // 有効にするオプションがないと使われないオプション
+  const model = options['cross-section'] ?? DEFAULT_PARAMS.crossSection.model;
+  const requires = (name: string, enabled: boolean, enabling: string) => {
+    if (options[name] !== undefined && !enabled) throw new Error(`--${name} needs ${enabling}`);
+  };
+  requires('flip-loss', options['flip-interval'] !== undefined, '--flip-interval');
+  requires('window-thickness', options.window !== undefined, '--window');
+  requires('table', model === 'table', '--cross-section table');
+  requires('table-unit', model === 'table', '--cross-section table');
+  requires('lambda0', model === 'linear', '--cross-section linear');
+  requires('sigma0', model !== 'table', '--cross-section linear or exact');
+}
+
+// 数値のオプションの範囲（範囲外は物理的でないので弾く）
+const percentage = { valid: (value: number) => value >= 0 && value <= 100, message: 'must be between 0 and 100' };
+const positive = { valid: (value: number) => value > 0, message: 'must be positive' };
+const NUMBER_RANGES: Record<string, { valid: (value: number) => boolean; message: string }> = {
+  thickness: { valid: value => value >= 0, message: 'must not be negative' },
+  'p-he': percentage,
+  p0: percentage,
+  t1: positive,
+  'flip-interval': positive,
+  'flip-loss': { valid: isValidLossPerFlip, message: 'must be at least 0 and below 100' },
+  'window-thickness': positive,
+  sigma0: positive,
+  lambda0: positive,
+  'number-density': positive
+};
+
+// 数値の引数
+function parseNumber(options: Options, name: string, fallback: number): number {
+  const text = options[name];
+  if (text === undefined) return fallback;
+  const value = Number(text);
+  if (text.trim() === '' || !Number.isFinite(value)) throw new Error(`--${name} must be a number: ${text}`);
+  const range = NUMBER_RANGES[name];
+  if (range && !range.valid(value)) throw new Error(`--${name} ${range.message}: ${text}`);
+  return value;
+}
+
+// 範囲（start:stop:step、カンマ区切りの一覧、単一の値）を値の列に展開
+export function parseRange(text: string): number[] {
+  const parts = text.split(':');
+  if (parts.length === 1) {
+    const values = text.split(',').map(Number);
+    if (values.some(value => !Number.isFinite(value))) throw new Error(`Invalid value list: ${text}`);
+    return values;
+  }
+  const [start, stop, step] = parts.map(Number);
+  if (parts.length !== 3 || ![start, stop, step].every(Number.isFinite) || step <= 0 || stop < start) {
+    throw new Error(`Invalid range (expected start:stop:step with step > 0): ${text}`);
+  }
+  const count = Math.floor((stop - start) / step + 1e-9);      // 浮動小数の誤差で終点を落とさない
+  return Array.from({ length: count + 1 }, (_, i) => Number((start + i * step).toPrecision(12)));
+}
+
+// 波長・エネルギーの範囲（0 以下は物理的でないので弾く）
+function parsePositiveRange(name: string, text: string): number[] {
+  const values = parseRange(text);
+  if (values.some(value => !(value > 0))) throw new Error(`--${name} must be positive: ${text}`);
+  return values;
+}
+
+// オプション → Params（指定のない値は Web の既定値）
+function toParams(options: Options, readFile: (path: string) => string): Params {
+  const params: Params = {
+    ...DEFAULT_PARAMS,
+    initialPolarization: parseNumber(options, 'p0', DEFAULT_PARAMS.initialPolarization),
+    relaxationTimeConstant: parseNumber(options, 't1', DEFAULT_PARAMS.relaxationTimeConstant),
+    neutronParams: {
+      gasThickness: parseNumber(options, 'thickness', DEFAULT_PARAMS.neutronParams.gasThickness),
+      he3Polarization: parseNumber(options, 'p-he', DEFAULT_PARAMS.neutronParams.he3Polarization),
+      energy: DEFAULT_PARAMS.neutronParams.energy
+    }
+  };
+
+  if (options.window !== undefined) {
+    const material = options.window as WindowMaterial;
+    if (!(material in WINDOW_MATERIALS)) throw new Error(`Unknown window material: ${options.window}`);
+    params.windowParams = {
+      enabled: true,
+      material,
+      absorption: WINDOW_MATERIALS[material].absorption,
+      scattering: WINDOW_MATERIALS[material].scattering,
+      thickness: parseNumber(options, 'window-thickness', DEFAULT_PARAMS.windowParams.thickness)
+    };
+  }
+
+  if (options['flip-interval'] !== undefined) {
+    params.afpParams = {
+      ...DEFAULT_PARAMS.afpParams,
+      enabled: true,
+      scheduleType: 'interval',
+      interval: parseNumber(options, 'flip-interval', DEFAULT_PARAMS.afpParams.interval),
+      lossPerFlip: parseNumber(options, 'flip-loss', DEFAULT_PARAMS.afpParams.lossPerFlip)
+    };
+  }
+
+  const model = options['cross-section'] ?? DEFAULT_PARAMS.crossSection.model;
+  if (model !== 'linear' && model !== 'exact' && model !== 'table') throw new Error(`Unknown cross-section model: ${model}`);
+  params.crossSection = {
+    ...DEFAULT_PARAMS.crossSection,
+    model,
+    sigma0: parseNumber(options, 'sigma0', DEFAULT_PARAMS.crossSection.sigma0),
+    lambda0: parseNumber(options, 'lambda0', DEFAULT_PARAMS.crossSection.lambda0),
+    numberDensity: parseNumber(options, 'number-density', DEFAULT_PARAMS.crossSection.numberDensity)
+  };
+  if (model === 'table') {
+    if (options.table === undefined) throw new Error('--cross-section table needs --table <file>');
+    const unit = options['table-unit'] ?? 'eV';
+    if (unit !== 'eV' && unit !== 'meV') throw new Error(`--table-unit must be meV or eV: ${unit}`);
+    const points = parseCrossSectionTable(readFile(options.table), unit === 'eV' ? 1000 : 1);
+    params.crossSection.tableEnergies = points.map(point => point.energy);
+    params.crossSection.tableCrossSections = points.map(point => point.crossSection);
+    if (!isValidCrossSectionTable(params.crossSection.tableEnergies, params.crossSection.tableCrossSections)) {
+      throw new Error(`No valid (E, σ) rows in ${options.table}`);
+    }
+  }
+  return params;
+}
+
+// neutron：λ（または E）ごとの Pn, T, FOM
+function neutronData(options: Options, params: Params): DataPoint[] {
+  const wavelengths = options.energy !== undefined
+    ? parsePositiveRange('energy', options.energy).map(energy => energyToWavelength(energy))
+    : parsePositiveRange('lambda', options.lambda ?? '1:10:0.1');
+  return wavelengths.map(wavelength => ({
+    time: 0,
+    wavelength,
+    energy: wavelengthToEnergy(wavelength),
+    tof: wavelengthToDetectorTof(wavelength, params.tofParams),
+    he3Polarization: params.neutronParams.he3Polarization,
+    ...neutronPointAt(wavelength, params),
+    windowTransmission: windowTransmissionFor(wavelength, params)
+  }));
+}
+
+// decay：時刻ごとの He-3 偏極度と代表エネルギーでの Pn, T, FOM
+function decayData(options: Options, params: Params): DataPoint[] {
+  const name = options.lambda !== undefined ? 'lambda' : 'energy';
+  const value = parseNumber(options, name, DEFAULT_PARAMS.neutronParams.energy);
+  if (!(value > 0)) throw new Error(`--${name} must be positive: ${options[name]}`);
+  const energy = name === 'lambda' ? wavelengthToEnergy(value) : value;
+  params.neutronParams.energy = energy;
+  const wavelength = energyToWavelength(energy);
+  return parseRange(options.time ?? '0:100:1').map(time => ({
+    time,
+    wavelength,
+    energy,
+    tof: wavelengthToDetectorTof(wavelength, params.tofParams),
+    ...he3PointAt(time, wavelength, params),
+    windowTransmission: windowTransmissionFor(wavelength, params)
+  }));
+}
+
+// 端末向けの桁揃えの表
+function formatDataTable(data: DataPoint[], columns: string[]): string {
+  const rows = [columns, ...data.map(point => columns.map(column => point[column].toPrecision(6)))];
+  const widths = columns.map((_, j) => Math.max(...rows.map(row => row[j].length)));
+  return rows.map(row => row.map((cell, j) => cell.padStart(widths[j])).join('  ')).join('\n') + '\n';
+}
+
+// 表に出す列（CSV / JSON は Web の書き出しと同じ全列）
+const TABLE_COLUMNS: Record<string, string[]> = {
+  neutron: ['wavelength', 'energy', 'neutronPolarization', 'neutronTransmission', 'figureOfMerit'],
+  decay: ['time', 'he3Polarization', 'neutronPolarization', 'neutronTransmission', 'figureOfMerit']
+};
+
+// 系列名（Web の書き出しのファイル名と同じ）
+const SERIES: Record<string, string> = {
+  neutron: 'neutron_polarization',
+  decay: 'he3_polarization'
+};
+
+// コマンドを実行して標準出力に書く文字列を返す（引数の誤りは Error を投げる）
+export function runCommand(argv: string[], readFile: (path: string) => string): string {
+  const { command, options } = parseArguments(argv);
+  if (options.help !== undefined || command === undefined || command === 'help') return USAGE;
+  if (command !== 'neutron' && command !== 'decay') throw new Error(`Unknown command: ${command}`);
+  checkOptions(command, options);
+
+  const params = toParams(options, readFile);
+  const data = command === 'neutron' ? neutronData(options, params) : decayData(options, params);
+  const columns = params.windowParams.enabled
+    ? [...TABLE_COLUMNS[command], 'windowTransmission']
+    : TABLE_COLUMNS[command];
+
+  switch (options.format ?? 'table') {
+    case 'table':
+      return formatDataTable(data, columns);
+    case 'csv':
+      return formatDataCsv(SERIES[command], data, params);
+    case 'json':
+      return formatDataJson(SERIES[command], data, params) + '\n';
+    default:
+      throw new Error(`Unknown format: ${options.format}`);
+  }
+}
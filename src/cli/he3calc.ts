@@ -0,0 +1,13 @@
+import { readFileSync } from 'fs';
+import { runCommand } from './commands';
+
+// he3calc：Web ツールと同じ計算をバッチ処理から使うためのコマンドライン版
+//   npm run build:cli で dist/he3calc.js にまとめる
+
+try {
+  process.stdout.write(runCommand(process.argv.slice(2), path => readFileSync(path, 'utf8')));
+} catch (error) {
+  process.stderr.write(`he3calc: ${error instanceof Error ? error.message : String(error)}\n`);
+  process.stderr.write('Run "he3calc --help" for usage.\n');
+  process.exitCode = 1;
+}
@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import {
+  calculateEffectiveRelaxationTime,
+  calculateFlipFactor,
+  countFlipTimes,
+  countFlips,
+  isValidLossPerFlip,
+  listFlipTimes
+} from './afp';
+import type { AfpParams } from './afp';
+
+const everyHalfHour: AfpParams = { schedule: { type: 'interval', interval: 30 }, lossPerFlip: 1 };
+
+describe('反転スケジュール', () => {
+  it('一定間隔：t = interval から数える', () => {
+    expect(countFlips(everyHalfHour.schedule, 0)).toBe(0);
+    expect(countFlips(everyHalfHour.schedule, 0.49)).toBe(0);
+    expect(countFlips(everyHalfHour.schedule, 0.5)).toBe(1);
+    expect(countFlips(everyHalfHour.schedule, 2.2)).toBe(4);
+    expect(listFlipTimes(everyHalfHour.schedule, 0.5, 2)).toEqual([1, 1.5, 2]);
+  });
+
+  it('半端な間隔とポンピング後の開始でも反転時刻ちょうどで反転後と数える', () => {
+    for (const interval of [7, 13, 17, 45]) {
+      const schedule = { type: 'interval' as const, interval };
+      const flipTimes = listFlipTimes(schedule, 0, 100);
+      flipTimes.forEach((flipTime, i) => {
+        expect(countFlips(schedule, flipTime)).toBe(i + 1);
+        const decayStart = 24;  // ポンピング 24 h の後から減衰（グラフの時刻から戻すときの丸め誤差）
+        expect(countFlips(schedule, (decayStart + flipTime) - decayStart)).toBe(i + 1);
+        expect(countFlips(schedule, flipTime - 1e-6)).toBe(i);
+      });
+    }
+  });
+
+  it('一覧：区間内の時刻だけを昇順で返す', () => {
+    const schedule = { type: 'list' as const, times: [5, 1, 3] };
+    expect(listFlipTimes(schedule, 0, 4)).toEqual([1, 3]);
+    expect(countFlips(schedule, 3)).toBe(2);
+  });
+});
+
+describe('countFlipTimes', () => {
+  it('listFlipTimes の長さと一致する', () => {
+    for (const schedule of [
+      { type: 'interval' as const, interval: 30 },
+      { type: 'interval' as const, interval: 17 },
+      { type: 'list' as const, times: [5, 1, 3] }
+    ]) {
+      for (const [start, end] of [[0, 4], [0.5, 2], [-3, 10], [2.2, 2.3], [5, 1]]) {
+        expect(countFlipTimes(schedule, start, end)).toBe(listFlipTimes(schedule, start, end).length);
+      }
+    }
+  });
+
+  it('反転が非常に多くても一覧を作らずに数える', () => {
+    expect(countFlipTimes({ type: 'interval', interval: 0.0001 }, 0, 100)).toBeCloseTo(6e7, -1);
+    expect(countFlipTimes({ type: 'interval', interval: 0 }, 0, 100)).toBe(0);
+  });
+});
+
+describe('isValidLossPerFlip', () => {
+  it('0 以上 100 % 未満だけを受け付ける', () => {
+    expect(isValidLossPerFlip(0)).toBe(true);
+    expect(isValidLossPerFlip(99.9)).toBe(true);
+    expect(isValidLossPerFlip(100)).toBe(false);
+    expect(isValidLossPerFlip(-1)).toBe(false);
+    expect(isValidLossPerFlip(NaN)).toBe(false);
+  });
+});
+
+describe('calculateFlipFactor', () => {
+  it('n 回の反転で (1 − loss)^n、奇数回で符号が反転', () => {
+    expect(calculateFlipFactor(everyHalfHour, 1.5)).toEqual({ factor: 0.99 ** 3, sign: -1 });
+    expect(calculateFlipFactor(everyHalfHour, 2).sign).toBe(1);
+  });
+});
+
+describe('calculateEffectiveRelaxationTime', () => {
+  it('反転がなければ T1 のまま', () => {
+    expect(calculateEffectiveRelaxationTime(100, { ...everyHalfHour, lossPerFlip: 0 }, 24)).toBeCloseTo(100, 10);
+  });
+
+  it('1/T1_eff = 1/T1 − 2 ln(0.99)（30 分ごと）', () => {
+    const expected = 1 / (1 / 100 - 2 * Math.log(0.99));
+    expect(calculateEffectiveRelaxationTime(100, everyHalfHour, 24)).toBeCloseTo(expected, 10);
+  });
+
+  it('一覧の場合は期間内の平均頻度を使う', () => {
+    const afp: AfpParams = { schedule: { type: 'list', times: [1, 2, 3, 4] }, lossPerFlip: 1 };
+    const expected = 1 / (1 / 100 - Math.log(0.99) * 4 / 8);
+    expect(calculateEffectiveRelaxationTime(100, afp, 8)).toBeCloseTo(expected, 10);
+  });
+});
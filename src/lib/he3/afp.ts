@@ -0,0 +1,70 @@
+// AFP（断熱高速通過）NMR による He-3 スピン反転の損失
+//   反転のたびに偏極度が lossPerFlip だけ失われ、符号が反転する
+//   P(t) = P0 exp(−t/T1)·(1 − loss)^n(t)、n(t) は時刻 t までの反転回数
+
+// 反転のスケジュール
+export type FlipSchedule =
+  | { type: 'interval'; interval: number }  // 一定間隔（分）。最初の反転は t = interval
+  | { type: 'list'; times: number[] };      // 反転時刻の一覧（h）
+
+// AFP のパラメータ
+export interface AfpParams {
+  schedule: FlipSchedule;
+  lossPerFlip: number;  // 1 回の反転で失う偏極度の割合（%）
+}
+
+// 1 回の反転の損失として使える値（0 以上 100 % 未満。100 % 以上は T1_eff = 0、負は利得になる）
+export function isValidLossPerFlip(lossPerFlip: number): boolean {
+  return lossPerFlip >= 0 && lossPerFlip < 100;
+}
+
+// 区間 (start, end] に含まれる反転の回数（時刻の一覧は作らない）
+export function countFlipTimes(schedule: FlipSchedule, start: number, end: number): number {
+  if (schedule.type === 'list') return schedule.times.filter(time => time > start && time <= end).length;
+  if (!(schedule.interval > 0)) return 0;
+  const interval = schedule.interval / 60;  // 分 → h
+  return Math.max(0, Math.floor(end / interval) - Math.max(0, Math.floor(start / interval)));
+}
+
+// 区間 (start, end] に含まれる反転時刻（h、昇順）
+export function listFlipTimes(schedule: FlipSchedule, start: number, end: number): number[] {
+  if (schedule.type === 'list') {
+    return schedule.times.filter(time => time > start && time <= end).sort((a, b) => a - b);
+  }
+  if (!(schedule.interval > 0)) return [];
+  const interval = schedule.interval / 60;  // 分 → h
+  const times: number[] = [];
+  for (let n = Math.max(1, Math.floor(start / interval) + 1); n * interval <= end; n++) {
+    times.push(n * interval);
+  }
+  return times;
+}
+
+// 反転時刻の判定の許容幅（h）。反転時刻ちょうどで丸め誤差により反転前と数えないため
+const FLIP_TIME_TOLERANCE = 1e-9;
+
+// 時刻 t（h）までの反転回数（listFlipTimes と同じ n·interval の格子で数える）
+export function countFlips(schedule: FlipSchedule, time: number): number {
+  const limit = time + FLIP_TIME_TOLERANCE;
+  if (schedule.type === 'list') return schedule.times.filter(flip => flip > 0 && flip <= limit).length;
+  return schedule.interval > 0 && limit > 0 ? Math.floor(limit / (schedule.interval / 60)) : 0;
+}
+
+// 反転損失による偏極度の残存率（0–1）と符号
+export function calculateFlipFactor(afp: AfpParams, time: number): { factor: number; sign: 1 | -1 } {
+  const flips = countFlips(afp.schedule, time);
+  return {
+    factor: Math.pow(1 - afp.lossPerFlip / 100, flips),
+    sign: flips % 2 === 0 ? 1 : -1
+  };
+}
+
+// 反転損失を含めた実効緩和時間（h）
+//   1/T1_eff = 1/T1 − ln(1 − loss)·(反転頻度)。一覧の場合は duration（h）あたりの反転回数で平均する
+export function calculateEffectiveRelaxationTime(relaxationTime: number, afp: AfpParams, duration: number): number {
+  const flipsPerHour = afp.schedule.type === 'interval'
+    ? (afp.schedule.interval > 0 ? 60 / afp.schedule.interval : 0)
+    : (duration > 0 ? countFlips(afp.schedule, duration) / duration : 0);
+  const flipRate = -Math.log(1 - afp.lossPerFlip / 100) * flipsPerHour;  // 1/h
+  return 1 / (1 / relaxationTime + flipRate);
+}
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import {
+  calculateCellTransmission,
+  fitGasThickness,
+  fitHe3Polarization,
+  parseTransmissionSpectrum
+} from './characterization';
+import type { TransmissionPoint } from './characterization';
+import { calculateNeutronTransmission } from './neutron';
+import { WINDOW_MATERIALS } from './window';
+
+const wavelengths = [1, 2, 3, 4, 5, 6, 7, 8];
+const window = { ...WINDOW_MATERIALS.GE180, thickness: 0.4 };
+
+// 厚さ 12 amg·cm、P_He = 65 % のセルの模擬スペクトル
+function synthetic(he3Polarization: number, withWindow: boolean = false): TransmissionPoint[] {
+  return wavelengths.map(wavelength => ({
+    wavelength,
+    transmission: calculateCellTransmission(wavelength, 12, he3Polarization, withWindow ? window : undefined),
+    uncertainty: 0.1
+  }));
+}
+
+describe('parseTransmissionSpectrum', () => {
+  it('誤差の列は省略可、λ 順に並べ替える', () => {
+    const points = parseTransmissionSpectrum('lambda,T,dT\n4,20,0.2\n2,40\n');
+    expect(points).toEqual([
+      { wavelength: 2, transmission: 40, uncertainty: 0 },
+      { wavelength: 4, transmission: 20, uncertainty: 0.2 }
+    ]);
+  });
+});
+
+describe('calculateCellTransmission', () => {
+  it('窓なしでは calculateNeutronTransmission と一致', () => {
+    expect(calculateCellTransmission(4, 12, 65)).toBeCloseTo(calculateNeutronTransmission(4, 0.65, 12), 12);
+  });
+});
+
+describe('fitGasThickness', () => {
+  it('非偏極スペクトルから厚さを再現', () => {
+    const fit = fitGasThickness(synthetic(0))!;
+    expect(fit.value).toBeCloseTo(12, 6);
+    expect(fit.chiSquared).toBeCloseTo(0, 8);
+    expect(fit.degreesOfFreedom).toBe(wavelengths.length - 1);
+  });
+
+  it('窓の減衰を含めても厚さを再現', () => {
+    expect(fitGasThickness(synthetic(0, true), window)!.value).toBeCloseTo(12, 6);
+  });
+});
+
+describe('fitHe3Polarization', () => {
+  it('偏極スペクトルから P_He を再現', () => {
+    const fit = fitHe3Polarization(synthetic(65), 12)!;
+    expect(fit.value).toBeCloseTo(65, 5);
+    expect(fit.error).toBeGreaterThan(0);
+  });
+
+  it('点が足りなければ null', () => {
+    expect(fitHe3Polarization(synthetic(65).slice(0, 1), 12)).toBeNull();
+  });
+});
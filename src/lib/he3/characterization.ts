@@ -0,0 +1,132 @@
+import { calculateCommonFactors, calculateNeutronTransmission } from './neutron';
+import { DEFAULT_CROSS_SECTION_SETTINGS } from './crossSection';
+import type { CrossSectionSettings } from './crossSection';
+import { calculateWindowTransmission } from './window';
+import type { WindowModel } from './window';
+import { parseNumericTable } from './table';
+import { fitLeastSquares } from './leastSquares';
+
+// 波長分解した透過率スペクトルからのセル評価
+//   1. 非偏極セルの透過率 T = exp(−nσ(λ)d) からガス厚さ d をフィット
+//   2. 偏極セルの透過率 T = exp(−nσ(λ)d) cosh(nσ(λ)d P_He) から P_He をフィット（d は 1 の結果を使う）
+//   いずれもセル窓の減衰（任意）を掛けたモデルで評価する
+
+// 透過率スペクトル1点分
+export interface TransmissionPoint {
+  wavelength: number;    // 波長（Å）
+  transmission: number;  // 透過率（%）
+  uncertainty: number;   // 1σ 誤差（%）。0 以下は誤差なし扱い
+}
+
+// 波長ごとの残差
+export interface TransmissionResidual {
+  wavelength: number;          // 波長（Å）
+  measured: number;            // 測定値（%）
+  fitted: number;              // フィット値（%）
+  residual: number;            // 測定値 − フィット値（%）
+  normalizedResidual: number;  // 残差 / σ
+}
+
+// 1 パラメータフィットの結果
+export interface TransmissionFitResult {
+  value: number;               // フィット値（ガス厚さ amg·cm または He-3 偏極度 %）
+  error: number;               // 1σ 誤差（value と同じ単位）
+  chiSquared: number;          // χ²
+  degreesOfFreedom: number;    // 自由度（点数 − 1）
+  reducedChiSquared: number;   // χ² / 自由度
+  weighted: boolean;           // 誤差で重み付けしたか
+  residuals: TransmissionResidual[];
+}
+
+// 透過率スペクトル（λ, T, σT）の読み込み。T, σT は % で与える
+//   誤差の列は省略可（省略時は 0 = 誤差なし）
+export function parseTransmissionSpectrum(text: string): TransmissionPoint[] {
+  return parseNumericTable(text, 2)
+    .map(([wavelength, transmission, uncertainty]) => ({
+      wavelength,
+      transmission,
+      uncertainty: Number.isFinite(uncertainty) ? uncertainty : 0
+    }))
+    .filter(point => point.wavelength > 0 && point.transmission > 0)
+    .sort((a, b) => a.wavelength - b.wavelength);
+}
+
+// セル（ガス＋窓）の透過率（%）。he3Polarization は %
+export function calculateCellTransmission(
+  wavelength: number,
+  gasThickness: number,
+  he3Polarization: number,
+  window?: WindowModel,
+  crossSection: CrossSectionSettings = DEFAULT_CROSS_SECTION_SETTINGS
+): number {
+  const transmission = calculateNeutronTransmission(wavelength, he3Polarization / 100, gasThickness, crossSection);
+  return window ? transmission * calculateWindowTransmission(wavelength, window) / 100 : transmission;
+}
+
+// LeastSquaresResult → TransmissionFitResult
+function toFitResult(
+  points: TransmissionPoint[],
+  fit: ReturnType<typeof fitLeastSquares>
+): TransmissionFitResult {
+  return {
+    value: fit.parameters[0],
+    error: fit.errors[0],
+    chiSquared: fit.chiSquared,
+    degreesOfFreedom: fit.degreesOfFreedom,
+    reducedChiSquared: fit.reducedChiSquared,
+    weighted: fit.weighted,
+    residuals: points.map((point, i) => ({
+      wavelength: point.wavelength,
+      measured: point.transmission,
+      fitted: fit.fitted[i],
+      residual: point.transmission - fit.fitted[i],
+      normalizedResidual: (point.transmission - fit.fitted[i]) / fit.sigmas[i]
+    }))
+  };
+}
+
+// 非偏極セルの透過率からガス厚さ（amg·cm）をフィット。点が 2 点未満なら null
+export function fitGasThickness(
+  points: TransmissionPoint[],
+  window?: WindowModel,
+  crossSection: CrossSectionSettings = DEFAULT_CROSS_SECTION_SETTINGS
+): TransmissionFitResult | null {
+  if (points.length < 2) return null;
+
+  // 初期値：−ln(T/T_w) = nσ(λ)·d を原点を通る直線でフィット
+  let sxy = 0;
+  let sxx = 0;
+  for (const point of points) {
+    const windowTransmission = window ? calculateWindowTransmission(point.wavelength, window) / 100 : 1;
+    const x = calculateCommonFactors(point.wavelength, crossSection);
+    sxy += x * -Math.log(point.transmission / 100 / windowTransmission);
+    sxx += x * x;
+  }
+  const initial = Math.max(sxy / sxx, 0.1);
+
+  return toFitResult(points, fitLeastSquares(
+    ([gasThickness], i) => calculateCellTransmission(points[i].wavelength, gasThickness, 0, window, crossSection),
+    points.map(point => point.transmission),
+    points.map(point => point.uncertainty),
+    [initial],
+    ([gasThickness]) => gasThickness > 0
+  ));
+}
+
+// 偏極セルの透過率から He-3 偏極度（%）をフィット。点が 2 点未満なら null
+export function fitHe3Polarization(
+  points: TransmissionPoint[],
+  gasThickness: number,
+  window?: WindowModel,
+  crossSection: CrossSectionSettings = DEFAULT_CROSS_SECTION_SETTINGS
+): TransmissionFitResult | null {
+  if (points.length < 2) return null;
+
+  return toFitResult(points, fitLeastSquares(
+    ([he3Polarization], i) => calculateCellTransmission(points[i].wavelength, gasThickness, he3Polarization, window, crossSection),
+    points.map(point => point.transmission),
+    points.map(point => point.uncertainty),
+    [50],
+    ([he3Polarization]) => he3Polarization >= 0 && he3Polarization <= 100
+  ));
+}
@@ -0,0 +1,14 @@
+// 物理定数
+export const PHYSICAL_CONSTANTS = {
+  V: 22.4e3,             // モル体積 (cm^3/mol) @標準
+  Na: 6.0221409e23,      // アボガドロ数 (/mol)
+  n0: 2.687e19,          // 1 amg あたりの数密度 (/cm^3)（Loschmidt 数 = p0/(kB·T0)）
+  p0: 1.01325,           // 標準圧力 (bar)
+  T0: 273.15,            // 標準温度 (K)
+  kB: 1.380649e-23,      // ボルツマン定数 (J/K)
+  sigma0: 5333,          // 吸収断面積 barn @ λ=1.8Å（スケーリング用）
+  lambda0: 1.8,          // σ0 の基準波長 (Å)
+  barn_to_cm2: 1e-24,    // barn→cm^2 変換
+  energyWavelength: 81.81, // E[meV]·λ^2[Å^2] の換算係数
+  velocityWavelength: 3956.034 // v[m/s]·λ[Å] = h/m_n の換算係数
+};
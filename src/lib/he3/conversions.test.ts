@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { energyToWavelength, tofToWavelength, wavelengthToEnergy, wavelengthToTof } from './conversions';
+
+describe('λ ↔ E 変換', () => {
+  it('熱中性子 1.8 Å は 25.25 meV', () => {
+    expect(wavelengthToEnergy(1.8)).toBeCloseTo(25.25, 6);
+  });
+
+  it('14.7 meV は 2.359 Å', () => {
+    expect(energyToWavelength(14.7)).toBeCloseTo(2.35909, 4);
+  });
+
+  it('往復変換で元の値に戻る', () => {
+    for (const wavelength of [0.5, 1, 4, 10]) {
+      expect(energyToWavelength(wavelengthToEnergy(wavelength))).toBeCloseTo(wavelength, 10);
+    }
+  });
+});
+
+describe('λ ↔ TOF 変換', () => {
+  it('1 Å の中性子は 10 m を 2.528 ms で飛ぶ', () => {
+    expect(wavelengthToTof(1, 10)).toBeCloseTo(2.52779, 4);
+  });
+
+  it('往復変換で元の値に戻る', () => {
+    expect(tofToWavelength(wavelengthToTof(4, 18), 18)).toBeCloseTo(4, 10);
+  });
+
+  it('E = mv^2/2 と整合する（25.25 meV ≈ 2198 m/s）', () => {
+    const velocity = 10 / (wavelengthToTof(energyToWavelength(25.25), 10) * 1e-3);
+    expect(velocity).toBeCloseTo(2197.8, 0);
+  });
+});
@@ -0,0 +1,22 @@
+import { PHYSICAL_CONSTANTS } from './constants';
+
+// 波長 λ (Å) → エネルギー E (meV)：E = 81.81/λ^2
+export function wavelengthToEnergy(wavelength: number): number {
+  return PHYSICAL_CONSTANTS.energyWavelength / (wavelength * wavelength);
+}
+
+// エネルギー E (meV) → 波長 λ (Å)：λ = √(81.81/E)
+export function energyToWavelength(energy: number): number {
+  return Math.sqrt(PHYSICAL_CONSTANTS.energyWavelength / energy);
+}
+
+// 波長 λ (Å) → 飛行時間 TOF (ms)：t = L·λ/(h/m_n)
+//   flightPath … 飛行距離 L (m)
+export function wavelengthToTof(wavelength: number, flightPath: number): number {
+  return flightPath * wavelength / PHYSICAL_CONSTANTS.velocityWavelength * 1e3;
+}
+
+// 飛行時間 TOF (ms) → 波長 λ (Å)：λ = (h/m_n)·t/L
+export function tofToWavelength(tof: number, flightPath: number): number {
+  return PHYSICAL_CONSTANTS.velocityWavelength * tof * 1e-3 / flightPath;
+}
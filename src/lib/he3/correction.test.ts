@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest';
+import {
+  calculateRunAverage,
+  correctPolarizationRuns,
+  formatCorrectedRunsCsv,
+  parsePolarizationRuns,
+  parseTimestamp
+} from './correction';
+import type { AnalyzerCell } from './correction';
+import { calculateSpinFilter } from './neutron';
+
+const cell: AnalyzerCell = { gasThickness: 10, initialPolarization: 70, relaxationTime: 100, referenceTime: 0 };
+
+describe('parseTimestamp', () => {
+  it('数値は h、日時は 1970-01-01 からの h', () => {
+    expect(parseTimestamp('12.5')).toBe(12.5);
+    expect(parseTimestamp('1970-01-02T00:00:00Z')).toBe(24);
+    expect(parseTimestamp('')).toBeNaN();
+  });
+});
+
+describe('parsePolarizationRuns', () => {
+  it('ヘッダー行を飛ばしてランを読む', () => {
+    const runs = parsePolarizationRuns('run,start,stop,nsf,sf\nr1,0,2,1000,50\n');
+    expect(runs).toEqual([{ name: 'r1', start: 0, stop: 2, nonSpinFlipCounts: 1000, spinFlipCounts: 50 }]);
+  });
+});
+
+describe('calculateRunAverage', () => {
+  it('減衰がなければ瞬時値と一致', () => {
+    const stable = { ...cell, relaxationTime: Infinity };
+    const average = calculateRunAverage(stable, 4, 0, 10);
+    const point = calculateSpinFilter(4, 0.7, 10);
+    expect(average.he3Polarization).toBeCloseTo(70, 10);
+    expect(average.transmission).toBeCloseTo(point.neutronTransmission, 10);
+    expect(average.analyzingPower).toBeCloseTo(point.neutronPolarization, 10);
+  });
+
+  it('ラン中の減衰で解析能は開始時より下がる', () => {
+    const average = calculateRunAverage(cell, 4, 0, 24);
+    expect(average.analyzingPower).toBeLessThan(calculateSpinFilter(4, 0.7, 10).neutronPolarization);
+    expect(average.analyzingPower).toBeGreaterThan(calculateSpinFilter(4, 0.7 * Math.exp(-0.24), 10).neutronPolarization);
+  });
+});
+
+describe('correctPolarizationRuns', () => {
+  it('真の強度から作った計数を元に戻す', () => {
+    const stable = { ...cell, relaxationTime: Infinity };
+    const { analyzingPower, transmission } = calculateRunAverage(stable, 4, 0, 1);
+    const e = 0.95 * analyzingPower / 100;
+    const t0 = transmission / 100;
+    const nsf = t0 * ((1 + e) * 10000 + (1 - e) * 500);
+    const sf = t0 * ((1 - e) * 10000 + (1 + e) * 500);
+
+    const [result] = correctPolarizationRuns(
+      [{ name: 'r1', start: 0, stop: 1, nonSpinFlipCounts: nsf, spinFlipCounts: sf }],
+      stable,
+      4,
+      0.95
+    );
+    expect(result.nonSpinFlip).toBeCloseTo(10000, 6);
+    expect(result.spinFlip).toBeCloseTo(500, 6);
+    expect(result.flippingRatio).toBeCloseTo(20, 8);
+    expect(result.measuredFlippingRatio).toBeLessThan(20);
+    expect(result.correctable).toBe(true);
+    expect(result.flippingRatioError).toBeGreaterThan(result.measuredFlippingRatioError);
+  });
+});
+
+describe('correctPolarizationRuns（効率 0）', () => {
+  it('入射ビームが無偏極なら補正できないランとして null を返す', () => {
+    const [result] = correctPolarizationRuns(
+      [{ name: 'r1', start: 0, stop: 1, nonSpinFlipCounts: 1000, spinFlipCounts: 900 }],
+      cell,
+      4,
+      0
+    );
+    expect(result.correctable).toBe(false);
+    expect(result.nonSpinFlip).toBeNull();
+    expect(result.flippingRatio).toBeNull();
+    expect(result.measuredFlippingRatio).toBeCloseTo(1000 / 900, 10);
+
+    const line = formatCorrectedRunsCsv([result]).trim().split('\n')[1];
+    expect(line).not.toMatch(/NaN|Infinity/);
+    expect(line).toContain(',false,');
+  });
+
+  it('偏極していないセルでも補正しない', () => {
+    const [result] = correctPolarizationRuns(
+      [{ name: 'r1', start: 0, stop: 1, nonSpinFlipCounts: 1000, spinFlipCounts: 900 }],
+      { ...cell, initialPolarization: 0 },
+      4
+    );
+    expect(result.correctable).toBe(false);
+  });
+});
+
+describe('formatCorrectedRunsCsv', () => {
+  it('ヘッダー＋ラン数の行', () => {
+    const results = correctPolarizationRuns(
+      [{ name: 'a,b', start: 0, stop: 1, nonSpinFlipCounts: 1000, spinFlipCounts: 100 }],
+      cell,
+      4
+    );
+    const lines = formatCorrectedRunsCsv(results).trim().split('\n');
+    expect(lines).toHaveLength(2);
+    expect(lines[0].startsWith('name,start,stop')).toBe(true);
+    expect(lines[1].startsWith('"a,b",0,1,1000,100')).toBe(true);
+  });
+});
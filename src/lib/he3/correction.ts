@@ -0,0 +1,204 @@
+import { calculateHe3Decay } from './decay';
+import { calculateSpinFilter } from './neutron';
+import { DEFAULT_CROSS_SECTION_SETTINGS } from './crossSection';
+import type { CrossSectionSettings } from './crossSection';
+
+// 偏極解析データの補正（アナライザーセルの効率の時間変化を考慮）
+//   アナライザーを通過した計数は、スピンフリップ（SF）・非スピンフリップ（NSF）の真の強度 I を用いて
+//     N_NSF = T0 [(1 + e) I_NSF + (1 − e) I_SF]
+//     N_SF  = T0 [(1 − e) I_NSF + (1 + e) I_SF]
+//   と書ける（e = P_pol · A、A = tanh(nσdP_He) はアナライザーの解析能、T0 は非偏極中性子の透過率）。
+//   ラン中は P_He が減衰するので、計数に効く ⟨T0⟩ と ⟨T0·A⟩/⟨T0⟩ をラン時間で平均して用いる。
+
+// アナライザーセル
+export interface AnalyzerCell {
+  gasThickness: number;         // ガス厚さ（amg·cm）
+  initialPolarization: number;  // 基準時刻での He-3 偏極度 P0（%）
+  relaxationTime: number;       // 緩和時定数 T1（h）
+  referenceTime: number;        // P0 を測った時刻（h、ランの時刻と同じ時計）
+}
+
+// 測定ラン1つ分
+export interface PolarizationRun {
+  name: string;                // ラン名
+  start: number;               // 開始時刻（h）
+  stop: number;                // 終了時刻（h）
+  nonSpinFlipCounts: number;   // NSF 計数
+  spinFlipCounts: number;      // SF 計数
+}
+
+// ラン中のアナライザー平均
+export interface RunAverage {
+  he3Polarization: number;  // ⟨P_He⟩（%）
+  transmission: number;     // ⟨T0⟩（%）
+  analyzingPower: number;   // ⟨T0·A⟩/⟨T0⟩（%）
+}
+
+// 補正結果（計数はアナライザーの透過と効率を補正した値）
+//   効率 e がほぼ 0（入射ビームやセルが無偏極）のランは補正できないため correctable = false、補正値は null
+export interface CorrectedRun extends PolarizationRun, RunAverage {
+  efficiency: number;                   // e = P_pol·⟨A⟩（%）
+  correctable: boolean;                 // 補正できたか
+  nonSpinFlip: number | null;           // 補正後の NSF 強度
+  nonSpinFlipError: number | null;
+  spinFlip: number | null;              // 補正後の SF 強度
+  spinFlipError: number | null;
+  measuredFlippingRatio: number;        // 補正前の N_NSF / N_SF
+  measuredFlippingRatioError: number;
+  flippingRatio: number | null;         // 補正後の I_NSF / I_SF
+  flippingRatioError: number | null;
+}
+
+// これより小さい効率 e（割合）では補正しない（1/e で計数の誤差が発散する）
+const MIN_EFFICIENCY = 1e-3;
+
+// 時刻の読み込み：数値は h、それ以外は日時文字列として 1970-01-01 からの h に直す（不正なら NaN）
+export function parseTimestamp(text: string): number {
+  const trimmed = text.trim();
+  if (trimmed === '') return NaN;
+  const numeric = Number(trimmed);
+  return Number.isFinite(numeric) ? numeric : Date.parse(trimmed) / 3.6e6;
+}
+
+// ラン一覧 CSV（ラン名, 開始, 終了, NSF 計数, SF 計数）の読み込み
+//   空行、'#' で始まる行、時刻・計数が読めない行（ヘッダー行など）は無視
+export function parsePolarizationRuns(text: string): PolarizationRun[] {
+  const runs: PolarizationRun[] = [];
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (line === '' || line.startsWith('#')) continue;
+
+    const cells = line.split(/[,;\t]/).map(cell => cell.trim());
+    if (cells.length < 5) continue;
+
+    const run = {
+      name: cells[0],
+      start: parseTimestamp(cells[1]),
+      stop: parseTimestamp(cells[2]),
+      nonSpinFlipCounts: Number(cells[3]),
+      spinFlipCounts: Number(cells[4])
+    };
+    if ([run.start, run.stop, run.nonSpinFlipCounts, run.spinFlipCounts].some(value => !Number.isFinite(value))) continue;
+    runs.push(run);
+  }
+  return runs;
+}
+
+// ラン中（start〜stop）のアナライザーの平均（台形積分）
+export function calculateRunAverage(
+  cell: AnalyzerCell,
+  wavelength: number,
+  start: number,
+  stop: number,
+  numSteps: number = 100,
+  crossSection: CrossSectionSettings = DEFAULT_CROSS_SECTION_SETTINGS
+): RunAverage {
+  const steps = stop > start ? numSteps : 0;
+  let sumPolarization = 0;
+  let sumTransmission = 0;
+  let sumWeightedPower = 0;
+  let sumWeights = 0;
+
+  for (let i = 0; i <= steps; i++) {
+    const time = steps > 0 ? start + (stop - start) * i / steps : start;
+    const weight = steps > 0 && (i === 0 || i === steps) ? 0.5 : 1;  // 台形則の重み
+    const he3Polarization = calculateHe3Decay(cell.initialPolarization, cell.relaxationTime, time - cell.referenceTime);
+    const { neutronPolarization, neutronTransmission } = calculateSpinFilter(
+      wavelength,
+      he3Polarization / 100,
+      cell.gasThickness,
+      crossSection
+    );
+    sumPolarization += weight * he3Polarization;
+    sumTransmission += weight * neutronTransmission;
+    sumWeightedPower += weight * neutronTransmission * neutronPolarization;
+    sumWeights += weight;
+  }
+
+  return {
+    he3Polarization: sumPolarization / sumWeights,
+    transmission: sumTransmission / sumWeights,
+    analyzingPower: sumWeightedPower / sumTransmission
+  };
+}
+
+// 各ランを補正（誤差は計数の統計誤差 √N を伝播）
+//   polarizerPolarization … 入射ビームの偏極度（0–1）
+export function correctPolarizationRuns(
+  runs: PolarizationRun[],
+  cell: AnalyzerCell,
+  wavelength: number,
+  polarizerPolarization: number = 1,
+  crossSection: CrossSectionSettings = DEFAULT_CROSS_SECTION_SETTINGS
+): CorrectedRun[] {
+  return runs.map(run => {
+    const average = calculateRunAverage(cell, wavelength, run.start, run.stop, undefined, crossSection);
+    const efficiency = polarizerPolarization * average.analyzingPower / 100;  // e
+    const transmission = average.transmission / 100;                          // T0
+    const nsf = run.nonSpinFlipCounts;
+    const sf = run.spinFlipCounts;
+    const measuredFlippingRatio = nsf / sf;
+    const measured = {
+      ...run,
+      ...average,
+      efficiency: efficiency * 100,
+      measuredFlippingRatio,
+      measuredFlippingRatioError: measuredFlippingRatio * Math.sqrt(1 / nsf + 1 / sf)
+    };
+    if (!(Math.abs(efficiency) >= MIN_EFFICIENCY) || !(transmission > 0)) {
+      return {
+        ...measured,
+        correctable: false,
+        nonSpinFlip: null,
+        nonSpinFlipError: null,
+        spinFlip: null,
+        spinFlipError: null,
+        flippingRatio: null,
+        flippingRatioError: null
+      };
+    }
+
+    // I = a·N_自 − b·N_他
+    const a = (1 + efficiency) / (4 * efficiency * transmission);
+    const b = (1 - efficiency) / (4 * efficiency * transmission);
+    const nonSpinFlip = a * nsf - b * sf;
+    const spinFlip = a * sf - b * nsf;
+    const nonSpinFlipError = Math.sqrt(a * a * nsf + b * b * sf);
+    const spinFlipError = Math.sqrt(a * a * sf + b * b * nsf);
+    const covariance = -a * b * (nsf + sf);  // Cov(I_NSF, I_SF)
+
+    const flippingRatio = nonSpinFlip / spinFlip;
+    return {
+      ...measured,
+      correctable: true,
+      nonSpinFlip,
+      nonSpinFlipError,
+      spinFlip,
+      spinFlipError,
+      flippingRatio,
+      flippingRatioError: Math.abs(flippingRatio) * Math.sqrt(
+        (nonSpinFlipError / nonSpinFlip) ** 2
+        + (spinFlipError / spinFlip) ** 2
+        - 2 * covariance / (nonSpinFlip * spinFlip)
+      )
+    };
+  });
+}
+
+// 補正結果の CSV（1 行目はヘッダー。補正できないランの補正値は空欄）
+export function formatCorrectedRunsCsv(results: CorrectedRun[]): string {
+  const columns: (keyof CorrectedRun)[] = [
+    'name', 'start', 'stop', 'nonSpinFlipCounts', 'spinFlipCounts',
+    'he3Polarization', 'transmission', 'analyzingPower', 'efficiency', 'correctable',
+    'nonSpinFlip', 'nonSpinFlipError', 'spinFlip', 'spinFlipError',
+    'measuredFlippingRatio', 'measuredFlippingRatioError', 'flippingRatio', 'flippingRatioError'
+  ];
+  const escape = (value: string | number | boolean | null) => {
+    const text = value === null ? '' : String(value);
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  return [
+    columns.join(','),
+    ...results.map(result => columns.map(column => escape(result[column])).join(','))
+  ].join('\n') + '\n';
+}
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DEFAULT_CROSS_SECTION_SETTINGS,
+  calculateCrossSection,
+  isValidCrossSectionTable,
+  parseCrossSectionTable
+} from './crossSection';
+import { calculateCommonFactors } from './neutron';
+import { wavelengthToEnergy } from './conversions';
+
+const settings = DEFAULT_CROSS_SECTION_SETTINGS;
+
+describe('calculateCrossSection', () => {
+  it('linear：1.8 Å で σ0、波長に比例', () => {
+    expect(calculateCrossSection(1.8, settings)).toBeCloseTo(5333, 10);
+    expect(calculateCrossSection(3.6, settings)).toBeCloseTo(2 * 5333, 10);
+  });
+
+  it('exact：2200 m/s（λ ≈ 1.798 Å）で σ0', () => {
+    const exact = { ...settings, model: { type: 'exact' as const } };
+    expect(calculateCrossSection(3956.034 / 2200, exact)).toBeCloseTo(5333, 8);
+    expect(calculateCrossSection(1.8, exact) / calculateCrossSection(1.8, settings)).toBeCloseTo(1.8 / (3956.034 / 2200), 10);
+  });
+
+  it('table：1/v のテーブルは両対数補間で厳密に再現し、範囲外も 1/v で外挿', () => {
+    const points = [1, 10, 100].map(energy => ({ energy, crossSection: 1000 / Math.sqrt(energy) }));
+    const table = { ...settings, model: { type: 'table' as const, points } };
+    for (const wavelength of [1, 4, 20]) {  // 81.8, 5.1, 0.2 meV
+      expect(calculateCrossSection(wavelength, table)).toBeCloseTo(1000 / Math.sqrt(wavelengthToEnergy(wavelength)), 8);
+    }
+  });
+});
+
+describe('parseCrossSectionTable', () => {
+  it('E の単位を換算し、エネルギー順に並べる', () => {
+    expect(parseCrossSectionTable('# E(eV) sigma\n0.1, 300\n0.0253 5333\nbad\n', 1000)).toEqual([
+      { energy: 25.3, crossSection: 5333 },
+      { energy: 100, crossSection: 300 }
+    ]);
+  });
+
+  it('同じ E の行は最初の行だけを使い、読み込んだ結果は有効なテーブルになる', () => {
+    const points = parseCrossSectionTable('1 100\n10 30\n1 999\n100 10\n');
+    expect(points).toEqual([
+      { energy: 1, crossSection: 100 },
+      { energy: 10, crossSection: 30 },
+      { energy: 100, crossSection: 10 }
+    ]);
+    expect(isValidCrossSectionTable(points.map(point => point.energy), points.map(point => point.crossSection))).toBe(true);
+  });
+});
+
+describe('isValidCrossSectionTable', () => {
+  it('2 点以上・同じ長さ・正・E が狭義の昇順のときだけ有効', () => {
+    expect(isValidCrossSectionTable([1, 10], [100, 30])).toBe(true);
+    expect(isValidCrossSectionTable([1], [100])).toBe(false);
+    expect(isValidCrossSectionTable([1, 10], [100])).toBe(false);
+    expect(isValidCrossSectionTable([1, 1], [100, 30])).toBe(false);
+    expect(isValidCrossSectionTable([10, 1], [30, 100])).toBe(false);
+    expect(isValidCrossSectionTable([0, 10], [100, 30])).toBe(false);
+    expect(isValidCrossSectionTable([1, 10], [100, 0])).toBe(false);
+  });
+});
+
+describe('断面積の設定の受け渡し', () => {
+  it('calculateCommonFactors が渡された定数を使う', () => {
+    const custom = { ...settings, numberDensity: 2 * settings.numberDensity, sigma0: 5000 };
+    expect(calculateCommonFactors(1.8, custom) / calculateCommonFactors(1.8)).toBeCloseTo(2 * 5000 / 5333, 10);
+  });
+
+  it('省略時は既定の設定で計算する', () => {
+    expect(calculateCommonFactors(1.8)).toBe(calculateCommonFactors(1.8, DEFAULT_CROSS_SECTION_SETTINGS));
+    expect(calculateCrossSection(1.8)).toBe(calculateCrossSection(1.8, DEFAULT_CROSS_SECTION_SETTINGS));
+  });
+});
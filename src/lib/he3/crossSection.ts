@@ -0,0 +1,83 @@
+import { PHYSICAL_CONSTANTS } from './constants';
+import { wavelengthToEnergy } from './conversions';
+import { parseNumericTable } from './table';
+
+// He-3 の吸収断面積モデルと数密度（calculateCommonFactors などに引数で渡す。省略時は既定の 1/v 近似）
+
+// 断面積テーブルの1点
+export interface CrossSectionPoint {
+  energy: number;        // エネルギー（meV）
+  crossSection: number;  // 吸収断面積（barn）
+}
+
+// 断面積モデル
+export type CrossSectionModel =
+  | { type: 'linear' }                              // σ = σ0·(λ/λ0)（従来の 1/v 近似）
+  | { type: 'exact' }                               // σ = σ0·(2200 m/s / v)（σ0 は 2200 m/s での値）
+  | { type: 'table'; points: CrossSectionPoint[] }; // 読み込んだ σ(E) の両対数補間
+
+// 断面積の設定（モデル＋定数）
+export interface CrossSectionSettings {
+  model: CrossSectionModel;
+  sigma0: number;         // 基準の吸収断面積（barn）
+  lambda0: number;        // σ0 の基準波長（Å、linear のみ）
+  numberDensity: number;  // 1 amg あたりの数密度（/cm^3）
+}
+
+// 熱中性子の基準速度（m/s）
+export const THERMAL_VELOCITY = 2200;
+
+export const DEFAULT_CROSS_SECTION_SETTINGS: CrossSectionSettings = {
+  model: { type: 'linear' },
+  sigma0: PHYSICAL_CONSTANTS.sigma0,
+  lambda0: PHYSICAL_CONSTANTS.lambda0,
+  numberDensity: PHYSICAL_CONSTANTS.n0
+};
+
+// テーブルの両対数補間（範囲外は端の点から 1/v 則 σ ∝ E^{-1/2} で外挿）
+function interpolateCrossSection(points: CrossSectionPoint[], energy: number): number {
+  if (points.length === 0) return 0;
+  const first = points[0];
+  const last = points[points.length - 1];
+  if (energy <= first.energy) return first.crossSection * Math.sqrt(first.energy / energy);
+  if (energy >= last.energy) return last.crossSection * Math.sqrt(last.energy / energy);
+
+  let hi = 1;
+  while (hi < points.length - 1 && points[hi].energy < energy) hi++;
+  const lo = points[hi - 1];
+  const upper = points[hi];
+  if (upper.energy === lo.energy) return lo.crossSection;
+  const fraction = Math.log(energy / lo.energy) / Math.log(upper.energy / lo.energy);
+  return lo.crossSection * Math.pow(upper.crossSection / lo.crossSection, fraction);
+}
+
+// 波長 λ（Å）での吸収断面積（barn）
+export function calculateCrossSection(wavelength: number, settings: CrossSectionSettings = DEFAULT_CROSS_SECTION_SETTINGS): number {
+  switch (settings.model.type) {
+    case 'linear':
+      return settings.sigma0 * (wavelength / settings.lambda0);
+    case 'exact':  // v = 3956/λ（m/s）
+      return settings.sigma0 * THERMAL_VELOCITY * wavelength / PHYSICAL_CONSTANTS.velocityWavelength;
+    case 'table':
+      return interpolateCrossSection(settings.model.points, wavelengthToEnergy(wavelength));
+  }
+}
+
+// 補間に使えるテーブルか（E と σ が同じ長さで 2 点以上、どちらも正、E が狭義の昇順）
+//   読み込み・パーマリンク・CLI で同じ条件を使う
+export function isValidCrossSectionTable(energies: number[], crossSections: number[]): boolean {
+  return energies.length >= 2
+    && energies.length === crossSections.length
+    && energies.every((energy, i) => energy > 0 && (i === 0 || energy > energies[i - 1]))
+    && crossSections.every(crossSection => crossSection > 0);
+}
+
+// 2列テーブル（E, σ[barn]）を読み込み、エネルギーの昇順に並べる
+//   energyScale … E の列を meV に直す倍率（eV なら 1000）。E, σ が正でない行と、同じ E の2行目以降は無視
+export function parseCrossSectionTable(text: string, energyScale: number = 1): CrossSectionPoint[] {
+  return parseNumericTable(text)
+    .map(([energy, crossSection]) => ({ energy: energy * energyScale, crossSection }))
+    .filter(point => point.energy > 0 && point.crossSection > 0)
+    .sort((a, b) => a.energy - b.energy)
+    .filter((point, i, points) => i === 0 || point.energy > points[i - 1].energy);
+}
@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { calculateHe3Decay, calculateCellPolarization, calculatePolarizationDropTime } from './decay';
+import { calculateNeutronPolarization } from './neutron';
+
+describe('calculateHe3Decay', () => {
+  it('t = 0 で P0 を返す', () => {
+    expect(calculateHe3Decay(70, 100, 0)).toBe(70);
+  });
+
+  it('t = T1 で P0/e になる', () => {
+    expect(calculateHe3Decay(70, 100, 100)).toBeCloseTo(70 / Math.E, 10);
+  });
+
+  it('半減期 T1·ln2 で P0/2 になる', () => {
+    expect(calculateHe3Decay(80, 200, 200 * Math.LN2)).toBeCloseTo(40, 10);
+  });
+});
+
+describe('calculatePolarizationDropTime', () => {
+  const cell = { gasThickness: 10, initialPolarization: 70, relaxationTime: 100 };
+
+  it('求めた時刻で Pn が 10% 下がっている', () => {
+    const time = calculatePolarizationDropTime(4, cell);
+    const pn = (t: number) => calculateNeutronPolarization(4, calculateCellPolarization(cell, t) / 100, cell.gasThickness);
+    expect(pn(time)).toBeCloseTo(0.9 * pn(0), 10);
+  });
+
+  it('Pn が飽和しているほど長くなる', () => {
+    expect(calculatePolarizationDropTime(8, cell)).toBeGreaterThan(calculatePolarizationDropTime(2, cell));
+  });
+});
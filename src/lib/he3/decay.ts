@@ -0,0 +1,37 @@
+import { calculateCommonFactors } from './neutron';
+import { DEFAULT_CROSS_SECTION_SETTINGS } from './crossSection';
+import type { CrossSectionSettings } from './crossSection';
+
+// He-3 偏極度の緩和 P(t) = P0 exp(-t/T1)
+//   initialPolarization … 初期偏極度 P0（単位は任意、戻り値も同じ単位）
+//   relaxationTime      … 緩和時定数 T1（時間）
+//   time                … 経過時間（時間、T1 と同じ単位）
+export function calculateHe3Decay(initialPolarization: number, relaxationTime: number, time: number): number {
+  return initialPolarization * Math.exp(-time / relaxationTime);
+}
+
+// He-3 セルの型定義
+export interface He3Cell {
+  gasThickness: number;         // ガス厚さ（amg·cm）
+  initialPolarization: number;  // 初期偏極度 P0（%）
+  relaxationTime: number;       // 緩和時定数 T1（時間）
+}
+
+// セルの t 時間後の He-3 偏極度（%）
+export function calculateCellPolarization(cell: He3Cell, time: number): number {
+  return calculateHe3Decay(cell.initialPolarization, cell.relaxationTime, time);
+}
+
+// 中性子偏極度 Pn が初期値から fraction（割合）だけ下がるまでの時間（h）
+//   tanh(nσt·P(t)) = (1 − fraction)·tanh(nσt·P0) を P(t) について解き、t = T1 ln(P0/P(t))
+export function calculatePolarizationDropTime(
+  wavelength: number,
+  cell: He3Cell,
+  fraction: number = 0.1,
+  crossSection: CrossSectionSettings = DEFAULT_CROSS_SECTION_SETTINGS
+): number {
+  const opacity = calculateCommonFactors(wavelength, crossSection) * cell.gasThickness;  // nσt
+  const initial = Math.tanh(opacity * cell.initialPolarization / 100);     // Pn(0)
+  const target = Math.atanh((1 - fraction) * initial) / opacity * 100;      // P(t)（%）
+  return cell.relaxationTime * Math.log(cell.initialPolarization / target);
+}
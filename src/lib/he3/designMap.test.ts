@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { calculateDesignMap } from './designMap';
+import { calculateFigureOfMerit, calculateSpinFilter } from './neutron';
+
+describe('calculateDesignMap', () => {
+  const wavelengths = [2, 4, 6];
+  const thicknesses = [5, 10, 15, 20];
+
+  it('格子点の値は calculateSpinFilter と一致（行＝厚さ、列＝波長）', () => {
+    const map = calculateDesignMap(wavelengths, thicknesses, 0.7);
+    expect(map.values).toHaveLength(4);
+    expect(map.values[0]).toHaveLength(3);
+    expect(map.values[2][1]).toEqual(calculateSpinFilter(4, 0.7, 15));
+  });
+
+  it('尾根線の厚さで FOM が前後の厚さより大きい', () => {
+    const map = calculateDesignMap(wavelengths, thicknesses, 0.7);
+    map.ridge.forEach((gasThickness, j) => {
+      const best = calculateFigureOfMerit(wavelengths[j], 0.7, gasThickness);
+      expect(calculateFigureOfMerit(wavelengths[j], 0.7, gasThickness * 0.95)).toBeLessThan(best);
+      expect(calculateFigureOfMerit(wavelengths[j], 0.7, gasThickness * 1.05)).toBeLessThan(best);
+    });
+  });
+
+  it('窓を与えると T と FOM だけが窓の透過率倍になる', () => {
+    const window = { absorption: 0.015, scattering: 0.25, thickness: 0.4 };
+    const bare = calculateDesignMap(wavelengths, thicknesses, 0.7);
+    const withWindow = calculateDesignMap(wavelengths, thicknesses, 0.7, window);
+    const ratio = withWindow.values[1][0].neutronTransmission / bare.values[1][0].neutronTransmission;
+    expect(ratio).toBeLessThan(1);
+    expect(withWindow.values[1][0].figureOfMerit / bare.values[1][0].figureOfMerit).toBeCloseTo(ratio, 10);
+    expect(withWindow.values[1][0].neutronPolarization).toBe(bare.values[1][0].neutronPolarization);
+    expect(withWindow.ridge).toEqual(bare.ridge);
+  });
+});
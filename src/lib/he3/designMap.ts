@@ -0,0 +1,37 @@
+import { calculateSpinFilter } from './neutron';
+import type { SpinFilterResult } from './neutron';
+import { findOptimalThickness } from './optimizer';
+import { applyWindowTransmission, calculateWindowTransmission } from './window';
+import type { WindowModel } from './window';
+import { DEFAULT_CROSS_SECTION_SETTINGS } from './crossSection';
+import type { CrossSectionSettings } from './crossSection';
+
+// 波長 × ガス厚さの設計マップ（セル設計用）
+//   各格子点で Pn, T, FOM を計算し、各波長で FOM を最大にする厚さ（尾根線）を添える
+
+export interface DesignMap {
+  wavelengths: number[];         // 波長（Å、列）
+  thicknesses: number[];         // ガス厚さ（amg·cm、行）
+  values: SpinFilterResult[][];  // values[i][j] … thicknesses[i], wavelengths[j] での値（%）
+  ridge: number[];               // 各波長で FOM 最大となる厚さ（amg·cm）
+}
+
+// He-3 偏極度（0–1）を固定して格子点ごとに計算（window を与えると窓の透過率を含める）
+export function calculateDesignMap(
+  wavelengths: number[],
+  thicknesses: number[],
+  he3Polarization: number,
+  window?: WindowModel,
+  crossSection: CrossSectionSettings = DEFAULT_CROSS_SECTION_SETTINGS
+): DesignMap {
+  const windowTransmissions = wavelengths.map(wavelength => window ? calculateWindowTransmission(wavelength, window) : 100);
+  return {
+    wavelengths,
+    thicknesses,
+    values: thicknesses.map(gasThickness => wavelengths.map((wavelength, j) => applyWindowTransmission(
+      calculateSpinFilter(wavelength, he3Polarization, gasThickness, crossSection),
+      windowTransmissions[j]
+    ))),
+    ridge: wavelengths.map(wavelength => findOptimalThickness(wavelength, he3Polarization, crossSection).gasThickness)  // 窓は厚さに依らない
+  };
+}
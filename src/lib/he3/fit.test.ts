@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { evaluateDecayModel, fitDecay, parseDecayMeasurements } from './fit';
+import type { DecayFitModel, DecayMeasurement } from './fit';
+import { calculateHe3Decay } from './decay';
+import { calculateNeutronTransmission } from './neutron';
+
+const times = [0, 4, 8, 12, 24, 36, 48];
+
+// P0 = 72 %, T1 = 150 h の模擬データ（符号を交互に変えたずれを加える）
+function synthetic(model: DecayFitModel, offset: number = 0): DecayMeasurement[] {
+  return times.map((time, i) => ({
+    time,
+    value: evaluateDecayModel(model, 72, 150, time) + (i % 2 === 0 ? offset : -offset),
+    uncertainty: 0.5
+  }));
+}
+
+describe('parseDecayMeasurements', () => {
+  it('数値の時刻はそのまま h として読む', () => {
+    const data = parseDecayMeasurements('time,P,dP\n0,70,0.5\n12,65,0.5\n');
+    expect(data).toEqual([
+      { time: 0, value: 70, uncertainty: 0.5 },
+      { time: 12, value: 65, uncertainty: 0.5 }
+    ]);
+  });
+
+  it('日時は最も早い日時からの経過時間（h）になる', () => {
+    const data = parseDecayMeasurements('2024-05-01T08:00:00Z,70,0.5\n2024-05-01 20:00:00Z,65,0.5\n2024-05-02T08:30:00Z,60\n');
+    expect(data.map(d => d.time)).toEqual([0, 12, 24.5]);
+    expect(data[2].uncertainty).toBe(0);
+  });
+
+  it('日時の行が時刻順でなくても最も早い日時が 0 h になる', () => {
+    const data = parseDecayMeasurements('2024-05-01T20:00:00Z,65\n2024-05-01T08:00:00Z,70\n2024-05-02T08:30:00Z,60\n');
+    expect(data).toEqual([
+      { time: 0, value: 70, uncertainty: 0 },
+      { time: 12, value: 65, uncertainty: 0 },
+      { time: 24.5, value: 60, uncertainty: 0 }
+    ]);
+  });
+});
+
+describe('evaluateDecayModel', () => {
+  it('透過率モデルは calculateNeutronTransmission と一致', () => {
+    const model: DecayFitModel = { type: 'transmission', wavelength: 4, gasThickness: 10 };
+    const he3Polarization = calculateHe3Decay(72, 150, 10);
+    expect(evaluateDecayModel(model, 72, 150, 10))
+      .toBeCloseTo(calculateNeutronTransmission(4, he3Polarization / 100, 10), 12);
+  });
+});
+
+describe('fitDecay', () => {
+  it('偏極度データから P0, T1 を再現', () => {
+    const fit = fitDecay(synthetic({ type: 'polarization' }), { type: 'polarization' })!;
+    expect(fit.initialPolarization).toBeCloseTo(72, 6);
+    expect(fit.relaxationTime).toBeCloseTo(150, 4);
+    expect(fit.chiSquared).toBeCloseTo(0, 8);
+    expect(fit.weighted).toBe(true);
+  });
+
+  it('透過率データから P0, T1 を再現', () => {
+    const model: DecayFitModel = { type: 'transmission', wavelength: 4, gasThickness: 10 };
+    const fit = fitDecay(synthetic(model), model)!;
+    expect(fit.initialPolarization).toBeCloseTo(72, 4);
+    expect(fit.relaxationTime).toBeCloseTo(150, 2);
+  });
+
+  it('残差と誤差を返す', () => {
+    const fit = fitDecay(synthetic({ type: 'polarization' }, 0.5), { type: 'polarization' })!;
+    expect(fit.degreesOfFreedom).toBe(times.length - 2);
+    expect(fit.initialPolarizationError).toBeGreaterThan(0);
+    expect(fit.relaxationTimeError).toBeGreaterThan(0);
+    fit.residuals.forEach(r => {
+      expect(r.residual).toBeCloseTo(r.measured - r.fitted, 12);
+      expect(r.normalizedResidual).toBeCloseTo(r.residual / 0.5, 12);
+    });
+  });
+
+  it('3 点未満では null', () => {
+    expect(fitDecay(synthetic({ type: 'polarization' }).slice(0, 2), { type: 'polarization' })).toBeNull();
+  });
+});
@@ -0,0 +1,173 @@
+import { calculateHe3Decay } from './decay';
+import { calculateNeutronTransmission, calculateCommonFactors } from './neutron';
+import { calculateWindowTransmission } from './window';
+import type { WindowModel } from './window';
+import type { CrossSectionSettings } from './crossSection';
+import { fitLeastSquares } from './leastSquares';
+
+// 測定した He-3 偏極度の時系列から P0 と T1 を重み付き最小二乗でフィットする
+//   time        … 時間（h）
+//   value       … 測定値（偏極度 % または 中性子透過率 %）
+//   uncertainty … 測定値の 1σ 誤差（値と同じ単位）
+
+// 測定点1つ分
+export interface DecayMeasurement {
+  time: number;         // 時間（h）
+  value: number;        // 測定値（%）
+  uncertainty: number;  // 1σ 誤差（%）。0 以下は誤差なし扱い
+}
+
+// フィットに使うモデル
+//   polarization … NMR などで測った He-3 偏極度 P(t) = P0 exp(-t/T1)
+//   transmission … 偏極 He-3 セルの中性子透過率（calculateNeutronTransmission と同じモデル。断面積は省略時は既定）
+export type DecayFitModel =
+  | { type: 'polarization' }
+  | {
+      type: 'transmission';
+      wavelength: number;
+      gasThickness: number;
+      window?: WindowModel;
+      crossSection?: CrossSectionSettings;
+    };
+
+// 測定点ごとの残差
+export interface DecayResidual {
+  time: number;                // 時間（h）
+  measured: number;            // 測定値（%）
+  fitted: number;              // フィット値（%）
+  residual: number;            // 測定値 − フィット値（%）
+  normalizedResidual: number;  // 残差 / σ
+}
+
+// フィット結果
+export interface DecayFitResult {
+  initialPolarization: number;       // P0（%）
+  initialPolarizationError: number;  // P0 の 1σ 誤差（%）
+  relaxationTime: number;            // T1（h）
+  relaxationTimeError: number;       // T1 の 1σ 誤差（h）
+  chiSquared: number;                // χ²
+  degreesOfFreedom: number;          // 自由度（点数 − 2）
+  reducedChiSquared: number;         // χ² / 自由度
+  weighted: boolean;                 // 誤差で重み付けしたか（誤差なしの点があれば false）
+  residuals: DecayResidual[];
+}
+
+// 測定 CSV（時刻, 値, 誤差）の読み込み
+//   - 時刻は数値（h）または日時文字列（ISO 8601 など）。日時の場合は最も早い日時からの経過時間（h）に直す
+//   - 誤差の列は省略可（省略時は 0 = 誤差なし）
+//   - 空行、'#' で始まる行、数値として解釈できない行（ヘッダー行など）は無視
+export function parseDecayMeasurements(text: string): DecayMeasurement[] {
+  const rows: { timestamp: number; isDate: boolean; value: number; uncertainty: number }[] = [];
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (line === '' || line.startsWith('#')) continue;
+
+    // 日時に空白を含むことがあるので、区切り文字があればそちらを優先する
+    let cells = line.split(/[,;\t]/).map(cell => cell.trim()).filter(cell => cell !== '');
+    if (cells.length < 2) cells = line.split(/ +/);
+    if (cells.length < 2) continue;
+
+    const numericTime = Number(cells[0]);
+    const isDate = !Number.isFinite(numericTime);
+    const timestamp = isDate ? Date.parse(cells[0]) : numericTime;
+    const value = Number(cells[1]);
+    const uncertainty = cells.length >= 3 ? Number(cells[2]) : 0;
+    if (!Number.isFinite(timestamp) || !Number.isFinite(value) || !Number.isFinite(uncertainty)) continue;
+
+    rows.push({ timestamp, isDate, value, uncertainty });
+  }
+
+  const firstDate = rows  // 日時の基準（ms）。行の順序に依らず最も早い日時
+    .filter(row => row.isDate)
+    .reduce((earliest, row) => Math.min(earliest, row.timestamp), Infinity);
+  return rows
+    .map(row => ({
+      time: row.isDate ? (row.timestamp - firstDate) / 3.6e6 : row.timestamp, // ms → h
+      value: row.value,
+      uncertainty: row.uncertainty
+    }))
+    .sort((a, b) => a.time - b.time);
+}
+
+// モデル値（%）
+export function evaluateDecayModel(
+  model: DecayFitModel,
+  initialPolarization: number,
+  relaxationTime: number,
+  time: number
+): number {
+  const he3Polarization = calculateHe3Decay(initialPolarization, relaxationTime, time); // %
+  if (model.type === 'polarization') return he3Polarization;
+
+  const transmission = calculateNeutronTransmission(model.wavelength, he3Polarization / 100, model.gasThickness, model.crossSection);
+  return model.window
+    ? transmission * calculateWindowTransmission(model.wavelength, model.window) / 100
+    : transmission;
+}
+
+// 測定値を He-3 偏極度（%）に焼き直す（初期値の推定用）
+function toHe3Polarization(model: DecayFitModel, value: number): number {
+  if (model.type === 'polarization') return value;
+
+  const windowTransmission = model.window ? calculateWindowTransmission(model.wavelength, model.window) / 100 : 1;
+  const opacity = calculateCommonFactors(model.wavelength, model.crossSection) * model.gasThickness;  // nσt
+  const coshValue = value / 100 / windowTransmission * Math.exp(opacity);         // cosh(nσPt)
+  return coshValue >= 1 ? Math.acosh(coshValue) / opacity * 100 : 0;
+}
+
+// 初期値：ln P = ln P0 − t/T1 の直線フィット
+function initialGuess(model: DecayFitModel, measurements: DecayMeasurement[]): number[] {
+  const points = measurements
+    .map(m => ({ time: m.time, polarization: toHe3Polarization(model, m.value) }))
+    .filter(p => p.polarization > 0 && Number.isFinite(p.polarization));
+  const span = Math.max(...measurements.map(m => m.time)) - Math.min(...measurements.map(m => m.time));
+  const fallbackT1 = Math.max(10 * span, 1);
+  if (points.length < 2) return [50, fallbackT1];
+
+  const n = points.length;
+  const meanT = points.reduce((sum, p) => sum + p.time, 0) / n;
+  const meanY = points.reduce((sum, p) => sum + Math.log(p.polarization), 0) / n;
+  let sxy = 0;
+  let sxx = 0;
+  for (const p of points) {
+    sxy += (p.time - meanT) * (Math.log(p.polarization) - meanY);
+    sxx += (p.time - meanT) ** 2;
+  }
+  const slope = sxx > 0 ? sxy / sxx : 0;
+  const relaxationTime = slope < 0 ? -1 / slope : fallbackT1;
+  return [Math.exp(meanY - slope * meanT), relaxationTime];
+}
+
+// P0 と T1 の重み付き最小二乗フィット（Levenberg–Marquardt 法）
+//   誤差のない点を含む場合は等重みでフィットし、パラメータ誤差は √(χ²/自由度) でスケールする
+//   点が 3 点未満の場合は null
+export function fitDecay(measurements: DecayMeasurement[], model: DecayFitModel): DecayFitResult | null {
+  if (measurements.length < 3) return null;
+
+  const fit = fitLeastSquares(
+    ([initialPolarization, relaxationTime], i) =>
+      evaluateDecayModel(model, initialPolarization, relaxationTime, measurements[i].time),
+    measurements.map(m => m.value),
+    measurements.map(m => m.uncertainty),
+    initialGuess(model, measurements),
+    ([, relaxationTime]) => relaxationTime > 0  // T1 > 0 に限る
+  );
+
+  return {
+    initialPolarization: fit.parameters[0],
+    initialPolarizationError: fit.errors[0],
+    relaxationTime: fit.parameters[1],
+    relaxationTimeError: fit.errors[1],
+    chiSquared: fit.chiSquared,
+    degreesOfFreedom: fit.degreesOfFreedom,
+    reducedChiSquared: fit.reducedChiSquared,
+    weighted: fit.weighted,
+    residuals: measurements.map((m, i) => ({
+      time: m.time,
+      measured: m.value,
+      fitted: fit.fitted[i],
+      residual: m.value - fit.fitted[i],
+      normalizedResidual: (m.value - fit.fitted[i]) / fit.sigmas[i]
+    }))
+  };
+}
@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest';
+import { PHYSICAL_CONSTANTS } from './constants';
+import { calculateAmagat, calculateGasThickness, calculateNumberDensity } from './geometry';
+
+describe('セル形状', () => {
+  it('標準状態の数密度は Loschmidt 数 n0 に一致する', () => {
+    expect(calculateNumberDensity(PHYSICAL_CONSTANTS.p0, PHYSICAL_CONSTANTS.T0) / PHYSICAL_CONSTANTS.n0).toBeCloseTo(1, 3);
+  });
+
+  it('標準状態では 1 amg', () => {
+    expect(calculateAmagat(1.01325, 273.15)).toBeCloseTo(1, 12);
+  });
+
+  it('1 bar・20 ℃・10 cm は 9.196 amg·cm', () => {
+    expect(calculateGasThickness({ pressure: 1, temperature: 293.15, length: 10 })).toBeCloseTo(9.1961, 3);
+  });
+
+  it('amg 比は数密度の比に等しい', () => {
+    const ratio = calculateNumberDensity(3, 300) / calculateNumberDensity(PHYSICAL_CONSTANTS.p0, PHYSICAL_CONSTANTS.T0);
+    expect(calculateAmagat(3, 300)).toBeCloseTo(ratio, 10);
+  });
+});
@@ -0,0 +1,24 @@
+import { PHYSICAL_CONSTANTS } from './constants';
+
+// セル形状の型定義
+export interface CellGeometry {
+  pressure: number;     // 充填圧力（bar）
+  temperature: number;  // 充填温度（K）
+  length: number;       // セル内長（cm）
+}
+
+// 理想気体の数密度 n = p/(kB·T)（/cm^3）
+export function calculateNumberDensity(pressure: number, temperature: number): number {
+  return pressure * 1e5 / (PHYSICAL_CONSTANTS.kB * temperature) * 1e-6;  // bar→Pa, /m^3→/cm^3
+}
+
+// 密度（amg）= (p/p0)·(T0/T)：標準状態（0 ℃, 1 atm）の数密度を 1 amg とする
+export function calculateAmagat(pressure: number, temperature: number): number {
+  return (pressure / PHYSICAL_CONSTANTS.p0) * (PHYSICAL_CONSTANTS.T0 / temperature);
+}
+
+// セル形状からガス厚さ（amg·cm）を求める
+export function calculateGasThickness(geometry: CellGeometry): number {
+  if (geometry.temperature <= 0) return 0;
+  return calculateAmagat(geometry.pressure, geometry.temperature) * geometry.length;
+}
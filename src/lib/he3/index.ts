@@ -0,0 +1,81 @@
+// He-3 スピンフィルター計算ライブラリ（UI 非依存）
+export { PHYSICAL_CONSTANTS } from './constants';
+export { wavelengthToEnergy, energyToWavelength, wavelengthToTof, tofToWavelength } from './conversions';
+export {
+  calculateCommonFactors,
+  calculateNeutronPolarization,
+  calculateNeutronTransmission,
+  calculateFigureOfMerit,
+  calculateSpinFilter
+} from './neutron';
+export type { SpinFilterResult } from './neutron';
+export { calculateHe3Decay, calculateCellPolarization, calculatePolarizationDropTime } from './decay';
+export type { He3Cell } from './decay';
+export { findOptimalOpacity, findOptimalThickness } from './optimizer';
+export type { OptimalThicknessResult } from './optimizer';
+export {
+  maxwellianWavelength,
+  spectrumIntensity,
+  spectrumRange,
+  parseSpectrumTable,
+  calculateSpectrumAverage
+} from './spectrum';
+export type { SpectrumPoint, SpectrumDefinition, SpectrumAverage } from './spectrum';
+export { parseNumericTable } from './table';
+export { calculateTwoCell } from './twoCell';
+export type { TwoCellResult } from './twoCell';
+export { calculateNumberDensity, calculateAmagat, calculateGasThickness } from './geometry';
+export type { CellGeometry } from './geometry';
+export { WINDOW_MATERIALS, calculateWindowTransmission, applyWindowTransmission } from './window';
+export type { WindowModel, WindowMaterial } from './window';
+export {
+  calculateDipolarRelaxationTime,
+  calculateGradientRelaxationTime,
+  calculateRelaxationBudget
+} from './relaxation';
+export type { RelaxationBudget, RelaxationBudgetInput } from './relaxation';
+export { calculateSpinUpTime, calculateBuildUp, calculatePumpDecayCycle } from './pumping';
+export type { PumpingParams } from './pumping';
+export { planCellRotation } from './rotation';
+export type { RotationCell, SwapPolicy, RotationPlanInput, RotationPoint, RotationSwap, RotationPlan } from './rotation';
+export { parseDecayMeasurements, evaluateDecayModel, fitDecay } from './fit';
+export type { DecayMeasurement, DecayFitModel, DecayResidual, DecayFitResult } from './fit';
+export {
+  parseTransmissionSpectrum,
+  calculateCellTransmission,
+  fitGasThickness,
+  fitHe3Polarization
+} from './characterization';
+export type { TransmissionPoint, TransmissionResidual, TransmissionFitResult } from './characterization';
+export {
+  parseTimestamp,
+  parsePolarizationRuns,
+  calculateRunAverage,
+  correctPolarizationRuns,
+  formatCorrectedRunsCsv
+} from './correction';
+export type { AnalyzerCell, PolarizationRun, RunAverage, CorrectedRun } from './correction';
+export { propagateUncertainty } from './uncertainty';
+export type { PropagatedUncertainty } from './uncertainty';
+export {
+  isValidLossPerFlip,
+  listFlipTimes,
+  countFlipTimes,
+  countFlips,
+  calculateFlipFactor,
+  calculateEffectiveRelaxationTime
+} from './afp';
+export type { FlipSchedule, AfpParams } from './afp';
+export { calculateDesignMap } from './designMap';
+export type { DesignMap } from './designMap';
+export {
+  THERMAL_VELOCITY,
+  DEFAULT_CROSS_SECTION_SETTINGS,
+  calculateCrossSection,
+  isValidCrossSectionTable,
+  parseCrossSectionTable
+} from './crossSection';
+export type { CrossSectionPoint, CrossSectionModel, CrossSectionSettings } from './crossSection';
+export { sampleAdaptive, decimateIndices } from './sampling';
+export { INVERSE_WAVELENGTH_RANGE, solveInverse, calculateTargetHoldTime } from './inverse';
+export type { InverseTarget, InverseUnknown, InverseProblem, InverseSolution, InverseResult } from './inverse';
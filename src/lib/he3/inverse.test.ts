@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { calculateSpinFilter } from './neutron';
+import { calculateHe3Decay } from './decay';
+import { findOptimalThickness } from './optimizer';
+import { calculateTargetHoldTime, solveInverse } from './inverse';
+
+describe('solveInverse', () => {
+  it('4 Å で Pn = 95 % に要る P_He を解くと順方向の計算と一致する', () => {
+    const { solutions } = solveInverse({
+      target: 'neutronPolarization', targetValue: 95, unknown: 'he3Polarization',
+      wavelength: 4, he3Polarization: 0, gasThickness: 10
+    });
+    expect(solutions).toHaveLength(1);
+    const { he3Polarization } = solutions[0];
+    expect(calculateSpinFilter(4, he3Polarization, 10).neutronPolarization).toBeCloseTo(95, 8);
+  });
+
+  it('T の目標に要る厚さ・波長を解くと順方向の計算と一致する', () => {
+    const thickness = solveInverse({
+      target: 'neutronTransmission', targetValue: 30, unknown: 'gasThickness',
+      wavelength: 4, he3Polarization: 0.7, gasThickness: 0
+    });
+    expect(thickness.solutions).toHaveLength(1);
+    expect(calculateSpinFilter(4, 0.7, thickness.solutions[0].gasThickness).neutronTransmission).toBeCloseTo(30, 8);
+
+    const wavelength = solveInverse({
+      target: 'neutronTransmission', targetValue: 30, unknown: 'wavelength',
+      wavelength: 0, he3Polarization: 0.7, gasThickness: 10
+    });
+    expect(wavelength.solutions).toHaveLength(1);
+    expect(calculateSpinFilter(wavelength.solutions[0].wavelength, 0.7, 10).neutronTransmission).toBeCloseTo(30, 6);
+  });
+
+  it('FOM の目標では最適厚さの両側に 2 解がある', () => {
+    const optimum = findOptimalThickness(4, 0.7);
+    const { solutions } = solveInverse({
+      target: 'figureOfMerit', targetValue: 20, unknown: 'gasThickness',
+      wavelength: 4, he3Polarization: 0.7, gasThickness: 0
+    });
+    expect(solutions).toHaveLength(2);
+    expect(solutions[0].gasThickness).toBeLessThan(optimum.gasThickness);
+    expect(solutions[1].gasThickness).toBeGreaterThan(optimum.gasThickness);
+    solutions.forEach(solution => {
+      expect(calculateSpinFilter(4, 0.7, solution.gasThickness).figureOfMerit).toBeCloseTo(20, 8);
+    });
+  });
+
+  it('届かない目標では解がなく、上限を返す', () => {
+    const result = solveInverse({
+      target: 'figureOfMerit', targetValue: 30, unknown: 'gasThickness',
+      wavelength: 4, he3Polarization: 0.7, gasThickness: 0
+    });
+    expect(result.solutions).toHaveLength(0);
+    expect(result.bestValue).toBeCloseTo(findOptimalThickness(4, 0.7).figureOfMerit, 6);
+  });
+
+  it('無偏極でも T の目標を満たすなら P_He = 0', () => {
+    const { solutions } = solveInverse({
+      target: 'neutronTransmission', targetValue: 10, unknown: 'he3Polarization',
+      wavelength: 1, he3Polarization: 0, gasThickness: 5
+    });
+    expect(solutions[0].he3Polarization).toBe(0);
+  });
+});
+
+describe('calculateTargetHoldTime', () => {
+  const cell = { gasThickness: 10, initialPolarization: 80, relaxationTime: 100 };
+
+  it('保持時間の後の P_He でちょうど目標の Pn になる', () => {
+    const time = calculateTargetHoldTime(4, cell, 'neutronPolarization', 95);
+    expect(time).not.toBeNull();
+    const he3Polarization = calculateHe3Decay(cell.initialPolarization, cell.relaxationTime, time as number) / 100;
+    expect(calculateSpinFilter(4, he3Polarization, cell.gasThickness).neutronPolarization).toBeCloseTo(95, 8);
+  });
+
+  it('偏極直後から届かなければ null、無偏極でも満たすなら Infinity', () => {
+    expect(calculateTargetHoldTime(4, { ...cell, initialPolarization: 20 }, 'neutronPolarization', 95)).toBeNull();
+    expect(calculateTargetHoldTime(1, { ...cell, gasThickness: 1 }, 'neutronTransmission', 10)).toBe(Infinity);
+  });
+});
@@ -0,0 +1,178 @@
+import { calculateCommonFactors } from './neutron';
+import { findOptimalOpacity } from './optimizer';
+import type { He3Cell } from './decay';
+import { DEFAULT_CROSS_SECTION_SETTINGS } from './crossSection';
+import type { CrossSectionSettings } from './crossSection';
+
+// 逆算：目標の Pn・T・FOM を満たす He-3 偏極度・ガス厚さ・波長を求める
+//   不透明度 x = nσ(λ)d と P_He で Pn = tanh(xP), T = e^{-x}cosh(xP), FOM = Pn^2 T と書けるので、
+//   P_He は x を固定して、厚さ・波長は P_He を固定して x を解いてから d = x/nσ(λ)、nσ(λ) = x/d に戻す
+
+// 目標にする量
+export type InverseTarget = 'neutronPolarization' | 'neutronTransmission' | 'figureOfMerit';
+// 解く量（残りの 2 つは固定）
+export type InverseUnknown = 'he3Polarization' | 'gasThickness' | 'wavelength';
+
+export interface InverseProblem {
+  target: InverseTarget;
+  targetValue: number;        // 目標値（%）
+  unknown: InverseUnknown;
+  wavelength: number;         // 波長（Å）。unknown が 'wavelength' なら無視
+  he3Polarization: number;    // He-3 偏極度（0–1）。unknown が 'he3Polarization' なら無視
+  gasThickness: number;       // ガス厚さ（amg·cm）。unknown が 'gasThickness' なら無視
+  crossSection?: CrossSectionSettings;  // 吸収断面積（省略時は既定）
+}
+
+// 解（解いた量を入れた 3 つの値）
+export interface InverseSolution {
+  wavelength: number;         // 波長（Å）
+  he3Polarization: number;    // He-3 偏極度（0–1）
+  gasThickness: number;       // ガス厚さ（amg·cm）
+}
+
+export interface InverseResult {
+  solutions: InverseSolution[];  // 解く量の小さい順（FOM は最適値の両側で厚さ・波長に 2 解ありうる）
+  bestValue: number;             // 解く量を動かして届く目標量の上限（%）。解がないときの目安
+}
+
+// 探索範囲：nσd の上限は optimizer と同じ。波長はこの範囲で探す
+const MAX_OPACITY = 30;
+export const INVERSE_WAVELENGTH_RANGE = { min: 0.1, max: 50 };  // Å
+const MAX_ITERATIONS = 200;
+
+// x = nσd, P（0–1）での目標量（0–1）
+function quantityAt(target: InverseTarget, opacity: number, he3Polarization: number): number {
+  const neutronPolarization = Math.tanh(opacity * he3Polarization);
+  const neutronTransmission = Math.exp(-opacity) * Math.cosh(opacity * he3Polarization);
+  switch (target) {
+    case 'neutronPolarization': return neutronPolarization;
+    case 'neutronTransmission': return neutronTransmission;
+    case 'figureOfMerit': return neutronPolarization * neutronPolarization * neutronTransmission;
+  }
+}
+
+// 単調な f の [a, b] での根（符号が変わらなければ null）。二分法
+function findRootOnMonotone(f: (x: number) => number, a: number, b: number): number | null {
+  let fa = f(a);
+  const fb = f(b);
+  if (fa === 0) return a;
+  if (fb === 0) return b;
+  if (Math.sign(fa) === Math.sign(fb) || !Number.isFinite(fa) || !Number.isFinite(fb)) return null;
+  for (let i = 0; i < MAX_ITERATIONS && b - a > 1e-14 * Math.max(1, Math.abs(b)); i++) {
+    const middle = (a + b) / 2;
+    const fm = f(middle);
+    if (fm === 0) return middle;
+    if (Math.sign(fm) === Math.sign(fa)) {
+      a = middle;
+      fa = fm;
+    } else {
+      b = middle;
+    }
+  }
+  return (a + b) / 2;
+}
+
+// x を固定して目標を満たす最小の P_He（0–1）。P_He = 1 でも届かなければ null
+//   Pn, T, FOM はいずれも P について単調増加。Pn と T は tanh・cosh の逆関数で直接解ける
+function requiredPolarization(target: InverseTarget, goal: number, opacity: number): number | null {
+  if (quantityAt(target, opacity, 0) >= goal) return 0;     // 無偏極でも満たす
+  if (quantityAt(target, opacity, 1) < goal) return null;   // 完全偏極でも届かない
+  switch (target) {
+    case 'neutronPolarization': return Math.min(1, Math.atanh(goal) / opacity);                     // P = atanh(Pn)/x
+    case 'neutronTransmission': return Math.min(1, Math.acosh(goal * Math.exp(opacity)) / opacity); // P = acosh(T e^x)/x
+    case 'figureOfMerit':
+      return findRootOnMonotone(p => quantityAt(target, opacity, p) - goal, 0, 1);
+  }
+}
+
+// P_He を固定して目標を満たす x（[xMin, xMax] の範囲、小さい順）
+//   Pn は x について増加、T は減少、FOM は最適な x まで増加してから減少する
+function requiredOpacities(target: InverseTarget, goal: number, he3Polarization: number, xMin: number, xMax: number): number[] {
+  const f = (x: number) => quantityAt(target, x, he3Polarization) - goal;
+  const segments: [number, number][] = [[xMin, xMax]];
+  if (target === 'figureOfMerit') {
+    const peak = Math.min(xMax, Math.max(xMin, findOptimalOpacity(he3Polarization)));
+    segments.splice(0, 1, [xMin, peak], [peak, xMax]);
+  }
+  const roots: number[] = [];
+  for (const [a, b] of segments) {
+    const root = b > a ? findRootOnMonotone(f, a, b) : null;
+    if (root !== null && !roots.some(other => Math.abs(other - root) <= 1e-9 * Math.max(1, root))) roots.push(root);
+  }
+  return roots;
+}
+
+// [xMin, xMax] で届く目標量の上限（0–1）
+function bestQuantity(target: InverseTarget, he3Polarization: number, xMin: number, xMax: number): number {
+  switch (target) {
+    case 'neutronPolarization': return quantityAt(target, xMax, he3Polarization);
+    case 'neutronTransmission': return quantityAt(target, xMin, he3Polarization);
+    case 'figureOfMerit':
+      return quantityAt(target, Math.min(xMax, Math.max(xMin, findOptimalOpacity(he3Polarization))), he3Polarization);
+  }
+}
+
+// nσ(λ)d = opacity となる波長（Å）。nσ(λ) は λ について増加（1/v）とし、対数で二分する
+function wavelengthForOpacity(opacity: number, gasThickness: number, crossSection: CrossSectionSettings): number | null {
+  const logWavelength = findRootOnMonotone(
+    u => calculateCommonFactors(Math.pow(10, u), crossSection) * gasThickness - opacity,
+    Math.log10(INVERSE_WAVELENGTH_RANGE.min),
+    Math.log10(INVERSE_WAVELENGTH_RANGE.max)
+  );
+  return logWavelength === null ? null : Math.pow(10, logWavelength);
+}
+
+// 目標の Pn・T・FOM（%）を満たす値を解く
+export function solveInverse(problem: InverseProblem): InverseResult {
+  const { target, unknown, wavelength, he3Polarization, gasThickness } = problem;
+  const crossSection = problem.crossSection ?? DEFAULT_CROSS_SECTION_SETTINGS;
+  const goal = problem.targetValue / 100;
+
+  switch (unknown) {
+    case 'he3Polarization': {
+      const opacity = calculateCommonFactors(wavelength, crossSection) * gasThickness;
+      const required = requiredPolarization(target, goal, opacity);
+      return {
+        solutions: required === null ? [] : [{ wavelength, he3Polarization: required, gasThickness }],
+        bestValue: quantityAt(target, opacity, 1) * 100
+      };
+    }
+    case 'gasThickness': {
+      const factor = calculateCommonFactors(wavelength, crossSection);  // nσ(λ)
+      return {
+        solutions: requiredOpacities(target, goal, he3Polarization, 0, MAX_OPACITY)
+          .map(opacity => ({ wavelength, he3Polarization, gasThickness: opacity / factor })),
+        bestValue: bestQuantity(target, he3Polarization, 0, MAX_OPACITY) * 100
+      };
+    }
+    case 'wavelength': {
+      if (!(gasThickness > 0)) return { solutions: [], bestValue: quantityAt(target, 0, he3Polarization) * 100 };
+      const xMin = calculateCommonFactors(INVERSE_WAVELENGTH_RANGE.min, crossSection) * gasThickness;
+      const xMax = calculateCommonFactors(INVERSE_WAVELENGTH_RANGE.max, crossSection) * gasThickness;
+      const solutions: InverseSolution[] = [];
+      for (const opacity of requiredOpacities(target, goal, he3Polarization, xMin, xMax)) {
+        const solved = wavelengthForOpacity(opacity, gasThickness, crossSection);
+        if (solved !== null) solutions.push({ wavelength: solved, he3Polarization, gasThickness });
+      }
+      return { solutions, bestValue: bestQuantity(target, he3Polarization, xMin, xMax) * 100 };
+    }
+  }
+}
+
+// セルが P0 から T1 で緩和する間、目標を満たし続ける時間（h）
+//   満たすのに要る P_He を P_req として t = T1 ln(P0/P_req)。
+//   偏極直後から届かなければ null、無偏極でも満たすなら Infinity
+export function calculateTargetHoldTime(
+  wavelength: number,
+  cell: He3Cell,
+  target: InverseTarget,
+  targetValue: number,
+  crossSection: CrossSectionSettings = DEFAULT_CROSS_SECTION_SETTINGS
+): number | null {
+  const opacity = calculateCommonFactors(wavelength, crossSection) * cell.gasThickness;  // nσt
+  const required = requiredPolarization(target, targetValue / 100, opacity);
+  const initial = cell.initialPolarization / 100;
+  if (required === null || initial < required) return null;
+  if (required === 0) return Infinity;
+  return cell.relaxationTime * Math.log(initial / required);
+}
@@ -0,0 +1,135 @@
+// 重み付き非線形最小二乗（Levenberg–Marquardt 法）。フィット用の共通ルーチン
+//   model(θ, i)  … i 番目の測定点でのモデル値
+//   values       … 測定値
+//   uncertainties … 測定値の 1σ 誤差。0 以下を含む場合は等重みでフィットし、
+//                   パラメータ誤差は √(χ²/自由度) でスケールする
+//   initial      … パラメータの初期値
+//   isValid      … 許されるパラメータか（範囲外のステップは棄却）
+
+export interface LeastSquaresResult {
+  parameters: number[];        // 最適パラメータ
+  errors: number[];            // パラメータの 1σ 誤差
+  fitted: number[];            // 各点のモデル値
+  chiSquared: number;          // χ²
+  degreesOfFreedom: number;    // 点数 − パラメータ数
+  reducedChiSquared: number;   // χ² / 自由度
+  weighted: boolean;           // 誤差で重み付けしたか
+  sigmas: number[];            // 各点の重み付けに使った σ（等重みなら 1）
+}
+
+const MAX_ITERATIONS = 200;
+
+// 連立一次方程式 A x = b（部分ピボット付きガウス消去）。特異なら null
+function solveLinear(matrix: number[][], vector: number[]): number[] | null {
+  const n = vector.length;
+  const a = matrix.map((row, i) => [...row, vector[i]]);
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(a[row][col]) > Math.abs(a[pivot][col])) pivot = row;
+    }
+    if (a[pivot][col] === 0) return null;
+    [a[col], a[pivot]] = [a[pivot], a[col]];
+    for (let row = col + 1; row < n; row++) {
+      const factor = a[row][col] / a[col][col];
+      for (let k = col; k <= n; k++) a[row][k] -= factor * a[col][k];
+    }
+  }
+  const x = new Array<number>(n).fill(0);
+  for (let row = n - 1; row >= 0; row--) {
+    let sum = a[row][n];
+    for (let k = row + 1; k < n; k++) sum -= a[row][k] * x[k];
+    x[row] = sum / a[row][row];
+  }
+  return x;
+}
+
+export function fitLeastSquares(
+  model: (theta: number[], index: number) => number,
+  values: number[],
+  uncertainties: number[],
+  initial: number[],
+  isValid: (theta: number[]) => boolean = () => true
+): LeastSquaresResult {
+  const k = initial.length;
+  const weighted = uncertainties.every(sigma => sigma > 0);
+  const sigmas = uncertainties.map(sigma => weighted ? sigma : 1);
+
+  const residualsFor = (theta: number[]) =>
+    values.map((value, i) => (value - model(theta, i)) / sigmas[i]);
+  const chiSquaredFor = (theta: number[]) =>
+    residualsFor(theta).reduce((sum, r) => sum + r * r, 0);
+
+  // JᵀJ と Jᵀr（ヤコビアンは中心差分、行 i は ∂(f_i/σ_i)/∂θ）
+  const normalEquations = (theta: number[]) => {
+    const residuals = residualsFor(theta);
+    const jacobian = values.map((_, i) => theta.map((value, j) => {
+      const h = 1e-6 * Math.max(Math.abs(value), 1);
+      const plus = [...theta];
+      const minus = [...theta];
+      plus[j] += h;
+      minus[j] -= h;
+      return (model(plus, i) - model(minus, i)) / (2 * h * sigmas[i]);
+    }));
+    const jtj = Array.from({ length: k }, () => new Array<number>(k).fill(0));
+    const jtr = new Array<number>(k).fill(0);
+    jacobian.forEach((row, i) => {
+      for (let a = 0; a < k; a++) {
+        jtr[a] += row[a] * residuals[i];
+        for (let b = 0; b < k; b++) jtj[a][b] += row[a] * row[b];
+      }
+    });
+    return { jtj, jtr };
+  };
+
+  let theta = [...initial];
+  let chiSquared = chiSquaredFor(theta);
+  let lambda = 1e-3;
+
+  for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+    const { jtj, jtr } = normalEquations(theta);
+    let improved = false;
+
+    while (lambda < 1e12) {
+      const damped = jtj.map((row, a) => row.map((value, b) => a === b ? value * (1 + lambda) : value));
+      const step = solveLinear(damped, jtr);
+      if (!step) break;
+
+      const candidate = theta.map((value, j) => value + step[j]);
+      const candidateChiSquared = isValid(candidate) ? chiSquaredFor(candidate) : Infinity;
+
+      if (candidateChiSquared < chiSquared) {
+        const converged = chiSquared - candidateChiSquared <= 1e-12 * Math.max(chiSquared, 1e-300);
+        theta = candidate;
+        chiSquared = candidateChiSquared;
+        lambda = Math.max(lambda / 10, 1e-12);
+        improved = !converged;
+        break;
+      }
+      lambda *= 10;
+    }
+
+    if (!improved) break;
+  }
+
+  // 共分散行列 (JᵀJ)⁻¹ の対角成分
+  const { jtj } = normalEquations(theta);
+  const degreesOfFreedom = values.length - k;
+  const reducedChiSquared = chiSquared / degreesOfFreedom;
+  const scale = weighted ? 1 : reducedChiSquared;  // 誤差なしのときは散らばりから誤差を見積もる
+  const errors = theta.map((_, j) => {
+    const column = solveLinear(jtj, theta.map((__, i) => i === j ? 1 : 0));
+    return column ? Math.sqrt(column[j] * scale) : NaN;
+  });
+
+  return {
+    parameters: theta,
+    errors,
+    fitted: values.map((_, i) => model(theta, i)),
+    chiSquared,
+    degreesOfFreedom,
+    reducedChiSquared,
+    weighted,
+    sigmas
+  };
+}
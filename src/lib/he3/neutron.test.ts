@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import {
+  calculateCommonFactors,
+  calculateFigureOfMerit,
+  calculateNeutronPolarization,
+  calculateNeutronTransmission,
+  calculateSpinFilter
+} from './neutron';
+
+describe('calculateCommonFactors', () => {
+  it('1.8 Å で n0·σ0 = 0.1433 /(amg·cm)', () => {
+    expect(calculateCommonFactors(1.8)).toBeCloseTo(2.687e19 * 5333e-24, 10);
+  });
+
+  it('波長に比例する（1/v 則）', () => {
+    expect(calculateCommonFactors(3.6) / calculateCommonFactors(1.8)).toBeCloseTo(2, 10);
+  });
+});
+
+describe('スピンフィルター', () => {
+  // 参照値：λ = 1.8 Å, P_He = 70 %, 10 amg·cm → nσd = 1.43298
+  const wavelength = 1.8;
+  const he3Polarization = 0.7;
+  const gasThickness = 10;
+
+  it('中性子偏極度 Pn = tanh(nσdP)', () => {
+    expect(calculateNeutronPolarization(wavelength, he3Polarization, gasThickness)).toBeCloseTo(76.28863, 4);
+  });
+
+  it('中性子透過率 T = e^{-nσd} cosh(nσdP)', () => {
+    expect(calculateNeutronTransmission(wavelength, he3Polarization, gasThickness)).toBeCloseTo(36.90417, 4);
+  });
+
+  it('FOM = Pn^2 T', () => {
+    expect(calculateFigureOfMerit(wavelength, he3Polarization, gasThickness)).toBeCloseTo(21.47806, 4);
+  });
+
+  it('calculateSpinFilter は個別関数と一致する', () => {
+    const result = calculateSpinFilter(wavelength, he3Polarization, gasThickness);
+    expect(result.neutronPolarization).toBeCloseTo(calculateNeutronPolarization(wavelength, he3Polarization, gasThickness), 12);
+    expect(result.neutronTransmission).toBeCloseTo(calculateNeutronTransmission(wavelength, he3Polarization, gasThickness), 12);
+    expect(result.figureOfMerit).toBeCloseTo(calculateFigureOfMerit(wavelength, he3Polarization, gasThickness), 12);
+  });
+
+  it('無偏極セルでは Pn = 0、T = e^{-nσd}', () => {
+    const result = calculateSpinFilter(wavelength, 0, gasThickness);
+    expect(result.neutronPolarization).toBe(0);
+    expect(result.neutronTransmission).toBeCloseTo(100 * Math.exp(-1.4329771), 5);
+    expect(result.figureOfMerit).toBe(0);
+  });
+
+  it('完全偏極では T = (1 + e^{-2nσd})/2', () => {
+    const x = calculateCommonFactors(wavelength) * gasThickness;
+    expect(calculateNeutronTransmission(wavelength, 1, gasThickness)).toBeCloseTo(50 * (1 + Math.exp(-2 * x)), 10);
+  });
+});
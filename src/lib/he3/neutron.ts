@@ -0,0 +1,81 @@
+import { PHYSICAL_CONSTANTS } from './constants';
+import { calculateCrossSection, DEFAULT_CROSS_SECTION_SETTINGS } from './crossSection';
+import type { CrossSectionSettings } from './crossSection';
+
+// 単位の約束：
+//   wavelength      … 中性子波長（Å）
+//   he3Polarization … He-3 偏極度（0–1 の割合）
+//   gasThickness    … He-3 ガス厚さ（amg·cm）
+//   crossSection    … 吸収断面積モデルと定数（省略時は DEFAULT_CROSS_SECTION_SETTINGS）
+//   戻り値          … 各関数とも %（0–100）
+
+// スピンフィルター1点分の計算結果（いずれも %）
+export interface SpinFilterResult {
+  neutronPolarization: number;  // 中性子偏極度（%）
+  neutronTransmission: number;  // 中性子透過率（%）
+  figureOfMerit: number;        // FOM = Pn^2 T（%）
+}
+
+// 共通因子 n * σ(λ) の計算（cm^2単位へ変換込み）→ 1 amg·cm あたりの不透明度
+//   σ(λ) と n は渡した断面積モデル・定数（crossSection.ts）による。既定は σ0·(λ/1.8Å) の 1/v 近似
+export function calculateCommonFactors(
+  wavelength: number,
+  crossSection: CrossSectionSettings = DEFAULT_CROSS_SECTION_SETTINGS
+): number {
+  const n = crossSection.numberDensity;                  // 数密度 n（1 amg あたり。厚さは amg·cm で与える）
+  const sigma = calculateCrossSection(wavelength, crossSection);  // σ(λ)（barn）
+  return n * sigma * PHYSICAL_CONSTANTS.barn_to_cm2;  // nσ を cm^2 に直して返す
+}
+
+// 中性子偏極度 Pn = tanh(nσ·P_He3·t)
+export function calculateNeutronPolarization(
+  wavelength: number,
+  he3Polarization: number,
+  gasThickness: number,
+  crossSection: CrossSectionSettings = DEFAULT_CROSS_SECTION_SETTINGS
+): number {
+  const commonFactor = calculateCommonFactors(wavelength, crossSection); // nσ(λ)
+  const neutronPolarization = Math.tanh(commonFactor * he3Polarization * gasThickness); // tanh(nσ P t)
+  return neutronPolarization * 100;  // %
+}
+
+// 中性子透過率 T = e^{-nσt} cosh(nσ P t)
+export function calculateNeutronTransmission(
+  wavelength: number,
+  he3Polarization: number,
+  gasThickness: number,
+  crossSection: CrossSectionSettings = DEFAULT_CROSS_SECTION_SETTINGS
+): number {
+  const commonFactor = calculateCommonFactors(wavelength, crossSection); // nσ(λ)
+  const factor = commonFactor * gasThickness;              // nσ t
+  const neutronTransmission = Math.exp(-factor) * Math.cosh(factor * he3Polarization); // e^{-nσt} cosh(nσPt)
+  return neutronTransmission * 100;  // %
+}
+
+// FOM = Pn^2 * T （%換算して返す）
+export function calculateFigureOfMerit(
+  wavelength: number,
+  he3Polarization: number,
+  gasThickness: number,
+  crossSection: CrossSectionSettings = DEFAULT_CROSS_SECTION_SETTINGS
+): number {
+  const { figureOfMerit } = calculateSpinFilter(wavelength, he3Polarization, gasThickness, crossSection);
+  return figureOfMerit;
+}
+
+// Pn, T, FOM をまとめて計算（nσ(λ) を1回だけ求める）
+export function calculateSpinFilter(
+  wavelength: number,
+  he3Polarization: number,
+  gasThickness: number,
+  crossSection: CrossSectionSettings = DEFAULT_CROSS_SECTION_SETTINGS
+): SpinFilterResult {
+  const factor = calculateCommonFactors(wavelength, crossSection) * gasThickness;        // nσ t
+  const neutronPolarization = Math.tanh(factor * he3Polarization);          // Pn
+  const neutronTransmission = Math.exp(-factor) * Math.cosh(factor * he3Polarization); // T
+  return {
+    neutronPolarization: neutronPolarization * 100,
+    neutronTransmission: neutronTransmission * 100,
+    figureOfMerit: neutronPolarization * neutronPolarization * neutronTransmission * 100 // Pn^2 T
+  };
+}
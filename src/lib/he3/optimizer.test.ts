@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { calculateFigureOfMerit } from './neutron';
+import { findOptimalOpacity, findOptimalThickness } from './optimizer';
+
+describe('findOptimalOpacity', () => {
+  it('P_He = 70 % で nσd ≈ 1.905', () => {
+    expect(findOptimalOpacity(0.7)).toBeCloseTo(1.9048, 3);
+  });
+
+  it('無偏極では 0 を返す', () => {
+    expect(findOptimalOpacity(0)).toBe(0);
+  });
+});
+
+describe('findOptimalThickness', () => {
+  it('最適厚さの FOM が前後の厚さより大きい', () => {
+    const { gasThickness, figureOfMerit } = findOptimalThickness(4, 0.75);
+    expect(calculateFigureOfMerit(4, 0.75, gasThickness)).toBeCloseTo(figureOfMerit, 10);
+    expect(calculateFigureOfMerit(4, 0.75, gasThickness * 0.95)).toBeLessThan(figureOfMerit);
+    expect(calculateFigureOfMerit(4, 0.75, gasThickness * 1.05)).toBeLessThan(figureOfMerit);
+  });
+
+  it('最適厚さは波長に反比例する', () => {
+    const short = findOptimalThickness(2, 0.7);
+    const long = findOptimalThickness(4, 0.7);
+    expect(short.gasThickness / long.gasThickness).toBeCloseTo(2, 8);
+    expect(short.figureOfMerit).toBeCloseTo(long.figureOfMerit, 10);
+  });
+
+  it('P_He = 70 % の最大 FOM は約 22.86 %', () => {
+    expect(findOptimalThickness(1.8, 0.7).figureOfMerit).toBeCloseTo(22.86, 2);
+  });
+});
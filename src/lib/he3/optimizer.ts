@@ -0,0 +1,64 @@
+import { calculateCommonFactors } from './neutron';
+import { DEFAULT_CROSS_SECTION_SETTINGS } from './crossSection';
+import type { CrossSectionSettings } from './crossSection';
+
+// FOM 最大化の結果
+export interface OptimalThicknessResult {
+  gasThickness: number;   // FOM を最大にするガス厚さ（amg·cm）
+  opacity: number;        // そのときの nσd（無次元）
+  figureOfMerit: number;  // 最大 FOM（%）
+}
+
+// nσd の探索上限。P_He → 1 では FOM が単調増加して 50% に漸近するため上限で打ち切る
+const MAX_OPACITY = 30;
+const GOLDEN_RATIO = (Math.sqrt(5) - 1) / 2;
+
+// 不透明度 x = nσd の関数としての FOM = tanh^2(xP) e^{-x} cosh(xP)（0–1）
+function figureOfMeritAtOpacity(opacity: number, he3Polarization: number): number {
+  const neutronPolarization = Math.tanh(opacity * he3Polarization);
+  return neutronPolarization * neutronPolarization * Math.exp(-opacity) * Math.cosh(opacity * he3Polarization);
+}
+
+// 与えた He-3 偏極度（0–1）で FOM を最大にする nσd を黄金分割探索で求める
+// 最適な nσd は P_He のみで決まり、波長には依存しない
+export function findOptimalOpacity(he3Polarization: number, tolerance: number = 1e-8): number {
+  if (he3Polarization <= 0) return 0;  // 無偏極では FOM は常に 0
+
+  let a = 0;
+  let b = MAX_OPACITY;
+  let c = b - GOLDEN_RATIO * (b - a);
+  let d = a + GOLDEN_RATIO * (b - a);
+  let fc = figureOfMeritAtOpacity(c, he3Polarization);
+  let fd = figureOfMeritAtOpacity(d, he3Polarization);
+
+  while (b - a > tolerance) {
+    if (fc > fd) {          // 最大は [a, d] にある
+      b = d;
+      d = c;
+      fd = fc;
+      c = b - GOLDEN_RATIO * (b - a);
+      fc = figureOfMeritAtOpacity(c, he3Polarization);
+    } else {                // 最大は [c, b] にある
+      a = c;
+      c = d;
+      fc = fd;
+      d = a + GOLDEN_RATIO * (b - a);
+      fd = figureOfMeritAtOpacity(d, he3Polarization);
+    }
+  }
+  return (a + b) / 2;
+}
+
+// 波長 λ（Å）と He-3 偏極度（0–1）で FOM を最大にするガス厚さ（amg·cm）
+export function findOptimalThickness(
+  wavelength: number,
+  he3Polarization: number,
+  crossSection: CrossSectionSettings = DEFAULT_CROSS_SECTION_SETTINGS
+): OptimalThicknessResult {
+  const opacity = findOptimalOpacity(he3Polarization);
+  return {
+    gasThickness: opacity / calculateCommonFactors(wavelength, crossSection),  // d = x / nσ(λ)
+    opacity,
+    figureOfMerit: figureOfMeritAtOpacity(opacity, he3Polarization) * 100
+  };
+}
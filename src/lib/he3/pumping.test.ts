@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { calculateBuildUp, calculatePumpDecayCycle, calculateSpinUpTime } from './pumping';
+import type { PumpingParams } from './pumping';
+
+const pumping: PumpingParams = {
+  pumpRate: 0.1,
+  pumpingRelaxationRate: 0.025,
+  saturationPolarization: 80,
+  pumpDuration: 24,
+  startPolarization: 0
+};
+
+describe('ビルドアップ', () => {
+  it('時定数は 1/(γ + Γ)', () => {
+    expect(calculateSpinUpTime(pumping)).toBeCloseTo(8, 12);
+  });
+
+  it('開始時は P_start、τ_up 後は P∞(1 − 1/e)', () => {
+    expect(calculateBuildUp(pumping, 0)).toBe(0);
+    expect(calculateBuildUp(pumping, 8)).toBeCloseTo(80 * (1 - Math.exp(-1)), 10);
+  });
+
+  it('十分長く pump すると P∞ に漸近する', () => {
+    expect(calculateBuildUp(pumping, 1000)).toBeCloseTo(80, 10);
+  });
+});
+
+describe('calculatePumpDecayCycle', () => {
+  it('ポンピング終了点で連続', () => {
+    const end = calculateBuildUp(pumping, 24);
+    expect(calculatePumpDecayCycle(pumping, 100, 24)).toBeCloseTo(end, 12);
+    expect(calculatePumpDecayCycle(pumping, 100, 24 + 1e-9)).toBeCloseTo(end, 6);
+  });
+
+  it('終了後は T1 で緩和する', () => {
+    const end = calculateBuildUp(pumping, 24);
+    expect(calculatePumpDecayCycle(pumping, 100, 124)).toBeCloseTo(end / Math.E, 10);
+  });
+});
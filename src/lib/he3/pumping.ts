@@ -0,0 +1,33 @@
+import { calculateHe3Decay } from './decay';
+
+// 偏極生成（ポンピング）のパラメータ
+//   SEOP ではスピン交換率、MEOP では充填の実効率を pumpRate として与える
+export interface PumpingParams {
+  pumpRate: number;                // ポンピング率 γ（1/時間）
+  pumpingRelaxationRate: number;   // ポンピング中の緩和率 Γ（1/時間）
+  saturationPolarization: number;  // 到達偏極度 P∞（%）
+  pumpDuration: number;            // ポンピング時間（時間）
+  startPolarization: number;       // ポンピング開始時の偏極度（%）
+}
+
+// ビルドアップの時定数 τ_up = 1/(γ + Γ)（時間）
+export function calculateSpinUpTime(pumping: PumpingParams): number {
+  const rate = pumping.pumpRate + pumping.pumpingRelaxationRate;
+  return rate > 0 ? 1 / rate : Infinity;
+}
+
+// ポンピング開始から t 時間後の偏極度（%）
+//   P(t) = P∞ + (P_start − P∞)·exp(−(γ + Γ)t)
+export function calculateBuildUp(pumping: PumpingParams, time: number): number {
+  const rate = pumping.pumpRate + pumping.pumpingRelaxationRate;
+  return pumping.saturationPolarization +
+    (pumping.startPolarization - pumping.saturationPolarization) * Math.exp(-rate * time);
+}
+
+// ポンピング → ビーム上での緩和を1本の時間軸で計算（%）
+//   t ≤ pumpDuration ではビルドアップ、それ以降は P(pumpDuration) から T1 で緩和
+export function calculatePumpDecayCycle(pumping: PumpingParams, relaxationTime: number, time: number): number {
+  if (time <= pumping.pumpDuration) return calculateBuildUp(pumping, Math.max(0, time));
+  const polarizationAtEnd = calculateBuildUp(pumping, pumping.pumpDuration);
+  return calculateHe3Decay(polarizationAtEnd, relaxationTime, time - pumping.pumpDuration);
+}
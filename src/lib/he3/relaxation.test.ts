@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import {
+  calculateDipolarRelaxationTime,
+  calculateGradientRelaxationTime,
+  calculateRelaxationBudget
+} from './relaxation';
+
+describe('T1 の内訳', () => {
+  it('1 amg の双極子緩和は 744 時間', () => {
+    expect(calculateDipolarRelaxationTime(1)).toBe(744);
+    expect(calculateDipolarRelaxationTime(2)).toBe(372);
+  });
+
+  it('10 G・10 mG/cm・1 amg の勾配緩和は約 146 時間', () => {
+    expect(calculateGradientRelaxationTime(1, 10, 10)).toBeCloseTo(146.2, 1);
+  });
+
+  it('勾配緩和は圧力に比例して長くなる', () => {
+    expect(calculateGradientRelaxationTime(2, 10, 10) / calculateGradientRelaxationTime(1, 10, 10)).toBeCloseTo(2, 10);
+  });
+
+  it('合計は各緩和率の和の逆数', () => {
+    const budget = calculateRelaxationBudget({ density: 1, wallRelaxationTime: 300, holdingField: 10, fieldGradient: 10 });
+    expect(1 / budget.total).toBeCloseTo(1 / budget.dipolar + 1 / budget.wall + 1 / budget.gradient, 12);
+    expect(budget.total).toBeLessThan(Math.min(budget.dipolar, budget.wall, budget.gradient));
+  });
+
+  it('寄与しない項は Infinity', () => {
+    const budget = calculateRelaxationBudget({ density: 1, wallRelaxationTime: 0, holdingField: 10, fieldGradient: 0 });
+    expect(budget.wall).toBe(Infinity);
+    expect(budget.gradient).toBe(Infinity);
+    expect(budget.total).toBeCloseTo(744, 10);
+  });
+});
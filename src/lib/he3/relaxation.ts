@@ -0,0 +1,41 @@
+// 縦緩和時間 T1 の内訳（いずれも時間、寄与がなければ Infinity）
+export interface RelaxationBudget {
+  dipolar: number;   // 双極子緩和 T1_dip
+  wall: number;      // 壁緩和 T1_wall
+  gradient: number;  // 磁場勾配緩和 T1_grad
+  total: number;     // 合計 1/T1 = Σ 1/T1_i
+}
+
+// T1 の内訳計算の入力
+export interface RelaxationBudgetInput {
+  density: number;             // He-3 密度（amg）
+  wallRelaxationTime: number;  // 壁緩和時間（時間、0 以下で寄与なし）
+  holdingField: number;        // 保持磁場 B0（G）
+  fieldGradient: number;       // 横方向の磁場勾配 |∇B⊥|（mG/cm）
+}
+
+const DIPOLAR_CONSTANT = 744;  // 双極子緩和 T1_dip·[He-3] (h·amg)、室温
+const DIFFUSION_CONSTANT = 1.9; // 1 amg での He-3 自己拡散係数 D0（cm^2/s）、D = D0/[He-3]
+
+// 双極子緩和時間 T1_dip = 744/[He-3]（時間）
+export function calculateDipolarRelaxationTime(density: number): number {
+  return density > 0 ? DIPOLAR_CONSTANT / density : Infinity;
+}
+
+// 磁場勾配による緩和時間：1/T1 = D·|∇B⊥|^2/B0^2（時間）
+export function calculateGradientRelaxationTime(density: number, holdingField: number, fieldGradient: number): number {
+  if (density <= 0 || holdingField <= 0 || fieldGradient <= 0) return Infinity;
+  const diffusion = DIFFUSION_CONSTANT / density;               // D（cm^2/s）
+  const relative = (fieldGradient * 1e-3) / holdingField;       // |∇B⊥|/B0（/cm）
+  const rate = diffusion * relative * relative;                 // 1/s
+  return 1 / rate / 3600;                                       // s → 時間
+}
+
+// 各寄与を合算した T1（時間）
+export function calculateRelaxationBudget(input: RelaxationBudgetInput): RelaxationBudget {
+  const dipolar = calculateDipolarRelaxationTime(input.density);
+  const wall = input.wallRelaxationTime > 0 ? input.wallRelaxationTime : Infinity;
+  const gradient = calculateGradientRelaxationTime(input.density, input.holdingField, input.fieldGradient);
+  const rate = 1 / dipolar + 1 / wall + 1 / gradient;           // 1/Infinity = 0
+  return { dipolar, wall, gradient, total: rate > 0 ? 1 / rate : Infinity };
+}
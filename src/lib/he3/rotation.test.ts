@@ -0,0 +1,122 @@
+import { describe, expect, it } from 'vitest';
+import { calculateSpinFilter } from './neutron';
+import { planCellRotation } from './rotation';
+import type { RotationCell } from './rotation';
+
+const cell = (name: string, repolarizationTime: number = 24): RotationCell => ({
+  name,
+  gasThickness: 10,
+  initialPolarization: 75,
+  relaxationTime: 100,
+  repolarizationTime
+});
+
+describe('planCellRotation', () => {
+  it('セル1個・交換なしでは単純な緩和と一致する', () => {
+    const plan = planCellRotation({
+      cells: [cell('A')],
+      policy: { type: 'interval', interval: 0 },
+      duration: 48,
+      wavelength: 4,
+      numSteps: 48
+    });
+    expect(plan.swaps).toEqual([]);
+    expect(plan.points[48].he3Polarization).toBeCloseTo(75 * Math.exp(-0.48), 10);
+  });
+
+  it('一定間隔で順番に交換する', () => {
+    const plan = planCellRotation({
+      cells: [cell('A'), cell('B'), cell('C')],
+      policy: { type: 'interval', interval: 24 },
+      duration: 96,
+      wavelength: 4,
+      numSteps: 96
+    });
+    expect(plan.swaps.map(swap => [swap.time, swap.fromCell, swap.toCell])).toEqual([
+      [24, 0, 1],
+      [48, 1, 2],
+      [72, 2, 0]
+    ]);
+    const [before, after] = plan.points.filter(point => point.time === 24);  // 交換前後の2点
+    expect(before.cellIndex).toBe(0);
+    expect(before.he3Polarization).toBeCloseTo(75 * Math.exp(-0.24), 10);
+    expect(after.cellIndex).toBe(1);
+    expect(after.he3Polarization).toBeCloseTo(75, 10);  // 交換直後は P0
+  });
+
+  it('再偏極が終わっていないセルには交換しない', () => {
+    const plan = planCellRotation({
+      cells: [cell('A', 100), cell('B', 100)],
+      policy: { type: 'interval', interval: 24 },
+      duration: 72,
+      wavelength: 4,
+      numSteps: 72
+    });
+    expect(plan.swaps.map(swap => swap.time)).toEqual([24]);  // 48 h では A はまだ再偏極中
+  });
+
+  it('Pn のしきい値で交換し、交換時の Pn はしきい値付近', () => {
+    const threshold = 70;
+    const plan = planCellRotation({
+      cells: [cell('A'), cell('B')],
+      policy: { type: 'threshold', minNeutronPolarization: threshold },
+      duration: 200,
+      wavelength: 4,
+      numSteps: 2000
+    });
+    expect(plan.swaps.length).toBeGreaterThan(0);
+    const first = plan.swaps[0];
+    const before = plan.points[Math.round(first.time / 0.1) - 1];
+    expect(before.neutronPolarization).toBeGreaterThanOrEqual(threshold);
+  });
+
+  it('P0 でも Pn が下限に届かないセルには交換しない', () => {
+    const plan = planCellRotation({
+      cells: [cell('A'), { ...cell('B'), initialPolarization: 20 }, cell('C')],
+      policy: { type: 'threshold', minNeutronPolarization: 70 },
+      duration: 200,
+      wavelength: 4,
+      numSteps: 2000
+    });
+    expect(plan.swaps.length).toBeGreaterThan(0);
+    expect(plan.swaps.every(swap => swap.toCell !== 1)).toBe(true);
+    expect(plan.thresholdUnreachable).toBe(false);
+  });
+
+  it('どのセルも下限に届かなければ交換せず、届かないことを返す', () => {
+    const plan = planCellRotation({
+      cells: [cell('A', 0), cell('B', 0)],
+      policy: { type: 'threshold', minNeutronPolarization: 99.9 },
+      duration: 48,
+      wavelength: 4,
+      numSteps: 48
+    });
+    expect(plan.swaps).toEqual([]);
+    expect(plan.thresholdUnreachable).toBe(true);
+  });
+
+  it('時間平均 FOM は交換前後の値で区間ごとに平均する', () => {
+    const steady = (name: string, initialPolarization: number): RotationCell =>
+      ({ ...cell(name), initialPolarization, relaxationTime: Infinity });
+    const plan = planCellRotation({
+      cells: [steady('A', 75), steady('B', 50)],
+      policy: { type: 'interval', interval: 5 },
+      duration: 10,
+      wavelength: 4,
+      numSteps: 10
+    });
+    expect(plan.swaps.map(swap => swap.time)).toEqual([5]);
+    const expected = (calculateSpinFilter(4, 0.75, 10).figureOfMerit + calculateSpinFilter(4, 0.5, 10).figureOfMerit) / 2;
+    expect(plan.averageFigureOfMerit).toBeCloseTo(expected, 10);
+  });
+
+  it('時間平均 FOM は一定値なら瞬時値に等しい', () => {
+    const plan = planCellRotation({
+      cells: [{ ...cell('A'), relaxationTime: Infinity }],
+      policy: { type: 'interval', interval: 0 },
+      duration: 10,
+      wavelength: 4
+    });
+    expect(plan.averageFigureOfMerit).toBeCloseTo(calculateSpinFilter(4, 0.75, 10).figureOfMerit, 10);
+  });
+});
@@ -0,0 +1,124 @@
+import { calculateCellPolarization } from './decay';
+import type { He3Cell } from './decay';
+import { calculateSpinFilter } from './neutron';
+import type { CrossSectionSettings } from './crossSection';
+
+// ローテーションに使うセル
+export interface RotationCell extends He3Cell {
+  name: string;                // セル名
+  repolarizationTime: number;  // 偏極ステーションでの再偏極時間（時間）
+}
+
+// セル交換の方針
+export type SwapPolicy =
+  | { type: 'interval'; interval: number }                   // 一定間隔（時間）で交換
+  | { type: 'threshold'; minNeutronPolarization: number };   // Pn（%）が下回ったら交換
+
+// ローテーション計画の入力
+export interface RotationPlanInput {
+  cells: RotationCell[];   // セル一覧（先頭から順にビームへ載せる）
+  policy: SwapPolicy;      // 交換方針
+  duration: number;        // ビームタイムの長さ（時間）
+  wavelength: number;      // 波長（Å）
+  numSteps?: number;       // 時間分割数
+  crossSection?: CrossSectionSettings;  // 吸収断面積（省略時は既定）
+}
+
+// ビームタイム中の1点
+export interface RotationPoint {
+  time: number;                 // ビームタイム開始からの時間（時間）
+  cellIndex: number;            // ビーム上のセル番号
+  he3Polarization: number;      // He-3 偏極度（%）
+  neutronPolarization: number;  // 中性子偏極度（%）
+  neutronTransmission: number;  // 中性子透過率（%）
+  figureOfMerit: number;        // FOM（%）
+}
+
+// セル交換の記録
+export interface RotationSwap {
+  time: number;      // 交換時刻（時間）
+  fromCell: number;  // 外したセル番号
+  toCell: number;    // 載せたセル番号
+}
+
+// ローテーション計画の結果
+export interface RotationPlan {
+  points: RotationPoint[];
+  swaps: RotationSwap[];
+  averageFigureOfMerit: number;  // ビームタイム全体の時間平均 FOM（%）
+  thresholdUnreachable: boolean; // しきい値方針で、どのセルも P0 の状態で Pn の下限に届かない
+}
+
+// 複数セルをビームと偏極ステーションの間で回したときの He-3 偏極度・Pn・FOM
+//   - 開始時点ではすべてのセルが P0 で準備済み
+//   - 外したセルは再偏極時間の後に P0 で再び使用可能になる
+//   - 交換時に使用可能なセルがなければ、現在のセルを使い続ける
+//   - しきい値方針では、P0 で載せても Pn が下限に届かないセルには交換しない
+//   - 交換時刻には交換前と交換後の2点を記録する
+export function planCellRotation(input: RotationPlanInput): RotationPlan {
+  const { cells, policy, duration, wavelength, crossSection } = input;
+  const numSteps = input.numSteps ?? 1000;
+  const points: RotationPoint[] = [];
+  const swaps: RotationSwap[] = [];
+  if (cells.length === 0 || !(duration > 0)) return { points, swaps, averageFigureOfMerit: 0, thresholdUnreachable: false };
+
+  // 交換先にできるセル（しきい値方針では P0 での Pn が下限以上のもの）
+  const eligible = cells.map(cell => policy.type !== 'threshold'
+    || calculateSpinFilter(wavelength, calculateCellPolarization(cell, 0) / 100, cell.gasThickness, crossSection)
+      .neutronPolarization >= policy.minNeutronPolarization);
+
+  const readyAt = cells.map(() => 0);  // 各セルが使用可能になる時刻
+  let current = 0;                     // ビーム上のセル
+  let installedAt = 0;                 // 現在のセルを載せた時刻
+  const step = duration / numSteps;
+
+  // 現在のセルの t での状態
+  const evaluate = (time: number): RotationPoint => {
+    const cell = cells[current];
+    const he3Polarization = calculateCellPolarization(cell, time - installedAt);
+    const result = calculateSpinFilter(wavelength, he3Polarization / 100, cell.gasThickness, crossSection);
+    return { time, cellIndex: current, he3Polarization, ...result };
+  };
+
+  // 交換先（現在のセルの次から順に、使用可能な最初のセル）
+  const nextReadyCell = (time: number): number | null => {
+    for (let offset = 1; offset < cells.length; offset++) {
+      const candidate = (current + offset) % cells.length;
+      if (eligible[candidate] && readyAt[candidate] <= time) return candidate;
+    }
+    return null;
+  };
+
+  for (let i = 0; i <= numSteps; i++) {
+    const time = i * step;
+    let point = evaluate(time);
+
+    const swapDue = policy.type === 'interval'
+      ? policy.interval > 0 && time - installedAt >= policy.interval - 1e-9
+      : point.neutronPolarization < policy.minNeutronPolarization;
+    if (swapDue && i < numSteps) {
+      const next = nextReadyCell(time);
+      if (next !== null) {
+        points.push(point);  // 交換前の点
+        swaps.push({ time, fromCell: current, toCell: next });
+        readyAt[current] = time + cells[current].repolarizationTime;  // 偏極ステーションへ
+        current = next;
+        installedAt = time;
+        point = evaluate(time);
+      }
+    }
+    points.push(point);
+  }
+
+  // 台形則による時間平均（交換時刻の前後2点の間は幅 0）
+  let integral = 0;
+  for (let i = 1; i < points.length; i++) {
+    integral += (points[i].figureOfMerit + points[i - 1].figureOfMerit) / 2 * (points[i].time - points[i - 1].time);
+  }
+  return {
+    points,
+    swaps,
+    averageFigureOfMerit: integral / duration,
+    thresholdUnreachable: policy.type === 'threshold' && !eligible.some(Boolean)
+  };
+}
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { decimateIndices, sampleAdaptive } from './sampling';
+
+describe('sampleAdaptive', () => {
+  // x = 5 付近で急に立ち上がる曲線
+  const step = (x: number) => [100 / (1 + Math.exp(-(x - 5) * 20))];
+
+  it('両端を含む numPoints + 1 点を昇順で返す', () => {
+    const xs = sampleAdaptive(step, 0, 10, 200);
+    expect(xs).toHaveLength(201);
+    expect(xs[0]).toBe(0);
+    expect(xs[xs.length - 1]).toBe(10);
+    xs.slice(1).forEach((x, i) => expect(x).toBeGreaterThan(xs[i]));
+  });
+
+  it('急に変わる所ほど点が密になる', () => {
+    const xs = sampleAdaptive(step, 0, 10, 200);
+    const near = xs.filter(x => Math.abs(x - 5) < 0.5).length;
+    const far = xs.filter(x => x < 1).length;
+    expect(near).toBeGreaterThan(5 * far);
+  });
+
+  it('直線では等間隔の格子に近くなり、線形補間の誤差は等間隔より小さい', () => {
+    const xs = sampleAdaptive(step, 0, 10, 100);
+    const uniform = Array.from({ length: 101 }, (_, i) => i / 10);
+    const maxError = (grid: number[]) => Math.max(...grid.slice(1).map((x, i) => {
+      const middle = (grid[i] + x) / 2;
+      return Math.abs(step(middle)[0] - (step(grid[i])[0] + step(x)[0]) / 2);
+    }));
+    expect(maxError(xs)).toBeLessThan(maxError(uniform));
+  });
+
+  it('対数スケールでは log10(x) で分割する', () => {
+    const xs = sampleAdaptive(x => [Math.log10(x)], 0.1, 100, 24, true);  // log10(x) について直線
+    expect(xs).toHaveLength(25);
+    expect(xs[0]).toBeCloseTo(0.1, 12);
+    expect(xs[24]).toBeCloseTo(100, 10);
+    xs.slice(1).forEach((x, i) => expect(Math.log10(x / xs[i])).toBeCloseTo(3 / 24, 6));
+  });
+
+  it('範囲が不正なら空', () => {
+    expect(sampleAdaptive(step, 5, 5, 10)).toEqual([]);
+    expect(sampleAdaptive(step, 0, 10, 10, true)).toEqual([]);
+  });
+});
+
+describe('decimateIndices', () => {
+  it('区間ごとの最小・最大と全体の両端を残す', () => {
+    const xs = Array.from({ length: 1001 }, (_, i) => i / 100);
+    const values = xs.map(x => [Math.sin(x * 5), x]);
+    const kept = decimateIndices(xs, values, 20);
+    expect(kept.length).toBeLessThanOrEqual(20 * 6);
+    expect(kept[0]).toBe(0);
+    expect(kept[kept.length - 1]).toBe(1000);
+    const peak = values.reduce((best, v, i) => v[0] > values[best][0] ? i : best, 0);
+    expect(kept).toContain(peak);
+  });
+
+  it('点が少なければすべて残す', () => {
+    expect(decimateIndices([0, 1], [[0], [1]], 10)).toEqual([0, 1]);
+  });
+});
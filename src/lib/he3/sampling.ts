@@ -0,0 +1,132 @@
+// 曲線のサンプル点の選び方（高密度の計算と描画用の間引き）
+
+// 区間（両端の位置と中点での値）
+interface Interval {
+  left: number;          // 左端（u）
+  right: number;         // 右端（u）
+  leftValues: number[];  // 左端での値
+  rightValues: number[]; // 右端での値
+  middle: number;        // 中点（u）
+  values: number[];      // 中点での値
+  error: number;         // 中点での線形補間からのずれ（分割の優先度）
+}
+
+// 分割を優先する順（ずれが大きい順、同じなら広い順）
+function isBefore(a: Interval, b: Interval): boolean {
+  return a.error > b.error || (a.error === b.error && a.right - a.left > b.right - b.left);
+}
+
+// ずれの大きい順に取り出すヒープ
+function pushInterval(heap: Interval[], interval: Interval): void {
+  heap.push(interval);
+  let i = heap.length - 1;
+  while (i > 0) {
+    const parent = (i - 1) >> 1;
+    if (!isBefore(heap[i], heap[parent])) break;
+    [heap[parent], heap[i]] = [heap[i], heap[parent]];
+    i = parent;
+  }
+}
+
+function popInterval(heap: Interval[]): Interval | undefined {
+  const top = heap[0];
+  const last = heap.pop();
+  if (heap.length > 0 && last) {
+    heap[0] = last;
+    let i = 0;
+    for (;;) {
+      const left = 2 * i + 1;
+      const right = left + 1;
+      let largest = i;
+      if (left < heap.length && isBefore(heap[left], heap[largest])) largest = left;
+      if (right < heap.length && isBefore(heap[right], heap[largest])) largest = right;
+      if (largest === i) break;
+      [heap[largest], heap[i]] = [heap[i], heap[largest]];
+      i = largest;
+    }
+  }
+  return top;
+}
+
+// 適応サンプリング：両端を含む numPoints + 1 点を、曲線が急に変わる所ほど密に選ぶ
+//   等間隔の粗い格子（全体の 1/8）から始め、中点での線形補間のずれが最大の区間を順に二分する。
+//   evaluate は x での値（複数の系列）を返す。isLogScale では log10(x) で等分・二分する
+export function sampleAdaptive(
+  evaluate: (x: number) => number[],
+  min: number,
+  max: number,
+  numPoints: number,
+  isLogScale: boolean = false
+): number[] {
+  if (!(max > min) || (isLogScale && !(min > 0))) return [];
+  const toX = (u: number) => isLogScale ? Math.pow(10, u) : u;
+  const uMin = isLogScale ? Math.log10(min) : min;
+  const uMax = isLogScale ? Math.log10(max) : max;
+  const initial = Math.max(1, Math.min(numPoints, Math.ceil(numPoints / 8)));
+
+  const nodes: number[] = [];
+  const nodeValues: number[][] = [];
+  for (let i = 0; i <= initial; i++) {
+    const u = uMin + i * (uMax - uMin) / initial;
+    nodes.push(u);
+    nodeValues.push(evaluate(toX(u)));
+  }
+
+  // 区間を作る（中点を評価し、両端の平均からのずれを求める）
+  const makeInterval = (left: number, right: number, leftValues: number[], rightValues: number[]): Interval => {
+    const middle = (left + right) / 2;
+    const values = evaluate(toX(middle));
+    let error = 0;
+    values.forEach((value, k) => {
+      const deviation = Math.abs(value - (leftValues[k] + rightValues[k]) / 2);
+      const roundoff = 1e-12 * Math.max(Math.abs(value), Math.abs(leftValues[k]), Math.abs(rightValues[k]), 1);
+      if (Number.isFinite(deviation) && deviation > roundoff) error = Math.max(error, deviation);  // 丸め誤差は直線とみなす
+    });
+    return { left, right, leftValues, rightValues, middle, values, error };
+  };
+
+  const heap: Interval[] = [];
+  for (let i = 0; i < initial; i++) {
+    pushInterval(heap, makeInterval(nodes[i], nodes[i + 1], nodeValues[i], nodeValues[i + 1]));
+  }
+  for (let added = initial; added < numPoints; added++) {
+    const worst = popInterval(heap);
+    if (!worst) break;
+    nodes.push(worst.middle);
+    pushInterval(heap, makeInterval(worst.left, worst.middle, worst.leftValues, worst.values));
+    pushInterval(heap, makeInterval(worst.middle, worst.right, worst.values, worst.rightValues));
+  }
+
+  return nodes.sort((a, b) => a - b).map(toX);
+}
+
+// 描画用の間引き：x の範囲を buckets 等分し、各区間の両端の点と各系列の最小・最大の点を残す
+//   xs は昇順。values[i] は点 i での各系列の値。残す点の添字を昇順で返す
+export function decimateIndices(xs: number[], values: number[][], buckets: number): number[] {
+  if (xs.length <= 2 || buckets <= 0) return xs.map((_, i) => i);
+  const min = xs[0];
+  const width = (xs[xs.length - 1] - min) / buckets;
+  const keep = new Set<number>([0, xs.length - 1]);
+
+  let start = 0;
+  while (start < xs.length) {
+    const bucket = width > 0 ? Math.min(buckets - 1, Math.floor((xs[start] - min) / width)) : 0;
+    let end = start;
+    while (end + 1 < xs.length && (width > 0 ? Math.min(buckets - 1, Math.floor((xs[end + 1] - min) / width)) : 0) === bucket) end++;
+
+    keep.add(start);
+    keep.add(end);
+    values[start].forEach((_, k) => {
+      let lowest = start;
+      let highest = start;
+      for (let i = start + 1; i <= end; i++) {
+        if (values[i][k] < values[lowest][k]) lowest = i;
+        if (values[i][k] > values[highest][k]) highest = i;
+      }
+      keep.add(lowest);
+      keep.add(highest);
+    });
+    start = end + 1;
+  }
+  return [...keep].sort((a, b) => a - b);
+}
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { calculateSpinFilter } from './neutron';
+import {
+  calculateSpectrumAverage,
+  maxwellianWavelength,
+  parseSpectrumTable,
+  spectrumIntensity
+} from './spectrum';
+
+describe('マクスウェル分布', () => {
+  it('300 K の特性波長は約 1.78 Å', () => {
+    expect(maxwellianWavelength(300)).toBeCloseTo(1.7793, 3);
+  });
+
+  it('φ(λ) のピークは λT·√(2/5)', () => {
+    const spectrum = { type: 'maxwellian' as const, temperature: 300 };
+    const peak = maxwellianWavelength(300) * Math.sqrt(2 / 5);
+    expect(spectrumIntensity(spectrum, peak)).toBeGreaterThan(spectrumIntensity(spectrum, peak * 0.98));
+    expect(spectrumIntensity(spectrum, peak)).toBeGreaterThan(spectrumIntensity(spectrum, peak * 1.02));
+  });
+});
+
+describe('calculateSpectrumAverage', () => {
+  it('狭い一様分布では単色の値に一致する', () => {
+    const average = calculateSpectrumAverage({ type: 'flat', wavelengthMin: 3.999, wavelengthMax: 4.001 }, 0.7, 10);
+    const mono = calculateSpinFilter(4, 0.7, 10);
+    expect(average.neutronPolarization).toBeCloseTo(mono.neutronPolarization, 3);
+    expect(average.neutronTransmission).toBeCloseTo(mono.neutronTransmission, 3);
+    expect(average.figureOfMerit).toBeCloseTo(mono.figureOfMerit, 3);
+  });
+
+  it('広帯域の平均透過率は両端の値の間に入る', () => {
+    const average = calculateSpectrumAverage({ type: 'flat', wavelengthMin: 2, wavelengthMax: 6 }, 0.7, 10);
+    expect(average.neutronTransmission).toBeLessThan(calculateSpinFilter(2, 0.7, 10).neutronTransmission);
+    expect(average.neutronTransmission).toBeGreaterThan(calculateSpinFilter(6, 0.7, 10).neutronTransmission);
+  });
+
+  it('テーブルとして与えた一様分布は flat と一致する', () => {
+    const table = calculateSpectrumAverage({
+      type: 'table',
+      points: [{ wavelength: 2, intensity: 1 }, { wavelength: 6, intensity: 1 }]
+    }, 0.7, 10);
+    const flat = calculateSpectrumAverage({ type: 'flat', wavelengthMin: 2, wavelengthMax: 6 }, 0.7, 10);
+    expect(table.neutronTransmission).toBeCloseTo(flat.neutronTransmission, 8);
+  });
+
+  it('空のスペクトルでは 0 を返す', () => {
+    expect(calculateSpectrumAverage({ type: 'table', points: [] }, 0.7, 10).neutronTransmission).toBe(0);
+  });
+});
+
+describe('parseSpectrumTable', () => {
+  it('ヘッダーとコメントを読み飛ばし、波長順に並べる', () => {
+    const points = parseSpectrumTable('# spectrum\nlambda,intensity\n4, 2\n1.5, 0.5\n\n2.0\t1.0\n');
+    expect(points).toEqual([
+      { wavelength: 1.5, intensity: 0.5 },
+      { wavelength: 2, intensity: 1 },
+      { wavelength: 4, intensity: 2 }
+    ]);
+  });
+});
+
+describe('calculateSpectrumAverage（セル窓あり）', () => {
+  it('狭い帯域では窓の透過率がそのまま掛かる', () => {
+    const band = { type: 'flat' as const, wavelengthMin: 3.999, wavelengthMax: 4.001 };
+    const bare = calculateSpectrumAverage(band, 0.7, 10);
+    const windowed = calculateSpectrumAverage(band, 0.7, 10, 1000, { absorption: 0, scattering: 0.5, thickness: 0.2 });
+    expect(windowed.neutronTransmission / bare.neutronTransmission).toBeCloseTo(Math.exp(-0.1), 6);
+    expect(windowed.neutronPolarization).toBeCloseTo(bare.neutronPolarization, 10);
+  });
+});
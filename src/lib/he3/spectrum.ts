@@ -0,0 +1,131 @@
+import { PHYSICAL_CONSTANTS } from './constants';
+import { calculateSpinFilter } from './neutron';
+import { parseNumericTable } from './table';
+import { calculateWindowTransmission } from './window';
+import type { WindowModel } from './window';
+import { DEFAULT_CROSS_SECTION_SETTINGS } from './crossSection';
+import type { CrossSectionSettings } from './crossSection';
+
+// ボルツマン定数（meV/K）
+const BOLTZMANN_MEV = 8.617333e-2;
+
+// スペクトルの1点（波長あたりの強度）
+export interface SpectrumPoint {
+  wavelength: number;  // 波長（Å）
+  intensity: number;   // 強度（任意単位、/Å）
+}
+
+// 入射スペクトルの定義
+export type SpectrumDefinition =
+  | { type: 'maxwellian'; temperature: number }                   // 減速材温度（K）のマクスウェル分布
+  | { type: 'flat'; wavelengthMin: number; wavelengthMax: number } // λmin–λmax の一様分布（Å）
+  | { type: 'table'; points: SpectrumPoint[] };                    // 読み込んだ2列テーブル
+
+// スペクトル平均の結果（いずれも %）
+export interface SpectrumAverage {
+  neutronPolarization: number;  // 透過ビームの平均偏極度（%）
+  neutronTransmission: number;  // 平均透過率（%）
+  figureOfMerit: number;        // 平均値から求めた FOM = <Pn>^2 <T>（%）
+}
+
+// マクスウェル分布の特性波長 λT = √(81.81/kT)（Å）
+export function maxwellianWavelength(temperature: number): number {
+  return Math.sqrt(PHYSICAL_CONSTANTS.energyWavelength / (BOLTZMANN_MEV * temperature));
+}
+
+// 波長 λ（Å）での入射強度（/Å、任意単位）
+export function spectrumIntensity(spectrum: SpectrumDefinition, wavelength: number): number {
+  switch (spectrum.type) {
+    case 'maxwellian': {
+      // φ(λ) ∝ λ^{-5} exp(-(λT/λ)^2)
+      const ratio = maxwellianWavelength(spectrum.temperature) / wavelength;
+      return Math.pow(ratio, 5) * Math.exp(-ratio * ratio);
+    }
+    case 'flat':
+      return wavelength >= spectrum.wavelengthMin && wavelength <= spectrum.wavelengthMax ? 1 : 0;
+    case 'table':
+      return interpolateSpectrum(spectrum.points, wavelength);
+  }
+}
+
+// テーブルの線形補間（範囲外は 0）
+function interpolateSpectrum(points: SpectrumPoint[], wavelength: number): number {
+  if (points.length === 0) return 0;
+  if (wavelength < points[0].wavelength || wavelength > points[points.length - 1].wavelength) return 0;
+
+  let hi = 1;
+  while (hi < points.length - 1 && points[hi].wavelength < wavelength) hi++;
+  const lo = points[hi - 1];
+  const upper = points[hi];
+  if (upper.wavelength === lo.wavelength) return lo.intensity;
+  const fraction = (wavelength - lo.wavelength) / (upper.wavelength - lo.wavelength);
+  return lo.intensity + fraction * (upper.intensity - lo.intensity);
+}
+
+// 積分に使う波長範囲 [λmin, λmax]（Å）
+export function spectrumRange(spectrum: SpectrumDefinition): [number, number] {
+  switch (spectrum.type) {
+    case 'maxwellian': {
+      const characteristic = maxwellianWavelength(spectrum.temperature);
+      return [0.1 * characteristic, 20 * characteristic]; // 両端の寄与は無視できる
+    }
+    case 'flat':
+      return [spectrum.wavelengthMin, spectrum.wavelengthMax];
+    case 'table':
+      return spectrum.points.length > 0
+        ? [spectrum.points[0].wavelength, spectrum.points[spectrum.points.length - 1].wavelength]
+        : [0, 0];
+  }
+}
+
+// 2列テーブル（λ[Å], 強度）を読み込み、波長の昇順に並べる
+export function parseSpectrumTable(text: string): SpectrumPoint[] {
+  return parseNumericTable(text, 2)
+    .map(([wavelength, intensity]) => ({ wavelength, intensity }))
+    .filter(point => point.wavelength > 0 && point.intensity >= 0)
+    .sort((a, b) => a.wavelength - b.wavelength);
+}
+
+// スペクトル平均の Pn, T, FOM（台形積分）
+//   <T>  = ∫φT dλ / ∫φ dλ
+//   <Pn> = ∫φT·Pn dλ / ∫φT dλ （透過ビームの偏極度）
+export function calculateSpectrumAverage(
+  spectrum: SpectrumDefinition,
+  he3Polarization: number,  // He-3 偏極度（0–1）
+  gasThickness: number,     // ガス厚さ（amg·cm）
+  numPoints: number = 1000,
+  window?: WindowModel,     // セル窓（省略時はガスのみ）
+  crossSection: CrossSectionSettings = DEFAULT_CROSS_SECTION_SETTINGS
+): SpectrumAverage {
+  const [wavelengthMin, wavelengthMax] = spectrumRange(spectrum);
+  let incident = 0;     // ∫φ
+  let transmitted = 0;  // ∫φT
+  let polarized = 0;    // ∫φT·Pn
+
+  if (wavelengthMax > wavelengthMin) {
+    const step = (wavelengthMax - wavelengthMin) / numPoints;
+    for (let i = 0; i <= numPoints; i++) {
+      const wavelength = wavelengthMin + i * step;
+      const weight = (i === 0 || i === numPoints ? 0.5 : 1) * step;  // 台形則の重み
+      const intensity = spectrumIntensity(spectrum, wavelength);
+      const { neutronPolarization, neutronTransmission: gasTransmission } = calculateSpinFilter(wavelength, he3Polarization, gasThickness, crossSection);
+      const neutronTransmission = window
+        ? gasTransmission * calculateWindowTransmission(wavelength, window) / 100
+        : gasTransmission;
+      incident += weight * intensity;
+      transmitted += weight * intensity * neutronTransmission / 100;
+      polarized += weight * intensity * neutronTransmission / 100 * neutronPolarization / 100;
+    }
+  }
+
+  if (incident <= 0 || transmitted <= 0) {
+    return { neutronPolarization: 0, neutronTransmission: 0, figureOfMerit: 0 };
+  }
+  const neutronTransmission = transmitted / incident;
+  const neutronPolarization = polarized / transmitted;
+  return {
+    neutronPolarization: neutronPolarization * 100,
+    neutronTransmission: neutronTransmission * 100,
+    figureOfMerit: neutronPolarization * neutronPolarization * neutronTransmission * 100
+  };
+}
@@ -0,0 +1,19 @@
+// 数値テーブル（CSV・タブ・空白区切り）の読み込み
+//   - 空行と '#' で始まる行は無視
+//   - 数値として解釈できない行（ヘッダー行など）は無視
+//   - 列数が minColumns 未満の行は無視
+export function parseNumericTable(text: string, minColumns: number = 2): number[][] {
+  const rows: number[][] = [];
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (line === '' || line.startsWith('#')) continue;
+
+    const cells = line.split(/[,;\t ]+/).filter(cell => cell !== '');
+    if (cells.length < minColumns) continue;
+
+    const values = cells.map(Number);
+    if (values.slice(0, minColumns).some(value => !Number.isFinite(value))) continue; // ヘッダー行など
+    rows.push(values);
+  }
+  return rows;
+}
@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { calculateSpinFilter } from './neutron';
+import { calculateTwoCell } from './twoCell';
+
+describe('calculateTwoCell', () => {
+  it('同一セル2枚では Pp = Pa、透過率は T^2', () => {
+    const single = calculateSpinFilter(4, 0.7, 10);
+    const result = calculateTwoCell(4, 0.7, 10, 0.7, 10);
+    expect(result.polarizerPolarization).toBeCloseTo(single.neutronPolarization, 12);
+    expect(result.analyzerPolarization).toBeCloseTo(single.neutronPolarization, 12);
+    expect(result.neutronTransmission).toBeCloseTo(single.neutronTransmission ** 2 / 100, 10);
+  });
+
+  it('フリッピング比 R = (1 + PpPa)/(1 − PpPa) は NSF/SF 透過率の比に等しい', () => {
+    const result = calculateTwoCell(3, 0.75, 12, 0.65, 8);
+    const product = result.polarizationProduct / 100;
+    expect(result.flippingRatio).toBeCloseTo((1 + product) / (1 - product), 10);
+    expect(result.nonSpinFlipTransmission / result.spinFlipTransmission).toBeCloseTo(result.flippingRatio, 10);
+    expect((result.nonSpinFlipTransmission + result.spinFlipTransmission) / 2).toBeCloseTo(result.neutronTransmission, 10);
+  });
+
+  it('FOM = (PpPa)^2 Tp·Ta', () => {
+    const result = calculateTwoCell(3, 0.75, 12, 0.65, 8);
+    expect(result.figureOfMerit).toBeCloseTo((result.polarizationProduct / 100) ** 2 * result.neutronTransmission, 10);
+  });
+
+  it('無偏極のアナライザーではフリッピング比は 1', () => {
+    expect(calculateTwoCell(4, 0.7, 10, 0, 10).flippingRatio).toBe(1);
+  });
+});
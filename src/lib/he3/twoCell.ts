@@ -0,0 +1,47 @@
+import { calculateSpinFilter } from './neutron';
+import { DEFAULT_CROSS_SECTION_SETTINGS } from './crossSection';
+import type { CrossSectionSettings } from './crossSection';
+
+// ポラライザー＋アナライザー2セル構成の計算結果
+export interface TwoCellResult {
+  polarizerPolarization: number;   // ポラライザーの中性子偏極度 Pp（%）
+  analyzerPolarization: number;    // アナライザーの分析能 Pa（%）
+  polarizationProduct: number;     // Pp·Pa（%）
+  neutronTransmission: number;     // フリッパー on/off 平均の透過率 Tp·Ta（%）
+  nonSpinFlipTransmission: number; // 非反転の透過率 Tp·Ta(1 + PpPa)（%）
+  spinFlipTransmission: number;    // 反転の透過率 Tp·Ta(1 − PpPa)（%）
+  flippingRatio: number;           // フリッピング比 R = (1 + PpPa)/(1 − PpPa)
+  figureOfMerit: number;           // 2セルの FOM = (PpPa)^2 Tp·Ta（%）
+}
+
+// 2セル構成の Pp·Pa, 透過率, フリッピング比, FOM（理想フリッパーを仮定）
+//   wavelength                                … 波長（Å）
+//   polarizerHe3Polarization / analyzer…      … 各セルの He-3 偏極度（0–1）
+//   polarizerThickness / analyzerThickness    … 各セルのガス厚さ（amg·cm）
+export function calculateTwoCell(
+  wavelength: number,
+  polarizerHe3Polarization: number,
+  polarizerThickness: number,
+  analyzerHe3Polarization: number,
+  analyzerThickness: number,
+  crossSection: CrossSectionSettings = DEFAULT_CROSS_SECTION_SETTINGS
+): TwoCellResult {
+  const polarizer = calculateSpinFilter(wavelength, polarizerHe3Polarization, polarizerThickness, crossSection);
+  const analyzer = calculateSpinFilter(wavelength, analyzerHe3Polarization, analyzerThickness, crossSection);
+
+  const pp = polarizer.neutronPolarization / 100;
+  const pa = analyzer.neutronPolarization / 100;
+  const product = pp * pa;
+  const transmission = (polarizer.neutronTransmission / 100) * (analyzer.neutronTransmission / 100);
+
+  return {
+    polarizerPolarization: polarizer.neutronPolarization,
+    analyzerPolarization: analyzer.neutronPolarization,
+    polarizationProduct: product * 100,
+    neutronTransmission: transmission * 100,
+    nonSpinFlipTransmission: transmission * (1 + product) * 100,
+    spinFlipTransmission: transmission * (1 - product) * 100,
+    flippingRatio: product < 1 ? (1 + product) / (1 - product) : Infinity,
+    figureOfMerit: product * product * transmission * 100
+  };
+}
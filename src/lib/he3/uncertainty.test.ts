@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { propagateUncertainty } from './uncertainty';
+import { calculateHe3Decay } from './decay';
+
+describe('propagateUncertainty', () => {
+  it('線形な関数では σ² の和', () => {
+    const { value, sigma } = propagateUncertainty(
+      ([a, b]) => ({ sum: a + 2 * b }),
+      [1, 2],
+      [0.3, 0.2]
+    );
+    expect(value.sum).toBe(5);
+    expect(sigma.sum).toBeCloseTo(0.5, 8);
+  });
+
+  it('He-3 の減衰：σP = √[(e^{-t/T1}σP0)² + (P t/T1² σT1)²]', () => {
+    const t = 50;
+    const { value, sigma } = propagateUncertainty(
+      ([p0, t1]) => ({ polarization: calculateHe3Decay(p0, t1, t) }),
+      [70, 100],
+      [2, 10]
+    );
+    const expected = Math.hypot(Math.exp(-t / 100) * 2, value.polarization * t / 100 ** 2 * 10);
+    expect(sigma.polarization).toBeCloseTo(expected, 6);
+  });
+
+  it('誤差がなければ σ = 0', () => {
+    const { sigma } = propagateUncertainty(([x]) => ({ square: x * x }), [3], [0]);
+    expect(sigma.square).toBe(0);
+  });
+});
@@ -0,0 +1,36 @@
+// 入力パラメータの誤差の線形伝播
+//   σ_f² = Σ (∂f/∂x_i · σ_i)²（入力どうしの相関は無視、偏微分は中心差分）
+//   evaluate … 入力の並び x から複数の出力（名前付き）を返す関数。出力ごとに σ を求める
+
+export interface PropagatedUncertainty<K extends string> {
+  value: Record<K, number>;  // 中心値
+  sigma: Record<K, number>;  // 1σ 誤差
+}
+
+export function propagateUncertainty<K extends string>(
+  evaluate: (values: number[]) => Record<K, number>,
+  values: number[],
+  sigmas: number[]
+): PropagatedUncertainty<K> {
+  const value = evaluate(values);
+  const keys = Object.keys(value) as K[];
+  const variance = Object.fromEntries(keys.map(key => [key, 0])) as Record<K, number>;
+
+  values.forEach((x, i) => {
+    if (!(sigmas[i] > 0)) return;  // 誤差なしの入力は寄与しない
+    const h = 1e-6 * Math.max(Math.abs(x), 1);
+    const plus = [...values];
+    const minus = [...values];
+    plus[i] += h;
+    minus[i] -= h;
+    const upper = evaluate(plus);
+    const lower = evaluate(minus);
+    for (const key of keys) {
+      const derivative = (upper[key] - lower[key]) / (2 * h);
+      variance[key] += (derivative * sigmas[i]) ** 2;
+    }
+  });
+
+  const sigma = Object.fromEntries(keys.map(key => [key, Math.sqrt(variance[key])])) as Record<K, number>;
+  return { value, sigma };
+}
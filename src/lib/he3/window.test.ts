@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { calculateSpinFilter } from './neutron';
+import { applyWindowTransmission, calculateWindowTransmission } from './window';
+
+describe('calculateWindowTransmission', () => {
+  it('厚さ 0 では 100 %', () => {
+    expect(calculateWindowTransmission(4, { absorption: 1, scattering: 1, thickness: 0 })).toBe(100);
+  });
+
+  it('1.8 Å では exp(-(Σa + Σs)t)', () => {
+    expect(calculateWindowTransmission(1.8, { absorption: 0.5, scattering: 0.2, thickness: 0.4 }))
+      .toBeCloseTo(100 * Math.exp(-0.28), 10);
+  });
+
+  it('吸収は波長に比例して増える', () => {
+    const window = { absorption: 1, scattering: 0, thickness: 0.1 };
+    const ratio = Math.log(calculateWindowTransmission(7.2, window) / 100) / Math.log(calculateWindowTransmission(1.8, window) / 100);
+    expect(ratio).toBeCloseTo(4, 10);
+  });
+});
+
+describe('applyWindowTransmission', () => {
+  it('透過率と FOM にだけ窓の透過率を掛ける', () => {
+    const gas = calculateSpinFilter(4, 0.7, 10);
+    const total = applyWindowTransmission(gas, 90);
+    expect(total.neutronPolarization).toBe(gas.neutronPolarization);
+    expect(total.neutronTransmission).toBeCloseTo(gas.neutronTransmission * 0.9, 12);
+    expect(total.figureOfMerit).toBeCloseTo(gas.figureOfMerit * 0.9, 12);
+  });
+});
@@ -0,0 +1,36 @@
+import { PHYSICAL_CONSTANTS } from './constants';
+import type { SpinFilterResult } from './neutron';
+
+// セル窓（容器）の減衰モデル
+//   Σ(λ) = Σa·(λ/1.8Å) + Σs （吸収は 1/v、散乱は波長に依らないとする）
+export interface WindowModel {
+  absorption: number;  // 吸収の巨視的断面積 Σa（/cm、λ=1.8Å）
+  scattering: number;  // 散乱の巨視的断面積 Σs（/cm）
+  thickness: number;   // 窓の合計厚さ（cm、入射側＋出射側）
+}
+
+// 窓材のプリセット
+export type WindowMaterial = 'GE180' | 'quartz' | 'borosilicate';
+
+// 窓材ごとの巨視的断面積（組成と密度からの概算値）
+export const WINDOW_MATERIALS: Record<WindowMaterial, { label: string; absorption: number; scattering: number }> = {
+  GE180: { label: 'GE180 (aluminosilicate)', absorption: 0.015, scattering: 0.25 },
+  quartz: { label: 'Quartz (fused silica)', absorption: 0.0038, scattering: 0.23 },
+  borosilicate: { label: 'Borosilicate (Pyrex)', absorption: 3.9, scattering: 0.3 }
+};
+
+// 窓のみの透過率（%）
+export function calculateWindowTransmission(wavelength: number, window: WindowModel): number {
+  const sigma = window.absorption * (wavelength / PHYSICAL_CONSTANTS.lambda0) + window.scattering; // Σ(λ)
+  return Math.exp(-sigma * window.thickness) * 100;
+}
+
+// ガスのみの結果に窓の透過率を掛ける（偏極度は変わらない）
+export function applyWindowTransmission(result: SpinFilterResult, windowTransmission: number): SpinFilterResult {
+  const factor = windowTransmission / 100;
+  return {
+    neutronPolarization: result.neutronPolarization,
+    neutronTransmission: result.neutronTransmission * factor,
+    figureOfMerit: result.figureOfMerit * factor
+  };
+}